@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { AgentsOSEncryption } from '@/lib/encryption';
+import type { ReEncryptionReport } from '@/lib/encryption-rotation';
+
+export interface ReEncryptRequest {
+  dryRun?: boolean;     // Report without writing, true unless set to false
+  limit?: number;       // Users per batch
+  after?: string;       // nextCursor of the previous batch
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+const MAX_BATCH_SIZE = 200;
+
+type UserResult = ReEncryptionReport & { written: boolean; error?: string };
+
+/**
+ * POST /api/admin/re-encrypt
+ * Migration after rotating ENCRYPTION_SECRET: re-encrypts every user's Daytona API key and
+ * env vars under the current key, a batch of users per call. Authorized with CRON_SECRET as a
+ * bearer token; a dry run unless dryRun is false.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body: ReEncryptRequest = await request.json().catch(() => ({}));
+  const dryRun = body.dryRun !== false;
+  const limit = body.limit ?? DEFAULT_BATCH_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_SIZE) {
+    return NextResponse.json({ error: `Limit must be between 1 and ${MAX_BATCH_SIZE}` }, { status: 400 });
+  }
+
+  try {
+    // Fails early when ENCRYPTION_KEY_VERSION is malformed
+    const keyId = AgentsOSEncryption.getCurrentKeyId();
+    const userService = UserServiceAdmin.getInstance();
+    const userIds = await userService.listEnvironmentUserIds(limit, body.after);
+    const users: UserResult[] = [];
+
+    for (const [index, userId] of userIds.entries()) {
+      try {
+        users.push(await userService.reEncryptUserEnvironment(userId, dryRun));
+      } catch (error) {
+        // One broken document must not stop the migration
+        users.push({
+          userId,
+          reEncrypted: 0,
+          current: 0,
+          failed: [],
+          written: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      const { reEncrypted, failed, error } = users[index];
+      console.log(
+        `[re-encrypt ${keyId}${dryRun ? ', dry run' : ''}] ${index + 1}/${userIds.length} ${userId}: ` +
+        `${reEncrypted} re-encrypted, ${failed.length} failed${error ? `, ${error}` : ''}`
+      );
+    }
+
+    return NextResponse.json({
+      dryRun,
+      keyId,
+      users,
+      totals: {
+        users: users.length,
+        written: users.filter(user => user.written).length,
+        reEncrypted: users.reduce((sum, user) => sum + user.reEncrypted, 0),
+        current: users.reduce((sum, user) => sum + user.current, 0),
+        failed: users.reduce((sum, user) => sum + user.failed.length, 0),
+        errors: users.filter(user => user.error).length
+      },
+      // A full batch may have more users after it
+      nextCursor: userIds.length === limit ? userIds[userIds.length - 1] : null
+    });
+  } catch (error) {
+    console.error('Error re-encrypting environments:', error);
+    return NextResponse.json({
+      error: 'Failed to re-encrypt environments',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -4,8 +4,21 @@ import { DaytonaClient } from '@/lib/daytona';
 import { WorkspaceCreator } from '@/lib/workspace-creator';
 import { UserServiceAdmin } from '@/lib/user-service-admin';
 import admin from 'firebase-admin';
-import type { CreateWorkspaceResponse, UserWorkspace, Repository } from '@/types/workspace';
-import { DEFAULT_WORKSPACE_RESOURCES } from '@/lib/workspace-defaults';
+import type { CreateWorkspaceResponse, UserWorkspace, RepositoryToClone } from '@/types/workspace';
+import { validateWorkspaceOptions, WorkspaceOptionsError, type ResourceProfileId, type WorkspaceImageId } from '@/lib/workspace-defaults';
+import { createProgressStream, trackPhase, wantsEventStream, type WorkspaceProgressListener } from '@/lib/workspace-progress';
+import { WorkspaceSnapshotError, restoreCustomTerminals, type WorkspaceSnapshot } from '@/lib/workspace-snapshots';
+import { WorkspaceProvisioner } from '@/lib/provisioning/workspace-provisioner';
+import { Logger } from '@/lib/logger';
+import { RepositoryCloneError, validateCloneSpec } from '@/lib/repository-clone';
+import {
+  WorkspaceManifestError,
+  applyManifestCommands,
+  getManifestRepositories,
+  getRepositoryNameFromUrl,
+  validateManifest,
+  type WorkspaceManifest
+} from '@/lib/workspace-manifest';
 
 // Firebase-compatible workspace type
 type FirebaseUserWorkspace = Omit<UserWorkspace, 'createdAt' | 'updatedAt'> & {
@@ -14,17 +27,68 @@ type FirebaseUserWorkspace = Omit<UserWorkspace, 'createdAt' | 'updatedAt'> & {
 };
 
 interface CreateWorkspaceRequest {
-  repositories?: Repository[];
+  repositories?: RepositoryToClone[];
   workspaceName?: string;
   daytonaApiKey?: string;
+  resourceProfile?: ResourceProfileId;
   resources?: {
     cpu: number;
     memory: number;
     disk: number;
   };
+  image?: WorkspaceImageId;
+  snapshotId?: string;   // Restore a snapshot instead of cloning repositories
+  manifest?: unknown;    // WorkspaceManifest, e.g. an imported agentsos.yaml
 }
 
-export async function POST(request: Request): Promise<NextResponse<CreateWorkspaceResponse | { error: string }>> {
+const logger = Logger.create('CreateWorkspace');
+
+async function getReadySnapshot(userService: UserServiceAdmin, userId: string, snapshotId: string): Promise<WorkspaceSnapshot> {
+  const snapshot = (await userService.getWorkspaceSnapshots(userId)).find(s => s.id === snapshotId);
+  if (!snapshot) {
+    throw new WorkspaceSnapshotError(`Snapshot ${snapshotId} not found`, 404, 'SNAPSHOT_NOT_FOUND');
+  }
+  if (snapshot.status !== 'ready') {
+    throw new WorkspaceSnapshotError(`Snapshot ${snapshot.name} is ${snapshot.status}`, 409, 'SNAPSHOT_NOT_READY');
+  }
+  return snapshot;
+}
+
+/**
+ * Check the clone options of a repository with the provision API's rules, before they
+ * end up in shell commands; default and manual repositories are only created as directories
+ */
+function validateRepository(repository: RepositoryToClone): RepositoryToClone {
+  if (!repository.url || repository.sourceType === 'default' || repository.sourceType === 'manual') {
+    return repository;
+  }
+  return { ...repository, ...validateCloneSpec(repository) };
+}
+
+/**
+ * Set up what a manifest asks for beyond repositories: VSCode theme and extensions, and
+ * empty env vars for the names it lists so the user sees which values to fill in
+ */
+async function applyManifest(
+  manifest: WorkspaceManifest,
+  userService: UserServiceAdmin,
+  userId: string,
+  apiKey: string,
+  sandboxId: string,
+  onProgress?: WorkspaceProgressListener
+): Promise<void> {
+  const { vscode } = manifest;
+  if (vscode?.theme || vscode?.extensions?.length) {
+    await trackPhase(logger, onProgress, 'VSCode Settings', () => new WorkspaceProvisioner(sandboxId, apiKey).provision(vscode));
+  }
+
+  for (const repository of manifest.repositories) {
+    const projectName = repository.name ?? getRepositoryNameFromUrl(repository.url);
+    await userService.ensureProjectEnvKeys(userId, projectName, repository.env ?? []);
+  }
+}
+
+export async function POST(request: Request): Promise<Response> {
   try {
     // Check authentication
     const { userId } = await auth();
@@ -37,9 +101,31 @@ export async function POST(request: Request): Promise<NextResponse<CreateWorkspa
 
     // Parse request body
     const body: CreateWorkspaceRequest = await request.json().catch(() => ({}));
+
+    const userService = UserServiceAdmin.getInstance();
+
+    if (body.snapshotId && body.manifest !== undefined) {
+      return NextResponse.json(
+        { error: 'Restore a snapshot or import a manifest, not both', code: 'INVALID_REQUEST' },
+        { status: 400 }
+      );
+    }
+
+    // A restored or imported sandbox defaults to the snapshot's or manifest's image and resources
+    const snapshot = body.snapshotId ? await getReadySnapshot(userService, userId, body.snapshotId) : undefined;
+    const manifest = body.manifest !== undefined ? validateManifest(body.manifest) : undefined;
+    const repositories = body.repositories?.map(validateRepository);
+    const defaults = snapshot ?? manifest;
+
+    // Reject profiles and images we don't offer before anything is created
+    const options = validateWorkspaceOptions({
+      resourceProfile: body.resourceProfile ?? defaults?.resourceProfile,
+      resources: body.resources ?? defaults?.resources,
+      image: body.image ?? defaults?.image
+    });
+    const workspaceName = body.workspaceName ?? manifest?.name;
     
     // Get or store user's Daytona API key
-    const userService = UserServiceAdmin.getInstance();
     let apiKey: string | null = null;
     
     if (body.daytonaApiKey) {
@@ -58,41 +144,82 @@ export async function POST(request: Request): Promise<NextResponse<CreateWorkspa
       );
     }
 
-    // Create workspace using our service layer
-    const daytonaClient = new DaytonaClient(apiKey);
-    
-    const workspace = await daytonaClient.createWorkspace({
-      repositories: body.repositories,
-      workspaceName: body.workspaceName,
-      resources: body.resources || DEFAULT_WORKSPACE_RESOURCES
-    });
+    const createWorkspace = async (onProgress?: WorkspaceProgressListener): Promise<CreateWorkspaceResponse> => {
+      // Create workspace using our service layer
+      const daytonaClient = new DaytonaClient(apiKey);
 
-    // Save workspace data to Firebase user profile
-    
-    // Get repositories with URLs from the workspace creation
-    const repositoriesWithUrls = workspace.repositories || [];
-    
-    // Use WorkspaceCreator to create proper UserWorkspace structure
-    const workspaceCreator = new WorkspaceCreator(apiKey);
-    const userWorkspace = workspaceCreator.createUserWorkspace(workspace.sandboxId, repositoriesWithUrls);
-    
-    // Convert to Firebase format (with Timestamps)
-    const workspaceData: FirebaseUserWorkspace = {
-      ...userWorkspace,
-      createdAt: admin.firestore.Timestamp.fromDate(userWorkspace.createdAt),
-      updatedAt: admin.firestore.Timestamp.fromDate(userWorkspace.updatedAt),
+      const workspace = await daytonaClient.createWorkspace({
+        repositories: repositories ?? (manifest && getManifestRepositories(manifest)),
+        workspaceName,
+        resources: options.resources,
+        image: options.image,
+        snapshot,
+        agents: manifest?.agents,
+        onProgress
+      });
+
+      // Save workspace data to Firebase user profile
+
+      // Get repositories with URLs from the workspace creation
+      const repositoriesWithUrls = workspace.repositories || [];
+
+      // Use WorkspaceCreator to create proper UserWorkspace structure
+      const workspaceCreator = new WorkspaceCreator(apiKey);
+      const userWorkspace = workspaceCreator.createUserWorkspace(workspace.sandboxId, repositoriesWithUrls, workspaceName);
+
+      if (snapshot) {
+        userWorkspace.repositories = restoreCustomTerminals(snapshot, userWorkspace.repositories);
+      }
+
+      if (manifest) {
+        userWorkspace.repositories = applyManifestCommands(manifest, userWorkspace.repositories);
+        if (manifest.agents) {
+          userWorkspace.agents = manifest.agents;
+        }
+        await applyManifest(manifest, userService, userId, apiKey, workspace.sandboxId, onProgress);
+      }
+
+      // Convert to Firebase format (with Timestamps)
+      const workspaceData: FirebaseUserWorkspace = {
+        ...userWorkspace,
+        ...options,
+        createdAt: admin.firestore.Timestamp.fromDate(userWorkspace.createdAt),
+        updatedAt: admin.firestore.Timestamp.fromDate(userWorkspace.updatedAt),
+      };
+
+      await userService.createOrUpdateWorkspace(userId, workspaceData as unknown as UserWorkspace);
+
+      // Return workspace data with repositories
+      return {
+        sandboxId: workspace.sandboxId,
+        message: workspace.message,
+        repositories: repositoriesWithUrls
+      };
     };
 
-    await userService.createOrUpdateWorkspace(userId, workspaceData as unknown as UserWorkspace);
+    // Stream each phase as it runs when the client accepts server-sent events
+    if (wantsEventStream(request)) {
+      return createProgressStream(createWorkspace, error => {
+        console.error('Error creating workspace:', error);
+        return { error: error instanceof Error ? error.message : 'Failed to create workspace' };
+      });
+    }
 
-    // Return workspace data with repositories
-    return NextResponse.json({
-      sandboxId: workspace.sandboxId,
-      message: workspace.message,
-      repositories: repositoriesWithUrls
-    });
+    return NextResponse.json(await createWorkspace());
 
   } catch (error) {
+    if (
+      WorkspaceOptionsError.isWorkspaceOptionsError(error) ||
+      WorkspaceSnapshotError.isWorkspaceSnapshotError(error) ||
+      WorkspaceManifestError.isWorkspaceManifestError(error) ||
+      RepositoryCloneError.isRepositoryCloneError(error)
+    ) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Error creating workspace:', error);
     const errorMessage = error instanceof Error ? error.message : 'Failed to create workspace';
     
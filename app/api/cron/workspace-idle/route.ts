@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { DaytonaClient } from '@/lib/daytona';
+import { WorkspaceIdleMonitor, type ScheduledAction } from '@/lib/workspace-idle-monitor';
+
+// Sandboxes checked at once; each check is a few Daytona calls
+const CONCURRENCY = 10;
+
+/**
+ * GET /api/cron/workspace-idle
+ * Scheduled job (see vercel.json): stops idle sandboxes and starts sandboxes when work hours begin.
+ * Vercel sends CRON_SECRET as a bearer token.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const userService = UserServiceAdmin.getInstance();
+    const workspaces = await userService.getWorkspacesWithIdlePolicies();
+    const results: Array<{ sandboxId: string; action: ScheduledAction; error?: string }> = [];
+
+    // Users with several sandboxes share one API key lookup
+    const apiKeys = new Map<string, Promise<string | null>>();
+    const getApiKey = (uid: string) => {
+      if (!apiKeys.has(uid)) {
+        apiKeys.set(uid, userService.getDaytonaApiKey(uid));
+      }
+      return apiKeys.get(uid) as Promise<string | null>;
+    };
+
+    for (let i = 0; i < workspaces.length; i += CONCURRENCY) {
+      const chunk = workspaces.slice(i, i + CONCURRENCY);
+      const settled = await Promise.allSettled(chunk.map(async ({ uid, workspace }) => {
+        const apiKey = await getApiKey(uid);
+        return apiKey ? new WorkspaceIdleMonitor(new DaytonaClient(apiKey)).applyPolicy(workspace) : null;
+      }));
+
+      // One broken sandbox must not keep the others running
+      settled.forEach((outcome, index) => {
+        const { sandboxId } = chunk[index].workspace;
+        results.push(outcome.status === 'fulfilled'
+          ? { sandboxId, action: outcome.value }
+          : {
+            sandboxId,
+            action: null,
+            error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error'
+          });
+      });
+    }
+
+    return NextResponse.json({
+      checked: results.length,
+      stopped: results.filter(result => result.action === 'stopped').length,
+      started: results.filter(result => result.action === 'started').length,
+      failed: results.filter(result => result.error).length
+    });
+  } catch (error) {
+    console.error('Error applying idle policies:', error);
+    return NextResponse.json({
+      error: 'Failed to apply idle policies',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
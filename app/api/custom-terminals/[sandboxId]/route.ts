@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccess, authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { PortManager } from '@/lib/port-manager';
+import {
+  CustomTerminalError,
+  CustomTerminalManager,
+  addCustomTerminal,
+  findRepository,
+  removeCustomTerminal,
+  replaceRepository,
+  updateCustomTerminal,
+  validateCustomTerminalInput
+} from '@/lib/custom-terminals';
+
+type RouteContext = { params: Promise<{ sandboxId: string }> };
+
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  // Handle auth errors consistently
+  if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+    return handleWorkspaceAuthError(error);
+  }
+
+  if (CustomTerminalError.isCustomTerminalError(error)) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({
+    error: fallback,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+/**
+ * GET /api/custom-terminals/[sandboxId]?repository=name - List a repository's custom terminals
+ */
+export async function GET(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const repositoryName = new URL(request.url).searchParams.get('repository');
+
+    if (!repositoryName) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+
+    const { userWorkspace } = await authenticateWorkspaceAccess(sandboxId);
+    const repository = findRepository(userWorkspace.repositories, repositoryName);
+
+    return NextResponse.json({
+      success: true,
+      repository: repository.name,
+      terminals: repository.customTerminals ?? []
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list custom terminals');
+  }
+}
+
+/**
+ * POST /api/custom-terminals/[sandboxId] - Create and start a custom terminal
+ * Body: { repository, name, command, icon? }
+ */
+export async function POST(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const body: { repository?: string; name?: string; command?: string; icon?: string } = await request.json();
+
+    if (!body.repository) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+
+    const input = validateCustomTerminalInput(body);
+    const { sandbox, rootDir, userWorkspace, userId } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+    const current = findRepository(userWorkspace.repositories, body.repository);
+
+    // Avoid ports assigned anywhere in the workspace or already bound in the sandbox
+    const listeners = await PortManager.getListeningProcesses(sandbox, rootDir);
+    const unavailablePorts = new Set([...PortManager.getAssignedPorts(userWorkspace.repositories), ...listeners.keys()]);
+    const { repository, terminal } = addCustomTerminal(current, input, unavailablePorts);
+
+    await new CustomTerminalManager(sandbox, rootDir).start(repository, terminal);
+    await UserServiceAdmin.getInstance().updateWorkspaceRepositories(
+      userId,
+      sandboxId,
+      replaceRepository(userWorkspace.repositories, repository)
+    );
+
+    return NextResponse.json({
+      success: true,
+      repository: repository.name,
+      terminal,
+      terminals: repository.customTerminals
+    }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create custom terminal');
+  }
+}
+
+/**
+ * PATCH /api/custom-terminals/[sandboxId] - Rename or change the command of a custom terminal
+ * Body: { repository, id, name, command, icon? }
+ */
+export async function PATCH(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const body: { repository?: string; id?: string; name?: string; command?: string; icon?: string } = await request.json();
+
+    if (!body.repository || !body.id) {
+      return NextResponse.json({ error: 'repository and id are required' }, { status: 400 });
+    }
+
+    const input = validateCustomTerminalInput(body);
+    const { sandbox, rootDir, userWorkspace, userId } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+    const current = findRepository(userWorkspace.repositories, body.repository);
+    const { repository, terminal } = updateCustomTerminal(current, body.id, input);
+
+    // Restart so the tmux session runs the new command
+    const manager = new CustomTerminalManager(sandbox, rootDir);
+    await manager.stop(repository, terminal);
+    await manager.start(repository, terminal);
+
+    await UserServiceAdmin.getInstance().updateWorkspaceRepositories(
+      userId,
+      sandboxId,
+      replaceRepository(userWorkspace.repositories, repository)
+    );
+
+    return NextResponse.json({
+      success: true,
+      repository: repository.name,
+      terminal,
+      terminals: repository.customTerminals
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update custom terminal');
+  }
+}
+
+/**
+ * DELETE /api/custom-terminals/[sandboxId]?repository=name&id=terminal - Stop and remove a custom terminal
+ */
+export async function DELETE(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const repositoryName = searchParams.get('repository');
+    const id = searchParams.get('id');
+
+    if (!repositoryName || !id) {
+      return NextResponse.json({ error: 'repository and id are required' }, { status: 400 });
+    }
+
+    const { sandbox, rootDir, userWorkspace, userId } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+    const current = findRepository(userWorkspace.repositories, repositoryName);
+    const { repository, terminal } = removeCustomTerminal(current, id);
+
+    await new CustomTerminalManager(sandbox, rootDir).stop(current, terminal);
+    await UserServiceAdmin.getInstance().updateWorkspaceRepositories(
+      userId,
+      sandboxId,
+      replaceRepository(userWorkspace.repositories, repository)
+    );
+
+    return NextResponse.json({
+      success: true,
+      repository: repository.name,
+      terminals: repository.customTerminals
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete custom terminal');
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { EnvScopeError, parseEnvScope } from '@/lib/env-scopes';
 
 export interface DeleteEnvVarResponse {
   success: boolean;
@@ -8,7 +9,8 @@ export interface DeleteEnvVarResponse {
 }
 
 /**
- * DELETE /api/env-vars/[projectName]/[key] - Delete a specific environment variable
+ * DELETE /api/env-vars/[projectName]/[key]?scope=global|project|branch&branch=name
+ * Delete a specific environment variable from one scope, the project's by default
  */
 export async function DELETE(
   request: Request,
@@ -40,15 +42,24 @@ export async function DELETE(
       }, { status: 400 });
     }
 
+    const scope = parseEnvScope(new URL(request.url).searchParams);
+
     // Delete the environment variable
     const userService = UserServiceAdmin.getInstance();
-    await userService.deleteProjectEnvVar(userId, projectName, key);
+    await userService.deleteScopedEnvVar(userId, projectName, scope, key);
 
     return NextResponse.json({
       success: true
     });
 
   } catch (error) {
+    if (EnvScopeError.isEnvScopeError(error)) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.statusCode });
+    }
+
     console.error('Error deleting project environment variable:', error);
     return NextResponse.json({
       success: false,
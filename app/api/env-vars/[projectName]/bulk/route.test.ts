@@ -0,0 +1,106 @@
+/**
+ * Unit tests for /api/env-vars/[projectName]/bulk API route
+ * Tests .env import previews, imports into a scope and export
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+
+// Mock dependencies
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn()
+}));
+
+vi.mock('@/lib/user-service-admin', () => ({
+  UserServiceAdmin: {
+    getInstance: vi.fn()
+  }
+}));
+
+import { auth } from '@clerk/nextjs/server';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+
+const params = Promise.resolve({ projectName: 'api' });
+
+const importRequest = (body: object, query = '') =>
+  new NextRequest(`http://localhost/api/env-vars/api/bulk${query}`, {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+
+describe('/api/env-vars/[projectName]/bulk', () => {
+  let mockUserService: {
+    getScopedEnvVars: ReturnType<typeof vi.fn>;
+    storeScopedEnvVars: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Silence console.error during tests to keep output clean
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockUserService = {
+      getScopedEnvVars: vi.fn().mockResolvedValue({ EXISTING: 'old', SAME: 'same' }),
+      storeScopedEnvVars: vi.fn()
+    };
+
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user-123' });
+    (UserServiceAdmin.getInstance as unknown as ReturnType<typeof vi.fn>).mockReturnValue(mockUserService);
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+
+    const response = await POST(importRequest({ content: 'A=1' }), { params });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should preview an import without saving it', async () => {
+    const response = await POST(importRequest({ content: 'NEW=1\nEXISTING=new\nSAME=same', dryRun: true }), { params });
+    const data = await response.json();
+
+    expect(data).toEqual({
+      success: true,
+      preview: { added: ['NEW'], overwritten: ['EXISTING'], unchanged: ['SAME'] }
+    });
+    expect(mockUserService.storeScopedEnvVars).not.toHaveBeenCalled();
+  });
+
+  it('should import into the requested scope, keeping existing values unless overwriting', async () => {
+    const content = 'NEW=1\nEXISTING=new';
+
+    await POST(importRequest({ content, overwrite: false }, '?scope=global'), { params });
+    expect(mockUserService.storeScopedEnvVars).toHaveBeenLastCalledWith('user-123', 'api', { scope: 'global' }, { NEW: '1' });
+
+    const response = await POST(importRequest({ content }, '?scope=branch&branch=feature/login'), { params });
+    const data = await response.json();
+
+    expect(mockUserService.storeScopedEnvVars).toHaveBeenLastCalledWith(
+      'user-123',
+      'api',
+      { scope: 'branch', branch: 'feature/login' },
+      { NEW: '1', EXISTING: 'new' }
+    );
+    expect(data.imported).toEqual(['NEW', 'EXISTING']);
+  });
+
+  it('should reject files with invalid lines', async () => {
+    const response = await POST(importRequest({ content: 'GOOD=1\nthis is not env' }), { params });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.errors).toEqual([{ line: 2, message: 'Expected KEY=value' }]);
+    expect(mockUserService.storeScopedEnvVars).not.toHaveBeenCalled();
+  });
+
+  it('should export the scope as a .env file', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/env-vars/api/bulk'), { params });
+    const content = await response.text();
+
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename=".env"');
+    expect(mockUserService.getScopedEnvVars).toHaveBeenCalledWith('user-123', 'api', { scope: 'project' });
+    expect(content).toBe('# AgentsOS environment variables\n# Project: api\n\nEXISTING=old\nSAME=same\n');
+  });
+});
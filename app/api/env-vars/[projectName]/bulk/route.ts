@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { EnvScopeError, parseEnvScope, type EnvScope } from '@/lib/env-scopes';
+import {
+  parseDotenv,
+  planDotenvImport,
+  serializeDotenv,
+  type DotenvImportPlan,
+  type DotenvParseError
+} from '@/lib/dotenv';
+
+export interface BulkImportRequest {
+  content: string;        // .env file content
+  dryRun?: boolean;       // Only preview what would change
+  overwrite?: boolean;    // Replace values that are already set (default true)
+}
+
+export interface BulkImportResponse {
+  success: boolean;
+  preview?: DotenvImportPlan;
+  imported?: string[];
+  envVars?: Record<string, string>;
+  errors?: DotenvParseError[];
+  error?: string;
+}
+
+function describeScope(projectName: string, scope: EnvScope): string {
+  if (scope.scope === 'global') return 'Global (all projects)';
+  if (scope.scope === 'branch') return `Project: ${projectName}, branch: ${scope.branch}`;
+  return `Project: ${projectName}`;
+}
+
+/**
+ * GET /api/env-vars/[projectName]/bulk?scope=global|project|branch&branch=name
+ * Download the decrypted variables of one scope as a .env file
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ projectName: string }> }
+): Promise<Response> {
+  try {
+    // Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { projectName } = await params;
+    const scope = parseEnvScope(new URL(request.url).searchParams);
+
+    const userService = UserServiceAdmin.getInstance();
+    const envVars = await userService.getScopedEnvVars(userId, projectName, scope);
+    const content = serializeDotenv(envVars, `AgentsOS environment variables\n${describeScope(projectName, scope)}`);
+
+    return new Response(content, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': 'attachment; filename=".env"',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    if (EnvScopeError.isEnvScopeError(error)) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.statusCode });
+    }
+
+    console.error('Error exporting environment variables:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to export environment variables'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/env-vars/[projectName]/bulk?scope=global|project|branch&branch=name
+ * Import a pasted or uploaded .env file into one scope. With dryRun the variables
+ * that would be added or overwritten are returned without saving anything.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ projectName: string }> }
+): Promise<NextResponse<BulkImportResponse>> {
+  try {
+    // Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { projectName } = await params;
+    const scope = parseEnvScope(new URL(request.url).searchParams);
+    const body: BulkImportRequest = await request.json();
+
+    if (typeof body.content !== 'string') {
+      return NextResponse.json({
+        success: false,
+        error: '.env content is required'
+      }, { status: 400 });
+    }
+
+    // Nothing is imported from a file with mistakes in it
+    const { variables, errors } = parseDotenv(body.content);
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `Found ${errors.length} invalid ${errors.length === 1 ? 'line' : 'lines'} in the .env file`,
+        errors
+      }, { status: 400 });
+    }
+
+    const userService = UserServiceAdmin.getInstance();
+    const existing = await userService.getScopedEnvVars(userId, projectName, scope);
+    const preview = planDotenvImport(existing, variables);
+
+    if (body.dryRun) {
+      return NextResponse.json({
+        success: true,
+        preview
+      });
+    }
+
+    const imported = body.overwrite === false ? preview.added : [...preview.added, ...preview.overwritten];
+    if (imported.length > 0) {
+      await userService.storeScopedEnvVars(
+        userId,
+        projectName,
+        scope,
+        Object.fromEntries(imported.map(key => [key, variables[key]]))
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      preview,
+      imported,
+      envVars: await userService.getScopedEnvVars(userId, projectName, scope)
+    });
+
+  } catch (error) {
+    if (EnvScopeError.isEnvScopeError(error)) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.statusCode });
+    }
+
+    console.error('Error importing environment variables:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to import environment variables'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for /api/env-vars/[projectName]/drift API route
+ * Tests comparing the sandbox env file with the cloud and pulling local changes
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from './route';
+
+// Mock dependencies
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn()
+}));
+
+vi.mock('@/lib/user-service-admin', () => ({
+  UserServiceAdmin: {
+    getInstance: vi.fn()
+  }
+}));
+
+vi.mock('@/lib/workspace-env-sync', () => ({
+  WorkspaceEnvSync: vi.fn()
+}));
+
+import { auth } from '@clerk/nextjs/server';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { WorkspaceEnvSync } from '@/lib/workspace-env-sync';
+
+const params = Promise.resolve({ projectName: 'api' });
+
+describe('/api/env-vars/[projectName]/drift', () => {
+  let mockUserService: {
+    getDaytonaApiKey: ReturnType<typeof vi.fn>;
+    getEnvScopeLayers: ReturnType<typeof vi.fn>;
+    getEnvSyncTargets: ReturnType<typeof vi.fn>;
+    storeScopedEnvVars: ReturnType<typeof vi.fn>;
+  };
+  let mockWorkspaceEnvSync: {
+    readExistingEnvFile: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Silence console.error during tests to keep output clean
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockUserService = {
+      getDaytonaApiKey: vi.fn().mockResolvedValue('daytona-api-key'),
+      getEnvScopeLayers: vi.fn().mockResolvedValue({
+        project: { API_URL: 'cloud-api' },
+        branch: { FEATURE_FLAG: 'on' }
+      }),
+      getEnvSyncTargets: vi.fn().mockResolvedValue([{ path: '.env.local', format: 'dotenv' }]),
+      storeScopedEnvVars: vi.fn()
+    };
+    mockWorkspaceEnvSync = {
+      readExistingEnvFile: vi.fn().mockResolvedValue({ API_URL: 'local-api', FEATURE_FLAG: 'off', AGENT_TOKEN: 'abc' })
+    };
+
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: 'user-123' });
+    (UserServiceAdmin.getInstance as unknown as ReturnType<typeof vi.fn>).mockReturnValue(mockUserService);
+    (WorkspaceEnvSync as unknown as ReturnType<typeof vi.fn>).mockImplementation(() => mockWorkspaceEnvSync);
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    (auth as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ userId: null });
+
+    const response = await GET(new NextRequest('http://localhost/api/env-vars/api/drift?workspaceId=sandbox-id'), { params });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should require a workspace', async () => {
+    const response = await GET(new NextRequest('http://localhost/api/env-vars/api/drift'), { params });
+
+    expect(response.status).toBe(400);
+    expect(mockWorkspaceEnvSync.readExistingEnvFile).not.toHaveBeenCalled();
+  });
+
+  it('should compare the first target file with the cloud variables', async () => {
+    const response = await GET(
+      new NextRequest('http://localhost/api/env-vars/api/drift?workspaceId=sandbox-id&branch=feature/login'),
+      { params }
+    );
+    const data = await response.json();
+
+    expect(mockUserService.getEnvScopeLayers).toHaveBeenCalledWith('user-123', 'api', 'feature/login');
+    expect(mockWorkspaceEnvSync.readExistingEnvFile).toHaveBeenCalledWith('sandbox-id', 'api', { path: '.env.local', format: 'dotenv' });
+    expect(data).toEqual({
+      success: true,
+      drift: {
+        path: '.env.local',
+        fileExists: true,
+        localOnly: ['AGENT_TOKEN'],
+        changed: [{ key: 'API_URL', source: 'project' }, { key: 'FEATURE_FLAG', source: 'branch' }],
+        missing: []
+      }
+    });
+    expect(mockUserService.storeScopedEnvVars).not.toHaveBeenCalled();
+  });
+
+  it('should pull local changes into the scope each value belongs to', async () => {
+    mockUserService.getEnvScopeLayers
+      .mockResolvedValueOnce({ project: { API_URL: 'cloud-api' }, branch: { FEATURE_FLAG: 'on' } })
+      .mockResolvedValueOnce({ project: { API_URL: 'local-api', AGENT_TOKEN: 'abc' }, branch: { FEATURE_FLAG: 'off' } });
+
+    const response = await POST(new NextRequest('http://localhost/api/env-vars/api/drift', {
+      method: 'POST',
+      body: JSON.stringify({ workspaceId: 'sandbox-id', branch: 'feature/login' })
+    }), { params });
+    const data = await response.json();
+
+    expect(mockUserService.storeScopedEnvVars).toHaveBeenCalledWith(
+      'user-123', 'api', { scope: 'project' }, { AGENT_TOKEN: 'abc', API_URL: 'local-api' }
+    );
+    expect(mockUserService.storeScopedEnvVars).toHaveBeenCalledWith(
+      'user-123', 'api', { scope: 'branch', branch: 'feature/login' }, { FEATURE_FLAG: 'off' }
+    );
+    expect(data.pulled).toEqual(['AGENT_TOKEN', 'API_URL', 'FEATURE_FLAG']);
+    expect(data.drift).toMatchObject({ localOnly: [], changed: [] });
+  });
+
+  it('should return 400 when the Daytona API key is missing', async () => {
+    mockUserService.getDaytonaApiKey.mockResolvedValue(null);
+
+    const response = await POST(new NextRequest('http://localhost/api/env-vars/api/drift', {
+      method: 'POST',
+      body: JSON.stringify({ workspaceId: 'sandbox-id', keys: ['AGENT_TOKEN'] })
+    }), { params });
+
+    expect(response.status).toBe(400);
+    expect(mockUserService.storeScopedEnvVars).not.toHaveBeenCalled();
+  });
+});
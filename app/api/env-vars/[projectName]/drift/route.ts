@@ -0,0 +1,183 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { WorkspaceEnvSync } from '@/lib/workspace-env-sync';
+import { EnvScopeError, resolveEnvScopes, validateEnvBranch } from '@/lib/env-scopes';
+import { EnvSyncTargetError } from '@/lib/env-sync-targets';
+import { detectEnvDrift, planEnvDriftPull, type EnvDrift } from '@/lib/env-drift';
+
+export interface PullEnvDriftRequest {
+  workspaceId: string;
+  branch?: string;      // Checked out branch, whose overrides the file was synced with
+  keys?: string[];      // Drifted keys to store in the cloud, all of them by default
+}
+
+export interface EnvDriftResponse {
+  success: boolean;
+  drift?: EnvDrift;
+  pulled?: string[];
+  skipped?: string[];
+  error?: string;
+}
+
+const MISSING_DAYTONA_KEY = 'Daytona API key not found. Please configure it in settings.';
+
+/**
+ * Read the project's first sync target from the sandbox and compare it with the cloud
+ */
+async function readDrift(
+  userService: UserServiceAdmin,
+  daytonaApiKey: string,
+  userId: string,
+  projectName: string,
+  workspaceId: string,
+  branch?: string
+) {
+  const [layers, [target]] = await Promise.all([
+    userService.getEnvScopeLayers(userId, projectName, branch),
+    userService.getEnvSyncTargets(userId, projectName)
+  ]);
+  const local = await new WorkspaceEnvSync(daytonaApiKey).readExistingEnvFile(workspaceId, projectName, target);
+
+  return {
+    local,
+    drift: detectEnvDrift(resolveEnvScopes(layers), local, target.path)
+  };
+}
+
+function errorResponse(error: unknown, fallback: string): NextResponse<EnvDriftResponse> {
+  if (EnvScopeError.isEnvScopeError(error) || EnvSyncTargetError.isEnvSyncTargetError(error)) {
+    return NextResponse.json({
+      success: false,
+      error: error.message
+    }, { status: error.statusCode });
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({
+    success: false,
+    error: fallback
+  }, { status: 500 });
+}
+
+/**
+ * GET /api/env-vars/[projectName]/drift?workspaceId=id&branch=name
+ * Compare the project's env file in the sandbox with its cloud variables, without changing either
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ projectName: string }> }
+): Promise<NextResponse<EnvDriftResponse>> {
+  try {
+    // Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { projectName } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const workspaceId = searchParams.get('workspaceId');
+    if (!workspaceId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Workspace ID is required'
+      }, { status: 400 });
+    }
+
+    const branchParam = searchParams.get('branch');
+    const branch = branchParam ? validateEnvBranch(branchParam) : undefined;
+
+    const userService = UserServiceAdmin.getInstance();
+    const daytonaApiKey = await userService.getDaytonaApiKey(userId);
+    if (!daytonaApiKey) {
+      return NextResponse.json({
+        success: false,
+        error: MISSING_DAYTONA_KEY
+      }, { status: 400 });
+    }
+
+    const { drift } = await readDrift(userService, daytonaApiKey, userId, projectName, workspaceId, branch);
+
+    return NextResponse.json({
+      success: true,
+      drift
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to compare environment variables');
+  }
+}
+
+/**
+ * POST /api/env-vars/[projectName]/drift
+ * Pull variables added or edited in the sandbox into the cloud, so the next sync keeps them
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ projectName: string }> }
+): Promise<NextResponse<EnvDriftResponse>> {
+  try {
+    // Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { projectName } = await params;
+    const body: PullEnvDriftRequest = await request.json();
+    if (!body.workspaceId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Workspace ID is required'
+      }, { status: 400 });
+    }
+    if (body.keys !== undefined && (!Array.isArray(body.keys) || body.keys.some(key => typeof key !== 'string'))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Keys must be a list of variable names'
+      }, { status: 400 });
+    }
+
+    const branch = body.branch ? validateEnvBranch(body.branch) : undefined;
+
+    const userService = UserServiceAdmin.getInstance();
+    const daytonaApiKey = await userService.getDaytonaApiKey(userId);
+    if (!daytonaApiKey) {
+      return NextResponse.json({
+        success: false,
+        error: MISSING_DAYTONA_KEY
+      }, { status: 400 });
+    }
+
+    const { local, drift } = await readDrift(userService, daytonaApiKey, userId, projectName, body.workspaceId, branch);
+    const pull = planEnvDriftPull(drift, local ?? {}, body.keys);
+
+    if (Object.keys(pull.project).length > 0) {
+      await userService.storeScopedEnvVars(userId, projectName, { scope: 'project' }, pull.project);
+    }
+    // Only keys whose cloud value came from a branch override land here, so a branch is set
+    if (branch && Object.keys(pull.branch).length > 0) {
+      await userService.storeScopedEnvVars(userId, projectName, { scope: 'branch', branch }, pull.branch);
+    }
+
+    // The file is unchanged, so compare it with the updated cloud variables
+    const layers = await userService.getEnvScopeLayers(userId, projectName, branch);
+
+    return NextResponse.json({
+      success: true,
+      pulled: [...Object.keys(pull.project), ...Object.keys(pull.branch)],
+      skipped: pull.skipped,
+      drift: detectEnvDrift(resolveEnvScopes(layers), local, drift.path)
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to pull local changes');
+  }
+}
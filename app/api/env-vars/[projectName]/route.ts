@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { EnvScopeError, parseEnvScope, resolveEnvScopes, type EnvVarScope, type ResolvedEnvVar } from '@/lib/env-scopes';
 
 export interface EnvVarData {
   key: string;
@@ -10,11 +11,22 @@ export interface EnvVarData {
 export interface EnvVarsResponse {
   success: boolean;
   envVars?: Record<string, string>;
+  scope?: EnvVarScope;
+  effective?: Record<string, ResolvedEnvVar>;   // What the project gets from every scope
   error?: string;
 }
 
+function scopeErrorResponse(error: EnvScopeError): NextResponse<EnvVarsResponse> {
+  return NextResponse.json({
+    success: false,
+    error: error.message
+  }, { status: error.statusCode });
+}
+
 /**
- * GET /api/env-vars/[projectName] - Get all environment variables for a project
+ * GET /api/env-vars/[projectName]?scope=global|project|branch&branch=name
+ * Get the environment variables of one scope (the project's by default), along with
+ * the effective variables of the project and where each value comes from
  */
 export async function GET(
   request: Request,
@@ -38,16 +50,28 @@ export async function GET(
       }, { status: 400 });
     }
 
-    // Get environment variables for the project
+    const scope = parseEnvScope(new URL(request.url).searchParams);
+
+    // Get every scope that applies to the project, returning the requested one
     const userService = UserServiceAdmin.getInstance();
-    const envVars = await userService.getProjectEnvVars(userId, projectName);
+    const layers = await userService.getEnvScopeLayers(
+      userId,
+      projectName,
+      scope.scope === 'branch' ? scope.branch : undefined
+    );
 
     return NextResponse.json({
       success: true,
-      envVars
+      envVars: layers[scope.scope] ?? {},
+      scope: scope.scope,
+      effective: resolveEnvScopes(layers)
     });
 
   } catch (error) {
+    if (EnvScopeError.isEnvScopeError(error)) {
+      return scopeErrorResponse(error);
+    }
+
     console.error('Error getting project environment variables:', error);
     return NextResponse.json({
       success: false,
@@ -57,7 +81,8 @@ export async function GET(
 }
 
 /**
- * POST /api/env-vars/[projectName] - Save/update environment variables for a project
+ * POST /api/env-vars/[projectName]?scope=global|project|branch&branch=name
+ * Save/update environment variables in one scope, the project's by default
  */
 export async function POST(
   request: Request,
@@ -81,6 +106,7 @@ export async function POST(
       }, { status: 400 });
     }
 
+    const scope = parseEnvScope(new URL(request.url).searchParams);
     const body: { envVars: EnvVarData[] } = await request.json();
     
     if (!body.envVars || !Array.isArray(body.envVars)) {
@@ -132,18 +158,23 @@ export async function POST(
     const userService = UserServiceAdmin.getInstance();
     
     for (const envVar of body.envVars) {
-      await userService.storeProjectEnvVar(userId, projectName, envVar.key, envVar.value);
+      await userService.storeScopedEnvVar(userId, projectName, scope, envVar.key, envVar.value);
     }
 
     // Return updated environment variables
-    const updatedEnvVars = await userService.getProjectEnvVars(userId, projectName);
+    const updatedEnvVars = await userService.getScopedEnvVars(userId, projectName, scope);
 
     return NextResponse.json({
       success: true,
-      envVars: updatedEnvVars
+      envVars: updatedEnvVars,
+      scope: scope.scope
     });
 
   } catch (error) {
+    if (EnvScopeError.isEnvScopeError(error)) {
+      return scopeErrorResponse(error);
+    }
+
     console.error('Error saving project environment variables:', error);
     return NextResponse.json({
       success: false,
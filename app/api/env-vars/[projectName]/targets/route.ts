@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { EnvSyncTargetError, validateEnvSyncTargets, type EnvSyncTarget } from '@/lib/env-sync-targets';
+
+export interface EnvSyncTargetsResponse {
+  success: boolean;
+  targets?: EnvSyncTarget[];
+  error?: string;
+}
+
+/**
+ * GET /api/env-vars/[projectName]/targets
+ * Files a sync writes in the project, with their formats
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ projectName: string }> }
+): Promise<NextResponse<EnvSyncTargetsResponse>> {
+  try {
+    // Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { projectName } = await params;
+    const userService = UserServiceAdmin.getInstance();
+
+    return NextResponse.json({
+      success: true,
+      targets: await userService.getEnvSyncTargets(userId, projectName)
+    });
+
+  } catch (error) {
+    console.error('Error retrieving env sync targets:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve sync targets'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/env-vars/[projectName]/targets
+ * Replace the files a sync writes in the project
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ projectName: string }> }
+): Promise<NextResponse<EnvSyncTargetsResponse>> {
+  try {
+    // Authenticate user
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { projectName } = await params;
+    const body: { targets?: unknown } = await request.json();
+    const targets = validateEnvSyncTargets(body.targets);
+
+    const userService = UserServiceAdmin.getInstance();
+    await userService.storeEnvSyncTargets(userId, projectName, targets);
+
+    return NextResponse.json({
+      success: true,
+      targets
+    });
+
+  } catch (error) {
+    if (EnvSyncTargetError.isEnvSyncTargetError(error)) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.statusCode });
+    }
+
+    console.error('Error storing env sync targets:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save sync targets'
+    }, { status: 500 });
+  }
+}
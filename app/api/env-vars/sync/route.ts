@@ -2,10 +2,13 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { UserServiceAdmin } from '@/lib/user-service-admin';
 import { WorkspaceEnvSync } from '@/lib/workspace-env-sync';
+import { EnvScopeError, getEnvValues, resolveEnvScopes, validateEnvBranch, type EnvVarScope } from '@/lib/env-scopes';
+import { formatEnvTargetFile, type EnvSyncTarget, type EnvTargetFormat } from '@/lib/env-sync-targets';
 
 export interface SyncEnvVarsRequest {
   workspaceId: string;
   projectName: string;
+  branch?: string;             // Checked out branch, whose overrides are applied
   mode?: 'smart' | 'command';  // 'smart' uses Daytona API, 'command' returns shell command
   conflictResolution?: 'prefer-local' | 'prefer-cloud';
 }
@@ -24,6 +27,17 @@ export interface SyncEnvVarsResponse {
     }>;
     fileExisted?: boolean;
     backupCreated?: boolean;
+    sources?: Record<string, EnvVarScope>;
+    targets?: Array<{          // Each file written when the project has several
+      path: string;
+      format: EnvTargetFormat;
+      added: string[];
+      updated: string[];
+      preserved: string[];
+      conflicts: string[];
+      fileExisted: boolean;
+      backupCreated: boolean;
+    }>;
     content?: string;
     command?: string;
   };
@@ -60,10 +74,13 @@ export async function POST(request: Request): Promise<NextResponse<SyncEnvVarsRe
       }, { status: 400 });
     }
 
-    // Get environment variables from Firestore
-    const userService = UserServiceAdmin.getInstance();
-    const envVars = await userService.getProjectEnvVars(userId, body.projectName);
+    const branch = body.branch !== undefined ? validateEnvBranch(body.branch) : undefined;
 
+    // Get global, project and branch environment variables from Firestore
+    const userService = UserServiceAdmin.getInstance();
+    const layers = await userService.getEnvScopeLayers(userId, body.projectName, branch);
+    const resolved = resolveEnvScopes(layers);
+    const envVars = getEnvValues(resolved);
 
     if (Object.keys(envVars).length === 0) {
       return NextResponse.json({
@@ -72,6 +89,9 @@ export async function POST(request: Request): Promise<NextResponse<SyncEnvVarsRe
       }, { status: 404 });
     }
 
+    // Files to write in the project, .env.local unless configured
+    const targets = await userService.getEnvSyncTargets(userId, body.projectName);
+
     // Determine sync mode
     const mode = body.mode || 'command';
     const conflictResolution = body.conflictResolution || 'prefer-local';
@@ -90,13 +110,14 @@ export async function POST(request: Request): Promise<NextResponse<SyncEnvVarsRe
 
         // Perform smart sync
         const syncService = new WorkspaceEnvSync(daytonaApiKey);
-        const mergeResult = await syncService.syncEnvironmentVariables(
+        const mergeResult = await syncService.syncScopedEnvironmentVariables(
           body.workspaceId,
-          envVars,
+          layers,
           body.projectName,
           {
             conflictResolution,
-            createBackup: true
+            createBackup: true,
+            targets
           }
         );
 
@@ -113,7 +134,18 @@ export async function POST(request: Request): Promise<NextResponse<SyncEnvVarsRe
               resolution: c.resolution
             })),
             fileExisted: mergeResult.fileExisted,
-            backupCreated: mergeResult.backupCreated
+            backupCreated: mergeResult.backupCreated,
+            sources: mergeResult.sources,
+            targets: mergeResult.targets?.map(result => ({
+              path: result.target.path,
+              format: result.target.format,
+              added: result.added,
+              updated: result.updated,
+              preserved: result.preserved,
+              conflicts: result.conflicts.map(c => c.key),
+              fileExisted: result.fileExisted,
+              backupCreated: result.backupCreated
+            }))
           }
         });
       } catch (error) {
@@ -126,9 +158,13 @@ export async function POST(request: Request): Promise<NextResponse<SyncEnvVarsRe
       }
     }
 
-    // Command mode - return shell command
-    const envContent = generateEnvFileContent(envVars, body.projectName);
-    const command = generateWriteCommand(envContent);
+    // Command mode - return shell command writing every target file
+    const files = targets.map(target => ({
+      target,
+      content: generateTargetFileContent(envVars, body.projectName, target)
+    }));
+    const envContent = files[0].content;
+    const command = files.map(({ target, content }) => generateWriteCommand(content, target.path)).join('\n');
 
     return NextResponse.json({
       success: true,
@@ -145,6 +181,13 @@ export async function POST(request: Request): Promise<NextResponse<SyncEnvVarsRe
     });
 
   } catch (error) {
+    if (EnvScopeError.isEnvScopeError(error)) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: error.statusCode });
+    }
+
     console.error('Error syncing environment variables:', error);
     return NextResponse.json({
       success: false,
@@ -189,11 +232,29 @@ function generateEnvFileContent(envVars: Record<string, string>, projectName: st
 }
 
 /**
- * Generate a shell command to write the env file
+ * Generate the content of a target file in its format
  */
-function generateWriteCommand(content: string): string {
+function generateTargetFileContent(envVars: Record<string, string>, projectName: string, target: EnvSyncTarget): string {
+  if (target.format === 'dotenv') {
+    return generateEnvFileContent(envVars, projectName);
+  }
+  return formatEnvTargetFile(
+    envVars,
+    target.format,
+    `AgentsOS Managed Environment Variables\nLast synced: ${new Date().toISOString()}\nProject: ${projectName}`
+  );
+}
+
+/**
+ * Generate a shell command to write an env file, creating its directory if needed
+ */
+function generateWriteCommand(content: string, path: string): string {
+  // Target paths are validated to plain relative segments, safe to use unquoted
+  const directory = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  const mkdir = directory ? `mkdir -p ${directory} && ` : '';
+
   // Use cat with heredoc for cleaner command (no escaping needed)
-  return `cat > .env.local << 'AGENTSOS_ENV_EOF'
+  return `${mkdir}cat > ${path} << 'AGENTSOS_ENV_EOF'
 ${content}
 AGENTSOS_ENV_EOF`;
 }
\ No newline at end of file
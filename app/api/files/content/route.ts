@@ -1,179 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceFileSystem, WorkspaceFileError } from '@/lib/workspace-files';
 
-// Mock file contents - later this will read from Daytona workspace
-const mockFileContents: Record<string, string> = {
-  '/src/App.tsx': `import React from 'react';
-import { Button } from './components/Button';
-import { Input } from './components/Input';
-import { formatMessage } from './utils/helpers';
-
-const App: React.FC = () => {
-  const [message, setMessage] = React.useState('');
-
-  const handleClick = () => {
-    console.log(formatMessage(message));
-  };
-
-  return (
-    <div className="app">
-      <h1>My React App</h1>
-      <Input 
-        value={message}
-        onChange={(e) => setMessage(e.target.value)}
-        placeholder="Enter a message"
-      />
-      <Button onClick={handleClick}>
-        Click me!
-      </Button>
-    </div>
-  );
-};
-
-export default App;`,
-
-  '/src/components/Button.tsx': `import React from 'react';
-
-interface ButtonProps {
-  children: React.ReactNode;
-  onClick?: () => void;
-  disabled?: boolean;
-  variant?: 'primary' | 'secondary';
-}
-
-export const Button: React.FC<ButtonProps> = ({ 
-  children, 
-  onClick, 
-  disabled = false,
-  variant = 'primary' 
-}) => {
-  return (
-    <button
-      onClick={onClick}
-      disabled={disabled}
-      className={\`btn btn-\${variant}\`}
-    >
-      {children}
-    </button>
-  );
-};`,
-
-  '/src/components/Input.tsx': `import React from 'react';
-
-interface InputProps {
-  value: string;
-  onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
-  placeholder?: string;
-  disabled?: boolean;
-  type?: 'text' | 'email' | 'password';
-}
-
-export const Input: React.FC<InputProps> = ({
-  value,
-  onChange,
-  placeholder,
-  disabled = false,
-  type = 'text'
-}) => {
-  return (
-    <input
-      type={type}
-      value={value}
-      onChange={onChange}
-      placeholder={placeholder}
-      disabled={disabled}
-      className="input"
-    />
-  );
-};`,
-
-  '/src/utils/helpers.ts': `export const formatMessage = (message: string): string => {
-  return \`[INFO] \${new Date().toISOString()}: \${message}\`;
-};
-
-export const debounce = <T extends (...args: any[]) => any>(
-  func: T,
-  delay: number
-): ((...args: Parameters<T>) => void) => {
-  let timeoutId: NodeJS.Timeout;
-  
-  return (...args: Parameters<T>) => {
-    clearTimeout(timeoutId);
-    timeoutId = setTimeout(() => func(...args), delay);
-  };
-};
-
-export const capitalizeFirst = (str: string): string => {
-  return str.charAt(0).toUpperCase() + str.slice(1);
-};`,
-
-  '/src/index.ts': `import App from './App';
-
-export { App };
-export * from './components';
-export * from './utils';`,
-
-  '/package.json': `{
-  "name": "monaco-demo-project",
-  "version": "1.0.0",
-  "description": "A demo project for Monaco Editor integration",
-  "main": "src/index.ts",
-  "scripts": {
-    "dev": "vite",
-    "build": "tsc && vite build",
-    "preview": "vite preview",
-    "test": "vitest",
-    "lint": "eslint . --ext ts,tsx --report-unused-disable-directives --max-warnings 0"
-  },
-  "dependencies": {
-    "react": "^19.1.0",
-    "react-dom": "^19.1.0"
-  },
-  "devDependencies": {
-    "@types/react": "^19.0.0",
-    "@types/react-dom": "^19.0.0",
-    "@typescript-eslint/eslint-plugin": "^8.0.0",
-    "@typescript-eslint/parser": "^8.0.0",
-    "eslint": "^9.18.0",
-    "typescript": "^5.7.3",
-    "vite": "^6.0.0",
-    "vitest": "^2.0.0"
-  }
-}`,
-
-  '/README.md': `# Monaco Demo Project
-
-This is a sample React project used to demonstrate Monaco Editor integration with AgentsOS.
-
-## Features
-
-- **React Components**: Reusable Button and Input components
-- **TypeScript**: Full type safety throughout the project
-- **Utilities**: Helper functions for common operations
-- **Modern Setup**: Vite, ESLint, and Vitest for development
-
-## Getting Started
-
-\`\`\`bash
-npm install
-npm run dev
-\`\`\`
-
-## Project Structure
-
-- \`src/components/\` - Reusable React components
-- \`src/utils/\` - Utility functions and helpers
-- \`src/App.tsx\` - Main application component
-- \`src/index.ts\` - Module exports
-
-## Usage
-
-The main App component demonstrates how to use the Button and Input components together with utility functions.
-`
-};
-
+/**
+ * GET /api/files/content?workspaceId=<sandboxId>&repository=<name>&path=<path>
+ * Reads a file from projects/<repository> inside the user's sandbox
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
+    const workspaceId = searchParams.get('workspaceId');
+    const repository = searchParams.get('repository');
     const filePath = searchParams.get('path');
     
     if (!filePath) {
@@ -186,30 +23,39 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // TODO: Later, get workspaceId and read real file from Daytona workspace
-    // const workspaceId = searchParams.get('workspaceId');
-    
-    const content = mockFileContents[filePath];
-    
-    if (content === undefined) {
+    if (!workspaceId || !repository) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'File not found' 
+          error: 'workspaceId and repository are required' 
         },
-        { status: 404 }
+        { status: 400 }
       );
     }
 
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(workspaceId);
+
+    const fileSystem = new WorkspaceFileSystem(sandbox, rootDir);
+    const file = await fileSystem.readFile(repository, filePath);
+
     return NextResponse.json({
       success: true,
-      data: {
-        path: filePath,
-        content,
-        lastModified: new Date().toISOString()
-      }
+      data: file
     });
   } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Error fetching file content:', error);
     return NextResponse.json(
       { 
@@ -221,12 +67,17 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+/**
+ * PUT /api/files/content - Save a file in projects/<repository>
+ * Body: { workspaceId, repository, path, content, lastModified? }
+ * When lastModified is sent, the save fails with 409 CONFLICT if the file changed since it was loaded
+ */
+export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const { path, content } = body;
+    const { workspaceId, repository, path, content, lastModified } = body;
     
-    if (!path || content === undefined) {
+    if (!path || typeof content !== 'string') {
       return NextResponse.json(
         { 
           success: false, 
@@ -236,19 +87,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // TODO: Later, save to actual Daytona workspace
-    // For now, just simulate success
-    console.log(`Saving file ${path}:`, content.substring(0, 100) + '...');
+    if (!workspaceId || !repository) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'workspaceId and repository are required' 
+        },
+        { status: 400 }
+      );
+    }
+
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(workspaceId);
+
+    const fileSystem = new WorkspaceFileSystem(sandbox, rootDir);
+    const result = await fileSystem.writeFile(repository, path, content, {
+      expectedLastModified: lastModified
+    });
     
     return NextResponse.json({
       success: true,
       data: {
-        path,
-        saved: true,
-        lastModified: new Date().toISOString()
+        ...result,
+        saved: true
       }
     });
   } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Error saving file:', error);
     return NextResponse.json(
       { 
@@ -258,4 +134,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceFileSystem, WorkspaceFileError } from '@/lib/workspace-files';
+
+interface FileOperationTarget {
+  workspaceId?: string;
+  repository?: string;
+}
+
+interface FileOperationContext {
+  fileSystem: WorkspaceFileSystem;
+  repository: string;
+}
+
+/**
+ * Shared validation + auth for file operations
+ */
+async function getFileOperationContext(target: FileOperationTarget): Promise<FileOperationContext | NextResponse> {
+  if (!target.workspaceId || !target.repository) {
+    return NextResponse.json(
+      { success: false, error: 'workspaceId and repository are required' },
+      { status: 400 }
+    );
+  }
+
+  // Centralized auth & authorization with sandbox
+  const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(target.workspaceId);
+  return {
+    fileSystem: new WorkspaceFileSystem(sandbox, rootDir),
+    repository: target.repository
+  };
+}
+
+function handleFileOperationError(error: unknown, fallbackMessage: string): NextResponse {
+  // Handle auth errors consistently
+  if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+    return handleWorkspaceAuthError(error);
+  }
+
+  if (WorkspaceFileError.isWorkspaceFileError(error)) {
+    return NextResponse.json(
+      { success: false, error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { success: false, error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+/**
+ * PUT /api/files - Create a new file or directory
+ * Body: { workspaceId, repository, path, type: 'file' | 'directory', content? }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { path, type = 'file', content = '' } = body;
+
+    if (!path || (type !== 'file' && type !== 'directory')) {
+      return NextResponse.json(
+        { success: false, error: 'Path and a valid type (file or directory) are required' },
+        { status: 400 }
+      );
+    }
+
+    const context = await getFileOperationContext(body);
+    if (context instanceof NextResponse) {
+      return context;
+    }
+    const { fileSystem, repository } = context;
+
+    const result = type === 'directory'
+      ? await fileSystem.createDirectory(repository, path)
+      : await fileSystem.writeFile(repository, path, content, { createOnly: true });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, type }
+    }, { status: 201 });
+  } catch (error) {
+    return handleFileOperationError(error, 'Failed to create file');
+  }
+}
+
+/**
+ * PATCH /api/files - Rename or move a file or directory
+ * Body: { workspaceId, repository, path, newPath }
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { path, newPath } = body;
+
+    if (!path || !newPath) {
+      return NextResponse.json(
+        { success: false, error: 'path and newPath are required' },
+        { status: 400 }
+      );
+    }
+
+    const context = await getFileOperationContext(body);
+    if (context instanceof NextResponse) {
+      return context;
+    }
+    const { fileSystem, repository } = context;
+
+    const result = await fileSystem.renamePath(repository, path, newPath);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, previousPath: path }
+    });
+  } catch (error) {
+    return handleFileOperationError(error, 'Failed to rename file');
+  }
+}
+
+/**
+ * DELETE /api/files?workspaceId=<sandboxId>&repository=<name>&path=<path>
+ * Deletes a file or directory
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get('path');
+
+    if (!path) {
+      return NextResponse.json(
+        { success: false, error: 'File path is required' },
+        { status: 400 }
+      );
+    }
+
+    const context = await getFileOperationContext({
+      workspaceId: searchParams.get('workspaceId') || undefined,
+      repository: searchParams.get('repository') || undefined
+    });
+    if (context instanceof NextResponse) {
+      return context;
+    }
+
+    await context.fileSystem.deletePath(context.repository, path);
+
+    return NextResponse.json({
+      success: true,
+      data: { path, deleted: true }
+    });
+  } catch (error) {
+    return handleFileOperationError(error, 'Failed to delete file');
+  }
+}
@@ -1,100 +1,64 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceFileSystem, WorkspaceFileError, DEFAULT_TREE_DEPTH } from '@/lib/workspace-files';
 
-export interface FileTreeItem {
-  name: string;
-  path: string;
-  type: 'file' | 'directory';
-  children?: FileTreeItem[];
-  size?: number;
-  lastModified?: string;
-}
+export type { FileTreeItem } from '@/lib/workspace-files';
 
-// Mock file structure for now - later this will connect to Daytona workspace
-const mockFileStructure: FileTreeItem[] = [
-  {
-    name: 'src',
-    path: '/src',
-    type: 'directory',
-    children: [
-      {
-        name: 'components',
-        path: '/src/components',
-        type: 'directory',
-        children: [
-          {
-            name: 'Button.tsx',
-            path: '/src/components/Button.tsx',
-            type: 'file',
-            size: 1024,
-            lastModified: '2024-01-15T10:30:00Z'
-          },
-          {
-            name: 'Input.tsx',
-            path: '/src/components/Input.tsx',
-            type: 'file',
-            size: 856,
-            lastModified: '2024-01-14T15:20:00Z'
-          }
-        ]
-      },
-      {
-        name: 'utils',
-        path: '/src/utils',
-        type: 'directory',
-        children: [
-          {
-            name: 'helpers.ts',
-            path: '/src/utils/helpers.ts',
-            type: 'file',
-            size: 512,
-            lastModified: '2024-01-13T09:15:00Z'
-          }
-        ]
-      },
-      {
-        name: 'App.tsx',
-        path: '/src/App.tsx',
-        type: 'file',
-        size: 2048,
-        lastModified: '2024-01-15T14:45:00Z'
-      },
-      {
-        name: 'index.ts',
-        path: '/src/index.ts',
-        type: 'file',
-        size: 256,
-        lastModified: '2024-01-12T11:00:00Z'
-      }
-    ]
-  },
-  {
-    name: 'package.json',
-    path: '/package.json',
-    type: 'file',
-    size: 1536,
-    lastModified: '2024-01-10T16:30:00Z'
-  },
-  {
-    name: 'README.md',
-    path: '/README.md',
-    type: 'file',
-    size: 2048,
-    lastModified: '2024-01-11T12:00:00Z'
-  }
-];
-
-export async function GET() {
+/**
+ * GET /api/files/structure?workspaceId=<sandboxId>&repository=<name>&depth=<n>
+ * Lists the file tree of projects/<repository> inside the user's sandbox
+ */
+export async function GET(request: NextRequest) {
   try {
-    // TODO: Later, get workspaceId from query params and fetch real structure
-    // const { searchParams } = new URL(request.url);
-    // const workspaceId = searchParams.get('workspaceId');
-    
-    // For now, return mock data
+    const { searchParams } = new URL(request.url);
+    const workspaceId = searchParams.get('workspaceId');
+    const repository = searchParams.get('repository');
+    const depthParam = searchParams.get('depth');
+
+    if (!workspaceId || !repository) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'workspaceId and repository are required' 
+        },
+        { status: 400 }
+      );
+    }
+
+    const depth = depthParam ? parseInt(depthParam, 10) : DEFAULT_TREE_DEPTH;
+    if (isNaN(depth) || depth < 1) {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: 'depth must be a positive integer' 
+        },
+        { status: 400 }
+      );
+    }
+
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(workspaceId);
+
+    const fileSystem = new WorkspaceFileSystem(sandbox, rootDir);
+    const tree = await fileSystem.getFileTree(repository, depth);
+
     return NextResponse.json({
       success: true,
-      data: mockFileStructure
+      data: tree
     });
   } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Error fetching file structure:', error);
     return NextResponse.json(
       { 
@@ -104,4 +68,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,12 @@
 import { NextResponse } from 'next/server';
 import { WorkspaceServiceManager } from '@/lib/workspace-service-manager';
 import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { createProgressStream, wantsEventStream } from '@/lib/workspace-progress';
 
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ sandboxId: string }> }
-): Promise<NextResponse> {
+): Promise<Response> {
   try {
     const { sandboxId } = await params;
     
@@ -14,6 +15,18 @@ export async function POST(
     
     // Use the shared method for complete service restart (handles sandbox starting internally)
     const serviceManager = WorkspaceServiceManager.getInstance();
+
+    // Stream each phase as it runs when the client accepts server-sent events
+    if (wantsEventStream(request)) {
+      return createProgressStream(
+        onProgress => serviceManager.restartServicesComplete(sandboxId, onProgress),
+        error => ({
+          error: 'Failed to fix services',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        })
+      );
+    }
+
     const result = await serviceManager.restartServicesComplete(sandboxId);
     
     return NextResponse.json(result);
@@ -34,4 +47,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
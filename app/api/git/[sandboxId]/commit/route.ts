@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceGit, WorkspaceGitError } from '@/lib/workspace-git';
+import { WorkspaceFileError } from '@/lib/workspace-files';
+
+/**
+ * POST /api/git/[sandboxId]/commit - Commit staged changes
+ * Body: { repository, message }
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const body: { repository?: string; message?: string } = await request.json();
+    const message = body.message?.trim();
+
+    if (!body.repository) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+    if (!message) {
+      return NextResponse.json({ error: 'Commit message is required' }, { status: 400 });
+    }
+
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+
+    const git = new WorkspaceGit(sandbox, rootDir);
+    const commit = await git.commit(body.repository, message);
+    const status = await git.getStatus(body.repository);
+
+    return NextResponse.json({
+      success: true,
+      repository: body.repository,
+      commit,
+      status
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceGitError.isWorkspaceGitError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+
+    if (WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error committing changes:', error);
+    return NextResponse.json({
+      error: 'Failed to commit changes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
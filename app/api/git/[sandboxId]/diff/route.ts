@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceGit, WorkspaceGitError, type GitDiffTarget } from '@/lib/workspace-git';
+import { WorkspaceFileError } from '@/lib/workspace-files';
+
+/**
+ * GET /api/git/[sandboxId]/diff?repository=<name>&path=<path>&mode=unstaged|staged|commit&commit=<hash>
+ * Returns both versions of a file and its unified patch
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const { searchParams } = new URL(request.url);
+    const repository = searchParams.get('repository');
+    const path = searchParams.get('path');
+    const mode = searchParams.get('mode') || 'unstaged';
+    const commit = searchParams.get('commit');
+
+    if (!repository || !path) {
+      return NextResponse.json({ error: 'repository and path are required' }, { status: 400 });
+    }
+
+    let target: GitDiffTarget;
+    if (mode === 'commit') {
+      if (!commit) {
+        return NextResponse.json({ error: 'commit is required when mode is commit' }, { status: 400 });
+      }
+      target = { type: 'commit', hash: commit };
+    } else if (mode === 'staged' || mode === 'unstaged') {
+      target = { type: mode };
+    } else {
+      return NextResponse.json({ error: `Invalid mode: ${mode}` }, { status: 400 });
+    }
+
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+
+    const git = new WorkspaceGit(sandbox, rootDir);
+    const diff = await git.getFileDiff(repository, path, target);
+
+    return NextResponse.json({
+      success: true,
+      repository,
+      diff
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceGitError.isWorkspaceGitError(error) || WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error fetching git diff:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch git diff',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceGit } from '@/lib/workspace-git';
+
+/**
+ * GET /api/git/[sandboxId]/heads
+ * Returns the checked out branch and commit of every repository in the workspace
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+
+    // Centralized auth & authorization with sandbox
+    const { userWorkspace, sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+
+    const git = new WorkspaceGit(sandbox, rootDir);
+    const heads = await git.getHeads(userWorkspace.repositories.map(repository => repository.name));
+
+    return NextResponse.json({
+      success: true,
+      heads,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    console.error('Error fetching git heads:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch git heads',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
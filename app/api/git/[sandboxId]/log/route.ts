@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceGit, WorkspaceGitError, DEFAULT_LOG_LIMIT } from '@/lib/workspace-git';
+import { WorkspaceFileError } from '@/lib/workspace-files';
+
+/**
+ * GET /api/git/[sandboxId]/log?repository=<name>&limit=<n>
+ * Returns commit history of a repository.
+ * With &commit=<hash>, returns the files changed by that commit instead.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const { searchParams } = new URL(request.url);
+    const repository = searchParams.get('repository');
+    const commit = searchParams.get('commit');
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_LOG_LIMIT), 10);
+
+    if (!repository) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+
+    if (isNaN(limit) || limit < 1) {
+      return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+    }
+
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+
+    const git = new WorkspaceGit(sandbox, rootDir);
+
+    if (commit) {
+      const files = await git.getCommitFiles(repository, commit);
+      return NextResponse.json({
+        success: true,
+        repository,
+        commit,
+        files
+      });
+    }
+
+    const commits = await git.getLog(repository, limit);
+    return NextResponse.json({
+      success: true,
+      repository,
+      commits,
+      total: commits.length
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceGitError.isWorkspaceGitError(error) || WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error fetching git log:', error);
+    return NextResponse.json({
+      error: 'Failed to fetch git log',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
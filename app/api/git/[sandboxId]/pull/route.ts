@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceGit, WorkspaceGitError } from '@/lib/workspace-git';
+import { WorkspaceFileError } from '@/lib/workspace-files';
+
+/**
+ * POST /api/git/[sandboxId]/pull - Pull the current branch from its remote (merge, never rebase)
+ * Body: { repository }
+ * Uses the sandbox's gh credentials; failures return a structured code
+ * (AUTHENTICATION_REQUIRED, MERGE_CONFLICT, LOCAL_CHANGES_WOULD_BE_OVERWRITTEN, ...) instead of raw git output
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const body: { repository?: string } = await request.json();
+
+    if (!body.repository) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+
+    const git = new WorkspaceGit(sandbox, rootDir);
+    const result = await git.pull(body.repository);
+
+    return NextResponse.json({
+      success: true,
+      repository: body.repository,
+      ...result
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceGitError.isWorkspaceGitError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details, files: error.files },
+        { status: error.statusCode }
+      );
+    }
+
+    if (WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error running git pull:', error);
+    return NextResponse.json({
+      error: 'Failed to pull',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
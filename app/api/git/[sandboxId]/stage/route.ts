@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceGit, WorkspaceGitError } from '@/lib/workspace-git';
+import { WorkspaceFileError } from '@/lib/workspace-files';
+
+export interface StageRequest {
+  repository: string;
+  action: 'stage' | 'unstage';
+  paths?: string[];                         // whole files
+  hunk?: { path: string; index: number };   // a single hunk of one file
+}
+
+/**
+ * POST /api/git/[sandboxId]/stage - Stage or unstage files or a single hunk
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const body: StageRequest = await request.json();
+
+    if (!body.repository) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+    if (body.action !== 'stage' && body.action !== 'unstage') {
+      return NextResponse.json({ error: 'action must be stage or unstage' }, { status: 400 });
+    }
+    const paths = Array.isArray(body.paths) && body.paths.length > 0 ? body.paths : null;
+    const hunk = body.hunk && typeof body.hunk.path === 'string' && Number.isInteger(body.hunk.index) ? body.hunk : null;
+    if (!paths === !hunk) {
+      return NextResponse.json({ error: 'Provide either paths or hunk' }, { status: 400 });
+    }
+
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+
+    const git = new WorkspaceGit(sandbox, rootDir);
+
+    if (hunk) {
+      await git.applyHunk(body.repository, hunk.path, hunk.index, body.action);
+    } else if (paths && body.action === 'stage') {
+      await git.stageFiles(body.repository, paths);
+    } else if (paths) {
+      await git.unstageFiles(body.repository, paths);
+    }
+
+    const status = await git.getStatus(body.repository);
+
+    return NextResponse.json({
+      success: true,
+      repository: body.repository,
+      status
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceGitError.isWorkspaceGitError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+
+    if (WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error staging changes:', error);
+    return NextResponse.json({
+      error: 'Failed to update staged changes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,109 +1,61 @@
 import { NextResponse } from 'next/server';
 import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { GitHubRepositories, GitHubRepositoryError, parseRepositoryQuery } from '@/lib/github-repositories';
 
-export interface GitHubRepository {
-  name: string;
-  fullName: string;
-  description: string | null;
-  isPrivate: boolean;
-  language: string | null;
-  updatedAt: string;
-}
-
+/**
+ * GET /api/github/repositories/[sandboxId]?q=&owner=&sort=activity|name&page=1&perPage=30
+ * A page of the repositories of the sandbox's GitHub user and their organizations,
+ * along with the user's login and organizations for filtering by owner
+ */
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ sandboxId: string }> }
 ): Promise<NextResponse> {
   try {
     const { sandboxId } = await params;
-    
+    const query = parseRepositoryQuery(new URL(request.url).searchParams);
+
     // Centralized auth & authorization with sandbox
     const { sandbox, rootDir } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
-    
-    // Execute gh repo list command
-    const repoListResult = await sandbox.process.executeCommand(
-      'gh repo list --limit 100 --json name,nameWithOwner,description,isPrivate,primaryLanguage,updatedAt',
-      rootDir
-    );
-    
-    if (!repoListResult.result) {
-      return NextResponse.json({ 
-        error: 'Failed to fetch repositories',
-        details: 'GitHub CLI returned no data. Ensure you are authenticated.' 
-      }, { status: 500 });
-    }
-    
-    // Check if the result is valid JSON (not an error message)
-    let repositories: GitHubRepository[] = [];
-    try {
-      // Parse JSON response from GitHub CLI
-      interface GitHubAPIResponse {
-        name: string;
-        nameWithOwner: string;
-        description: string | null;
-        isPrivate: boolean;
-        primaryLanguage: { name: string } | null;
-        updatedAt: string;
-      }
-      
-      const parsedResult = JSON.parse(repoListResult.result);
-      
-      // Ensure it's an array
-      if (!Array.isArray(parsedResult)) {
-        throw new Error('Expected array from GitHub CLI');
-      }
-      
-      repositories = parsedResult.map((repo: GitHubAPIResponse) => ({
-        name: repo.name,
-        fullName: repo.nameWithOwner,
-        description: repo.description || null,
-        isPrivate: repo.isPrivate,
-        language: repo.primaryLanguage?.name || null,
-        updatedAt: repo.updatedAt
-      }));
-    } catch (error) {
-      // If JSON parsing fails, it's likely an error message from gh CLI
-      const errorMessage = repoListResult.result.trim();
-      
-      console.error('GitHub CLI returned non-JSON response:', {
-        error: error instanceof Error ? error.message : String(error),
-        output: errorMessage.substring(0, 500)
-      });
-      
-      return NextResponse.json({ 
-        error: 'GitHub authentication required',
-        details: 'Please authenticate with GitHub CLI first using: gh auth login'
-      }, { status: 401 });
-    }
-    
+
+    const github = new GitHubRepositories(sandbox, rootDir);
+    const account = await github.getAccount();
+    const { repositories, total, hasNextPage } = await github.list(query, account);
+
     return NextResponse.json({
       success: true,
       sandboxId,
       repositories,
-      total: repositories.length,
+      total,
+      page: query.page,
+      perPage: query.perPage,
+      hasNextPage,
+      owners: account,
       timestamp: new Date().toISOString()
     });
-    
+
   } catch (error) {
     // Handle auth errors consistently
     if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
       return handleWorkspaceAuthError(error);
     }
-    
+
     // Handle GitHub CLI specific errors
-    const message = error instanceof Error ? error.message : String(error);
-    if (message.includes('not logged into') || message.includes('authentication')) {
-      return NextResponse.json({ 
-        error: 'GitHub authentication required',
-        details: 'Please authenticate with GitHub CLI first using: gh auth login'
-      }, { status: 401 });
+    if (GitHubRepositoryError.isGitHubRepositoryError(error)) {
+      if (error.statusCode >= 500) {
+        console.error('GitHub CLI request failed:', error.details);
+      }
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details },
+        { status: error.statusCode }
+      );
     }
-    
+
     // Handle business logic errors
     console.error('Error fetching GitHub repositories:', error);
     return NextResponse.json({
       error: 'Failed to fetch GitHub repositories',
-      details: message
+      details: error instanceof Error ? error.message : String(error)
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
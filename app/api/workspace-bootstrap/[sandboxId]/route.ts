@@ -1,132 +1,173 @@
 import { NextResponse } from 'next/server';
 import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
 import { adminDb } from '@/lib/user-service-admin';
-import { PortManager } from '@/lib/port-manager';
+import { workspaceFieldPath } from '@/lib/user-workspaces';
+import { PortManager, type ListeningProcess } from '@/lib/port-manager';
 import { WORKSPACE_SERVICES } from '@/lib/workspace-constants';
+import { WorkspaceServiceManager } from '@/lib/workspace-service-manager';
+import { DaytonaClient } from '@/lib/daytona';
+import { logger } from '@/lib/logger';
+import { createProgressStream, trackPhase, wantsEventStream, type WorkspaceProgressListener } from '@/lib/workspace-progress';
+import type { ServiceTokens, ServiceUrls, UserWorkspace } from '@/types/workspace';
 
-export async function POST(
-  request: Request,
-  { params }: { params: Promise<{ sandboxId: string }> }
-): Promise<NextResponse> {
-  try {
-    const { sandboxId } = await params;
+/**
+ * Refresh preview tokens for every repository and move services off conflicting ports
+ */
+async function bootstrapWorkspace(
+  sandboxId: string,
+  userId: string,
+  userWorkspace: UserWorkspace,
+  daytonaClient: DaytonaClient,
+  onProgress?: WorkspaceProgressListener
+) {
+  console.log(`🔄 Bootstrap: Refreshing tokens for workspace ${sandboxId}`);
+  
+  // Get sandbox to refresh tokens
+  const sandbox = await trackPhase(logger, onProgress, 'Sandbox Connection', () => daytonaClient.getSandbox(sandboxId));
+  
+  // Refresh all tokens for this workspace
+  if (userWorkspace.repositories && userWorkspace.repositories.length > 0) {
+    // Sort repositories deterministically to match existing order
+    const sortedRepositories = [...userWorkspace.repositories].sort((a, b) => 
+      (a.id || '').localeCompare(b.id || '')
+    );
     
-    // Centralized auth & authorization
-    const { userId, userWorkspace, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+    console.log(`🔄 Bootstrap: Refreshing tokens for ${sortedRepositories.length} repositories`);
     
-    console.log(`🔄 Bootstrap: Refreshing tokens for workspace ${sandboxId}`);
+    // Reassign ports that are missing, assigned twice or bound by another process
+    const listeners = await trackPhase(logger, onProgress, 'Port Check', () => 
+      PortManager.getListeningProcesses(sandbox).catch(error => {
+        console.warn('⚠️ Bootstrap: Could not scan listening ports, skipping bound port checks:', error);
+        return new Map<number, ListeningProcess>();
+      })
+    );
+    const { repositories: resolvedRepositories, reassignments } = PortManager.resolvePortConflicts(sortedRepositories, listeners);
     
-    // Get sandbox to refresh tokens
-    const sandbox = await daytonaClient.getSandbox(sandboxId);
+    for (const { repository, service, from, to, reason } of reassignments) {
+      console.log(`🔧 Bootstrap: Reassigned ${service} for ${repository} from ${from ?? 'none'} to ${to} (${reason})`);
+    }
     
-    // Refresh all tokens for this workspace
-    if (userWorkspace.repositories && userWorkspace.repositories.length > 0) {
-      // Sort repositories deterministically to match existing order
-      const sortedRepositories = [...userWorkspace.repositories].sort((a, b) => 
-        (a.id || '').localeCompare(b.id || '')
-      );
-      
-      console.log(`🔄 Bootstrap: Refreshing tokens for ${sortedRepositories.length} repositories`);
-      
-      // Get fresh tokens for each repository
-      const updatedRepositories = await Promise.all(
-        sortedRepositories.map(async (repo, index) => {
-          // Check if any service ports are missing (for workspaces created before new services were added)
-          const expectedPorts = PortManager.getPortsForSlot(index);
-          const missingServices: string[] = [];
-          let updatedPorts = { ...repo.ports };
-          
-          console.log(`🔍 Bootstrap: Checking ${repo.name} - current ports:`, repo.ports);
-          console.log(`🔍 Bootstrap: Expected ports for slot ${index}:`, expectedPorts);
-          
-          // Check each service to see if port is missing
-          for (const service of WORKSPACE_SERVICES) {
-            console.log(`🔍 Bootstrap: Checking service ${service} - current: ${updatedPorts[service]}, expected: ${expectedPorts[service]}`);
-            if (!updatedPorts[service]) {
-              updatedPorts = { ...updatedPorts, [service]: expectedPorts[service] };
-              missingServices.push(service);
-              console.log(`➕ Bootstrap: Added missing service ${service} with port ${expectedPorts[service]}`);
-            }
-          }
-          
-          if (missingServices.length > 0) {
-            console.log(`🔧 Bootstrap: Adding missing service ports for ${repo.name}: ${missingServices.join(', ')}`);
-          }
-          
-          const serviceList = WORKSPACE_SERVICES.map(s => `${s}:${updatedPorts[s]}`).join(', ');
-          console.log(`🔄 Bootstrap: Refreshing tokens for ${repo.name} (${serviceList})`);
-          
-          // Get fresh tokens for all services
-          const servicePromises = WORKSPACE_SERVICES.map(service => 
-            sandbox.getPreviewLink(updatedPorts[service])
-          );
-          const serviceInfos = await Promise.all(servicePromises);
-          
-          // Build tokens object dynamically
-          const tokens: Record<string, string | null> = {};
-          const serviceUrls: Record<string, string> = {};
-          WORKSPACE_SERVICES.forEach((service, i) => {
-            tokens[service] = serviceInfos[i].token || null;
-            serviceUrls[service] = serviceInfos[i].url;
-          });
-          
-          const migrationNote = missingServices.length > 0 ? ` (migrated ${missingServices.join(', ')})` : '';
-          console.log(`✅ Bootstrap: Got fresh tokens and URLs for ${repo.name}${migrationNote}`);
-          
-          return {
-            ...repo,
-            ports: updatedPorts,
-            tokens,
-            serviceUrls
-          };
-        })
-      );
-      
-      // Update Firebase with new tokens
-      if (!adminDb) {
-        throw new Error('Firebase Admin not initialized');
-      }
-      
-      // Clean undefined values from repository data
-      const cleanedRepositories = updatedRepositories.map(repo => {
-        const cleanedRepo: Record<string, unknown> = {
-          id: repo.id,
-          name: repo.name,
-          url: repo.url,
-          sourceType: repo.sourceType,
-          ports: repo.ports,
-          tokens: repo.tokens,
-          serviceUrls: repo.serviceUrls
-        };
+    // Get fresh tokens for each repository
+    const updatedRepositories = await Promise.all(
+      resolvedRepositories.map(repo => trackPhase(logger, onProgress, 'Token Refresh', async () => {
+        const serviceList = WORKSPACE_SERVICES.map(s => `${s}:${repo.ports[s]}`).join(', ');
+        console.log(`🔄 Bootstrap: Refreshing tokens for ${repo.name} (${serviceList})`);
         
-        // Only include fields that have values
-        if (repo.description !== undefined) {
-          cleanedRepo.description = repo.description;
-        }
+        // Get fresh tokens for all services
+        const servicePromises = WORKSPACE_SERVICES.map(service => 
+          sandbox.getPreviewLink(repo.ports[service])
+        );
+        const serviceInfos = await Promise.all(servicePromises);
         
-        return cleanedRepo;
-      });
-      
-      await adminDb.collection('users').doc(userId).update({
-        'agentsOS.workspace.repositories': cleanedRepositories,
-        'agentsOS.workspace.lastTokenRefresh': new Date().toISOString()
-      });
+        // Build tokens object dynamically
+        const tokens = {} as ServiceTokens;
+        const serviceUrls = {} as ServiceUrls;
+        WORKSPACE_SERVICES.forEach((service, i) => {
+          tokens[service] = serviceInfos[i].token || null;
+          serviceUrls[service] = serviceInfos[i].url;
+        });
+        
+        console.log(`✅ Bootstrap: Got fresh tokens and URLs for ${repo.name}`);
+        
+        return {
+          ...repo,
+          tokens,
+          serviceUrls
+        };
+      }, repo.name))
+    );
+    
+    // Update Firebase with new tokens
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+    
+    // Clean undefined values from repository data
+    const cleanedRepositories = updatedRepositories.map(repo => {
+      const cleanedRepo: Record<string, unknown> = {
+        id: repo.id,
+        name: repo.name,
+        url: repo.url,
+        sourceType: repo.sourceType,
+        ports: repo.ports,
+        tokens: repo.tokens,
+        serviceUrls: repo.serviceUrls
+      };
       
-      console.log(`✅ Bootstrap: Updated ${updatedRepositories.length} repositories with fresh tokens and service URLs in Firebase`);
+      // Only include fields that have values
+      if (repo.description !== undefined) {
+        cleanedRepo.description = repo.description;
+      }
+      if (repo.customTerminals !== undefined) {
+        cleanedRepo.customTerminals = repo.customTerminals;
+      }
       
-      return NextResponse.json({
-        success: true,
-        message: `Refreshed tokens for ${updatedRepositories.length} repositories`,
-        refreshedAt: new Date().toISOString()
-      });
-    } else {
-      console.log(`⚠️ Bootstrap: No repositories found for workspace ${sandboxId}`);
-      return NextResponse.json({
-        success: true,
-        message: 'No repositories to refresh',
-        refreshedAt: new Date().toISOString()
-      });
+      return cleanedRepo;
+    });
+    
+    await adminDb.collection('users').doc(userId).update({
+      [workspaceFieldPath(sandboxId, 'repositories')]: cleanedRepositories,
+      [workspaceFieldPath(sandboxId, 'lastTokenRefresh')]: new Date().toISOString()
+    });
+    
+    console.log(`✅ Bootstrap: Updated ${updatedRepositories.length} repositories with fresh tokens and service URLs in Firebase`);
+    
+    // Move services onto their new ports
+    if (reassignments.length > 0) {
+      const rootDir = await sandbox.getUserRootDir();
+      if (rootDir) {
+        const serviceManager = WorkspaceServiceManager.getInstance();
+        const stalePorts = reassignments.flatMap(({ from }) => from !== null ? [from] : []);
+        await serviceManager.stopServicesOnPorts(sandbox, stalePorts, rootDir);
+        await serviceManager.restartServices(sandbox, updatedRepositories, sandboxId, rootDir, onProgress);
+      }
     }
+    
+    return {
+      success: true,
+      message: `Refreshed tokens for ${updatedRepositories.length} repositories`,
+      refreshedAt: new Date().toISOString(),
+      reassignedPorts: reassignments,
+      // Lets the client move open windows onto reassigned ports
+      repositories: updatedRepositories.map(repo => ({
+        name: repo.name,
+        url: repo.url,
+        ports: repo.ports,
+        urls: repo.serviceUrls,
+        customTerminals: repo.customTerminals
+      }))
+    };
+  } else {
+    console.log(`⚠️ Bootstrap: No repositories found for workspace ${sandboxId}`);
+    return {
+      success: true,
+      message: 'No repositories to refresh',
+      refreshedAt: new Date().toISOString()
+    };
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<Response> {
+  try {
+    const { sandboxId } = await params;
+    
+    // Centralized auth & authorization
+    const { userId, userWorkspace, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+    const bootstrap = (onProgress?: WorkspaceProgressListener) =>
+      bootstrapWorkspace(sandboxId, userId, userWorkspace, daytonaClient, onProgress);
+
+    // Stream each phase as it runs when the client accepts server-sent events
+    if (wantsEventStream(request)) {
+      return createProgressStream(bootstrap, error => ({
+        error: 'Failed to refresh workspace tokens',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }));
+    }
+
+    return NextResponse.json(await bootstrap());
 
   } catch (error) {
     // Handle auth errors consistently
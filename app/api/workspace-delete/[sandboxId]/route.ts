@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
 
 export async function POST(
   request: Request,
@@ -17,10 +18,11 @@ export async function POST(
     }
 
     // Centralized auth & authorization
-    const { daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+    const { userId, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
 
     // Business logic only
     await daytonaClient.deleteWorkspace(sandboxId);
+    await UserServiceAdmin.getInstance().removeWorkspace(userId, sandboxId);
     
     return NextResponse.json({ 
       success: true,
@@ -0,0 +1,114 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { WorkspaceIdleMonitor } from '@/lib/workspace-idle-monitor';
+import { DEFAULT_IDLE_POLICY, IDLE_POLICY_LIMITS, WorkspaceIdleError, validateIdlePolicy } from '@/lib/workspace-idle';
+
+function handleError(error: unknown, action: string): NextResponse {
+  // Handle auth errors consistently
+  if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+    return handleWorkspaceAuthError(error);
+  }
+
+  if (WorkspaceIdleError.isWorkspaceIdleError(error)) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json({
+    error: `Failed ${action}`,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+/**
+ * GET /api/workspace-idle/[sandboxId]
+ * Idle policy, current sandbox activity and when the sandbox will be stopped
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+
+    // Centralized auth & authorization
+    const { userWorkspace, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+
+    const sandbox = await daytonaClient.getSandbox(sandboxId);
+    const status = await new WorkspaceIdleMonitor(daytonaClient).getStatus(sandbox, userWorkspace);
+
+    return NextResponse.json({
+      policy: userWorkspace.idlePolicy ?? DEFAULT_IDLE_POLICY,
+      sandboxState: sandbox.state,
+      ...status
+    });
+  } catch (error) {
+    return handleError(error, 'to get idle status');
+  }
+}
+
+/**
+ * PUT /api/workspace-idle/[sandboxId]
+ * Body: WorkspaceIdlePolicy
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const policy = validateIdlePolicy(await request.json());
+
+    // Centralized auth & authorization
+    const { userId } = await authenticateWorkspaceAccess(sandboxId);
+
+    await UserServiceAdmin.getInstance().updateWorkspaceIdlePolicy(userId, sandboxId, policy);
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    return handleError(error, 'to update idle policy');
+  }
+}
+
+/**
+ * POST /api/workspace-idle/[sandboxId]
+ * Body: { minutes?: number } - keep the sandbox running, postponing any auto-stop
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const { minutes = 60 } = await request.json().catch(() => ({})) as { minutes?: unknown };
+
+    const { max } = IDLE_POLICY_LIMITS.idleMinutes;
+    if (typeof minutes !== 'number' || !Number.isInteger(minutes) || minutes < 1 || minutes > max) {
+      return NextResponse.json(
+        { error: `minutes must be a whole number between 1 and ${max}`, code: 'INVALID_IDLE_POLICY' },
+        { status: 400 }
+      );
+    }
+
+    // Centralized auth & authorization
+    const { userWorkspace, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+
+    const sandbox = await daytonaClient.getSandbox(sandboxId);
+    if (sandbox.state !== 'started') {
+      return NextResponse.json(
+        { error: 'The workspace is not running', code: 'SANDBOX_NOT_STARTED' },
+        { status: 409 }
+      );
+    }
+
+    const status = await new WorkspaceIdleMonitor(daytonaClient).keepAlive(sandbox, userWorkspace, minutes);
+
+    return NextResponse.json({ success: true, ...status });
+  } catch (error) {
+    return handleError(error, 'to keep workspace running');
+  }
+}
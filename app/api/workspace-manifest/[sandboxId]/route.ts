@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import type { Sandbox } from '@daytonaio/sdk';
+import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { WorkspaceGit } from '@/lib/workspace-git';
+import type { UserWorkspace } from '@/types/workspace';
+import {
+  MANIFEST_FILE_NAME,
+  createManifest,
+  serializeManifest,
+  type ManifestExportDetails
+} from '@/lib/workspace-manifest';
+
+/**
+ * Checked out branches and installed VSCode extensions, read from a running sandbox
+ */
+async function readSandboxDetails(sandbox: Sandbox, workspace: UserWorkspace): Promise<Pick<ManifestExportDetails, 'branches'> & { extensions?: string[] }> {
+  const rootDir = sandbox.state === 'started' ? await sandbox.getUserRootDir() : undefined;
+  if (!rootDir) {
+    return {};
+  }
+
+  const git = new WorkspaceGit(sandbox, rootDir);
+  const branches: Record<string, string> = {};
+  for (const repository of workspace.repositories.filter(repo => repo.url)) {
+    // A repository that was removed from disk or is mid-rebase is exported without a branch
+    const { branch } = await git.getStatus(repository.name).catch(() => ({ branch: null }));
+    if (branch) {
+      branches[repository.name] = branch;
+    }
+  }
+
+  const result = await sandbox.process.executeCommand('code-server --list-extensions 2>/dev/null', rootDir);
+  const extensions = result.exitCode === 0 ? result.result.split('\n').map(line => line.trim()).filter(Boolean) : undefined;
+
+  return { branches, extensions };
+}
+
+/**
+ * GET /api/workspace-manifest/[sandboxId]?format=yaml|json
+ * Download the workspace as an agentsos.yaml manifest, env var names only
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<Response> {
+  try {
+    const { sandboxId } = await params;
+    const format = new URL(request.url).searchParams.get('format') ?? 'yaml';
+
+    if (format !== 'yaml' && format !== 'json') {
+      return NextResponse.json(
+        { error: 'format must be yaml or json', code: 'INVALID_FORMAT' },
+        { status: 400 }
+      );
+    }
+
+    // Centralized auth & authorization
+    const { userId, userWorkspace, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+
+    const userService = UserServiceAdmin.getInstance();
+    const [environment, theme, sandbox] = await Promise.all([
+      userService.getUserEnvironment(userId),
+      userService.getUserTheme(userId),
+      daytonaClient.getSandbox(sandboxId)
+    ]);
+    const { branches, extensions } = await readSandboxDetails(sandbox, userWorkspace);
+
+    const envKeys = Object.fromEntries(
+      Object.entries(environment?.projects ?? {}).map(([project, variables]) => [project, Object.keys(variables)])
+    );
+    const manifest = createManifest(userWorkspace, {
+      branches,
+      envKeys,
+      vscode: { ...(theme && { theme }), ...(extensions?.length && { extensions }) }
+    });
+
+    const fileName = format === 'yaml' ? MANIFEST_FILE_NAME : MANIFEST_FILE_NAME.replace(/\.yaml$/, '.json');
+    return new Response(serializeManifest(manifest, format), {
+      headers: {
+        'Content-Type': format === 'yaml' ? 'application/yaml' : 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    console.error('Error exporting workspace manifest:', error);
+    return NextResponse.json({
+      error: 'Failed to export workspace manifest',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
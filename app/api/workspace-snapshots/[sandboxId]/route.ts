@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import {
+  WorkspaceSnapshotError,
+  WorkspaceSnapshots,
+  createWorkspaceSnapshot,
+  validateSnapshotName
+} from '@/lib/workspace-snapshots';
+
+/**
+ * POST /api/workspace-snapshots/[sandboxId]
+ * Body: { name?: string } - archive the sandbox's projects and tool state into a snapshot
+ * The archive runs in the sandbox after responding; GET /api/workspace-snapshots finishes the record
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const { name } = await request.json().catch(() => ({})) as { name?: unknown };
+
+    // Centralized auth & authorization
+    const { userId, userWorkspace, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+
+    const sandbox = await daytonaClient.getSandbox(sandboxId);
+    const rootDir = sandbox.state === 'started' ? await sandbox.getUserRootDir() : undefined;
+    if (!rootDir) {
+      return NextResponse.json(
+        { error: 'The workspace must be running to take a snapshot', code: 'SANDBOX_NOT_STARTED' },
+        { status: 409 }
+      );
+    }
+
+    const fallbackName = `${userWorkspace.name || sandboxId} - ${new Date().toLocaleString('en-US')}`;
+    const snapshot = createWorkspaceSnapshot(userWorkspace, validateSnapshotName(name, fallbackName));
+
+    // Recorded up front so a snapshot that never finishes still shows up, as creating
+    const userService = UserServiceAdmin.getInstance();
+    await userService.saveWorkspaceSnapshot(userId, snapshot);
+
+    try {
+      const started = await new WorkspaceSnapshots(sandbox, rootDir).capture(snapshot);
+      await userService.saveWorkspaceSnapshot(userId, started);
+      return NextResponse.json({ success: true, snapshot: started });
+    } catch (error) {
+      await userService.saveWorkspaceSnapshot(userId, {
+        ...snapshot,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceSnapshotError.isWorkspaceSnapshotError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error creating snapshot:', error);
+    return NextResponse.json({
+      error: 'Failed to create snapshot',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
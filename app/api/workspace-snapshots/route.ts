@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { DaytonaClient } from '@/lib/daytona';
+import { WorkspaceSnapshots, expireStaleSnapshot, type WorkspaceSnapshot } from '@/lib/workspace-snapshots';
+
+/**
+ * Check a creating snapshot's archive in its sandbox, null while it is still running
+ * or the sandbox can't be reached
+ */
+async function checkSnapshot(daytonaClient: DaytonaClient, snapshot: WorkspaceSnapshot): Promise<WorkspaceSnapshot | null> {
+  try {
+    const sandbox = await daytonaClient.getSandbox(snapshot.sourceSandboxId);
+    const rootDir = sandbox.state === 'started' ? await sandbox.getUserRootDir() : undefined;
+    return rootDir ? await new WorkspaceSnapshots(sandbox, rootDir).checkCapture(snapshot) : null;
+  } catch (error) {
+    console.error(`Failed to check snapshot ${snapshot.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * GET /api/workspace-snapshots
+ * Every snapshot of the user, including those of deleted sandboxes
+ * Snapshots still creating are finished once their archive has ended, or failed once stale
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userService = UserServiceAdmin.getInstance();
+    const snapshots = await userService.getWorkspaceSnapshots(userId);
+
+    const creating = snapshots.filter(snapshot => snapshot.status === 'creating');
+    if (creating.length > 0) {
+      const apiKey = await userService.getDaytonaApiKey(userId);
+      const daytonaClient = apiKey ? new DaytonaClient(apiKey) : null;
+
+      for (const snapshot of creating) {
+        const checked = (daytonaClient && await checkSnapshot(daytonaClient, snapshot)) || expireStaleSnapshot(snapshot);
+        if (checked !== snapshot) {
+          await userService.saveWorkspaceSnapshot(userId, checked);
+          snapshots[snapshots.indexOf(snapshot)] = checked;
+        }
+      }
+    }
+
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    console.error('Error listing snapshots:', error);
+    return NextResponse.json({
+      error: 'Failed to list snapshots',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
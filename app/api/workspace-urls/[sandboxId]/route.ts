@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WORKSPACE_SERVICES } from '@/lib/workspace-constants';
 
 export async function GET(
   request: Request,
@@ -31,19 +32,15 @@ export async function GET(
       // Generate URLs dynamically from ports for each repository
       const repositoriesWithUrls = await Promise.all(
         sortedRepositories.map(async (repo) => {
-          const [vscodeInfo, terminalInfo, claudeInfo] = await Promise.all([
-            sandbox.getPreviewLink(repo.ports.vscode),
-            sandbox.getPreviewLink(repo.ports.terminal),
-            sandbox.getPreviewLink(repo.ports.claude)
-          ]);
+          const previewLinks = await Promise.all(
+            WORKSPACE_SERVICES.map(service => sandbox.getPreviewLink(repo.ports[service]))
+          );
           
           return {
             ...repo,
-            urls: {
-              vscode: vscodeInfo.url,
-              terminal: terminalInfo.url,
-              claude: claudeInfo.url
-            }
+            urls: Object.fromEntries(
+              WORKSPACE_SERVICES.map((service, i) => [service, previewLinks[i].url])
+            )
           };
         })
       );
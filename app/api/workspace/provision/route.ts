@@ -1,28 +1,28 @@
 import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
-import { RepositoryProvisioner } from '@/lib/provisioning/repository-provisioner';
+import {
+  RepositoryProvisioner,
+  type RepositoryConfigOutcome,
+  type RepositoryProvisionDetail,
+  type RepositoryProvisionResult
+} from '@/lib/provisioning/repository-provisioner';
 import { WorkspaceProvisioner } from '@/lib/provisioning/workspace-provisioner';
 import { UserServiceAdmin } from '@/lib/user-service-admin';
 import { PortManager } from '@/lib/port-manager';
 import { Logger } from '@/lib/logger';
 import { WorkspaceServiceManager } from '@/lib/workspace-service-manager';
+import { applyCommands } from '@/lib/workspace-manifest';
+import { RepositoryCloneError, validateCloneSpec, type RepositoryCloneSpec } from '@/lib/repository-clone';
 
 export interface ProvisioningConfig {
   sandboxId: string;
-  repositories?: string[];
+  repositories?: Array<string | RepositoryCloneSpec>;   // A plain URL clones the default branch
   aiAgents?: string[];
   theme?: 'light' | 'dark' | 'system';
   wallpaper?: string;
   extensions?: string[];
 }
 
-interface RepositoryProvisionDetail {
-  repository: string;
-  status: 'cloned' | 'skipped' | 'failed';
-  reason?: string;
-  path?: string;
-}
-
 export interface ProvisioningResult {
   success: boolean;
   provisioningId: string;
@@ -45,21 +45,24 @@ export interface ProvisioningResult {
       success: boolean; 
       details: Record<string, unknown> 
     };
+    // agentsos.yaml found in cloned repositories
+    repositoryConfigs?: {
+      success: boolean;
+      details: Array<RepositoryConfigOutcome & { repository: string }>;
+    };
   };
   errors?: string[];
   timestamp: string;
 }
 
+function getRepositoryName(detail: RepositoryProvisionDetail): string {
+  return detail.repository.split('/').pop() || detail.repository;
+}
+
 async function addRepositoriesToWorkspace(
   userId: string, 
   sandboxId: string, 
-  repositoryResults: {
-    success: boolean;
-    cloned: number;
-    skipped: number;
-    failed: number;
-    details: RepositoryProvisionDetail[];
-  }
+  repositoryResults: RepositoryProvisionResult
 ): Promise<void> {
   const logger = Logger.create('WorkspaceFirebase');
   
@@ -67,7 +70,7 @@ async function addRepositoriesToWorkspace(
     const userService = UserServiceAdmin.getInstance();
     
     // Get existing workspace
-    const existingWorkspace = await userService.getUserWorkspace(userId);
+    const existingWorkspace = await userService.getUserWorkspace(userId, sandboxId);
     
     let repositories = [];
     
@@ -96,12 +99,14 @@ async function addRepositoriesToWorkspace(
     // Add new cloned repositories
     if (repositoryResults.details.length > 0) {
       const baseTimestamp = Date.now();
+      // Skip ports already assigned, including ones reassigned by bootstrap
+      const assignedPorts = PortManager.getAssignedPorts(repositories);
       const clonedRepos = repositoryResults.details
         .filter((detail: RepositoryProvisionDetail) => detail.status === 'cloned' || detail.status === 'skipped')
         .map((detail: RepositoryProvisionDetail, index: number) => {
-          const repoName = detail.repository.split('/').pop() || detail.repository;
+          const repoName = getRepositoryName(detail);
           const nextSlot = repositories.length + index; // Use next available slot
-          const ports = PortManager.getPortsForSlot(nextSlot);
+          const ports = PortManager.allocatePorts(nextSlot, assignedPorts);
           
           // Ensure unique IDs by adding index to timestamp
           return {
@@ -111,7 +116,8 @@ async function addRepositoriesToWorkspace(
             description: `Repository: ${detail.repository}`,
             sourceType: 'github' as const,
             ports,
-            tech: 'GitHub'
+            tech: 'GitHub',
+            ...(detail.branch && { branch: detail.branch })
           };
         });
       
@@ -120,6 +126,13 @@ async function addRepositoriesToWorkspace(
         added: clonedRepos.length,
         newRepoNames: clonedRepos.map(r => r.name)
       });
+
+      // Commands from a repository's agentsos.yaml become custom terminals, its env var names empty env vars
+      const configs = repositoryResults.details.flatMap(detail => detail.config ? [{ name: getRepositoryName(detail), config: detail.config }] : []);
+      repositories = applyCommands(repositories, Object.fromEntries(configs.map(({ name, config }) => [name, config.commands])));
+      for (const { name, config } of configs) {
+        await userService.ensureProjectEnvKeys(userId, name, config.env);
+      }
     }
 
     // Sort repositories deterministically before saving to Firebase
@@ -137,6 +150,7 @@ async function addRepositoriesToWorkspace(
     await userService.createOrUpdateWorkspace(userId, {
       id: existingWorkspace?.id || sandboxId,
       sandboxId: sandboxId,
+      name: existingWorkspace?.name,
       repositories,
       status: 'running' as const,
       createdAt: existingWorkspace?.createdAt || new Date(),
@@ -176,6 +190,7 @@ export async function POST(request: Request): Promise<NextResponse> {
     }
     
     const config: ProvisioningConfig = await request.json();
+    const repositories = (config.repositories ?? []).map(validateCloneSpec);
     const provisioningId = `prov-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     
     logger.info('Starting workspace provisioning', { 
@@ -194,17 +209,26 @@ export async function POST(request: Request): Promise<NextResponse> {
     };
     
     // Step 1: Clone repositories if provided
-    if (config.repositories && config.repositories.length > 0) {
-      logger.info('Provisioning repositories', { count: config.repositories.length });
+    if (repositories.length > 0) {
+      logger.info('Provisioning repositories', { count: repositories.length });
       
       const repoProvisioner = new RepositoryProvisioner(config.sandboxId, apiKey);
-      const repoResult = await repoProvisioner.provision(config.repositories);
+      const repoResult = await repoProvisioner.provision(repositories);
       
       result.steps.repositories = repoResult;
       if (!repoResult.success) {
         result.success = false;
         result.errors?.push('Some repositories failed to clone');
       }
+
+      const configs = repoResult.details.flatMap(detail => detail.config ? [{ repository: detail.repository, ...detail.config }] : []);
+      if (configs.length > 0) {
+        // A failed setup command leaves the repository usable, so it doesn't fail provisioning
+        result.steps.repositoryConfigs = {
+          success: configs.every(config => config.status === 'applied'),
+          details: configs
+        };
+      }
       
       logger.success('Repository provisioning complete', {
         cloned: repoResult.cloned,
@@ -264,6 +288,13 @@ export async function POST(request: Request): Promise<NextResponse> {
     return NextResponse.json(result);
     
   } catch (error) {
+    if (RepositoryCloneError.isRepositoryCloneError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
     logger.error('Provisioning failed', error);
     
     return NextResponse.json({
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { WorkspaceServiceManager } from '@/lib/workspace-service-manager';
+import { WorkspaceFileSystem, WorkspaceFileError } from '@/lib/workspace-files';
+import { getWorktrees } from '@/lib/workspace-worktrees';
+
+/**
+ * DELETE /api/workspace/repositories/[sandboxId]?repository=name&deleteFiles=true
+ * Stop a repository's services, free its ports and remove it from the workspace.
+ * The directory under projects/ is only deleted when deleteFiles=true.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const repositoryName = searchParams.get('repository');
+    const deleteFiles = searchParams.get('deleteFiles') === 'true';
+
+    if (!repositoryName) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+
+    // Centralized auth & authorization
+    const { userId, userWorkspace, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+
+    const repository = userWorkspace.repositories.find(repo => repo.name === repositoryName);
+    if (!repository) {
+      return NextResponse.json(
+        { error: `Repository not found: ${repositoryName}`, code: 'REPOSITORY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+    if (repository.sourceType === 'default') {
+      return NextResponse.json(
+        { error: 'The default repository cannot be removed', code: 'DEFAULT_REPOSITORY' },
+        { status: 400 }
+      );
+    }
+
+    const worktrees = getWorktrees(userWorkspace.repositories, repository.name);
+    if (worktrees.length > 0) {
+      return NextResponse.json(
+        { error: `Remove its worktrees first: ${worktrees.map(worktree => worktree.name).join(', ')}`, code: 'HAS_WORKTREES' },
+        { status: 409 }
+      );
+    }
+
+    // Nothing runs in a stopped sandbox, but its files can only be deleted while it is started
+    const sandbox = await daytonaClient.getSandbox(sandboxId);
+    const rootDir = sandbox.state === 'started' ? await sandbox.getUserRootDir() : undefined;
+
+    if (deleteFiles && !rootDir) {
+      return NextResponse.json(
+        { error: 'Start the workspace to delete repository files', code: 'SANDBOX_NOT_STARTED' },
+        { status: 409 }
+      );
+    }
+
+    if (rootDir) {
+      await WorkspaceServiceManager.getInstance().stopRepositoryServices(sandbox, repository, rootDir);
+
+      if (deleteFiles) {
+        await new WorkspaceFileSystem(sandbox, rootDir).deleteRepository(repository.name);
+      }
+    }
+
+    // Removing the repository frees its ports for the next allocation
+    const repositories = userWorkspace.repositories.filter(repo => repo.id !== repository.id);
+    await UserServiceAdmin.getInstance().updateWorkspaceRepositories(userId, sandboxId, repositories);
+
+    return NextResponse.json({
+      success: true,
+      repository: repository.name,
+      filesDeleted: deleteFiles,
+      freedPorts: [
+        ...Object.values(repository.ports),
+        ...(repository.customTerminals ?? []).map(terminal => terminal.port)
+      ]
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error removing repository:', error);
+    return NextResponse.json({
+      error: 'Failed to remove repository',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
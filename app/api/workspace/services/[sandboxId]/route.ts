@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccess, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { WorkspaceServiceManager } from '@/lib/workspace-service-manager';
+import { WORKSPACE_SERVICES, type WorkspaceService } from '@/lib/workspace-constants';
+
+/**
+ * POST /api/workspace/services/[sandboxId]
+ * Body: { repository: string, service: WorkspaceService }
+ * Restart one service of one repository, leaving the rest of the workspace running.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const { repository: repositoryName, service } = await request.json() as { repository?: string; service?: string };
+
+    if (!repositoryName) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+    if (!service || !WORKSPACE_SERVICES.includes(service as WorkspaceService)) {
+      return NextResponse.json(
+        { error: `Unknown service: ${service}`, code: 'INVALID_SERVICE' },
+        { status: 400 }
+      );
+    }
+
+    // Centralized auth & authorization
+    const { userWorkspace, daytonaClient } = await authenticateWorkspaceAccess(sandboxId);
+
+    const repository = userWorkspace.repositories.find(repo => repo.name === repositoryName);
+    if (!repository) {
+      return NextResponse.json(
+        { error: `Repository not found: ${repositoryName}`, code: 'REPOSITORY_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const sandbox = await daytonaClient.getSandbox(sandboxId);
+    if (sandbox.state !== 'started') {
+      return NextResponse.json(
+        { error: 'Start the workspace to restart its services', code: 'SANDBOX_NOT_STARTED' },
+        { status: 409 }
+      );
+    }
+    const rootDir = await sandbox.getUserRootDir();
+    if (!rootDir) {
+      throw new Error('Could not determine user root directory');
+    }
+
+    const outcome = await WorkspaceServiceManager.getInstance().restartRepositoryService(
+      sandbox,
+      repository,
+      service as WorkspaceService,
+      sandboxId,
+      rootDir
+    );
+
+    return NextResponse.json({
+      success: outcome.status === 'success',
+      repository: repository.name,
+      service,
+      ...outcome
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    console.error('Error restarting service:', error);
+    return NextResponse.json({
+      error: 'Failed to restart service',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
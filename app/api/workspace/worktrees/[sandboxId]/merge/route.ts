@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { CustomTerminalError, findRepository } from '@/lib/custom-terminals';
+import { WorkspaceFileError } from '@/lib/workspace-files';
+import { WorkspaceWorktreeError, WorkspaceWorktrees } from '@/lib/workspace-worktrees';
+
+/**
+ * POST /api/workspace/worktrees/[sandboxId]/merge
+ * Body: { repository }; merges the worktree's branch into its repository's checked out branch
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sandboxId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const body: { repository?: string } = await request.json();
+
+    if (!body.repository) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+
+    // Centralized auth & authorization with sandbox
+    const { sandbox, rootDir, userWorkspace } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+    const repository = findRepository(userWorkspace.repositories, body.repository);
+
+    const result = await new WorkspaceWorktrees(sandbox, rootDir).merge(repository);
+
+    return NextResponse.json({
+      success: true,
+      repository: repository.name,
+      ...result
+    });
+  } catch (error) {
+    // Handle auth errors consistently
+    if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+      return handleWorkspaceAuthError(error);
+    }
+
+    if (WorkspaceWorktreeError.isWorkspaceWorktreeError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, details: error.details, files: error.files },
+        { status: error.statusCode }
+      );
+    }
+
+    if (CustomTerminalError.isCustomTerminalError(error) || WorkspaceFileError.isWorkspaceFileError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error('Error merging worktree:', error);
+    return NextResponse.json({
+      error: 'Failed to merge worktree',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { authenticateWorkspaceAccessWithSandbox, handleWorkspaceAuthError, WorkspaceAuthError } from '@/lib/auth/workspace-auth';
+import { UserServiceAdmin } from '@/lib/user-service-admin';
+import { WorkspaceServiceManager } from '@/lib/workspace-service-manager';
+import { PortManager } from '@/lib/port-manager';
+import { CustomTerminalError, findRepository } from '@/lib/custom-terminals';
+import { WorkspaceFileError } from '@/lib/workspace-files';
+import {
+  WorkspaceWorktreeError,
+  WorkspaceWorktrees,
+  createWorktreeRepository,
+  validateWorktreeBranch
+} from '@/lib/workspace-worktrees';
+import type { ServiceUrls } from '@/types/workspace';
+
+type RouteContext = { params: Promise<{ sandboxId: string }> };
+
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  // Handle auth errors consistently
+  if (WorkspaceAuthError.isWorkspaceAuthError(error)) {
+    return handleWorkspaceAuthError(error);
+  }
+
+  if (WorkspaceWorktreeError.isWorkspaceWorktreeError(error)) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, details: error.details, files: error.files },
+      { status: error.statusCode }
+    );
+  }
+
+  if (CustomTerminalError.isCustomTerminalError(error) || WorkspaceFileError.isWorkspaceFileError(error)) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({
+    error: fallback,
+    details: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+/**
+ * POST /api/workspace/worktrees/[sandboxId] - Create a worktree of a repository and start its services
+ * Body: { repository, branch, baseBranch? }; an existing branch is checked out, a new one
+ * is created from baseBranch (the repository's current branch by default)
+ */
+export async function POST(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const body: { repository?: string; branch?: string; baseBranch?: string } = await request.json();
+
+    if (!body.repository) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+
+    const branch = validateWorktreeBranch(body.branch);
+    const { sandbox, rootDir, userWorkspace, userId } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+    const requested = findRepository(userWorkspace.repositories, body.repository);
+    // A worktree of a worktree is another worktree of the same repository
+    const parent = requested.worktree ? findRepository(userWorkspace.repositories, requested.worktree.parent) : requested;
+
+    const worktrees = new WorkspaceWorktrees(sandbox, rootDir);
+    const baseBranch = body.baseBranch
+      ? validateWorktreeBranch(body.baseBranch)
+      : await worktrees.getCurrentBranch(parent.name);
+
+    // Avoid ports assigned anywhere in the workspace or already bound in the sandbox
+    const listeners = await PortManager.getListeningProcesses(sandbox, rootDir);
+    const unavailablePorts = new Set([...PortManager.getAssignedPorts(userWorkspace.repositories), ...listeners.keys()]);
+    const repository = createWorktreeRepository(parent, branch, baseBranch, userWorkspace.repositories, unavailablePorts);
+
+    await worktrees.create(parent.name, repository.name, branch, baseBranch);
+    await UserServiceAdmin.getInstance().updateWorkspaceRepositories(
+      userId,
+      sandboxId,
+      [...userWorkspace.repositories, repository]
+    );
+
+    // Its own code-server, terminal and agents, in tmux sessions named after the worktree
+    const [result] = await WorkspaceServiceManager.getInstance().restartServices(sandbox, [repository], sandboxId, rootDir);
+    const urls = Object.fromEntries(
+      Object.entries(result?.services ?? {}).flatMap(([service, outcome]) => outcome.url ? [[service, outcome.url]] : [])
+    ) as ServiceUrls;
+
+    return NextResponse.json({
+      success: true,
+      repository: { ...repository, urls },
+      services: result?.services
+    }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create worktree');
+  }
+}
+
+/**
+ * DELETE /api/workspace/worktrees/[sandboxId]?repository=name&force=true&deleteBranch=true
+ * Stop a worktree's services and remove it. Uncommitted changes and unmerged branches
+ * are only thrown away with force=true.
+ */
+export async function DELETE(request: Request, { params }: RouteContext): Promise<NextResponse> {
+  try {
+    const { sandboxId } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const repositoryName = searchParams.get('repository');
+    const force = searchParams.get('force') === 'true';
+    const deleteBranch = searchParams.get('deleteBranch') === 'true';
+
+    if (!repositoryName) {
+      return NextResponse.json({ error: 'repository is required' }, { status: 400 });
+    }
+
+    const { sandbox, rootDir, userWorkspace, userId } = await authenticateWorkspaceAccessWithSandbox(sandboxId);
+    const repository = findRepository(userWorkspace.repositories, repositoryName);
+
+    const { branchDeleted } = await new WorkspaceWorktrees(sandbox, rootDir).remove(repository, { force, deleteBranch });
+    await WorkspaceServiceManager.getInstance().stopRepositoryServices(sandbox, repository, rootDir);
+
+    // Removing the worktree frees its ports for the next allocation
+    await UserServiceAdmin.getInstance().updateWorkspaceRepositories(
+      userId,
+      sandboxId,
+      userWorkspace.repositories.filter(repo => repo.id !== repository.id)
+    );
+
+    return NextResponse.json({
+      success: true,
+      repository: repository.name,
+      branchDeleted
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to remove worktree');
+  }
+}
@@ -0,0 +1,53 @@
+import { createApp, AgentAppProps, BaseApp } from './BaseApp';
+import { AgentDesktop } from './agent/desktop';
+import { AgentMobile } from './agent/mobile';
+import type { AgentDescriptor, AgentId } from '@/lib/agent-registry';
+
+/**
+ * Build the terminal app for an agent from its registry descriptor
+ */
+export function createAgentApp(agent: AgentDescriptor): BaseApp<AgentId> {
+  const AgentAppDesktop = (props: AgentAppProps & { onFocus?: () => void }) => (
+    <AgentDesktop agent={agent} {...props} />
+  );
+  const AgentAppMobile = (props: AgentAppProps) => (
+    <AgentMobile agent={agent} {...props} />
+  );
+
+  return createApp<AgentId>({
+    metadata: {
+      id: agent.id,
+      name: agent.appName,
+      description: agent.description,
+      version: agent.version,
+      author: agent.author,
+      category: 'development',
+      icon: {
+        emoji: agent.icon.emoji,
+        url: agent.icon.url,
+        fallback: agent.icon.emoji
+      },
+      colors: {
+        primary: agent.color,
+        background: 'bg-white dark:bg-gray-800',
+        text: 'text-gray-800 dark:text-gray-200'
+      },
+      isOpenAtStartup: agent.openAtStartup,  // Auto-open window on workspace load
+      isFullyHidden: false                    // Show in dock and UI
+    },
+    window: {
+      defaultSize: { width: 800, height: 600 },
+      minSize: { width: 500, height: 400 },
+      resizable: true,
+      position: 'cascade'
+    },
+    content: {
+      desktop: AgentAppDesktop,
+      mobile: AgentAppMobile
+    },
+    actions: {
+      onOpen: () => {},
+      onClose: () => {}
+    }
+  });
+}
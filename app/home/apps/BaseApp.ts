@@ -1,22 +1,24 @@
 import { ReactNode } from 'react';
+import type { AgentId } from '@/lib/agent-registry';
 
 // App-specific props interfaces - each app defines its own props
 export interface TerminalAppProps {
   terminalPort?: number;
 }
 
-export interface ClaudeAppProps {
-  claudePort?: number;
-}
+// User-defined terminals run in their own ttyd, so they connect like the terminal app
+export type CustomTerminalAppProps = TerminalAppProps;
 
-export interface GeminiAppProps {
-  geminiPort?: number;
+// Shared by every agent app generated from the agent registry
+export interface AgentAppProps {
+  port?: number;
 }
 
 export interface VSCodeAppProps {
   repositoryUrl?: string;
   vscodePort?: number;
   workspaceId?: string;
+  repositoryName?: string;
 }
 
 // Create a proper "no props" type that's explicit about having no properties
@@ -32,16 +34,18 @@ export type DiffAppProps = NoProps;
 export type SetupAppProps = NoProps;
 
 // Map app types to their prop types
-export interface AppPropsMap {
+export interface CoreAppPropsMap {
   terminal: TerminalAppProps;
-  claude: ClaudeAppProps;
-  gemini: GeminiAppProps;
   vscode: VSCodeAppProps;
   settings: SettingsAppProps;
   diff: DiffAppProps;
   setup: SetupAppProps;
+  'custom-terminal': CustomTerminalAppProps;
 }
 
+// Agent apps (claude, gemini, ...) all share the same props
+export type AppPropsMap = CoreAppPropsMap & Record<AgentId, AgentAppProps>;
+
 export type AppType = keyof AppPropsMap;
 export type AppId = AppType; // Alias for backward compatibility
 
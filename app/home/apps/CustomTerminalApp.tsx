@@ -0,0 +1,51 @@
+import { createApp, AppMetadata } from './BaseApp';
+import { TerminalDesktop } from './terminal/desktop';
+import { TerminalMobile } from './terminal/mobile';
+import type { CustomTerminal } from '@/types/workspace';
+
+const DEFAULT_ICON = '▶️';
+
+/**
+ * Icon for a user-defined terminal, falling back to the app default
+ */
+export function getCustomTerminalIcon(terminal: Pick<CustomTerminal, 'icon'>): AppMetadata['icon'] {
+  const emoji = terminal.icon || DEFAULT_ICON;
+  return { icon: emoji, fallback: emoji };
+}
+
+// Windows are opened per terminal from the dock, so the app itself stays hidden
+export const CustomTerminalApp = createApp<'custom-terminal'>({
+  metadata: {
+    id: 'custom-terminal',
+    name: 'Custom Terminal',
+    description: 'Runs a user-defined command such as a dev server or log tail in its own persistent terminal',
+    version: '1.0.0',
+    author: 'AgentsOS',
+    category: 'development',
+    icon: {
+      emoji: DEFAULT_ICON,
+      fallback: DEFAULT_ICON
+    },
+    colors: {
+      primary: 'bg-slate-600',
+      background: 'bg-black',
+      text: 'text-green-400'
+    },
+    isOpenAtStartup: false,  // Opened from the dock per terminal
+    isFullyHidden: true       // Each custom terminal gets its own icon instead
+  },
+  window: {
+    defaultSize: { width: 800, height: 500 },
+    minSize: { width: 400, height: 300 },
+    resizable: true,
+    position: 'cascade'
+  },
+  content: {
+    desktop: TerminalDesktop,
+    mobile: TerminalMobile
+  },
+  actions: {
+    onOpen: () => {},
+    onClose: () => {}
+  }
+});
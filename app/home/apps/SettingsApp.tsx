@@ -6,6 +6,10 @@ import Image from 'next/image';
 import { useState, useEffect } from 'react';
 import { ProjectSelector, EnvVarsList, SyncEnvVars } from '../components/env-vars';
 import { useProjectEnvVars } from '../hooks/useProjectEnvVars';
+import { useEnvDrift } from '../hooks/useEnvDrift';
+import { WorkspaceResourcesSettings } from '../components/ui/workspace-resources-settings';
+import { WorkspaceIdleSettings } from '../components/ui/workspace-idle-settings';
+import { WorkspaceManifestSettings } from '../components/ui/workspace-manifest-settings';
 
 // Wallpapers
 const wallpapers = [
@@ -43,9 +47,11 @@ const SettingsDesktopContent = () => {
     availableProjects,
     selectedProject,
     setSelectedProject,
+    selectedBranch,
     isReady
   } = useProjectEnvVars();
   const [hasEnvVars, setHasEnvVars] = useState(false);
+  const envDrift = useEnvDrift(selectedProject, selectedBranch);
 
   // Load wallpaper preference from localStorage
   useEffect(() => {
@@ -223,23 +229,39 @@ const SettingsDesktopContent = () => {
                 projects={availableProjects}
                 selectedProject={selectedProject}
                 onProjectChange={setSelectedProject}
+                driftCount={envDrift.driftCount}
               />
               
               {isReady && (
                 <>
                   <EnvVarsList 
                     projectName={selectedProject} 
+                    branch={selectedBranch}
                     onVariablesChange={setHasEnvVars}
+                    reloadKey={envDrift.pullCount}
                   />
                   <SyncEnvVars 
                     projectName={selectedProject} 
+                    branch={selectedBranch}
                     hasVariables={hasEnvVars}
+                    drift={envDrift.drift}
+                    onPullLocalChanges={() => envDrift.pullLocalChanges()}
+                    onSynced={envDrift.refresh}
                   />
                 </>
               )}
             </div>
           </div>
 
+          {/* Sandbox Resources */}
+          <WorkspaceResourcesSettings />
+
+          {/* Idle auto-stop and work hours */}
+          <WorkspaceIdleSettings />
+
+          {/* Manifest export */}
+          <WorkspaceManifestSettings />
+
           {/* Installed Apps */}
           <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
             <h2 className="text-lg font-semibold mb-4 flex items-center">
@@ -384,9 +406,11 @@ const SettingsMobileContent = () => {
     availableProjects,
     selectedProject,
     setSelectedProject,
+    selectedBranch,
     isReady
   } = useProjectEnvVars();
   const [hasEnvVars, setHasEnvVars] = useState(false);
+  const envDrift = useEnvDrift(selectedProject, selectedBranch);
 
   // Load wallpaper preference from localStorage
   useEffect(() => {
@@ -555,23 +579,39 @@ const SettingsMobileContent = () => {
               projects={availableProjects}
               selectedProject={selectedProject}
               onProjectChange={setSelectedProject}
+              driftCount={envDrift.driftCount}
             />
             
             {isReady && (
               <>
                 <EnvVarsList 
                   projectName={selectedProject} 
+                  branch={selectedBranch}
                   onVariablesChange={setHasEnvVars}
+                  reloadKey={envDrift.pullCount}
                 />
                 <SyncEnvVars 
                   projectName={selectedProject} 
+                  branch={selectedBranch}
                   hasVariables={hasEnvVars}
+                  drift={envDrift.drift}
+                  onPullLocalChanges={() => envDrift.pullLocalChanges()}
+                  onSynced={envDrift.refresh}
                 />
               </>
             )}
           </div>
         </div>
 
+        {/* Sandbox Resources */}
+        <WorkspaceResourcesSettings compact />
+
+        {/* Idle auto-stop and work hours */}
+        <WorkspaceIdleSettings compact />
+
+        {/* Manifest export */}
+        <WorkspaceManifestSettings compact />
+
         {/* Apps */}
         <div className="bg-gray-100 dark:bg-gray-700 rounded-lg p-4">
           <h3 className="font-medium mb-3 flex items-center">
@@ -21,7 +21,7 @@ export const VSCodeApp = createApp<'vscode'>({
       text: 'text-green-400'
     },
     isOpenAtStartup: false,  // Don't auto-open window on workspace load
-    isFullyHidden: true       // Hidden while VSCode integration is broken in development
+    isFullyHidden: false      // Show in dock and UI
   },
   window: {
     defaultSize: { width: 1000, height: 700 },
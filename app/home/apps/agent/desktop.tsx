@@ -1,16 +1,17 @@
 import TTYDTerminal from '@/components/ttyd-terminal';
-import { ClaudeAppProps } from '../BaseApp';
+import { AgentAppProps } from '../BaseApp';
+import type { AgentDescriptor } from '@/lib/agent-registry';
 import { useAuth } from '@clerk/nextjs';
 import { useEffect, useState } from 'react';
 
-export const ClaudeDesktop = ({ claudePort, onFocus }: ClaudeAppProps & { onFocus?: () => void }) => {
+export const AgentDesktop = ({ agent, port, onFocus }: AgentAppProps & { agent: AgentDescriptor; onFocus?: () => void }) => {
   const { getToken } = useAuth();
   const [wsUrl, setWsUrl] = useState('');
   const [authAttempt, setAuthAttempt] = useState(0);
   
   // Build WebSocket URL with authentication token
   useEffect(() => {
-    if (!claudePort) {
+    if (!port) {
       setWsUrl('');
       return;
     }
@@ -21,31 +22,31 @@ export const ClaudeDesktop = ({ claudePort, onFocus }: ClaudeAppProps & { onFocu
       try {
         const token = await getToken();
         if (token) {
-          console.log('🔑 Using URL token authentication for Claude (desktop)');
-          setWsUrl(`${proxyUrl}?port=${claudePort}&token=${token}`);
+          console.log(`🔑 Using URL token authentication for ${agent.name} (desktop)`);
+          setWsUrl(`${proxyUrl}?port=${port}&token=${token}`);
         } else {
-          console.error('❌ No auth token available for Claude connection');
+          console.error(`❌ No auth token available for ${agent.name} connection`);
           setWsUrl(''); // Clear URL to show error state
         }
       } catch (error) {
-        console.error('❌ Failed to get auth token for Claude:', error);
+        console.error(`❌ Failed to get auth token for ${agent.name}:`, error);
         setWsUrl(''); // Clear URL to show error state
       }
     };
 
     buildWsUrl();
-  }, [claudePort, getToken, authAttempt]);
+  }, [agent.name, port, getToken, authAttempt]);
   
   // Handle connection failures and auth retries
   const handleConnectionFailure = () => {
-    console.log('🔄 Connection failed, retrying with fallback auth (Claude desktop)');
+    console.log(`🔄 Connection failed, retrying with fallback auth (${agent.name} desktop)`);
     setAuthAttempt(prev => prev + 1);
   };
 
   // Component will handle connection changes via wsUrl updates
   return (
     <div className="w-full h-full">
-      {claudePort ? (
+      {port ? (
         <TTYDTerminal 
           wsUrl={wsUrl} 
           className="w-full h-full"
@@ -55,8 +56,8 @@ export const ClaudeDesktop = ({ claudePort, onFocus }: ClaudeAppProps & { onFocu
       ) : (
         <div className="w-full h-full bg-gray-800 text-red-400 font-mono text-sm p-4 flex items-center justify-center">
           <div className="text-center">
-            <div className="text-red-400 mb-2">⚠️ Claude Not Available</div>
-            <div className="text-gray-400 text-xs">No Claude port configured for this workspace</div>
+            <div className="text-red-400 mb-2">⚠️ {agent.name} Not Available</div>
+            <div className="text-gray-400 text-xs">No {agent.name} port configured for this workspace</div>
           </div>
         </div>
       )}
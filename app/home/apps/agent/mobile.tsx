@@ -1,10 +1,11 @@
 import TTYDTerminal, { TTYDTerminalRef } from '@/components/ttyd-terminal';
 import MobileTerminalPalette from '@/components/mobile-terminal-palette';
-import { ClaudeAppProps } from '../BaseApp';
+import { AgentAppProps } from '../BaseApp';
+import type { AgentDescriptor } from '@/lib/agent-registry';
 import { useRef, useState, useEffect } from 'react';
 import { useAuth } from '@clerk/nextjs';
 
-export const ClaudeMobile = ({ claudePort }: ClaudeAppProps) => {
+export const AgentMobile = ({ agent, port }: AgentAppProps & { agent: AgentDescriptor }) => {
   const terminalRef = useRef<TTYDTerminalRef>(null);
   const [isConnected, setIsConnected] = useState(false);
   const { getToken } = useAuth();
@@ -13,7 +14,7 @@ export const ClaudeMobile = ({ claudePort }: ClaudeAppProps) => {
   
   // Build WebSocket URL with authentication token
   useEffect(() => {
-    if (!claudePort) {
+    if (!port) {
       setWsUrl('');
       return;
     }
@@ -24,29 +25,29 @@ export const ClaudeMobile = ({ claudePort }: ClaudeAppProps) => {
       try {
         const token = await getToken();
         if (token) {
-          console.log('🔑 Using URL token authentication for Claude');
-          setWsUrl(`${proxyUrl}?port=${claudePort}&token=${token}`);
+          console.log(`🔑 Using URL token authentication for ${agent.name}`);
+          setWsUrl(`${proxyUrl}?port=${port}&token=${token}`);
         } else {
-          console.error('❌ No auth token available for Claude connection');
+          console.error(`❌ No auth token available for ${agent.name} connection`);
           setWsUrl(''); // Clear URL to show error state
         }
       } catch (error) {
-        console.error('❌ Failed to get auth token for Claude:', error);
+        console.error(`❌ Failed to get auth token for ${agent.name}:`, error);
         setWsUrl(''); // Clear URL to show error state
       }
     };
 
     buildWsUrl();
-  }, [claudePort, getToken, authAttempt]);
+  }, [agent.name, port, getToken, authAttempt]);
   
   // Handle connection failures and auth retries
   const handleConnectionFailure = () => {
-    console.log('🔄 Connection failed, retrying with fallback auth (Claude mobile)');
+    console.log(`🔄 Connection failed, retrying with fallback auth (${agent.name} mobile)`);
     setAuthAttempt(prev => prev + 1);
   };
   
-  // If we have a claude port, use the real Claude terminal
-  if (claudePort && wsUrl) {
+  // If we have a port, use the real agent terminal
+  if (port && wsUrl) {
     return (
       <div className="absolute inset-0 flex flex-col">
         <TTYDTerminal 
@@ -69,8 +70,8 @@ export const ClaudeMobile = ({ claudePort }: ClaudeAppProps) => {
   return (
     <div className="w-full h-full bg-white dark:bg-gray-800 text-red-400 font-mono text-sm p-4 flex items-center justify-center">
       <div className="text-center">
-        <div className="text-red-400 mb-2">⚠️ Claude Not Available</div>
-        <div className="text-gray-400 text-xs">No Claude port configured for this workspace</div>
+        <div className="text-red-400 mb-2">⚠️ {agent.name} Not Available</div>
+        <div className="text-gray-400 text-xs">No {agent.name} port configured for this workspace</div>
       </div>
     </div>
   );
@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { RefreshCw, Columns2, Rows2, GitBranch, AlertCircle, ArrowUpFromLine, ArrowDownToLine } from 'lucide-react';
+import { useTheme } from '@/components/theme-provider';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useGitChanges } from '../../hooks/useGitChanges';
+import { FileChangeList, CommitHistory, DiffViewer, HunkActions, CommitBox, type DiffViewMode } from '../../components/diff';
+
+type SidebarTab = 'changes' | 'history';
+
+export const DiffDesktop = () => {
+  const { theme } = useTheme();
+  const sandboxId = useWorkspaceStore(state => state.sandboxId);
+  const repository = useWorkspaceStore(state => state.getActiveWorkspace()?.repository.name || null);
+  const [viewMode, setViewMode] = useState<DiffViewMode>('split');
+  const [sidebarTab, setSidebarTab] = useState<SidebarTab>('changes');
+
+  const {
+    status,
+    commits,
+    diff,
+    selection,
+    isLoading,
+    isDiffLoading,
+    isMutating,
+    error,
+    refresh,
+    selectFile,
+    loadCommitFiles,
+    stageFiles,
+    unstageFiles,
+    stageHunk,
+    unstageHunk,
+    commit,
+    push,
+    pull
+  } = useGitChanges({ sandboxId, repository });
+
+  // Hunk staging only applies to tracked files in the working tree or index
+  const selectedIsUntracked = selection?.mode === 'unstaged' &&
+    status?.unstaged.some(file => file.path === selection.path && file.status === 'untracked');
+  const showHunkActions = !!diff && !diff.isBinary && !isDiffLoading &&
+    (selection?.mode === 'staged' || selection?.mode === 'unstaged') && !selectedIsUntracked;
+
+  if (!sandboxId || !repository) {
+    return (
+      <div className="w-full h-full bg-white dark:bg-gray-800 text-gray-500 flex items-center justify-center">
+        Open a repository workspace to review its changes
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 flex flex-col">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-2 text-sm min-w-0">
+          <GitBranch className="w-4 h-4 shrink-0" />
+          <span className="font-semibold truncate">{repository}</span>
+          {status?.branch && <span className="text-gray-500 dark:text-gray-400 truncate">{status.branch}</span>}
+          {status && (status.ahead > 0 || status.behind > 0) && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">↑{status.ahead} ↓{status.behind}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={pull}
+            disabled={isMutating}
+            className="flex items-center gap-1 px-2 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            title="Pull"
+          >
+            <ArrowDownToLine className="w-4 h-4" /> Pull
+          </button>
+          <button
+            onClick={push}
+            disabled={isMutating}
+            className="flex items-center gap-1 px-2 py-1 rounded text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            title="Push"
+          >
+            <ArrowUpFromLine className="w-4 h-4" /> Push
+          </button>
+          <div className="w-px h-5 mx-1 bg-gray-200 dark:bg-gray-700" />
+          <button
+            onClick={() => setViewMode('split')}
+            className={`p-1.5 rounded ${viewMode === 'split' ? 'bg-gray-200 dark:bg-gray-700' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            title="Side-by-side"
+          >
+            <Columns2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setViewMode('unified')}
+            className={`p-1.5 rounded ${viewMode === 'unified' ? 'bg-gray-200 dark:bg-gray-700' : 'hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            title="Unified"
+          >
+            <Rows2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={refresh}
+            disabled={isLoading}
+            className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-3 py-2 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20">
+          <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        {/* Sidebar */}
+        <div className="w-72 shrink-0 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+          <div className="flex border-b border-gray-200 dark:border-gray-700 text-sm">
+            {(['changes', 'history'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setSidebarTab(tab)}
+                className={`flex-1 py-2 capitalize ${sidebarTab === tab ? 'border-b-2 border-orange-500 font-medium' : 'text-gray-500 dark:text-gray-400'}`}
+              >
+                {tab}
+              </button>
+            ))}
+          </div>
+          <div className="flex-1 overflow-y-auto py-2">
+            {sidebarTab === 'changes' ? (
+              <>
+                <FileChangeList
+                  title="Staged"
+                  files={status?.staged || []}
+                  selectedPath={selection?.mode === 'staged' ? selection.path : null}
+                  onSelect={file => selectFile({ mode: 'staged', path: file.path })}
+                  actionLabel="Unstage"
+                  onAction={file => unstageFiles([file.path])}
+                  onActionAll={() => unstageFiles((status?.staged || []).map(file => file.path))}
+                  disabled={isMutating}
+                />
+                <FileChangeList
+                  title="Unstaged"
+                  files={status?.unstaged || []}
+                  selectedPath={selection?.mode === 'unstaged' ? selection.path : null}
+                  onSelect={file => selectFile({ mode: 'unstaged', path: file.path })}
+                  actionLabel="Stage"
+                  onAction={file => stageFiles([file.path])}
+                  onActionAll={() => stageFiles((status?.unstaged || []).map(file => file.path))}
+                  disabled={isMutating}
+                />
+              </>
+            ) : (
+              <CommitHistory
+                commits={commits}
+                selectedCommit={selection?.mode === 'commit' ? selection.commit : null}
+                selectedPath={selection?.path}
+                loadCommitFiles={loadCommitFiles}
+                onSelectFile={(commit, file) => selectFile({ mode: 'commit', commit: commit.hash, path: file.path })}
+              />
+            )}
+          </div>
+          {sidebarTab === 'changes' && (
+            <CommitBox
+              stagedCount={status?.staged.length || 0}
+              onCommit={commit}
+              disabled={isMutating}
+            />
+          )}
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 min-w-0 flex flex-col">
+          {showHunkActions && selection && (
+            <HunkActions
+              patch={diff.patch}
+              actionLabel={selection.mode === 'staged' ? 'Unstage hunk' : 'Stage hunk'}
+              onAction={index => selection.mode === 'staged'
+                ? unstageHunk(selection.path, index)
+                : stageHunk(selection.path, index)}
+              disabled={isMutating}
+            />
+          )}
+          <div className="flex-1 min-h-0">
+            <DiffViewer
+              diff={diff}
+              viewMode={viewMode}
+              isLoading={isDiffLoading}
+              theme={theme === 'dark' ? 'vs-dark' : 'light'}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { ArrowLeft, RefreshCw, GitBranch, ArrowUpFromLine, ArrowDownToLine } from 'lucide-react';
+import { useTheme } from '@/components/theme-provider';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useGitChanges, type DiffSelection } from '../../hooks/useGitChanges';
+import { FileChangeList, CommitHistory, DiffViewer, CommitBox } from '../../components/diff';
+
+type MobileTab = 'changes' | 'history';
+
+export const DiffMobile = () => {
+  const { theme } = useTheme();
+  const sandboxId = useWorkspaceStore(state => state.sandboxId);
+  const repository = useWorkspaceStore(state => state.getActiveWorkspace()?.repository.name || null);
+  const [tab, setTab] = useState<MobileTab>('changes');
+  const [showDiff, setShowDiff] = useState(false);
+
+  const {
+    status,
+    commits,
+    diff,
+    selection,
+    isLoading,
+    isDiffLoading,
+    isMutating,
+    error,
+    refresh,
+    selectFile,
+    loadCommitFiles,
+    stageFiles,
+    unstageFiles,
+    commit,
+    push,
+    pull
+  } = useGitChanges({ sandboxId, repository });
+
+  const openDiff = (next: DiffSelection) => {
+    setShowDiff(true);
+    selectFile(next);
+  };
+
+  if (!sandboxId || !repository) {
+    return (
+      <div className="w-full h-full bg-white dark:bg-gray-800 text-gray-500 flex items-center justify-center p-4 text-center">
+        Open a repository workspace to review its changes
+      </div>
+    );
+  }
+
+  // Full-screen unified diff on mobile
+  if (showDiff) {
+    return (
+      <div className="w-full h-full bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 flex flex-col">
+        <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+          <button onClick={() => setShowDiff(false)} className="p-1">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-medium truncate">{selection?.path}</span>
+        </div>
+        <div className="flex-1 min-h-0">
+          <DiffViewer
+            diff={diff}
+            viewMode="unified"
+            isLoading={isDiffLoading}
+            theme={theme === 'dark' ? 'vs-dark' : 'light'}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-2 min-w-0">
+          <GitBranch className="w-4 h-4 shrink-0" />
+          <span className="font-semibold truncate">{status?.branch || repository}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={pull} disabled={isMutating} className="p-1 disabled:opacity-50" aria-label="Pull">
+            <ArrowDownToLine className="w-5 h-5" />
+          </button>
+          <button onClick={push} disabled={isMutating} className="p-1 disabled:opacity-50" aria-label="Push">
+            <ArrowUpFromLine className="w-5 h-5" />
+          </button>
+          <button onClick={refresh} disabled={isLoading} className="p-1 disabled:opacity-50" aria-label="Refresh">
+            <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex border-b border-gray-200 dark:border-gray-700">
+        {(['changes', 'history'] as const).map(name => (
+          <button
+            key={name}
+            onClick={() => setTab(name)}
+            className={`flex-1 py-2 text-sm capitalize ${tab === name ? 'border-b-2 border-orange-500 font-medium' : 'text-gray-500 dark:text-gray-400'}`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="px-4 py-2 text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {tab === 'changes' ? (
+          <>
+            <FileChangeList
+              title="Staged"
+              files={status?.staged || []}
+              onSelect={file => openDiff({ mode: 'staged', path: file.path })}
+              actionLabel="Unstage"
+              onAction={file => unstageFiles([file.path])}
+              disabled={isMutating}
+            />
+            <FileChangeList
+              title="Unstaged"
+              files={status?.unstaged || []}
+              onSelect={file => openDiff({ mode: 'unstaged', path: file.path })}
+              actionLabel="Stage"
+              onAction={file => stageFiles([file.path])}
+              disabled={isMutating}
+            />
+          </>
+        ) : (
+          <CommitHistory
+            commits={commits}
+            loadCommitFiles={loadCommitFiles}
+            onSelectFile={(commit, file) => openDiff({ mode: 'commit', commit: commit.hash, path: file.path })}
+          />
+        )}
+      </div>
+
+      {tab === 'changes' && (
+        <CommitBox
+          stagedCount={status?.staged.length || 0}
+          onCommit={commit}
+          disabled={isMutating}
+        />
+      )}
+    </div>
+  );
+};
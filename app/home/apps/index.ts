@@ -1,22 +1,28 @@
 // App Registry - Central place to register all apps with strong typing
 import { AppRegistry, validateApp, AppId, BaseApp } from './BaseApp';
 import { VSCodeApp } from './VSCodeApp';
-import { ClaudeApp } from './ClaudeApp';
-import { GeminiApp } from './GeminiApp';
+import { createAgentApp } from './AgentApp';
 import { DiffApp } from './DiffApp';
 import { SettingsApp } from './SettingsApp';
 import { TerminalApp } from './TerminalApp';
+import { CustomTerminalApp, getCustomTerminalIcon } from './CustomTerminalApp';
 import { SetupApp } from './setup';
+import { AGENTS, isAgentId, type AgentId } from '@/lib/agent-registry';
+
+// One terminal app per registered agent
+const AgentApps = Object.fromEntries(
+  AGENTS.map(agent => [agent.id, createAgentApp(agent)])
+) as Record<AgentId, BaseApp<AgentId>>;
 
 // Strongly typed app store - each app must match its declared type
 export const AppStore: AppRegistry = {
   vscode: VSCodeApp,
-  claude: ClaudeApp,
-  gemini: GeminiApp,
+  ...AgentApps,
   diff: DiffApp,
   settings: SettingsApp,
   terminal: TerminalApp,
   setup: SetupApp,
+  'custom-terminal': CustomTerminalApp,
 } as const;
 
 // Validate all apps at startup (development only)
@@ -26,13 +32,14 @@ if (process.env.NODE_ENV === 'development') {
     const validation = (() => {
       switch (id) {
         case 'terminal': return validateApp(app as BaseApp<'terminal'>);
-        case 'claude': return validateApp(app as BaseApp<'claude'>);
-        case 'gemini': return validateApp(app as BaseApp<'gemini'>);
         case 'vscode': return validateApp(app as BaseApp<'vscode'>);
         case 'settings': return validateApp(app as BaseApp<'settings'>);
         case 'diff': return validateApp(app as BaseApp<'diff'>);
         case 'setup': return validateApp(app as BaseApp<'setup'>);
-        default: throw new Error(`Unknown app id: ${id}`);
+        case 'custom-terminal': return validateApp(app as BaseApp<'custom-terminal'>);
+        default:
+          if (isAgentId(id)) return validateApp(app as BaseApp<AgentId>);
+          throw new Error(`Unknown app id: ${id}`);
       }
     })();
     
@@ -75,12 +82,13 @@ export type {
   AppPropsMap,
   PropsForApp,
   TerminalAppProps,
-  ClaudeAppProps,
-  GeminiAppProps,
+  CustomTerminalAppProps,
+  AgentAppProps,
   VSCodeAppProps,
   SettingsAppProps,
   DiffAppProps,
   SetupAppProps,
   AppRegistry
 } from './BaseApp';
-export { createApp, validateApp } from './BaseApp';
\ No newline at end of file
+export { createApp, validateApp } from './BaseApp';
+export { getCustomTerminalIcon };
\ No newline at end of file
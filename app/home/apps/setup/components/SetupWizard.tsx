@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAgentsOSUser } from '@/hooks/use-agentsos-user';
+import type { RepositoryCloneSpec } from '@/lib/repository-clone';
 
 import { StepGithubRepos } from './steps/StepGithubRepos';
 import { StepGithubAuth } from './steps/StepGithubAuth';
@@ -20,7 +21,7 @@ export interface SetupData {
   githubRepos: {
     enabled: boolean | undefined;
     authenticated: boolean;
-    repos: string[];
+    repos: RepositoryCloneSpec[];
   };
   wallpaper: string;
   theme: 'light' | 'dark' | 'system';
@@ -170,7 +171,7 @@ export const SetupWizard = ({ isMobile = false }: SetupWizardProps) => {
       await updateUserPreferences({
         setupDone: true,
         githubReposEnabled: setupData.githubRepos.enabled,
-        githubRepos: setupData.githubRepos.repos,
+        githubRepos: setupData.githubRepos.repos.map(repo => repo.url),
         wallpaper: setupData.wallpaper,
         theme: setupData.theme
       });
@@ -1,10 +1,12 @@
 'use client';
 
 import { useState } from 'react';
-import { Rocket, Loader2, CheckCircle, AlertCircle, GitBranch, Settings, Palette } from 'lucide-react';
+import { Rocket, Loader2, CheckCircle, AlertCircle, GitBranch, Settings, Palette, FileCog } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { SetupData } from '../SetupWizard';
 import { useWorkspaceStore } from '@/app/home/stores/workspaceStore';
+import type { RepositoryConfigOutcome } from '@/lib/provisioning/repository-provisioner';
+import { describeCloneSpec } from '@/lib/repository-clone';
 
 interface StepCompleteProps {
   setupData: SetupData;
@@ -22,6 +24,11 @@ interface ProvisioningStep {
   message?: string;
 }
 
+interface RepositoryConfigsStep {
+  success: boolean;
+  details: Array<RepositoryConfigOutcome & { repository: string }>;
+}
+
 export const StepComplete = ({ 
   setupData,
   onComplete 
@@ -100,6 +107,23 @@ export const StepComplete = ({
           `Cloned: ${repoStep.cloned}, Skipped: ${repoStep.skipped}, Failed: ${repoStep.failed}`);
       }
 
+      // Repositories with an agentsos.yaml only become known once they are cloned
+      if (result.steps.repositoryConfigs) {
+        const configStep: RepositoryConfigsStep = result.steps.repositoryConfigs;
+        const problems = configStep.details
+          .filter(config => config.status !== 'applied')
+          .map(config => `${config.repository}: ${config.error ?? config.status}`);
+        setProvisioningSteps(prev => [...prev, {
+          id: 'repositoryConfigs',
+          label: `Applying ${configStep.details.length} repository configs`,
+          icon: <FileCog className="w-5 h-5" />,
+          status: configStep.success ? 'success' : 'error',
+          message: problems.length > 0
+            ? problems.join('; ')
+            : configStep.details.map(config => `${config.repository}: ${config.file}${config.agents.length ? ` (recommends ${config.agents.join(', ')})` : ''}`).join(', ')
+        }]);
+      }
+
       if (result.steps.workspace) {
         updateStepStatus('workspace', 'success', 'Workspace configured');
       }
@@ -226,7 +250,12 @@ export const StepComplete = ({
       {/* Summary */}
       {setupData.githubRepos.repos.length > 0 && (
         <div className="text-sm text-gray-600 dark:text-gray-400">
-          {setupData.githubRepos.repos.length} repositories will be cloned
+          <p>{setupData.githubRepos.repos.length} repositories will be cloned</p>
+          <ul className="mt-1 text-xs">
+            {setupData.githubRepos.repos.map(repo => (
+              <li key={repo.url}>{repo.url} ({describeCloneSpec(repo)})</li>
+            ))}
+          </ul>
         </div>
       )}
 
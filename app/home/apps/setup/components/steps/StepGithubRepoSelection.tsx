@@ -7,24 +7,48 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Search, GitBranch, Lock, Globe, Loader2 } from 'lucide-react';
 import { useWorkspaceStore } from '@/app/home/stores/workspaceStore';
-
-interface GitHubRepository {
-  name: string;
-  fullName: string;
-  description: string | null;
-  isPrivate: boolean;
-  language: string | null;
-  updatedAt: string;
-}
+import { validateCloneSpec, type RepositoryCloneSpec } from '@/lib/repository-clone';
+import type { GitHubAccount, GitHubRepository, GitHubRepositorySort } from '@/lib/github-repositories';
 
 interface SetupData {
   githubRepos: {
     enabled: boolean | undefined;
     authenticated: boolean;
-    repos: string[];
+    repos: RepositoryCloneSpec[];
   };
 }
 
+type RefType = 'default' | 'branch' | 'tag' | 'commit';
+
+// Form state of a selected repository's clone options, turned into a RepositoryCloneSpec on continue
+interface CloneOptions {
+  refType: RefType;
+  ref: string;
+  depth: string;        // Empty for the full history
+  submodules: boolean;
+}
+
+const DEFAULT_CLONE_OPTIONS: CloneOptions = { refType: 'default', ref: '', depth: '', submodules: false };
+
+const REF_PLACEHOLDERS: Record<Exclude<RefType, 'default'>, string> = {
+  branch: 'main',
+  tag: 'v1.0.0',
+  commit: 'Commit hash'
+};
+
+// Wait for typing to pause before searching GitHub
+const SEARCH_DEBOUNCE_MS = 300;
+
+const optionClassName = 'rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const toCloneSpec = (url: string, { refType, ref, depth, submodules }: CloneOptions): RepositoryCloneSpec =>
+  validateCloneSpec({
+    url,
+    ...(refType !== 'default' && { [refType]: ref.trim() }),
+    ...(depth.trim() && { depth: Number(depth) }),
+    submodules
+  });
+
 interface StepProps {
   setupData: SetupData;
   updateSetupData: (data: Partial<SetupData>) => void;
@@ -36,34 +60,50 @@ interface StepProps {
 export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, onPrevious }: StepProps) {
   const { sandboxId } = useWorkspaceStore();
   const [repositories, setRepositories] = useState<GitHubRepository[]>([]);
-  const [filteredRepos, setFilteredRepos] = useState<GitHubRepository[]>([]);
+  const [owners, setOwners] = useState<GitHubAccount | null>(null);
   const [selectedRepos, setSelectedRepos] = useState<string[]>([]);
+  const [cloneOptions, setCloneOptions] = useState<Record<string, CloneOptions>>({});
+  const [optionsError, setOptionsError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [search, setSearch] = useState('');
+  const [owner, setOwner] = useState<string | null>(null);   // null for every account
+  const [sort, setSort] = useState<GitHubRepositorySort>('activity');
+  const [page, setPage] = useState(1);
+  const [hasNextPage, setHasNextPage] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const fetchRepositories = useCallback(async () => {
+  // The first page replaces the list, later pages are appended to it
+  const fetchRepositories = useCallback(async (nextPage: number = 1) => {
     if (!sandboxId) return;
-    
-    setIsLoading(true);
+
+    const setBusy = nextPage === 1 ? setIsLoading : setIsLoadingMore;
+    setBusy(true);
     setError(null);
-    
+
+    const query = new URLSearchParams({ sort, page: String(nextPage) });
+    if (search) query.set('q', search);
+    if (owner) query.set('owner', owner);
+
     try {
-      const response = await fetch(`/api/github/repositories/${sandboxId}`);
+      const response = await fetch(`/api/github/repositories/${sandboxId}?${query}`);
       const data = await response.json();
       
       if (data.success) {
-        setRepositories(data.repositories);
-        setFilteredRepos(data.repositories);
+        setRepositories(prev => nextPage === 1 ? data.repositories : [...prev, ...data.repositories]);
+        setOwners(data.owners);
+        setPage(nextPage);
+        setHasNextPage(data.hasNextPage);
       } else {
         setError(data.error || 'Failed to fetch repositories');
       }
     } catch {
       setError('Failed to connect to GitHub');
     } finally {
-      setIsLoading(false);
+      setBusy(false);
     }
-  }, [sandboxId]);
+  }, [sandboxId, search, owner, sort]);
 
   useEffect(() => {
     if (sandboxId) {
@@ -72,13 +112,9 @@ export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, on
   }, [sandboxId, fetchRepositories]);
 
   useEffect(() => {
-    const filtered = repositories.filter(repo => 
-      repo.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      repo.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      repo.language?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-    setFilteredRepos(filtered);
-  }, [searchQuery, repositories]);
+    const timer = setTimeout(() => setSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
 
   const toggleRepo = (repoName: string) => {
     setSelectedRepos(prev => 
@@ -88,11 +124,27 @@ export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, on
     );
   };
 
+  const updateCloneOptions = (repoName: string, changes: Partial<CloneOptions>) => {
+    setOptionsError(null);
+    setCloneOptions(prev => ({
+      ...prev,
+      [repoName]: { ...(prev[repoName] ?? DEFAULT_CLONE_OPTIONS), ...changes }
+    }));
+  };
+
   const handleContinue = () => {
+    let repos: RepositoryCloneSpec[];
+    try {
+      repos = selectedRepos.map(repoName => toCloneSpec(repoName, cloneOptions[repoName] ?? DEFAULT_CLONE_OPTIONS));
+    } catch (err) {
+      setOptionsError(err instanceof Error ? err.message : 'Invalid clone options');
+      return;
+    }
+
     updateSetupData({
       githubRepos: {
         ...setupData.githubRepos,
-        repos: selectedRepos
+        repos
       }
     });
     onNext();
@@ -106,17 +158,49 @@ export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, on
   return (
     <div className="h-full flex flex-col">
       {/* Search Bar */}
-      <div className="relative flex-shrink-0 mb-6">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-        <Input
-          type="text"
-          placeholder="Search repositories..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="pl-10"
-        />
+      <div className="flex-shrink-0 flex gap-2 mb-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            type="text"
+            placeholder="Search repositories..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as GitHubRepositorySort)}
+          className="rounded-md border border-gray-300 dark:border-gray-600 bg-transparent px-2 text-sm"
+          aria-label="Sort repositories"
+        >
+          <option value="activity">Recently active</option>
+          <option value="name">Name</option>
+        </select>
       </div>
 
+      {/* Owner Tabs */}
+      {owners && (
+        <div className="flex-shrink-0 flex gap-1 overflow-x-auto mb-4" role="tablist">
+          {[null, owners.login, ...owners.organizations].map(tab => (
+            <button
+              key={tab ?? 'all'}
+              role="tab"
+              aria-selected={owner === tab}
+              onClick={() => setOwner(tab)}
+              className={`px-3 py-1 rounded-full text-sm whitespace-nowrap ${
+                owner === tab
+                  ? 'bg-blue-500 text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {tab ?? 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Repository List */}
       <div className="flex-1 space-y-2 overflow-y-auto mb-6">
         {isLoading ? (
@@ -126,16 +210,16 @@ export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, on
         ) : error ? (
           <div className="text-center py-12">
             <p className="text-red-500 mb-4">{error}</p>
-            <Button variant="outline" onClick={fetchRepositories}>
+            <Button variant="outline" onClick={() => fetchRepositories(1)}>
               Try Again
             </Button>
           </div>
-        ) : filteredRepos.length === 0 ? (
+        ) : repositories.length === 0 ? (
           <div className="text-center py-12 text-gray-500">
-            {searchQuery ? 'No repositories match your search' : 'No repositories found'}
+            {search ? 'No repositories match your search' : 'No repositories found'}
           </div>
         ) : (
-          filteredRepos.map((repo) => (
+          repositories.map((repo) => (
             <div
               key={repo.fullName}
               className={`p-4 rounded-lg border transition-all cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 ${
@@ -155,7 +239,9 @@ export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, on
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-1">
                     <GitBranch className="h-4 w-4 text-gray-500" />
-                    <span className="font-medium truncate">{repo.name}</span>
+                    <span className="font-medium truncate">
+                      {owner ? repo.name : repo.fullName}
+                    </span>
                     {repo.isPrivate ? (
                       <Lock className="h-3 w-3 text-gray-400" />
                     ) : (
@@ -175,11 +261,25 @@ export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, on
                   <p className="text-xs text-gray-400 mt-1">
                     Updated {formatDate(repo.updatedAt)}
                   </p>
+                  {selectedRepos.includes(repo.fullName) && (
+                    <CloneOptionsEditor
+                      options={cloneOptions[repo.fullName] ?? DEFAULT_CLONE_OPTIONS}
+                      onChange={changes => updateCloneOptions(repo.fullName, changes)}
+                    />
+                  )}
                 </div>
               </div>
             </div>
           ))
         )}
+        {!isLoading && !error && hasNextPage && (
+          <div className="flex justify-center pt-2">
+            <Button variant="outline" onClick={() => fetchRepositories(page + 1)} disabled={isLoadingMore}>
+              {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Navigation */}
@@ -190,9 +290,13 @@ export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, on
               Previous
             </Button>
           )}
-          <p className="text-sm text-gray-600 dark:text-gray-400">
-            {selectedRepos.length} {selectedRepos.length === 1 ? 'repository' : 'repositories'} selected
-          </p>
+          {optionsError ? (
+            <p className="text-sm text-red-500">{optionsError}</p>
+          ) : (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {selectedRepos.length} {selectedRepos.length === 1 ? 'repository' : 'repositories'} selected
+            </p>
+          )}
         </div>
         <Button 
           onClick={handleContinue}
@@ -203,4 +307,61 @@ export function StepGithubRepoSelection({ setupData, updateSetupData, onNext, on
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface CloneOptionsEditorProps {
+  options: CloneOptions;
+  onChange: (changes: Partial<CloneOptions>) => void;
+}
+
+/**
+ * Ref, depth and submodule options of a selected repository
+ */
+function CloneOptionsEditor({ options, onChange }: CloneOptionsEditorProps) {
+  return (
+    <div
+      className="mt-3 flex flex-wrap items-center gap-2 text-xs"
+      // Editing the options must not toggle the selection
+      onClick={(e) => e.stopPropagation()}
+    >
+      <select
+        value={options.refType}
+        onChange={(e) => onChange({ refType: e.target.value as RefType, ref: '' })}
+        className={optionClassName}
+        aria-label="Ref to check out"
+      >
+        <option value="default">Default branch</option>
+        <option value="branch">Branch</option>
+        <option value="tag">Tag</option>
+        <option value="commit">Commit</option>
+      </select>
+      {options.refType !== 'default' && (
+        <input
+          type="text"
+          value={options.ref}
+          onChange={(e) => onChange({ ref: e.target.value })}
+          placeholder={REF_PLACEHOLDERS[options.refType]}
+          className={`${optionClassName} w-32`}
+          aria-label={options.refType}
+        />
+      )}
+      <input
+        type="number"
+        min={1}
+        value={options.depth}
+        onChange={(e) => onChange({ depth: e.target.value })}
+        placeholder="Full history"
+        className={`${optionClassName} w-28`}
+        aria-label="Clone depth"
+      />
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={options.submodules}
+          onChange={(e) => onChange({ submodules: e.target.checked })}
+        />
+        Submodules
+      </label>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
 import { MonacoEditor } from '@/app/home/components/ui/monaco-editor';
 import { VSCodeAppProps } from '../BaseApp';
 
-export const VSCodeDesktop = ({ workspaceId }: VSCodeAppProps) => {
+export const VSCodeDesktop = ({ workspaceId, repositoryName }: VSCodeAppProps) => {
   // Use Monaco Editor with API integration
   if (workspaceId) {
     return (
       <MonacoEditor 
         workspaceId={workspaceId}
+        repository={repositoryName}
         className="w-full h-full" 
         theme="light"
         onFileChange={(path) => {
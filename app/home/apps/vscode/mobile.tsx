@@ -1,13 +1,14 @@
 import { MonacoEditor } from '@/app/home/components/ui/monaco-editor';
 import { VSCodeAppProps } from '../BaseApp';
 
-export const VSCodeMobile = ({ workspaceId }: VSCodeAppProps) => {
+export const VSCodeMobile = ({ workspaceId, repositoryName }: VSCodeAppProps) => {
   // Use Monaco Editor with API integration
   if (workspaceId) {
     return (
       <div className="absolute inset-0">
         <MonacoEditor 
           workspaceId={workspaceId}
+          repository={repositoryName}
           className="w-full h-full" 
           theme="light"
           onFileChange={(path) => {
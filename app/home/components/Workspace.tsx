@@ -16,15 +16,21 @@ import { Onboarding } from './desktop/Onboarding';
 import { MobileOnboarding } from './mobile/MobileOnboarding';
 import { WorkspaceStatusPanel } from './workspace-status';
 import { OSBootScreen } from './desktop/OSBootScreen';
-import { FirebaseUserData } from '@/lib/firebase-auth';
+import { SandboxPicker } from './desktop/SandboxPicker';
+import { FirebaseUserData, FirebaseWorkspace } from '@/lib/firebase-auth';
+import { UserService } from '@/lib/user-service';
+import { listUserWorkspaces } from '@/lib/user-workspaces';
 
 export default function Workspace() {
   const { 
     workspaces, 
     activeWorkspaceId, 
     sandboxId,
+    isSandboxPickerOpen,
     initializeWorkspaces,
-    setSandboxId
+    setSandboxId,
+    setSandboxPickerOpen,
+    reset
   } = useWorkspaceStore();
   
   const { userId } = useAuth();
@@ -46,6 +52,8 @@ export default function Workspace() {
   const [isFirebaseLoading, setIsFirebaseLoading] = useState(true);
   const [showBootScreen, setShowBootScreen] = useState(true);
   const [shouldShowSetup, setShouldShowSetup] = useState(false);
+  const [userWorkspaces, setUserWorkspaces] = useState<FirebaseWorkspace[]>([]);
+  const [selectedSandboxId, setSelectedSandboxId] = useState<string | null>(null);
   
   const [globalSnapState, setGlobalSnapState] = useState<{
     activeZone: { 
@@ -84,7 +92,12 @@ export default function Workspace() {
           }
           
           // Initialize workspace if we have data (regardless of setup status)
-          const workspace = userData?.agentsOS?.workspace;
+          // With several sandboxes nothing loads until one is picked
+          const sandboxes = listUserWorkspaces(userData?.agentsOS);
+          setUserWorkspaces(sandboxes);
+          const workspace = sandboxes.length === 1
+            ? sandboxes[0]
+            : sandboxes.find(w => w.sandboxId === selectedSandboxId);
           if (workspace?.repositories && workspace.sandboxId) {
             // Initializing workspace from Firebase data
             setSandboxId(workspace.sandboxId);
@@ -105,7 +118,7 @@ export default function Workspace() {
     );
 
     return () => unsubscribe();
-  }, [userId, workspaces.length, initializeWorkspaces, setSandboxId]);
+  }, [userId, selectedSandboxId, workspaces.length, initializeWorkspaces, setSandboxId]);
 
   // Open setup app when needed
   useEffect(() => {
@@ -158,8 +171,27 @@ export default function Workspace() {
     // Firebase listener will automatically show workspace when data is updated
   };
 
+  // Switching sandboxes rebuilds the workspaces from the picked sandbox and boots it again
+  const handleSandboxSelect = (nextSandboxId: string) => {
+    setSandboxPickerOpen(false);
+    setSelectedSandboxId(nextSandboxId);
+    if (nextSandboxId === sandboxId) return;
+
+    if (sandboxId) {
+      reset();
+    }
+    setShowBootScreen(true);
+
+    if (userId) {
+      UserService.getInstance().setActiveWorkspace(userId, nextSandboxId).catch(error => {
+        console.error('Failed to remember picked sandbox:', error);
+      });
+    }
+  };
+
   // Derive state from Firebase data
   const hasCompletedOnboarding = firebaseUser?.agentsOS?.onboardingCompleted || false;
+  const needsSandboxPick = hasCompletedOnboarding && userWorkspaces.length > 1 && !selectedSandboxId;
 
   // Handle drag selection (desktop only)
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -327,6 +359,19 @@ export default function Workspace() {
     }
   }
   
+  // Pick a sandbox before booting when the user has several
+  if (needsSandboxPick || isSandboxPickerOpen) {
+    return (
+      <SandboxPicker
+        workspaces={userWorkspaces}
+        currentSandboxId={sandboxId ?? firebaseUser?.agentsOS?.activeSandboxId}
+        workspaceDefaults={firebaseUser?.agentsOS?.preferences?.workspaceDefaults}
+        onSelect={handleSandboxSelect}
+        onClose={needsSandboxPick ? undefined : () => setSandboxPickerOpen(false)}
+      />
+    );
+  }
+
   // Show boot screen overlay ONLY for very initial load
   if (showBootScreen) {
     return (
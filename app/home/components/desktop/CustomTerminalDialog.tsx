@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Pencil, Trash2, X } from 'lucide-react';
+import { useCustomTerminals, type CustomTerminalFields } from '../../hooks/useCustomTerminals';
+import type { CustomTerminal } from '@/types/workspace';
+import { DOCK_Z_INDEX } from '../../constants/layout';
+
+export interface CustomTerminalDialogProps {
+  sandboxId: string | null;
+  repository: string;
+  terminals: CustomTerminal[];
+  onCreated?: (terminal: CustomTerminal) => void;
+  onClose: () => void;
+}
+
+const EMPTY_FIELDS: CustomTerminalFields = { name: '', command: '', icon: '' };
+
+/**
+ * Manage the user-defined terminals of a repository
+ */
+export function CustomTerminalDialog({ sandboxId, repository, terminals, onCreated, onClose }: CustomTerminalDialogProps) {
+  const { isMutating, error, createTerminal, updateTerminal, deleteTerminal } = useCustomTerminals({ sandboxId, repository });
+  const [fields, setFields] = useState<CustomTerminalFields>(EMPTY_FIELDS);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const canSave = fields.name.trim() !== '' && fields.command.trim() !== '' && !isMutating;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    if (editingId) {
+      if (await updateTerminal(editingId, fields)) {
+        setEditingId(null);
+        setFields(EMPTY_FIELDS);
+      }
+      return;
+    }
+
+    const terminal = await createTerminal(fields);
+    if (terminal) {
+      setFields(EMPTY_FIELDS);
+      onCreated?.(terminal);
+    }
+  };
+
+  const startEditing = (terminal: CustomTerminal) => {
+    setEditingId(terminal.id);
+    setFields({ name: terminal.name, command: terminal.command, icon: terminal.icon ?? '' });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black/40"
+      style={{ zIndex: DOCK_Z_INDEX + 1 }}
+      onClick={onClose}
+    >
+      <div
+        className="w-[28rem] max-w-[90vw] rounded-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <div className="text-sm font-semibold">Custom terminals - {repository}</div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {terminals.length > 0 && (
+          <ul className="max-h-60 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+            {terminals.map(terminal => (
+              <li key={terminal.id} className="flex items-center gap-3 px-4 py-2">
+                <span className="text-lg">{terminal.icon || '▶️'}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{terminal.name}</div>
+                  <div className="text-xs font-mono text-gray-500 truncate">{terminal.command}</div>
+                </div>
+                <button
+                  onClick={() => startEditing(terminal)}
+                  disabled={isMutating}
+                  className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                  aria-label={`Edit ${terminal.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => deleteTerminal(terminal.id)}
+                  disabled={isMutating}
+                  className="p-1 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-950 disabled:opacity-50"
+                  aria-label={`Delete ${terminal.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="p-4 space-y-2 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex gap-2">
+            <input
+              value={fields.icon}
+              onChange={e => setFields({ ...fields, icon: e.target.value })}
+              placeholder="▶️"
+              className="w-12 rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 text-sm text-center focus:outline-none focus:ring-1 focus:ring-orange-500"
+            />
+            <input
+              value={fields.name}
+              onChange={e => setFields({ ...fields, name: e.target.value })}
+              placeholder="Name, e.g. Dev server"
+              className="flex-1 rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-orange-500"
+            />
+          </div>
+          <input
+            value={fields.command}
+            onChange={e => setFields({ ...fields, command: e.target.value })}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleSave();
+              }
+            }}
+            placeholder="Command, e.g. npm run dev"
+            className="w-full rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 text-sm font-mono focus:outline-none focus:ring-1 focus:ring-orange-500"
+          />
+
+          {error && <div className="text-xs text-red-500">{error}</div>}
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button
+                onClick={() => {
+                  setEditingId(null);
+                  setFields(EMPTY_FIELDS);
+                }}
+                className="rounded px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="flex items-center gap-2 rounded bg-orange-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-orange-600 disabled:opacity-50"
+            >
+              {isMutating && <Loader2 className="w-4 h-4 animate-spin" />}
+              {editingId ? 'Save and restart' : 'Add terminal'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,13 @@
 import { useWorkspaceStore } from '../../stores/workspaceStore';
 import { useWindowAnimation } from '../../hooks/useWindowAnimation';
 import type { Window } from '../../stores/windowStore';
-import { Code } from 'lucide-react';
+import { Code, Plus } from 'lucide-react';
 import { DOCK_Z_INDEX } from '../../constants/layout';
-import { getAvailableApps, getApp, AppStore } from '../../apps';
+import { getAvailableApps, getApp, getCustomTerminalIcon, AppStore, type AppId } from '../../apps';
+import { isAgentId } from '@/lib/agent-registry';
+import type { CustomTerminal } from '@/types/workspace';
 import AppIcon from '../ui/AppIcon';
+import { CustomTerminalDialog } from './CustomTerminalDialog';
 import React, { useState } from 'react';
 
 // Glass Effect Components
@@ -151,12 +154,15 @@ export default function Dock() {
     addWindow, 
     restoreWindow, 
     focusWindow, 
-    setWindowAnimating 
+    setWindowAnimating,
+    sandboxId
   } = useWorkspaceStore();
+  const [isCustomTerminalDialogOpen, setIsCustomTerminalDialogOpen] = useState(false);
   
   const activeWorkspace = getActiveWorkspace();
   const windows = activeWorkspace?.windows || [];
   const minimizedWindows = windows.filter(w => w.minimized);
+  const customTerminals = activeWorkspace?.repository.customTerminals || [];
 
   // Window animation hook for restore animations
   const { animateRestoreFromTarget } = useWindowAnimation({
@@ -165,7 +171,7 @@ export default function Dock() {
     }
   });
 
-  const handleAppClick = (type: 'vscode' | 'claude' | 'gemini' | 'diff' | 'settings' | 'terminal' | 'setup') => {
+  const handleAppClick = (type: AppId) => {
     // Only work with the active workspace
     if (!activeWorkspace) return;
     
@@ -207,14 +213,10 @@ export default function Dock() {
       switch (type) {
         case 'vscode':
           return activeWorkspace.repository.urls?.vscode || '';
-        case 'claude':
-          return activeWorkspace.repository.urls?.claude || '';
-        case 'gemini':
-          return activeWorkspace.repository.urls?.gemini || '';
         case 'terminal':
           return activeWorkspace.repository.urls?.terminal || '';
         default:
-          return '';
+          return isAgentId(type) ? activeWorkspace.repository.urls?.[type] || '' : '';
       }
     })();
 
@@ -236,22 +238,46 @@ export default function Dock() {
       case 'terminal':
         windowProps.terminalPort = activeWorkspace.repository.ports?.terminal;
         break;
-      case 'claude':
-        windowProps.claudePort = activeWorkspace.repository.ports?.claude;
-        break;
-      case 'gemini':
-        windowProps.geminiPort = activeWorkspace.repository.ports?.gemini;
-        console.log('🔍 [DOCK] Opening Gemini with port:', activeWorkspace.repository.ports?.gemini);
-        console.log('🔍 [DOCK] Full activeWorkspace.repository.ports:', activeWorkspace.repository.ports);
-        break;
       case 'vscode':
         windowProps.vscodePort = activeWorkspace.repository.ports?.vscode;
         break;
+      default:
+        if (isAgentId(type)) {
+          windowProps.agentPort = activeWorkspace.repository.ports?.[type];
+        }
     }
 
     addWindow(windowProps);
   };
 
+  const handleCustomTerminalClick = (terminal: CustomTerminal) => {
+    if (!activeWorkspace) return;
+
+    // Each custom terminal has at most one window
+    const existingWindow = windows.find(w => w.type === 'custom-terminal' && w.customTerminalId === terminal.id);
+    if (existingWindow) {
+      if (existingWindow.minimized) {
+        restoreWindow(existingWindow.id);
+      }
+      focusWindow(existingWindow.id);
+      return;
+    }
+
+    const app = getApp('custom-terminal');
+    addWindow({
+      type: 'custom-terminal',
+      title: `${terminal.name} - ${activeWorkspace.name}`,
+      position: { x: 100 + Math.random() * 200, y: 100 + Math.random() * 150 },
+      size: app.window.defaultSize,
+      minimized: false,
+      maximized: false,
+      focused: true,
+      repositoryName: activeWorkspace.name,
+      terminalPort: terminal.port,
+      customTerminalId: terminal.id
+    });
+  };
+
   const handleMinimizedWindowClick = (windowId: string) => {
     const window = windows.find(w => w.id === windowId);
     if (!window) return;
@@ -266,7 +292,8 @@ export default function Dock() {
         if (typeof document === 'undefined') return; // Safety check for SSR/tests
         
         const windowElement = document.querySelector(`[data-testid="window-${windowId}"]`) as HTMLElement;
-        const dockIcon = document.querySelector(`[data-dock-icon="${window.type}"]`) as HTMLElement;
+        const dockIconId = window.customTerminalId ? `custom-terminal-${window.customTerminalId}` : window.type;
+        const dockIcon = document.querySelector(`[data-dock-icon="${dockIconId}"]`) as HTMLElement;
         
         if (windowElement && dockIcon) {
           setWindowAnimating(windowId, true);
@@ -283,7 +310,10 @@ export default function Dock() {
     }
   };
 
-  const getAppIcon = (type: string) => {
+  const getAppIcon = (type: string, customTerminalId?: string) => {
+    const terminal = customTerminalId && customTerminals.find(candidate => candidate.id === customTerminalId);
+    if (terminal) return <AppIcon icon={getCustomTerminalIcon(terminal)} size="md" />;
+
     const app = AppStore[type as keyof typeof AppStore];
     if (!app) return <Code className="w-6 h-6" />;
     
@@ -306,7 +336,7 @@ export default function Dock() {
             {getAvailableApps().map((app) => (
               <MacTooltip key={app.metadata.id} text={app.metadata.name}>
                 <GlassDockIcon
-                  onClick={() => handleAppClick(app.metadata.id as 'vscode' | 'claude' | 'gemini' | 'diff' | 'settings' | 'terminal' | 'setup')}
+                  onClick={() => handleAppClick(app.metadata.id as AppId)}
                   className={`${app.metadata.comingSoon ? 'opacity-50 cursor-not-allowed' : ''}`}
                   title="" // Remove default tooltip since we have custom one
                   dataAttribute={app.metadata.id}
@@ -317,6 +347,29 @@ export default function Dock() {
               </MacTooltip>
             ))}
 
+            {/* User-defined terminals for this repository */}
+            {customTerminals.map((terminal) => (
+              <MacTooltip key={`custom-${terminal.id}`} text={terminal.name}>
+                <GlassDockIcon
+                  onClick={() => handleCustomTerminalClick(terminal)}
+                  title=""
+                  dataAttribute={`custom-terminal-${terminal.id}`}
+                >
+                  <AppIcon icon={getCustomTerminalIcon(terminal)} size="md" />
+                </GlassDockIcon>
+              </MacTooltip>
+            ))}
+
+            <MacTooltip text="Custom terminals">
+              <GlassDockIcon
+                onClick={() => setIsCustomTerminalDialogOpen(true)}
+                title=""
+                dataAttribute="custom-terminal-add"
+              >
+                <Plus className="w-6 h-6" />
+              </GlassDockIcon>
+            </MacTooltip>
+
             {/* Separator */}
             {minimizedWindows.length > 0 && (
               <div className="w-px h-8 bg-white/25 mx-2" />
@@ -329,9 +382,9 @@ export default function Dock() {
                   onClick={() => handleMinimizedWindowClick(window.id)}
                   className="relative"
                   title="" // Remove default tooltip since we have custom one
-                  dataAttribute={window.type}
+                  dataAttribute={window.customTerminalId ? `custom-terminal-${window.customTerminalId}` : window.type}
                 >
-                  {getAppIcon(window.type)}
+                  {getAppIcon(window.type, window.customTerminalId)}
                   <div className="absolute -bottom-1 left-1/2 transform -translate-x-1/2 w-1.5 h-1.5 bg-white rounded-full shadow-lg" />
                 </GlassDockIcon>
               </MacTooltip>
@@ -339,6 +392,16 @@ export default function Dock() {
           </div>
         </GlassEffect>
       </div>
+
+      {isCustomTerminalDialogOpen && (
+        <CustomTerminalDialog
+          sandboxId={sandboxId}
+          repository={activeWorkspace.repository.name}
+          terminals={customTerminals}
+          onCreated={handleCustomTerminalClick}
+          onClose={() => setIsCustomTerminalDialogOpen(false)}
+        />
+      )}
     </>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { Clock, Sun, Moon, Monitor } from 'lucide-react';
+import { Clock, Sun, Moon, Monitor, Server } from 'lucide-react';
 import { SignedIn, UserButton } from '@clerk/nextjs';
 import { useState, useEffect } from 'react';
 import { useTheme } from '@/components/theme-provider';
@@ -12,7 +12,9 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { WorkspaceSwitcher } from '../ui/workspace-switcher';
 import { WorkspaceHealth } from '../ui/workspace-health';
+import { IdleCountdown } from '../ui/idle-countdown';
 import { PortShortcutIcon } from '../ui/PortShortcutIcon';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
 
 // Custom theme toggle for the menubar with proper colors
 function MenuBarThemeToggle() {
@@ -47,6 +49,7 @@ function MenuBarThemeToggle() {
 export default function MenuBar() {
   const [currentTime, setCurrentTime] = useState('');
   const [currentDate, setCurrentDate] = useState('');
+  const setSandboxPickerOpen = useWorkspaceStore(state => state.setSandboxPickerOpen);
 
   useEffect(() => {
     const updateTimeAndDate = () => {
@@ -100,10 +103,21 @@ export default function MenuBar() {
         <div className="bg-white/10 backdrop-blur-sm rounded-md border border-white/20">
           <WorkspaceHealth />
         </div>
+        <IdleCountdown />
       </div>
 
       {/* Right side - System status */}
       <div className="flex items-center space-x-3">
+        {/* Sandbox picker */}
+        <button
+          onClick={() => setSandboxPickerOpen(true)}
+          className="p-1 rounded hover:bg-white/10"
+          title="Switch sandbox"
+          aria-label="Switch sandbox"
+        >
+          <Server className="w-4 h-4" />
+        </button>
+
         {/* Port shortcut */}
         <PortShortcutIcon />
         
@@ -2,6 +2,8 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { Terminal } from 'lucide-react';
+import { useWorkspaceStore, type Repository } from '../../stores/workspaceStore';
+import { EVENT_STREAM_CONTENT_TYPE, formatProgressLabel, readProgressStream } from '@/lib/workspace-progress';
 
 // Global flag to prevent multiple token refresh calls for the same workspace
 const tokenRefreshInProgress = new Set<string>();
@@ -17,6 +19,7 @@ export function OSBootScreen({ onComplete, sandboxId }: OSBootScreenProps) {
   const [fadeClass, setFadeClass] = useState('opacity-100');
   const [tokenRefreshComplete, setTokenRefreshComplete] = useState(false);
   const [tokenRefreshError, setTokenRefreshError] = useState<string | null>(null);
+  const [currentPhase, setCurrentPhase] = useState<string | null>(null);
 
   const bootMessages = [
     "Refreshing workspace tokens",
@@ -51,7 +54,7 @@ export function OSBootScreen({ onComplete, sandboxId }: OSBootScreenProps) {
       console.log(`🔄 OSBootScreen: Refreshing tokens for workspace ${sandboxId}`);
       const response = await fetch(`/api/workspace-bootstrap/${sandboxId}`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
+        headers: { 'Content-Type': 'application/json', Accept: EVENT_STREAM_CONTENT_TYPE }
       });
 
       if (!response.ok) {
@@ -59,8 +62,23 @@ export function OSBootScreen({ onComplete, sandboxId }: OSBootScreenProps) {
         throw new Error(errorData.details || 'Token refresh failed');
       }
 
-      const result = await response.json();
+      // Show the phase the server is actually in instead of the canned messages
+      const result = await readProgressStream<{
+        message: string;
+        reassignedPorts?: unknown[];
+        repositories?: Repository[];
+      }>(response, event => {
+        if (event.status === 'started') {
+          setCurrentPhase(formatProgressLabel(event));
+        }
+      });
       console.log(`✅ OSBootScreen: Token refresh completed:`, result.message);
+
+      // Point open windows at ports that bootstrap moved off conflicts
+      if (result.reassignedPorts?.length && result.repositories) {
+        console.log(`🔧 OSBootScreen: ${result.reassignedPorts.length} ports reassigned`);
+        useWorkspaceStore.getState().updateWorkspaceUrls(result.repositories);
+      }
       setTokenRefreshComplete(true);
     } catch (error) {
       console.error('❌ OSBootScreen: Token refresh failed:', error);
@@ -165,7 +183,7 @@ export function OSBootScreen({ onComplete, sandboxId }: OSBootScreenProps) {
           <p 
             className={`text-lg text-blue-200 font-medium transition-opacity duration-300 ${fadeClass} h-8 flex items-center justify-center`}
           >
-            {bootMessages[currentStep]}
+            {currentPhase ?? bootMessages[currentStep]}
           </p>
           
           {/* Error message if token refresh failed */}
@@ -7,6 +7,11 @@ import { Input } from '@/components/ui/input'
 import { workspaceApi } from '@/lib/api/workspace-api'
 import { useAgentsOSUser } from '@/hooks/use-agentsos-user'
 import type { CreateWorkspaceResponse } from '@/types/workspace'
+import { DEFAULT_WORKSPACE_OPTIONS, type WorkspaceOptions } from '@/lib/workspace-defaults'
+import { WorkspaceOptionsPicker } from '../ui/workspace-options-picker'
+import { ManifestImport } from '../ui/manifest-import'
+import type { WorkspaceManifest } from '@/lib/workspace-manifest'
+import { formatProgressLabel } from '@/lib/workspace-progress'
 import Image from 'next/image'
 
 export interface OnboardingProps {
@@ -17,6 +22,7 @@ export function Onboarding({ onComplete }: OnboardingProps) {
   const { clerkUser, userProfile, isLoading: isUserLoading } = useAgentsOSUser()
   const [isCreating, setIsCreating] = useState(false)
   const [currentActivityIndex, setCurrentActivityIndex] = useState(0)
+  const [currentPhase, setCurrentPhase] = useState<string | null>(null)
   
   // Feature flag to control whether users provide their own API key
   const requireUserApiKey = process.env.REQUIRE_USER_API_KEY === 'true'
@@ -25,6 +31,8 @@ export function Onboarding({ onComplete }: OnboardingProps) {
   const [daytonaApiKey, setDaytonaApiKey] = useState(requireUserApiKey ? '' : defaultApiKey)
   const [showApiKey, setShowApiKey] = useState(false)
   const [apiKeyError, setApiKeyError] = useState('')
+  const [workspaceOptions, setWorkspaceOptions] = useState<WorkspaceOptions>(DEFAULT_WORKSPACE_OPTIONS)
+  const [manifest, setManifest] = useState<WorkspaceManifest | null>(null)
 
   const creationActivities = [
     "Initializing cloud workspace...",
@@ -93,15 +101,27 @@ export function Onboarding({ onComplete }: OnboardingProps) {
     }, 2000)
     
     try {
-      // Create default workspace (no repositories specified)
-      const workspaceData = await workspaceApi.createWorkspace({
+      // Create default workspace, or the workspace described by an imported manifest
+      const workspaceData = await workspaceApi.createWorkspace(manifest ? {
+        workspaceName: manifest.name || 'AgentsOS Workspace',
+        daytonaApiKey: apiKeyToUse,
+        manifest
+      } : {
         workspaceName: 'AgentsOS Workspace',
-        daytonaApiKey: apiKeyToUse
+        daytonaApiKey: apiKeyToUse,
+        ...workspaceOptions
+      }, event => {
+        // Real progress from the server replaces the rotating messages
+        if (event.status === 'started') {
+          clearInterval(activityInterval)
+          setCurrentPhase(`${formatProgressLabel(event)}...`)
+        }
       })
       
       clearInterval(activityInterval)
       
       // Show completion message briefly
+      setCurrentPhase(null)
       setCurrentActivityIndex(creationActivities.length - 1)
       setTimeout(() => {
         onComplete(workspaceData)
@@ -110,6 +130,7 @@ export function Onboarding({ onComplete }: OnboardingProps) {
       console.error('Failed to create workspace:', error)
       clearInterval(activityInterval)
       setIsCreating(false)
+      setCurrentPhase(null)
       setCurrentActivityIndex(0)
       setApiKeyError(error instanceof Error ? error.message : 'Failed to create workspace')
     }
@@ -238,6 +259,10 @@ export function Onboarding({ onComplete }: OnboardingProps) {
                 </div>
               )}
 
+              {/* Sandbox resources and base image, taken from the manifest when one is imported */}
+              <ManifestImport value={manifest} onChange={setManifest} disabled={isCreating} />
+              {!manifest && <WorkspaceOptionsPicker value={workspaceOptions} onChange={setWorkspaceOptions} />}
+
               {/* Launch Button */}
               <Button 
                 size="lg" 
@@ -259,7 +284,7 @@ export function Onboarding({ onComplete }: OnboardingProps) {
                   <h1 className="text-3xl font-bold">Creating Workspace</h1>
                   <div className="min-h-[60px] flex items-center justify-center">
                     <p className="text-muted-foreground text-center transition-opacity duration-500">
-                      {creationActivities[currentActivityIndex]}
+                      {currentPhase ?? creationActivities[currentActivityIndex]}
                     </p>
                   </div>
                   <div className="flex justify-center">
@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Camera, History, Loader2, Plus, Server, Terminal, X } from 'lucide-react';
+import { workspaceApi } from '@/lib/api/workspace-api';
+import type { FirebaseWorkspace } from '@/lib/firebase-auth';
+import type { WorkspaceOptions } from '@/lib/workspace-defaults';
+import type { WorkspaceSnapshot } from '@/lib/workspace-snapshots';
+
+const SNAPSHOT_POLL_INTERVAL = 10000;
+
+interface SandboxPickerProps {
+  workspaces: FirebaseWorkspace[];
+  currentSandboxId?: string | null;
+  workspaceDefaults?: WorkspaceOptions;   // From Settings, server defaults otherwise
+  onSelect: (sandboxId: string) => void;
+  onClose?: () => void;   // Omitted at boot, when a sandbox must be picked
+}
+
+/**
+ * Full-screen picker shown at boot when the user has several sandboxes
+ */
+export function SandboxPicker({ workspaces, currentSandboxId, workspaceDefaults, onSelect, onClose }: SandboxPickerProps) {
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshot[]>([]);
+  const [snapshotting, setSnapshotting] = useState<string | null>(null);   // sandboxId being archived
+
+  const loadSnapshots = () => {
+    workspaceApi.listSnapshots()
+      .then(({ snapshots }) => setSnapshots(snapshots))
+      .catch(err => console.error('Failed to list snapshots:', err));
+  };
+
+  useEffect(loadSnapshots, []);
+
+  // Archives run in the sandbox after the request returns, listing picks up their result
+  const hasCreatingSnapshot = snapshots.some(snapshot => snapshot.status === 'creating');
+  useEffect(() => {
+    if (!hasCreatingSnapshot) return;
+    const interval = setInterval(loadSnapshots, SNAPSHOT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasCreatingSnapshot]);
+
+  const isBusy = isCreating || snapshotting !== null;
+
+  const handleSnapshot = async (workspace: FirebaseWorkspace) => {
+    if (isBusy) return;
+
+    setSnapshotting(workspace.sandboxId);
+    setError(null);
+    try {
+      const { snapshot } = await workspaceApi.createSnapshot(workspace.sandboxId);
+      setSnapshots(current => [snapshot, ...current]);
+    } catch (err) {
+      console.error('Failed to create snapshot:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create snapshot');
+    } finally {
+      setSnapshotting(null);
+    }
+  };
+
+  const handleRestore = async (snapshot: WorkspaceSnapshot) => {
+    if (isBusy) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      // Image and resources come from the snapshot
+      const workspace = await workspaceApi.createWorkspace({
+        workspaceName: newName.trim() || snapshot.name,
+        snapshotId: snapshot.id
+      });
+      onSelect(workspace.sandboxId);
+    } catch (err) {
+      console.error('Failed to restore snapshot:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore snapshot');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (isBusy) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      const workspace = await workspaceApi.createWorkspace({
+        workspaceName: newName.trim() || `Sandbox ${workspaces.length + 1}`,
+        ...workspaceDefaults
+      });
+      onSelect(workspace.sandboxId);
+    } catch (err) {
+      console.error('Failed to create sandbox:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create sandbox');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gradient-to-br from-gray-900 via-blue-900 to-indigo-900 flex items-center justify-center overflow-hidden z-[9999]">
+      <div className="max-w-lg w-full px-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Terminal className="w-8 h-8 text-blue-400" />
+            <h1 className="text-2xl font-bold text-white tracking-wider">Choose a sandbox</h1>
+          </div>
+          {onClose && (
+            <button onClick={onClose} className="p-1 rounded text-blue-200 hover:bg-white/10" aria-label="Close">
+              <X className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        <ul className="max-h-[50vh] overflow-y-auto space-y-2">
+          {workspaces.map(workspace => (
+            <li key={workspace.sandboxId} className="flex gap-2">
+              <button
+                onClick={() => onSelect(workspace.sandboxId)}
+                disabled={isBusy}
+                className={`flex-1 min-w-0 flex items-center gap-3 rounded-lg border px-4 py-3 text-left transition-colors disabled:opacity-50 ${
+                  workspace.sandboxId === currentSandboxId
+                    ? 'border-blue-400 bg-blue-500/20'
+                    : 'border-white/10 bg-white/5 hover:bg-white/10'
+                }`}
+              >
+                <Server className="w-5 h-5 text-blue-300 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-white font-medium truncate">{workspace.name || workspace.sandboxId}</div>
+                  <div className="text-xs text-blue-200/70 truncate">
+                    {workspace.repositories?.length ?? 0} repositories · {workspace.status}
+                  </div>
+                </div>
+              </button>
+              <button
+                onClick={() => handleSnapshot(workspace)}
+                disabled={isBusy}
+                className="rounded-lg border border-white/10 bg-white/5 px-3 text-blue-200 hover:bg-white/10 disabled:opacity-50"
+                aria-label={`Snapshot ${workspace.name || workspace.sandboxId}`}
+                title="Take a snapshot"
+              >
+                {snapshotting === workspace.sandboxId ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {snapshots.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-sm font-medium text-blue-200">Snapshots</h2>
+            <ul className="max-h-[25vh] overflow-y-auto space-y-1">
+              {snapshots.map(snapshot => (
+                <li key={snapshot.id} className="flex items-center gap-3 rounded-lg border border-white/10 bg-white/5 px-4 py-2">
+                  <History className="w-4 h-4 text-blue-300 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-white truncate">{snapshot.name}</div>
+                    <div className="text-xs text-blue-200/70 truncate">
+                      {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.repositories.length} repositories
+                      {snapshot.sizeBytes !== undefined && ` · ${(snapshot.sizeBytes / 1024 / 1024).toFixed(0)} MB`}
+                      {snapshot.status !== 'ready' && ` · ${snapshot.status}`}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={isBusy || snapshot.status !== 'ready'}
+                    className="rounded px-2 py-1 text-xs text-blue-200 hover:bg-white/10 disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleCreate();
+              }
+            }}
+            disabled={isBusy}
+            placeholder="New sandbox name"
+            className="flex-1 rounded-lg border border-white/20 bg-white/5 px-3 py-2 text-sm text-white placeholder:text-blue-200/50 focus:outline-none focus:ring-1 focus:ring-blue-400"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={isBusy}
+            className="flex items-center gap-2 rounded-lg bg-blue-500 px-4 py-2 text-sm font-medium text-white hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            {isCreating ? 'Creating...' : 'New sandbox'}
+          </button>
+        </div>
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+      </div>
+    </div>
+  );
+}
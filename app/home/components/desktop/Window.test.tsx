@@ -14,6 +14,8 @@ const mockedUseWorkspaceStore = vi.mocked(useWorkspaceStore as unknown as Mock)
 
 vi.mock('../../stores/workspaceStore')
 
+const VSCodeContent = vi.hoisted(() => vi.fn<(props: Record<string, unknown>) => null>(() => null))
+
 // Mock the apps module
 vi.mock('../../apps', () => ({
   getApp: (type: string) => {
@@ -25,7 +27,7 @@ vi.mock('../../apps', () => ({
           icon: { emoji: '💻', fallback: '💻' }
         },
         content: {
-          desktop: () => null
+          desktop: VSCodeContent
         }
       },
       claude: {
@@ -85,7 +87,9 @@ describe('Window Component', () => {
 
   beforeEach(() => {
     vi.clearAllMocks()
-    mockedUseWorkspaceStore.mockImplementation(() => ({
+    mockedUseWorkspaceStore.mockImplementation((selector?: (state: unknown) => unknown) => {
+      const state = {
+      sandboxId: 'sandbox-1',
       workspaces: [],
       activeWorkspaceId: null,
       windows: [],
@@ -108,7 +112,9 @@ describe('Window Component', () => {
       getNextZIndex: vi.fn(() => 2),
       isValidPosition: vi.fn(() => true),
       snapToGrid: vi.fn((pos: { x: number; y: number }) => pos),
-    }))
+      }
+      return selector ? selector(state) : state
+    })
 
     // Mock document.querySelector for dock icons
     document.body.innerHTML = `
@@ -326,6 +332,15 @@ describe('Window Component', () => {
       expect(contentArea).toBeInTheDocument()
     })
 
+    it('opens the editor on the sandbox and repository of the window', () => {
+      render(<Window window={{ ...createMockWindow({ type: 'vscode' }), repositoryName: 'api' }} />)
+
+      expect(VSCodeContent).toHaveBeenCalledWith(
+        expect.objectContaining({ workspaceId: 'sandbox-1', repositoryName: 'api' }),
+        undefined
+      )
+    })
+
     it('renders with correct window data', () => {
       const window = createMockWindow({ id: 'test-123', title: 'Test Title' })
       render(<Window window={window} />)
@@ -9,6 +9,7 @@ import { useSnapZones, SnapZone } from '../../hooks/useSnapZones';
 import { X, Minus, Square } from 'lucide-react';
 import { TOTAL_DOCK_AREA, MIN_WINDOW_WIDTH, MIN_WINDOW_HEIGHT, MENU_BAR_HEIGHT } from '../../constants/layout';
 import { getApp } from '../../apps';
+import { isAgentId } from '@/lib/agent-registry';
 
 
 interface WindowProps {
@@ -254,6 +255,7 @@ export default function Window({ window }: WindowProps) {
 const WindowContent = memo(function WindowContent({ window, onFocus }: { window: WindowType; onFocus: () => void }) {
   const contentRef = useRef<HTMLDivElement>(null);
   const app = getApp(window.type);
+  const sandboxId = useWorkspaceStore(state => state.sandboxId);
   
   useEffect(() => {
     if (!contentRef.current) return;
@@ -283,21 +285,14 @@ const WindowContent = memo(function WindowContent({ window, onFocus }: { window:
   const renderContent = () => {
     // Switch case ensures we handle all app types - compiler will error if we add new types
     switch (window.type) {
-      case 'terminal': {
+      case 'terminal':
+      case 'custom-terminal': {
         const Component = DesktopContent as React.ComponentType<{ terminalPort?: number; onFocus?: () => void }>;
         return <Component terminalPort={window.terminalPort} onFocus={onFocus} />;
       }
-      case 'claude': {
-        const Component = DesktopContent as React.ComponentType<{ claudePort?: number; onFocus?: () => void }>;
-        return <Component claudePort={window.claudePort} onFocus={onFocus} />;
-      }
-      case 'gemini': {
-        const Component = DesktopContent as React.ComponentType<{ geminiPort?: number; onFocus?: () => void }>;
-        return <Component geminiPort={window.geminiPort} onFocus={onFocus} />;
-      }
       case 'vscode': {
-        const Component = DesktopContent as React.ComponentType<{ repositoryUrl?: string }>;
-        return <Component repositoryUrl={window.repositoryUrl} />;
+        const Component = DesktopContent as React.ComponentType<{ repositoryUrl?: string; workspaceId?: string; repositoryName?: string }>;
+        return <Component repositoryUrl={window.repositoryUrl} workspaceId={sandboxId ?? undefined} repositoryName={window.repositoryName} />;
       }
       case 'settings': {
         const Component = DesktopContent as React.ComponentType<Record<string, never>>;
@@ -312,6 +307,12 @@ const WindowContent = memo(function WindowContent({ window, onFocus }: { window:
         return <Component />;
       }
       default: {
+        // Agent apps from the agent registry share the same props
+        if (isAgentId(window.type)) {
+          const Component = DesktopContent as React.ComponentType<{ port?: number; onFocus?: () => void }>;
+          return <Component port={window.agentPort} onFocus={onFocus} />;
+        }
+
         // Fallback for any unhandled app types
         console.warn(`Unhandled window type: ${window.type}`);
         return <div className="w-full h-full flex items-center justify-center text-red-500">Unsupported app type: {window.type}</div>;
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+export interface CommitBoxProps {
+  stagedCount: number;
+  onCommit: (message: string) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+export function CommitBox({ stagedCount, onCommit, disabled = false }: CommitBoxProps) {
+  const [message, setMessage] = useState('');
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const canCommit = stagedCount > 0 && message.trim() !== '' && !disabled && !isCommitting;
+
+  const handleCommit = async () => {
+    if (!canCommit) return;
+
+    setIsCommitting(true);
+    const committed = await onCommit(message.trim());
+    setIsCommitting(false);
+
+    if (committed) {
+      setMessage('');
+    }
+  };
+
+  return (
+    <div className="p-3 border-t border-gray-200 dark:border-gray-700">
+      <textarea
+        value={message}
+        onChange={e => setMessage(e.target.value)}
+        onKeyDown={e => {
+          // Cmd/Ctrl+Enter commits
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleCommit();
+          }
+        }}
+        placeholder="Commit message"
+        rows={3}
+        className="w-full resize-none rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-orange-500"
+      />
+      <button
+        onClick={handleCommit}
+        disabled={!canCommit}
+        className="mt-2 w-full flex items-center justify-center gap-2 rounded bg-orange-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-orange-600 disabled:opacity-50"
+      >
+        {isCommitting && <Loader2 className="w-4 h-4 animate-spin" />}
+        Commit {stagedCount > 0 ? `${stagedCount} file${stagedCount === 1 ? '' : 's'}` : ''}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import type { GitCommit, GitFileChange } from '@/lib/workspace-git';
+import { FileChangeList } from './FileChangeList';
+
+export interface CommitHistoryProps {
+  commits: GitCommit[];
+  selectedCommit?: string | null;
+  selectedPath?: string | null;
+  loadCommitFiles: (hash: string) => Promise<GitFileChange[]>;
+  onSelectFile: (commit: GitCommit, file: GitFileChange) => void;
+}
+
+export function CommitHistory({ commits, selectedCommit, selectedPath, loadCommitFiles, onSelectFile }: CommitHistoryProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [filesByCommit, setFilesByCommit] = useState<Record<string, GitFileChange[]>>({});
+  const [loadingCommit, setLoadingCommit] = useState<string | null>(null);
+
+  const toggleCommit = async (hash: string) => {
+    if (expanded === hash) {
+      setExpanded(null);
+      return;
+    }
+
+    setExpanded(hash);
+    if (!filesByCommit[hash]) {
+      setLoadingCommit(hash);
+      const files = await loadCommitFiles(hash);
+      setFilesByCommit(prev => ({ ...prev, [hash]: files }));
+      setLoadingCommit(null);
+    }
+  };
+
+  if (commits.length === 0) {
+    return <div className="px-3 py-2 text-sm text-gray-400 dark:text-gray-500">No commits yet</div>;
+  }
+
+  return (
+    <ul>
+      {commits.map(commit => (
+        <li key={commit.hash} className="border-b border-gray-100 dark:border-gray-700">
+          <button
+            onClick={() => toggleCommit(commit.hash)}
+            className="w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            {expanded === commit.hash
+              ? <ChevronDown className="w-4 h-4 mt-0.5 shrink-0" />
+              : <ChevronRight className="w-4 h-4 mt-0.5 shrink-0" />}
+            <div className="min-w-0">
+              <div className="text-sm truncate">{commit.subject}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                <span className="font-mono">{commit.shortHash}</span> · {commit.author} · {new Date(commit.date).toLocaleString()}
+              </div>
+            </div>
+          </button>
+          {expanded === commit.hash && (
+            loadingCommit === commit.hash ? (
+              <div className="flex items-center gap-2 px-9 py-2 text-xs text-gray-500">
+                <Loader2 className="w-3 h-3 animate-spin" /> Loading files...
+              </div>
+            ) : (
+              <div className="pl-6">
+                <FileChangeList
+                  title="Files"
+                  files={filesByCommit[commit.hash] || []}
+                  selectedPath={selectedCommit === commit.hash ? selectedPath : null}
+                  onSelect={file => onSelectFile(commit, file)}
+                />
+              </div>
+            )
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
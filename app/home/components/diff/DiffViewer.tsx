@@ -0,0 +1,59 @@
+'use client';
+
+import { DiffEditor } from '@monaco-editor/react';
+import { Loader2 } from 'lucide-react';
+import type { GitFileDiff } from '@/lib/workspace-git';
+import { getLanguageFromPath } from '../ui/monaco-language';
+
+export type DiffViewMode = 'split' | 'unified';
+
+export interface DiffViewerProps {
+  diff: GitFileDiff | null;
+  viewMode: DiffViewMode;
+  isLoading?: boolean;
+  theme?: 'light' | 'vs-dark';
+}
+
+export function DiffViewer({ diff, viewMode, isLoading = false, theme = 'light' }: DiffViewerProps) {
+  if (isLoading) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-gray-500">
+        <Loader2 className="w-5 h-5 animate-spin mr-2" /> Loading diff...
+      </div>
+    );
+  }
+
+  if (!diff) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+        Select a file to see its changes
+      </div>
+    );
+  }
+
+  if (diff.isBinary) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+        Binary file changed: {diff.path}
+      </div>
+    );
+  }
+
+  return (
+    <DiffEditor
+      height="100%"
+      theme={theme}
+      language={getLanguageFromPath(diff.path)}
+      original={diff.original}
+      modified={diff.modified}
+      options={{
+        readOnly: true,
+        renderSideBySide: viewMode === 'split',
+        automaticLayout: true,
+        minimap: { enabled: false },
+        scrollBeyondLastLine: false,
+        fontSize: 13
+      }}
+    />
+  );
+}
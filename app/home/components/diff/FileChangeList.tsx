@@ -0,0 +1,91 @@
+import type { GitFileChange, GitChangeStatus } from '@/lib/workspace-git';
+
+export interface FileChangeListProps {
+  title: string;
+  files: GitFileChange[];
+  selectedPath?: string | null;
+  onSelect: (file: GitFileChange) => void;
+  // Optional per-file and whole-list action (e.g. Stage / Unstage)
+  actionLabel?: string;
+  onAction?: (file: GitFileChange) => void;
+  onActionAll?: () => void;
+  disabled?: boolean;
+}
+
+// Single-letter badge and color per change status, matching git's own notation
+const STATUS_BADGES: Record<GitChangeStatus, { letter: string; className: string }> = {
+  modified: { letter: 'M', className: 'text-amber-600 dark:text-amber-400' },
+  added: { letter: 'A', className: 'text-green-600 dark:text-green-400' },
+  deleted: { letter: 'D', className: 'text-red-600 dark:text-red-400' },
+  renamed: { letter: 'R', className: 'text-blue-600 dark:text-blue-400' },
+  copied: { letter: 'C', className: 'text-blue-600 dark:text-blue-400' },
+  'type-changed': { letter: 'T', className: 'text-purple-600 dark:text-purple-400' },
+  untracked: { letter: 'U', className: 'text-green-600 dark:text-green-400' },
+  conflicted: { letter: '!', className: 'text-red-600 dark:text-red-400' }
+};
+
+export function FileChangeList({
+  title,
+  files,
+  selectedPath,
+  onSelect,
+  actionLabel,
+  onAction,
+  onActionAll,
+  disabled = false
+}: FileChangeListProps) {
+  return (
+    <div className="mb-3">
+      <div className="flex items-center justify-between px-3 py-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+        <span>{title} ({files.length})</span>
+        {onActionAll && files.length > 0 && (
+          <button
+            onClick={onActionAll}
+            disabled={disabled}
+            className="normal-case font-normal text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            {actionLabel} all
+          </button>
+        )}
+      </div>
+      {files.length === 0 ? (
+        <div className="px-3 py-1 text-xs text-gray-400 dark:text-gray-500">No changes</div>
+      ) : (
+        <ul>
+          {files.map(file => {
+            const badge = STATUS_BADGES[file.status];
+            const fileName = file.path.split('/').pop();
+            const directory = file.path.slice(0, file.path.length - (fileName?.length || 0));
+
+            return (
+              <li key={`${file.oldPath || ''}${file.path}`} className="group flex items-center">
+                <button
+                  onClick={() => onSelect(file)}
+                  title={file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+                  className={`flex-1 min-w-0 flex items-center gap-2 px-3 py-1 text-left text-sm truncate hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                    selectedPath === file.path ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                  }`}
+                >
+                  <span className={`w-4 shrink-0 font-mono text-xs font-bold ${badge.className}`}>{badge.letter}</span>
+                  <span className="truncate">
+                    {fileName}
+                    {directory && <span className="ml-2 text-xs text-gray-400 dark:text-gray-500">{directory}</span>}
+                  </span>
+                </button>
+                {onAction && (
+                  <button
+                    onClick={() => onAction(file)}
+                    disabled={disabled}
+                    className="shrink-0 px-2 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                  >
+                    {actionLabel}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { parsePatch } from '@/lib/git-patch';
+
+export interface HunkActionsProps {
+  patch: string;
+  actionLabel: string;
+  onAction: (hunkIndex: number) => void;
+  disabled?: boolean;
+}
+
+export function HunkActions({ patch, actionLabel, onAction, disabled = false }: HunkActionsProps) {
+  const { hunks } = parsePatch(patch);
+
+  if (hunks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex gap-2 px-3 py-1.5 overflow-x-auto border-b border-gray-200 dark:border-gray-700 text-xs">
+      {hunks.map(hunk => (
+        <div key={hunk.index} className="flex items-center gap-1 shrink-0 rounded bg-gray-100 dark:bg-gray-700 px-2 py-0.5">
+          <span className="font-mono text-gray-500 dark:text-gray-400">{hunk.header.match(/^@@ [^@]+ @@/)?.[0] || hunk.header}</span>
+          <button
+            onClick={() => onAction(hunk.index)}
+            disabled={disabled}
+            className="text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            {actionLabel}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+export { FileChangeList } from './FileChangeList';
+export { CommitHistory } from './CommitHistory';
+export { DiffViewer } from './DiffViewer';
+export { HunkActions } from './HunkActions';
+export { CommitBox } from './CommitBox';
+export type { FileChangeListProps } from './FileChangeList';
+export type { CommitHistoryProps } from './CommitHistory';
+export type { DiffViewerProps, DiffViewMode } from './DiffViewer';
+export type { HunkActionsProps } from './HunkActions';
+export type { CommitBoxProps } from './CommitBox';
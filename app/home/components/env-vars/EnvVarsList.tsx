@@ -1,31 +1,52 @@
-import { Plus, Save, Loader2, Upload } from 'lucide-react';
+import { Plus, Save, Loader2, Upload, FileUp, Download } from 'lucide-react';
 import { useState, useEffect } from 'react';
 import { EnvVarRow, type EnvironmentVariable } from './EnvVarRow';
+import { ImportEnvDialog } from './ImportEnvDialog';
+import type { EnvVarScope, ResolvedEnvVar } from '@/lib/env-scopes';
+
+const SCOPE_LABELS: Record<EnvVarScope, string> = {
+  global: 'Global',
+  project: 'Project',
+  branch: 'Branch'
+};
 
 export interface EnvVarsListProps {
   projectName: string;
+  branch?: string;      // Checked out branch of the project, for branch overrides
   onLoad?: (loading: boolean) => void;
   onSave?: (saving: boolean) => void;
   onVariablesChange?: (hasVariables: boolean) => void;
+  reloadKey?: number;   // Changed to reload after variables are stored elsewhere, e.g. pulled from the sandbox
 }
 
-export function EnvVarsList({ projectName, onLoad, onSave, onVariablesChange }: EnvVarsListProps) {
+export function EnvVarsList({ projectName, branch, onLoad, onSave, onVariablesChange, reloadKey }: EnvVarsListProps) {
   const [envVars, setEnvVars] = useState<EnvironmentVariable[]>([]);
+  const [scope, setScope] = useState<EnvVarScope>('project');
+  const [effective, setEffective] = useState<Record<string, ResolvedEnvVar>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
   const [error, setError] = useState('');
 
-  // Load environment variables when project changes
+  // Branch overrides need a checked out branch
+  useEffect(() => {
+    if (scope === 'branch' && !branch) {
+      setScope('project');
+    }
+  }, [scope, branch]);
+
+  // Load environment variables when project or scope changes
   useEffect(() => {
     if (projectName) {
       loadEnvVars();
     } else {
       setEnvVars([]);
+      setEffective({});
       setHasUnsavedChanges(false);
     }
-  }, [projectName]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [projectName, scope, branch, reloadKey]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Notify parent of loading state
   useEffect(() => {
@@ -37,11 +58,18 @@ export function EnvVarsList({ projectName, onLoad, onSave, onVariablesChange }:
     onSave?.(isSaving);
   }, [isSaving, onSave]);
 
-  // Notify parent when variables change
+  // Notify parent when variables change, counting those inherited from other scopes
   useEffect(() => {
-    const hasVars = envVars.length > 0 && envVars.some(v => v.key.trim() !== '');
+    const hasVars = Object.keys(effective).length > 0 || envVars.some(v => v.key.trim() !== '');
     onVariablesChange?.(hasVars);
-  }, [envVars, onVariablesChange]);
+  }, [envVars, effective, onVariablesChange]);
+
+  // Query string selecting the scope being edited
+  const getScopeQuery = () => {
+    if (scope === 'global') return '?scope=global';
+    if (scope === 'branch' && branch) return `?scope=branch&branch=${encodeURIComponent(branch)}`;
+    return '';
+  };
 
   const loadEnvVars = async () => {
     if (!projectName) return;
@@ -50,7 +78,7 @@ export function EnvVarsList({ projectName, onLoad, onSave, onVariablesChange }:
     setError('');
     
     try {
-      const response = await fetch(`/api/env-vars/${encodeURIComponent(projectName)}`);
+      const response = await fetch(`/api/env-vars/${encodeURIComponent(projectName)}${getScopeQuery()}`);
       const data = await response.json();
       
       if (!data.success) {
@@ -67,6 +95,7 @@ export function EnvVarsList({ projectName, onLoad, onSave, onVariablesChange }:
       }));
       
       setEnvVars(envVarsArray);
+      setEffective(data.effective || {});
       setHasUnsavedChanges(false);
     } catch (error) {
       console.error('Error loading environment variables:', error);
@@ -150,13 +179,13 @@ export function EnvVarsList({ projectName, onLoad, onSave, onVariablesChange }:
       const deletedKeys = Array.from(originalKeys).filter(key => !currentKeys.has(key));
 
       for (const key of deletedKeys) {
-        await fetch(`/api/env-vars/${encodeURIComponent(projectName)}/${encodeURIComponent(key)}`, {
+        await fetch(`/api/env-vars/${encodeURIComponent(projectName)}/${encodeURIComponent(key)}${getScopeQuery()}`, {
           method: 'DELETE'
         });
       }
 
       // Save current variables
-      const response = await fetch(`/api/env-vars/${encodeURIComponent(projectName)}`, {
+      const response = await fetch(`/api/env-vars/${encodeURIComponent(projectName)}${getScopeQuery()}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -200,8 +229,73 @@ export function EnvVarsList({ projectName, onLoad, onSave, onVariablesChange }:
     );
   }
 
+  // Effective values this scope doesn't set, or sets but loses to a more specific scope
+  const fromOtherScopes = Object.entries(effective).filter(([, resolved]) => resolved.source !== scope);
+
   return (
     <div className="space-y-4">
+      {/* Scope Tabs */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1" role="tablist">
+          {(['global', 'project', 'branch'] as const).map(tab => (
+            <button
+              key={tab}
+              type="button"
+              role="tab"
+              aria-selected={scope === tab}
+              onClick={() => setScope(tab)}
+              disabled={isSaving || (tab === 'branch' && !branch)}
+              title={tab === 'branch' && !branch ? 'Open the project in a workspace to set branch overrides' : undefined}
+              className={`px-3 py-1 rounded-full text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                scope === tab
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-600'
+              }`}
+            >
+              {tab === 'branch' && branch ? `Branch: ${branch}` : SCOPE_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-shrink-0 items-center gap-3 text-sm">
+          <button
+            type="button"
+            onClick={() => setIsImporting(true)}
+            disabled={isLoading || isSaving || hasUnsavedChanges}
+            title={hasUnsavedChanges ? 'Save or discard your changes first' : undefined}
+            className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+          >
+            <FileUp className="w-4 h-4 mr-1" />
+            Import .env
+          </button>
+          <a
+            href={`/api/env-vars/${encodeURIComponent(projectName)}/bulk${getScopeQuery()}`}
+            download
+            className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Export .env
+          </a>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {scope === 'global' && 'Shared by every project. Project and branch values take precedence.'}
+        {scope === 'project' && `Used by ${projectName} on every branch. Overrides global values.`}
+        {scope === 'branch' && `Only used while ${branch} is checked out. Overrides project and global values.`}
+      </p>
+
+      {isImporting && (
+        <ImportEnvDialog
+          projectName={projectName}
+          scopeQuery={getScopeQuery()}
+          scopeLabel={scope === 'branch' && branch ? `${projectName} on ${branch}` : scope === 'global' ? 'every project' : projectName}
+          onImported={() => {
+            setIsImporting(false);
+            loadEnvVars();
+          }}
+          onCancel={() => setIsImporting(false)}
+        />
+      )}
+
       {error && (
         <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
           <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
@@ -248,6 +342,23 @@ export function EnvVarsList({ projectName, onLoad, onSave, onVariablesChange }:
             )}
           </div>
 
+          {fromOtherScopes.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-gray-500 dark:text-gray-400">Effective from other scopes</p>
+              {fromOtherScopes.map(([key, resolved]) => (
+                <div key={key} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-mono truncate">{key}</span>
+                  <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+                    {resolved.overrides.includes(scope) && 'overrides this scope · '}
+                    <span className="px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-600">
+                      {resolved.source === 'branch' ? `Branch: ${branch}` : SCOPE_LABELS[resolved.source]}
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {envVars.length > 0 && (
             <div className="flex items-center justify-between pt-4 border-t border-gray-200 dark:border-gray-700">
               <button
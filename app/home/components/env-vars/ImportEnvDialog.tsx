@@ -0,0 +1,191 @@
+import { useRef, useState } from 'react';
+import { FileUp, Loader2 } from 'lucide-react';
+import { DOCK_Z_INDEX } from '../../constants/layout';
+import { parseDotenv, type DotenvImportPlan, type DotenvParseError } from '@/lib/dotenv';
+
+export interface ImportEnvDialogProps {
+  projectName: string;
+  scopeQuery: string;     // Query string selecting the scope to import into
+  scopeLabel: string;
+  onImported: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Paste or upload a .env file, preview what it adds and overwrites, then import it
+ */
+export function ImportEnvDialog({ projectName, scopeQuery, scopeLabel, onImported, onCancel }: ImportEnvDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [content, setContent] = useState('');
+  const [overwrite, setOverwrite] = useState(true);
+  const [preview, setPreview] = useState<DotenvImportPlan | null>(null);
+  const [parseErrors, setParseErrors] = useState<DotenvParseError[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const url = `/api/env-vars/${encodeURIComponent(projectName)}/bulk${scopeQuery}`;
+
+  const handleContentChange = (value: string) => {
+    setContent(value);
+    setPreview(null);
+    setParseErrors([]);
+    setError('');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    handleContentChange(await file.text());
+    // Picking the same file again after editing it should load it again
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const submit = async (dryRun: boolean) => {
+    // Mistakes show up without a round trip; the server parses again before saving
+    const { errors } = parseDotenv(content);
+    if (errors.length > 0) {
+      setParseErrors(errors);
+      return;
+    }
+
+    setIsBusy(true);
+    setError('');
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ content, dryRun, overwrite })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setParseErrors(data.errors || []);
+        throw new Error(data.error || 'Failed to import environment variables');
+      }
+
+      if (dryRun) {
+        setPreview(data.preview);
+      } else {
+        onImported();
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to import environment variables');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const importCount = preview ? preview.added.length + (overwrite ? preview.overwritten.length : 0) : 0;
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black/50"
+      style={{ zIndex: DOCK_Z_INDEX + 1 }}
+      onClick={isBusy ? undefined : onCancel}
+    >
+      <div
+        role="dialog"
+        aria-label="Import .env"
+        className="w-[32rem] max-w-[90vw] rounded-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 shadow-2xl p-5 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div>
+          <div className="font-semibold">Import .env</div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Into {scopeLabel}</p>
+        </div>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".env,.txt,text/plain"
+          className="hidden"
+          onChange={e => handleFile(e.target.files?.[0])}
+        />
+        <textarea
+          value={content}
+          onChange={e => handleContentChange(e.target.value)}
+          placeholder={'# Paste your .env file\nDATABASE_URL=postgres://localhost/app\nexport API_KEY="secret"'}
+          rows={10}
+          spellCheck={false}
+          disabled={isBusy}
+          className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-transparent px-3 py-2 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+          autoFocus
+        />
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={isBusy}
+            className="inline-flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            <FileUp className="w-4 h-4" />
+            Upload file
+          </button>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={overwrite} onChange={e => setOverwrite(e.target.checked)} disabled={isBusy} />
+            Overwrite existing values
+          </label>
+        </div>
+
+        {parseErrors.length > 0 && (
+          <ul className="max-h-24 overflow-y-auto text-xs text-red-600 dark:text-red-400 space-y-0.5">
+            {parseErrors.map(parseError => (
+              <li key={`${parseError.line}-${parseError.message}`}>Line {parseError.line}: {parseError.message}</li>
+            ))}
+          </ul>
+        )}
+
+        {preview && (
+          <div className="max-h-40 overflow-y-auto space-y-2 text-xs">
+            {([
+              ['Add', preview.added, 'text-green-700 dark:text-green-300'],
+              [overwrite ? 'Overwrite' : 'Keep existing', preview.overwritten, 'text-orange-700 dark:text-orange-300'],
+              ['Already set', preview.unchanged, 'text-gray-500 dark:text-gray-400']
+            ] as const).map(([label, keys, className]) => keys.length > 0 && (
+              <div key={label}>
+                <p className={`font-medium ${className}`}>{label} ({keys.length})</p>
+                <p className="font-mono break-words">{keys.join(', ')}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isBusy}
+            className="rounded px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          {preview ? (
+            <button
+              type="button"
+              onClick={() => submit(false)}
+              disabled={isBusy || importCount === 0}
+              className="flex items-center gap-2 rounded bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+              Import {importCount} {importCount === 1 ? 'variable' : 'variables'}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => submit(true)}
+              disabled={isBusy || !content.trim()}
+              className="flex items-center gap-2 rounded bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+              Preview
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ export interface ProjectSelectorProps {
   projects: string[];
   selectedProject: string;
   onProjectChange: (project: string) => void;
+  driftCount?: number;    // Variables of the selected project added or edited in the sandbox
   className?: string;
 }
 
@@ -12,6 +13,7 @@ export function ProjectSelector({
   projects,
   selectedProject,
   onProjectChange,
+  driftCount = 0,
   className = ''
 }: ProjectSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
@@ -58,6 +60,14 @@ export function ProjectSelector({
         <span className="truncate">
           {selectedProject || 'Select a project...'}
         </span>
+        {driftCount > 0 && (
+          <span
+            className="ml-auto mr-2 flex-shrink-0 px-1.5 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/40 text-xs text-amber-800 dark:text-amber-200"
+            title="The env file in the sandbox has variables that are not in the cloud"
+          >
+            {driftCount} changed in sandbox
+          </span>
+        )}
         <ChevronDown 
           className={`w-4 h-4 text-gray-500 transition-transform ${
             isOpen ? 'rotate-180' : ''
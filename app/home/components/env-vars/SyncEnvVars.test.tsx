@@ -232,6 +232,60 @@ describe('SyncEnvVars', () => {
         expect(screen.getByText('Created .env.local with 2 variables')).toBeInTheDocument();
       });
     });
+
+    it('should list each target file written', async () => {
+      const target = (path: string, fileExisted: boolean) => ({
+        path,
+        format: 'dotenv',
+        added: ['API_KEY'],
+        updated: [],
+        preserved: [],
+        conflicts: [],
+        fileExisted,
+        backupCreated: fileExisted
+      });
+      const mockResponse = {
+        success: true,
+        summary: {
+          added: ['API_KEY'],
+          updated: [],
+          preserved: [],
+          conflicts: [],
+          fileExisted: true,
+          backupCreated: true,
+          targets: [target('apps/web/.env', true), target('apps/api/.env', false)]
+        }
+      };
+
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+        json: () => Promise.resolve(mockResponse)
+      });
+
+      render(<SyncEnvVars projectName="test-project" hasVariables={true} />);
+
+      fireEvent.click(screen.getByText('Smart Sync to Workspace'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Synced 2 files')).toBeInTheDocument();
+      });
+      expect(screen.getByText(/added 1, updated 0 \(backup created\)/)).toBeInTheDocument();
+      expect(screen.getByText(/created$/)).toBeInTheDocument();
+    });
+
+    it('should load the target files when editing them', async () => {
+      (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValue({
+        json: () => Promise.resolve({ success: true, targets: [{ path: 'apps/web/.env', format: 'dotenv' }] })
+      });
+
+      render(<SyncEnvVars projectName="test-project" hasVariables={true} />);
+
+      fireEvent.click(screen.getByText('Target files'));
+
+      await waitFor(() => {
+        expect(screen.getByDisplayValue('apps/web/.env')).toBeInTheDocument();
+      });
+      expect(global.fetch).toHaveBeenCalledWith('/api/env-vars/test-project/targets');
+    });
   });
 
   describe('Error Handling', () => {
@@ -390,4 +444,49 @@ describe('SyncEnvVars', () => {
       });
     });
   });
+
+  describe('Drift', () => {
+    const drift = {
+      path: '.env.local',
+      fileExists: true,
+      localOnly: ['AGENT_TOKEN'],
+      changed: [{ key: 'API_URL', source: 'project' as const }],
+      missing: []
+    };
+
+    it('should show variables changed in the sandbox and pull them into the cloud', async () => {
+      const onPullLocalChanges = vi.fn().mockResolvedValue(['AGENT_TOKEN', 'API_URL']);
+
+      render(<SyncEnvVars projectName="test-project" hasVariables={true} drift={drift} onPullLocalChanges={onPullLocalChanges} />);
+
+      expect(screen.getByText(/1 added and 1 edited variables not in the cloud/)).toBeInTheDocument();
+      expect(screen.getByText('AGENT_TOKEN')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Pull local changes into cloud'));
+
+      await waitFor(() => {
+        expect(onPullLocalChanges).toHaveBeenCalled();
+      });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should offer the pull without cloud variables to sync', () => {
+      render(<SyncEnvVars projectName="test-project" hasVariables={false} drift={drift} onPullLocalChanges={vi.fn()} />);
+
+      expect(screen.getByText('Pull local changes into cloud')).toBeInTheDocument();
+      expect(screen.queryByText('Smart Sync to Workspace')).not.toBeInTheDocument();
+    });
+
+    it('should show the pull error', async () => {
+      const onPullLocalChanges = vi.fn().mockRejectedValue(new Error('Daytona API key not found'));
+
+      render(<SyncEnvVars projectName="test-project" hasVariables={true} drift={drift} onPullLocalChanges={onPullLocalChanges} />);
+
+      fireEvent.click(screen.getByText('Pull local changes into cloud'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Daytona API key not found')).toBeInTheDocument();
+      });
+    });
+  });
 });
\ No newline at end of file
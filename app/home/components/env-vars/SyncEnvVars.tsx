@@ -1,14 +1,31 @@
 import { useState } from 'react';
-import { AlertCircle, CheckCircle, Loader2, Zap } from 'lucide-react';
+import { AlertCircle, AlertTriangle, CheckCircle, CloudUpload, FileCog, Loader2, Zap } from 'lucide-react';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { SyncTargetsEditor } from './SyncTargetsEditor';
+import { hasEnvDrift, type EnvDrift } from '@/lib/env-drift';
 
 interface SyncEnvVarsProps {
   projectName: string;
+  branch?: string;      // Checked out branch, whose overrides win over project and global values
   hasVariables: boolean;
+  drift?: EnvDrift | null;                        // How the sandbox file differs from the cloud
+  onPullLocalChanges?: () => Promise<unknown>;    // Store the sandbox's changes in the cloud
+  onSynced?: () => void;
 }
 
-export function SyncEnvVars({ projectName, hasVariables }: SyncEnvVarsProps) {
+interface TargetFileResult {
+  path: string;
+  added: string[];
+  updated: string[];
+  fileExisted: boolean;
+  backupCreated: boolean;
+}
+
+export function SyncEnvVars({ projectName, branch, hasVariables, drift, onPullLocalChanges, onSynced }: SyncEnvVarsProps) {
   const [isSyncing, setIsSyncing] = useState(false);
+  const [isEditingTargets, setIsEditingTargets] = useState(false);
+  const [isPulling, setIsPulling] = useState(false);
+  const [pullError, setPullError] = useState('');
   const [syncResult, setSyncResult] = useState<{
     success: boolean;
     message: string;
@@ -23,6 +40,7 @@ export function SyncEnvVars({ projectName, hasVariables }: SyncEnvVarsProps) {
     }>;
     fileExisted?: boolean;
     backupCreated?: boolean;
+    targets?: TargetFileResult[];
   } | null>(null);
 
   const activeWorkspace = useWorkspaceStore(state => state.getActiveWorkspace());
@@ -43,6 +61,7 @@ export function SyncEnvVars({ projectName, hasVariables }: SyncEnvVarsProps) {
         body: JSON.stringify({
           workspaceId: sandboxId,
           projectName,
+          ...(branch && { branch }),
           mode: 'smart',
           conflictResolution: 'prefer-local'
         })
@@ -52,16 +71,19 @@ export function SyncEnvVars({ projectName, hasVariables }: SyncEnvVarsProps) {
 
       if (data.success) {
         const summary = data.summary;
+        const targets: TargetFileResult[] | undefined = summary.targets;
         
         // Smart sync succeeded
         let message = 'Successfully synced environment variables!';
-        if (summary.fileExisted) {
+        if (targets && targets.length > 1) {
+          message = `Synced ${targets.length} files`;
+        } else if (summary.fileExisted) {
           message = `Smart sync complete! Added: ${summary.added.length}, Updated: ${summary.updated.length}, Preserved: ${summary.preserved.length}`;
           if (summary.backupCreated) {
             message += ' (backup created)';
           }
         } else {
-          message = `Created .env.local with ${summary.added.length} variables`;
+          message = `Created ${targets?.[0]?.path ?? '.env.local'} with ${summary.added.length} variables`;
         }
         
         setSyncResult({
@@ -72,8 +94,10 @@ export function SyncEnvVars({ projectName, hasVariables }: SyncEnvVarsProps) {
           preserved: summary.preserved,
           conflicts: summary.conflicts,
           fileExisted: summary.fileExisted,
-          backupCreated: summary.backupCreated
+          backupCreated: summary.backupCreated,
+          targets
         });
+        onSynced?.();
       } else {
         const errorMessage = data.error || 'Failed to sync environment variables';
         setSyncResult({
@@ -104,18 +128,88 @@ export function SyncEnvVars({ projectName, hasVariables }: SyncEnvVarsProps) {
     );
   }
 
-  // Don't show sync button if no variables exist
+  const handlePullLocalChanges = async () => {
+    if (!onPullLocalChanges) return;
+
+    setIsPulling(true);
+    setPullError('');
+
+    try {
+      await onPullLocalChanges();
+    } catch (error) {
+      setPullError(error instanceof Error ? error.message : 'Failed to pull local changes');
+    } finally {
+      setIsPulling(false);
+    }
+  };
+
+  const isDrifted = !!drift && hasEnvDrift(drift);
+
+  // Drift between the sandbox file and the cloud
+  const driftNotice = drift && isDrifted && (
+    <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-xs space-y-2">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+        <p className="text-amber-800 dark:text-amber-200">
+          <span className="font-medium">Changed in sandbox:</span>{' '}
+          <code className="font-mono">{drift.path}</code> has{' '}
+          {[
+            drift.localOnly.length > 0 && `${drift.localOnly.length} added`,
+            drift.changed.length > 0 && `${drift.changed.length} edited`
+          ].filter(Boolean).join(' and ')}{' '}
+          {drift.localOnly.length + drift.changed.length === 1 ? 'variable' : 'variables'} not in the cloud
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {[...drift.localOnly, ...drift.changed.map(({ key }) => key)].map(key => (
+          <span key={key} className="px-2 py-0.5 bg-amber-100 dark:bg-amber-900/30 rounded text-amber-800 dark:text-amber-200 font-mono">
+            {key}
+          </span>
+        ))}
+      </div>
+      {onPullLocalChanges && (
+        <button
+          type="button"
+          onClick={handlePullLocalChanges}
+          disabled={isPulling || isSyncing}
+          className="inline-flex items-center gap-1 font-medium text-amber-800 dark:text-amber-200 hover:underline disabled:opacity-50"
+        >
+          {isPulling ? <Loader2 className="w-3 h-3 animate-spin" /> : <CloudUpload className="w-3 h-3" />}
+          Pull local changes into cloud
+        </button>
+      )}
+      {pullError && <p className="text-red-600 dark:text-red-400">{pullError}</p>}
+    </div>
+  );
+
+  // Don't show sync button if no variables exist, only what the sandbox has to pull
   if (!hasVariables) {
-    return null;
+    return driftNotice || null;
   }
 
   return (
     <div className="space-y-3">
+      {driftNotice}
+
       {/* Info */}
       <p className="text-xs text-gray-500 dark:text-gray-400">
-        🪄 Smart sync automatically creates .env.local in your workspace and preserves existing variables
+        🪄 Smart sync automatically creates .env.local, or the target files you choose, in your workspace and preserves existing variables
       </p>
 
+      {/* Target files, not changed while a sync is writing them */}
+      {isEditingTargets ? (
+        <SyncTargetsEditor projectName={projectName} onClose={() => setIsEditingTargets(false)} />
+      ) : !isSyncing && (
+        <button
+          type="button"
+          onClick={() => setIsEditingTargets(true)}
+          className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <FileCog className="w-3 h-3" />
+          Target files
+        </button>
+      )}
+
       {/* Sync Button */}
       <button
         type="button"
@@ -158,6 +252,20 @@ export function SyncEnvVars({ projectName, hasVariables }: SyncEnvVarsProps) {
                 {syncResult.message}
               </p>
               
+              {/* Each file written, when there are several */}
+              {syncResult.success && syncResult.targets && syncResult.targets.length > 1 && (
+                <ul className="mt-2 space-y-0.5 text-xs text-green-800 dark:text-green-200">
+                  {syncResult.targets.map(target => (
+                    <li key={target.path}>
+                      <code className="font-mono">{target.path}</code>:{' '}
+                      {target.fileExisted
+                        ? `added ${target.added.length}, updated ${target.updated.length}${target.backupCreated ? ' (backup created)' : ''}`
+                        : 'created'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
               {/* Show detailed results */}
               {syncResult.success && (
                 <div className="mt-2 space-y-2 text-xs">
@@ -218,7 +326,13 @@ export function SyncEnvVars({ projectName, hasVariables }: SyncEnvVarsProps) {
               {/* File location info */}
               {syncResult.success && (
                 <div className="mt-3 p-2 bg-blue-50 dark:bg-blue-900/20 rounded text-xs text-blue-800 dark:text-blue-200">
-                  📁 Check your project directory for <code className="font-mono bg-blue-100 dark:bg-blue-800 px-1 rounded">.env.local</code>
+                  📁 Check your project directory for{' '}
+                  {(syncResult.targets?.map(target => target.path) ?? ['.env.local']).map((path, index) => (
+                    <span key={path}>
+                      {index > 0 && ', '}
+                      <code className="font-mono bg-blue-100 dark:bg-blue-800 px-1 rounded">{path}</code>
+                    </span>
+                  ))}
                 </div>
               )}
             </div>
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  ENV_TARGET_FORMATS,
+  MAX_ENV_SYNC_TARGETS,
+  EnvSyncTargetError,
+  validateEnvSyncTargets,
+  type EnvSyncTarget,
+  type EnvTargetFormat
+} from '@/lib/env-sync-targets';
+
+export interface SyncTargetsEditorProps {
+  projectName: string;
+  onClose: () => void;
+}
+
+/**
+ * Choose the files a sync writes in the project, e.g. apps/web/.env in a monorepo
+ */
+export function SyncTargetsEditor({ projectName, onClose }: SyncTargetsEditorProps) {
+  const [targets, setTargets] = useState<EnvSyncTarget[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const url = `/api/env-vars/${encodeURIComponent(projectName)}/targets`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTargets = async () => {
+      try {
+        const response = await fetch(url);
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (data.success) {
+          setTargets(data.targets);
+        } else {
+          setError(data.error || 'Failed to load target files');
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load target files');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadTargets();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const updateTarget = (index: number, change: Partial<EnvSyncTarget>) => {
+    setTargets(current => current.map((target, i) => (i === index ? { ...target, ...change } : target)));
+    setError('');
+  };
+
+  const handleSave = async () => {
+    // Mistakes show up without a round trip; the server validates again before saving
+    try {
+      validateEnvSyncTargets(targets);
+    } catch (validationError) {
+      if (EnvSyncTargetError.isEnvSyncTargetError(validationError)) {
+        setError(validationError.message);
+        return;
+      }
+      throw validationError;
+    }
+
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ targets })
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save target files');
+      }
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save target files');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading target files...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Files written in the project directory. Each is merged with its local values and backed up before writing.
+      </p>
+
+      {targets.map((target, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={target.path}
+            onChange={e => updateTarget(index, { path: e.target.value })}
+            placeholder="apps/web/.env"
+            aria-label="Target file path"
+            disabled={isSaving}
+            className="flex-1 min-w-0 rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 font-mono text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <select
+            value={target.format}
+            onChange={e => updateTarget(index, { format: e.target.value as EnvTargetFormat })}
+            aria-label="Target file format"
+            disabled={isSaving}
+            className="rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 text-xs"
+          >
+            {(Object.keys(ENV_TARGET_FORMATS) as EnvTargetFormat[]).map(format => (
+              <option key={format} value={format}>{ENV_TARGET_FORMATS[format]}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setTargets(current => current.filter((_, i) => i !== index))}
+            disabled={isSaving || targets.length === 1}
+            title="Remove target file"
+            className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-30"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setTargets(current => [...current, { path: '', format: 'dotenv' }])}
+          disabled={isSaving || targets.length >= MAX_ENV_SYNC_TARGETS}
+          className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        >
+          <Plus className="w-3 h-3" />
+          Add file
+        </button>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSaving}
+            className="rounded px-3 py-1 text-xs hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex items-center gap-1 rounded bg-blue-600 px-3 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
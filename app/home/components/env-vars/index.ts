@@ -2,7 +2,11 @@ export { ProjectSelector } from './ProjectSelector';
 export { EnvVarRow } from './EnvVarRow';
 export { EnvVarsList } from './EnvVarsList';
 export { SyncEnvVars } from './SyncEnvVars';
+export { ImportEnvDialog } from './ImportEnvDialog';
+export { SyncTargetsEditor } from './SyncTargetsEditor';
 export type { EnvironmentVariable } from './EnvVarRow';
 export type { ProjectSelectorProps } from './ProjectSelector';
 export type { EnvVarRowProps } from './EnvVarRow';
-export type { EnvVarsListProps } from './EnvVarsList';
\ No newline at end of file
+export type { EnvVarsListProps } from './EnvVarsList';
+export type { ImportEnvDialogProps } from './ImportEnvDialog';
+export type { SyncTargetsEditorProps } from './SyncTargetsEditor';
\ No newline at end of file
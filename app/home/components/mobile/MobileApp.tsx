@@ -5,6 +5,8 @@ import { type MobileApp } from './MobileWorkspace';
 import { ArrowLeft } from 'lucide-react';
 import { getApp } from '../../apps';
 import { type AppType } from '../../apps/BaseApp';
+import { isAgentId } from '@/lib/agent-registry';
+import { useWorkspaceStore } from '../../stores/workspaceStore';
 import MobileSettings from './MobileSettings';
 import AppIcon from '../ui/AppIcon';
 
@@ -17,6 +19,7 @@ interface MobileAppProps {
 }
 
 export default function MobileApp({ app, onClose, theme, onThemeChange, isOpening }: MobileAppProps) {
+  const sandboxId = useWorkspaceStore(state => state.sandboxId);
 
   const getAppContent = () => {
     // Special handling for settings app that needs theme props
@@ -46,21 +49,14 @@ export default function MobileApp({ app, onClose, theme, onThemeChange, isOpenin
     // Switch case ensures we handle all app types - compiler will error if we add new types  
     // Force TypeScript to recognize this as the full AppType union
     switch (app.type as AppType) {
-      case 'terminal': {
+      case 'terminal':
+      case 'custom-terminal': {
         const Component = MobileContent as React.ComponentType<{ terminalPort?: number }>;
         return <Component terminalPort={app.terminalPort} />;
       }
-      case 'claude': {
-        const Component = MobileContent as React.ComponentType<{ claudePort?: number }>;
-        return <Component claudePort={app.claudePort} />;
-      }
-      case 'gemini': {
-        const Component = MobileContent as React.ComponentType<{ geminiPort?: number }>;
-        return <Component geminiPort={app.geminiPort} />;
-      }
       case 'vscode': {
-        const Component = MobileContent as React.ComponentType<{ repositoryUrl?: string }>;
-        return <Component repositoryUrl={app.repositoryUrl} />;
+        const Component = MobileContent as React.ComponentType<{ repositoryUrl?: string; workspaceId?: string; repositoryName?: string }>;
+        return <Component repositoryUrl={app.repositoryUrl} workspaceId={sandboxId ?? undefined} repositoryName={app.repositoryName} />;
       }
       case 'settings': {
         const Component = MobileContent as React.ComponentType<Record<string, never>>;
@@ -75,6 +71,12 @@ export default function MobileApp({ app, onClose, theme, onThemeChange, isOpenin
         return <Component />;
       }
       default: {
+        // Agent apps from the agent registry share the same props
+        if (isAgentId(app.type)) {
+          const Component = MobileContent as React.ComponentType<{ port?: number }>;
+          return <Component port={app.agentPort} />;
+        }
+
         // Fallback for any unhandled app types
         console.warn(`Unhandled app type: ${app.type}`);
         return <div className="w-full h-full flex items-center justify-center text-red-500">Unsupported app type: {app.type}</div>;
@@ -1,11 +1,11 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Activity, RefreshCw, XCircle } from 'lucide-react';
+import { Activity, RefreshCw, RotateCw, XCircle } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { cn } from '@/lib/utils';
 import { useWorkspaceHealth } from '@/hooks/use-workspace-health';
-import { getHealthIcon, getServiceIcon } from '@/lib/health-utils';
+import { getHealthIcon, getRestartText, getServiceIcon } from '@/lib/health-utils';
 
 export function MobileHealthIcon() {
   const {
@@ -16,6 +16,8 @@ export function MobileHealthIcon() {
     activeWorkspace,
     checkHealth,
     fixServices,
+    restartingService,
+    restartService,
   } = useWorkspaceHealth();
   
   const [isOpen, setIsOpen] = useState(false);
@@ -130,6 +132,9 @@ export function MobileHealthIcon() {
                     <div className="flex items-center gap-2">
                       {getServiceIcon(service)}
                       <span className="font-medium">{service.service}</span>
+                      {getRestartText(service) && (
+                        <span className="text-amber-600 dark:text-amber-400">{getRestartText(service)}</span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2 text-gray-500">
                       <span>:{service.port}</span>
@@ -137,6 +142,18 @@ export function MobileHealthIcon() {
                       {service.pid && (
                         <span className="text-xs">PID: {service.pid}</span>
                       )}
+                      {service.repository && service.serviceId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0"
+                          title={`Restart ${service.service}`}
+                          onClick={() => restartService(service.repository!, service.serviceId!)}
+                          disabled={isRestarting || restartingService !== null}
+                        >
+                          <RotateCw className={cn("h-3 w-3", restartingService === `${service.repository}:${service.serviceId}` && "animate-spin")} />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
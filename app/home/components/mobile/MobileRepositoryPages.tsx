@@ -1,23 +1,25 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
+import { GitBranch } from 'lucide-react';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
 import { Repository } from '../../stores/workspaceStore';
 import MobileApp from './MobileApp';
-import { getAvailableApps } from '../../apps';
-import { AppMetadata } from '../../apps/BaseApp';
+import { getAvailableApps, getCustomTerminalIcon } from '../../apps';
+import { AppMetadata, AppType } from '../../apps/BaseApp';
+import { isAgentId } from '@/lib/agent-registry';
+import { formatHead, useRepositoryHeads } from '../../hooks/useRepositoryHeads';
 
 export interface MobileApp {
   id: string;
   name: string;
   icon: AppMetadata['icon'];
   color: string;
-  type: 'vscode' | 'claude' | 'gemini' | 'diff' | 'settings' | 'terminal' | 'setup';
+  type: AppType;
   comingSoon?: boolean;
   repositoryUrl?: string;
   terminalPort?: number;
-  claudePort?: number;
-  geminiPort?: number;
+  agentPort?: number;
 }
 
 const getMobileAppColor = (primaryColor: string): string => {
@@ -28,34 +30,42 @@ const getMobileAppColor = (primaryColor: string): string => {
 const getAppsForRepository = (repository: Repository): MobileApp[] => {
   const dockAppIds = ['settings']; // Only Settings is in the dock
   
-  return getAvailableApps()
+  const apps = getAvailableApps()
     .filter(app => !dockAppIds.includes(app.metadata.id)) // Exclude dock apps (only Settings)
     .map(app => ({
       id: `${app.metadata.id}-${repository.name}`,
       name: app.metadata.name,
       icon: app.metadata.icon,
       color: getMobileAppColor(app.metadata.colors.primary),
-      type: app.metadata.id as 'vscode' | 'claude' | 'gemini' | 'diff' | 'settings' | 'terminal',
-      comingSoon: app.metadata.comingSoon || app.metadata.id === 'diff', // Force Code Diff to be coming soon
+      type: app.metadata.id as AppType,
+      comingSoon: app.metadata.comingSoon,
       repositoryUrl: getRepositoryUrlForApp(repository, app.metadata.id),
+      repositoryName: repository.name,
       terminalPort: repository.ports?.terminal,
-      claudePort: repository.ports?.claude,
-      geminiPort: repository.ports?.gemini
+      agentPort: isAgentId(app.metadata.id) ? repository.ports?.[app.metadata.id] : undefined
     }));
+
+  // User-defined terminals follow the built-in apps
+  const customTerminalApps = (repository.customTerminals || []).map(terminal => ({
+    id: `custom-terminal-${terminal.id}-${repository.name}`,
+    name: terminal.name,
+    icon: getCustomTerminalIcon(terminal),
+    color: 'bg-slate-600',
+    type: 'custom-terminal' as const,
+    terminalPort: terminal.port
+  }));
+
+  return [...apps, ...customTerminalApps];
 };
 
 const getRepositoryUrlForApp = (repository: Repository, appType: string): string => {
   switch (appType) {
     case 'vscode':
       return repository.urls?.vscode || '';
-    case 'claude':
-      return repository.urls?.claude || '';
-    case 'gemini':
-      return repository.urls?.gemini || '';
     case 'terminal':
       return repository.urls?.terminal || '';
     default:
-      return '';
+      return isAgentId(appType) ? repository.urls?.[appType] || '' : '';
   }
 };
 
@@ -70,6 +80,7 @@ export function MobileRepositoryPages({ onAppOpen }: MobileRepositoryPagesProps)
   const [startX, setStartX] = useState(0);
   const [translateX, setTranslateX] = useState(0);
   const containerRef = useRef<HTMLDivElement>(null);
+  const { heads } = useRepositoryHeads();
 
   // Get repositories from workspaces
   const repositories = workspaces.map(workspace => workspace.repository);
@@ -202,6 +213,7 @@ export function MobileRepositoryPages({ onAppOpen }: MobileRepositoryPagesProps)
         >
           {repositories.map((repository) => {
             const pageApps = getAppsForRepository(repository);
+            const head = heads[repository.name];
             
             return (
               <div 
@@ -210,6 +222,12 @@ export function MobileRepositoryPages({ onAppOpen }: MobileRepositoryPagesProps)
                 className="h-full flex-shrink-0 px-6"
                 style={{ width: '100vw' }}
               >
+                {head && (
+                  <div className="flex items-center justify-center gap-1 pb-3 text-xs text-white/70">
+                    <GitBranch className="w-3 h-3" />
+                    <span className="truncate">{repository.name} · {formatHead(head)}</span>
+                  </div>
+                )}
                 {pageApps.length === 0 ? (
                   <div className="flex items-center justify-center h-full">
                     <p className="text-white/70 text-center">No apps available</p>
@@ -4,6 +4,7 @@ import { SignedIn, UserButton } from '@clerk/nextjs';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
 import { MobileHealthIcon } from './MobileHealthIcon';
 import { PortShortcutIcon } from '../ui/PortShortcutIcon';
+import { IdleCountdown } from '../ui/idle-countdown';
 
 export function MobileStatusBar() {
   const { workspaces, activeWorkspaceId } = useWorkspaceStore();
@@ -39,8 +40,9 @@ export function MobileStatusBar() {
         )}
       </div>
 
-      {/* Right - Port shortcut and health indicator */}
+      {/* Right - Auto-stop countdown, port shortcut and health indicator */}
       <div className="flex items-center gap-2">
+        <IdleCountdown compact />
         <PortShortcutIcon />
         <MobileHealthIcon />
       </div>
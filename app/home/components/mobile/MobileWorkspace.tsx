@@ -22,9 +22,9 @@ export interface MobileApp {
   type: AppType;
   comingSoon?: boolean;
   repositoryUrl?: string;
+  repositoryName?: string;
   terminalPort?: number;
-  claudePort?: number;
-  geminiPort?: number;
+  agentPort?: number;
 }
 
 const getMobileAppColor = (primaryColor: string): string => {
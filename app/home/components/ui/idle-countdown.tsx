@@ -0,0 +1,53 @@
+'use client';
+
+import { Timer } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useWorkspaceIdle } from '@/hooks/use-workspace-idle';
+
+interface IdleCountdownProps {
+  compact?: boolean;   // Mobile status bar layout
+}
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Countdown shown in the menu bar before an idle or scheduled auto-stop
+ * Renders nothing until the warning period starts
+ */
+export function IdleCountdown({ compact = false }: IdleCountdownProps) {
+  const { autoStop, remainingMs, isWarning, isStopping, keepRunning } = useWorkspaceIdle();
+
+  if (!autoStop || remainingMs === null || (!isWarning && !isStopping)) {
+    return null;
+  }
+
+  const label = isStopping
+    ? 'Stopping…'
+    : `${autoStop.reason === 'schedule' ? 'Work hours over' : 'Idle'}, stopping in ${formatRemaining(remainingMs)}`;
+
+  return (
+    <div
+      className={cn(
+        'flex items-center rounded-md bg-amber-500/20 border border-amber-400/40 text-amber-100 px-2 py-0.5 text-xs',
+        compact ? 'gap-1' : 'gap-2'
+      )}
+      role="status"
+    >
+      <Timer className="w-3.5 h-3.5" />
+      <span className={cn(compact && 'max-w-28 truncate')} title={label}>
+        {compact && !isStopping ? formatRemaining(remainingMs) : label}
+      </span>
+      {!isStopping && (
+        <button
+          onClick={() => keepRunning()}
+          className="font-medium underline-offset-2 hover:underline"
+        >
+          {compact ? 'Keep' : 'Keep running'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { MANIFEST_FILE_NAME, parseManifest, type WorkspaceManifest } from '@/lib/workspace-manifest';
+
+export interface ManifestImportProps {
+  value: WorkspaceManifest | null;
+  onChange: (value: WorkspaceManifest | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pick an agentsos.yaml (or JSON) manifest to create the workspace from
+ * Parsed in the browser so mistakes show up before a sandbox is created
+ */
+export function ManifestImport({ value, onChange, disabled }: ManifestImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setError(null);
+    try {
+      onChange(parseManifest(await file.text()));
+    } catch (err) {
+      onChange(null);
+      setError(err instanceof Error ? err.message : 'Invalid manifest');
+    } finally {
+      // Picking the same file again after fixing it should trigger onChange
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const commandCount = value?.repositories.reduce((count, repository) => count + (repository.commands?.length ?? 0), 0) ?? 0;
+
+  return (
+    <div className="space-y-2 text-sm">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".yaml,.yml,.json"
+        className="hidden"
+        onChange={e => handleFile(e.target.files?.[0])}
+      />
+      {value ? (
+        <div className="flex items-start gap-2 rounded-lg border border-blue-500 bg-blue-500/10 px-3 py-2">
+          <FileUp className="w-4 h-4 mt-0.5 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="font-medium truncate">{value.name || MANIFEST_FILE_NAME}</div>
+            <div className="text-xs opacity-70">
+              {value.repositories.length} repositories · {commandCount} commands
+              {value.resourceProfile && ` · ${value.resourceProfile}`}
+              {value.image && ` · ${value.image}`}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            disabled={disabled}
+            className="opacity-70 hover:opacity-100"
+            aria-label="Remove manifest"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="flex w-full items-center justify-center gap-2 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 px-3 py-2 hover:border-blue-400 disabled:opacity-50"
+        >
+          <FileUp className="w-4 h-4" />
+          Import {MANIFEST_FILE_NAME}
+        </button>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
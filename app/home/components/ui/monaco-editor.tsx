@@ -3,9 +3,12 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Editor, Monaco } from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
+import type { FileTreeItem } from '@/lib/workspace-files';
+import { getLanguageFromPath } from './monaco-language';
 
 interface MonacoEditorProps {
   workspaceId?: string;
+  repository?: string;
   className?: string;
   theme?: 'light' | 'vs-dark';
   onFileChange?: (filePath: string, content: string) => void;
@@ -22,10 +25,25 @@ interface FileContent {
   path: string;
   content: string;
   lastModified: string;
+  isBinary: boolean;
 }
 
+// Maximum number of files pre-loaded as models for IntelliSense
+const MAX_PRELOADED_MODELS = 50;
+
+// Files opened first when the editor mounts, in order of preference
+const PREFERRED_INITIAL_FILES = ['/README.md', '/package.json'];
+
+// Flatten a file tree into the list of file paths it contains
+const collectFilePaths = (items: FileTreeItem[]): string[] => {
+  return items.flatMap(item =>
+    item.type === 'file' ? [item.path] : collectFilePaths(item.children || [])
+  );
+};
+
 export const MonacoEditor: React.FC<MonacoEditorProps> = ({
   workspaceId,
+  repository,
   className = 'w-full h-full',
   theme = 'light',
   onFileChange,
@@ -38,43 +56,18 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
   const [models, setModels] = useState<Map<string, FileModel>>(new Map());
   const [activeFilePath, setActiveFilePath] = useState<string>('');
   const [isLoading, setIsLoading] = useState(true);
+  const [filePaths, setFilePaths] = useState<string[]>([]);
+  
+  // lastModified of each file as last seen on the server, used for conflict detection on save
+  const lastModifiedRef = useRef<Map<string, string>>(new Map());
   
-  // Get language from file extension
-  const getLanguageFromPath = useCallback((filePath: string): string => {
-    const ext = filePath.split('.').pop()?.toLowerCase();
-    switch (ext) {
-      case 'ts': return 'typescript';
-      case 'tsx': return 'typescript';
-      case 'js': return 'javascript';
-      case 'jsx': return 'javascript';
-      case 'json': return 'json';
-      case 'md': return 'markdown';
-      case 'css': return 'css';
-      case 'scss': return 'scss';
-      case 'less': return 'less';
-      case 'html': return 'html';
-      case 'xml': return 'xml';
-      case 'py': return 'python';
-      case 'java': return 'java';
-      case 'c': return 'c';
-      case 'cpp': return 'cpp';
-      case 'cs': return 'csharp';
-      case 'php': return 'php';
-      case 'go': return 'go';
-      case 'rs': return 'rust';
-      case 'sql': return 'sql';
-      case 'sh': return 'shell';
-      case 'yml': case 'yaml': return 'yaml';
-      default: return 'plaintext';
-    }
-  }, []);
-
   // Load file content from API
   const loadFileContent = useCallback(async (filePath: string): Promise<FileContent | null> => {
     try {
       const params = new URLSearchParams({
         path: filePath,
-        ...(workspaceId && { workspaceId })
+        ...(workspaceId && { workspaceId }),
+        ...(repository && { repository })
       });
       
       const response = await fetch(`/api/files/content?${params}`);
@@ -84,6 +77,11 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
         onError?.(result.error || 'Failed to load file');
         return null;
       }
+
+      if (result.data.isBinary) {
+        onError?.(`Cannot open binary file: ${filePath}`);
+        return null;
+      }
       
       return result.data;
     } catch (error) {
@@ -91,29 +89,112 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
       onError?.(`Failed to load file: ${message}`);
       return null;
     }
-  }, [workspaceId, onError]);
+  }, [workspaceId, repository, onError]);
+
+  // Load the repository file tree from API
+  const loadFileTree = useCallback(async (): Promise<string[]> => {
+    try {
+      const params = new URLSearchParams({
+        ...(workspaceId && { workspaceId }),
+        ...(repository && { repository })
+      });
+
+      const response = await fetch(`/api/files/structure?${params}`);
+      const result = await response.json();
+
+      if (!result.success) {
+        onError?.(result.error || 'Failed to load file tree');
+        return [];
+      }
+
+      return collectFilePaths(result.data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      onError?.(`Failed to load file tree: ${message}`);
+      return [];
+    }
+  }, [workspaceId, repository, onError]);
 
   // Save file content to API
   const saveFileContent = useCallback(async (filePath: string, content: string): Promise<boolean> => {
     try {
       const response = await fetch('/api/files/content', {
-        method: 'POST',
+        method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           path: filePath,
           content,
-          ...(workspaceId && { workspaceId })
+          lastModified: lastModifiedRef.current.get(filePath),
+          ...(workspaceId && { workspaceId }),
+          ...(repository && { repository })
         })
       });
       
       const result = await response.json();
-      return result.success;
+      if (!result.success) {
+        if (result.code === 'CONFLICT') {
+          onError?.(`${filePath} was changed in the workspace. Reload the file before saving again.`);
+        } else {
+          onError?.(result.error || 'Failed to save file');
+        }
+        return false;
+      }
+
+      lastModifiedRef.current.set(filePath, result.data.lastModified);
+      return true;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       onError?.(`Failed to save file: ${message}`);
       return false;
     }
-  }, [workspaceId, onError]);
+  }, [workspaceId, repository, onError]);
+
+  // Send a file operation (create, rename, delete) to API
+  const runFileOperation = useCallback(async (method: 'PUT' | 'PATCH' | 'DELETE', payload: Record<string, string>): Promise<boolean> => {
+    try {
+      const target = { ...payload, ...(workspaceId && { workspaceId }), ...(repository && { repository }) };
+      const response = method === 'DELETE'
+        ? await fetch(`/api/files?${new URLSearchParams(target)}`, { method })
+        : await fetch('/api/files', {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(target)
+          });
+
+      const result = await response.json();
+      if (!result.success) {
+        onError?.(result.error || 'File operation failed');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      onError?.(`File operation failed: ${message}`);
+      return false;
+    }
+  }, [workspaceId, repository, onError]);
+
+  const createFile = useCallback((filePath: string) => runFileOperation('PUT', { path: filePath, type: 'file' }), [runFileOperation]);
+  const createDirectory = useCallback((dirPath: string) => runFileOperation('PUT', { path: dirPath, type: 'directory' }), [runFileOperation]);
+  const renamePath = useCallback((fromPath: string, toPath: string) => runFileOperation('PATCH', { path: fromPath, newPath: toPath }), [runFileOperation]);
+  const deletePath = useCallback(async (filePath: string): Promise<boolean> => {
+    const deleted = await runFileOperation('DELETE', { path: filePath });
+    if (deleted) {
+      // Drop models of the deleted file (or files inside a deleted directory)
+      setModels(prev => {
+        const next = new Map(prev);
+        for (const [path, fileModel] of prev) {
+          if (path === filePath || path.startsWith(`${filePath}/`)) {
+            fileModel.model.dispose();
+            next.delete(path);
+            lastModifiedRef.current.delete(path);
+          }
+        }
+        return next;
+      });
+    }
+    return deleted;
+  }, [runFileOperation]);
 
   // Create or get model for file
   const getOrCreateModel = useCallback(async (filePath: string): Promise<FileModel | null> => {
@@ -135,6 +216,7 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
     const language = getLanguageFromPath(filePath);
     
     const model = monaco.editor.createModel(fileContent.content, language, uri);
+    lastModifiedRef.current.set(filePath, fileContent.lastModified);
     
     // Listen for content changes
     model.onDidChangeContent(() => {
@@ -157,7 +239,7 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
     
     setModels(prev => new Map(prev).set(filePath, fileModel));
     return fileModel;
-  }, [models, loadFileContent, getLanguageFromPath, onFileChange, saveFileContent]);
+  }, [models, loadFileContent, onFileChange, saveFileContent]);
 
   // Switch to different file
   const openFile = useCallback(async (filePath: string) => {
@@ -278,34 +360,34 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
     // Setup definition provider for file navigation
     setupDefinitionProvider();
 
-    // Load default file
-    openFile('/src/App.tsx').then(() => {
+    // Load the repository tree, then open a sensible default file
+    loadFileTree().then(async (paths) => {
+      setFilePaths(paths);
+      const initialFile = PREFERRED_INITIAL_FILES.find(path => paths.includes(path)) || paths[0];
+      if (initialFile) {
+        await openFile(initialFile);
+      }
       setIsLoading(false);
     });
-  }, [openFile, setupDefinitionProvider]);
+  }, [openFile, setupDefinitionProvider, loadFileTree]);
 
   // Load available models on mount for IntelliSense
   useEffect(() => {
     const loadAllModels = async () => {
-      const paths = [
-        '/src/App.tsx',
-        '/src/components/Button.tsx',
-        '/src/components/Input.tsx',
-        '/src/utils/helpers.ts',
-        '/src/index.ts',
-        '/package.json'
-      ];
+      const sourcePaths = filePaths
+        .filter(path => getLanguageFromPath(path) !== 'plaintext')
+        .slice(0, MAX_PRELOADED_MODELS);
 
       // Pre-load models for IntelliSense
-      for (const path of paths) {
+      for (const path of sourcePaths) {
         await getOrCreateModel(path);
       }
     };
 
-    if (monacoRef.current) {
+    if (monacoRef.current && filePaths.length > 0) {
       loadAllModels();
     }
-  }, [getOrCreateModel]);
+  }, [filePaths, getOrCreateModel]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -318,14 +400,24 @@ export const MonacoEditor: React.FC<MonacoEditorProps> = ({
 
   // Public API for external file opening
   useEffect(() => {
-    // Expose openFile method to parent components
-    const windowWithMonaco = window as typeof window & { monacoOpenFile?: typeof openFile };
+    // Expose file methods to parent components
+    const windowWithMonaco = window as typeof window & {
+      monacoOpenFile?: typeof openFile;
+      monacoFileOperations?: {
+        createFile: typeof createFile;
+        createDirectory: typeof createDirectory;
+        renamePath: typeof renamePath;
+        deletePath: typeof deletePath;
+      };
+    };
     windowWithMonaco.monacoOpenFile = openFile;
+    windowWithMonaco.monacoFileOperations = { createFile, createDirectory, renamePath, deletePath };
     
     return () => {
       delete windowWithMonaco.monacoOpenFile;
+      delete windowWithMonaco.monacoFileOperations;
     };
-  }, [openFile]);
+  }, [openFile, createFile, createDirectory, renamePath, deletePath]);
 
   if (isLoading) {
     return (
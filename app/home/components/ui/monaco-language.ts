@@ -0,0 +1,29 @@
+// Get Monaco language id from file extension
+export const getLanguageFromPath = (filePath: string): string => {
+  const ext = filePath.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'ts': return 'typescript';
+    case 'tsx': return 'typescript';
+    case 'js': return 'javascript';
+    case 'jsx': return 'javascript';
+    case 'json': return 'json';
+    case 'md': return 'markdown';
+    case 'css': return 'css';
+    case 'scss': return 'scss';
+    case 'less': return 'less';
+    case 'html': return 'html';
+    case 'xml': return 'xml';
+    case 'py': return 'python';
+    case 'java': return 'java';
+    case 'c': return 'c';
+    case 'cpp': return 'cpp';
+    case 'cs': return 'csharp';
+    case 'php': return 'php';
+    case 'go': return 'go';
+    case 'rs': return 'rust';
+    case 'sql': return 'sql';
+    case 'sh': return 'shell';
+    case 'yml': case 'yaml': return 'yaml';
+    default: return 'plaintext';
+  }
+};
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DOCK_Z_INDEX } from '../../constants/layout';
+
+interface RemoveRepositoryDialogProps {
+  repositoryName: string;
+  isRemoving: boolean;
+  error: string | null;
+  onConfirm: (deleteFiles: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation before a repository is removed from the workspace
+ */
+export function RemoveRepositoryDialog({ repositoryName, isRemoving, error, onConfirm, onCancel }: RemoveRepositoryDialogProps) {
+  const [deleteFiles, setDeleteFiles] = useState(false);
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black/50"
+      style={{ zIndex: DOCK_Z_INDEX + 1 }}
+      onClick={isRemoving ? undefined : onCancel}
+    >
+      <div
+        role="alertdialog"
+        aria-labelledby="remove-repository-title"
+        className="w-[26rem] max-w-[90vw] rounded-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 shadow-2xl p-5 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div>
+          <div id="remove-repository-title" className="font-semibold">Remove {repositoryName}?</div>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Its VSCode, terminal and agent services are stopped and its windows are closed.
+          </p>
+        </div>
+
+        <label className="flex items-start gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={deleteFiles}
+            onChange={e => setDeleteFiles(e.target.checked)}
+            disabled={isRemoving}
+            className="mt-0.5"
+          />
+          <span>
+            Also delete <code className="font-mono text-xs">projects/{repositoryName}</code> from the sandbox.
+            Uncommitted and unpushed changes will be lost.
+          </span>
+        </label>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={isRemoving}
+            className="rounded px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(deleteFiles)}
+            disabled={isRemoving}
+            className="flex items-center gap-2 rounded bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            {isRemoving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Remove repository
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
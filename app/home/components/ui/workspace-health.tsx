@@ -7,10 +7,10 @@ import {
   HoverCardTrigger,
 } from "@/components/ui/hover-card";
 import { Button } from "@/components/ui/button";
-import { Activity, RefreshCw, XCircle } from 'lucide-react';
+import { Activity, RefreshCw, RotateCw, XCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useWorkspaceHealth } from '@/hooks/use-workspace-health';
-import { getHealthIcon, getHealthText, getServiceIcon } from '@/lib/health-utils';
+import { getHealthIcon, getHealthText, getRestartText, getServiceIcon } from '@/lib/health-utils';
 
 export function WorkspaceHealth() {
   const {
@@ -22,6 +22,8 @@ export function WorkspaceHealth() {
     activeWorkspace,
     checkHealth,
     fixServices,
+    restartingService,
+    restartService,
   } = useWorkspaceHealth();
   
   const [isOpen, setIsOpen] = useState(false);
@@ -104,6 +106,9 @@ export function WorkspaceHealth() {
                     <div className="flex items-center gap-2">
                       {getServiceIcon(service)}
                       <span className="font-medium">{service.service}</span>
+                      {getRestartText(service) && (
+                        <span className="text-amber-600 dark:text-amber-400">{getRestartText(service)}</span>
+                      )}
                     </div>
                     <div className="flex items-center gap-2 text-gray-500">
                       <span>:{service.port}</span>
@@ -111,6 +116,18 @@ export function WorkspaceHealth() {
                       {service.pid && (
                         <span className="text-xs">PID: {service.pid}</span>
                       )}
+                      {service.repository && service.serviceId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-5 w-5 p-0"
+                          title={`Restart ${service.service}`}
+                          onClick={() => restartService(service.repository!, service.serviceId!)}
+                          disabled={isRestarting || restartingService !== null}
+                        >
+                          <RotateCw className={cn("h-3 w-3", restartingService === `${service.repository}:${service.serviceId}` && "animate-spin")} />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
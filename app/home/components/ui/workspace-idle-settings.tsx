@@ -0,0 +1,174 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Timer } from 'lucide-react';
+import { useWorkspaceIdle } from '@/hooks/use-workspace-idle';
+import { DEFAULT_IDLE_POLICY, type WorkspaceIdlePolicy, type WorkspaceSchedule } from '@/lib/workspace-idle';
+
+interface WorkspaceIdleSettingsProps {
+  compact?: boolean;   // Mobile settings layout
+}
+
+const IDLE_OPTIONS = [null, 15, 30, 60, 120, 240];
+const WARNING_OPTIONS = [1, 5, 10];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClassName = 'rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const defaultSchedule = (): WorkspaceSchedule => ({
+  days: [1, 2, 3, 4, 5],
+  start: '09:00',
+  end: '18:00',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+});
+
+/**
+ * Settings section for stopping the current sandbox when idle and starting/stopping it on work hours
+ */
+export function WorkspaceIdleSettings({ compact = false }: WorkspaceIdleSettingsProps) {
+  const { policy: savedPolicy, savePolicy } = useWorkspaceIdle({ autoStopEnabled: false });
+  const [policy, setPolicy] = useState<WorkspaceIdlePolicy>(DEFAULT_IDLE_POLICY);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (savedPolicy) {
+      setPolicy(savedPolicy);
+    }
+  }, [savedPolicy]);
+
+  const handleChange = async (value: WorkspaceIdlePolicy) => {
+    const previous = policy;
+    setPolicy(value);
+    setIsSaving(true);
+    setError(null);
+    try {
+      await savePolicy(value);
+    } catch (err) {
+      setPolicy(previous);
+      setError(err instanceof Error ? err.message : 'Failed to save auto-stop settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateSchedule = (changes: Partial<WorkspaceSchedule>) => {
+    if (policy.schedule) {
+      handleChange({ ...policy, schedule: { ...policy.schedule, ...changes } });
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    const days = policy.schedule?.days ?? [];
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort();
+    if (next.length > 0) {
+      updateSchedule({ days: next });
+    }
+  };
+
+  return (
+    <div className={`${compact ? 'bg-gray-100' : 'bg-gray-50'} dark:bg-gray-700 rounded-lg p-4`}>
+      {compact ? (
+        <h3 className="font-medium mb-3 flex items-center">
+          <Timer className="w-4 h-4 mr-2" />
+          Auto-stop
+        </h3>
+      ) : (
+        <h2 className="text-lg font-semibold mb-4 flex items-center">
+          <Timer className="w-5 h-5 mr-2" />
+          Auto-stop
+        </h2>
+      )}
+      <div className="space-y-4 text-sm">
+        <div className={compact ? 'space-y-2' : 'grid grid-cols-2 gap-4'}>
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-500">Stop when idle for</span>
+            <select
+              value={policy.idleMinutes ?? ''}
+              onChange={e => handleChange({ ...policy, idleMinutes: e.target.value ? Number(e.target.value) : null })}
+              disabled={isSaving}
+              className={inputClassName}
+            >
+              {IDLE_OPTIONS.map(minutes => (
+                <option key={minutes ?? 'off'} value={minutes ?? ''}>
+                  {minutes === null ? 'Never' : minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-500">Warn before stopping</span>
+            <select
+              value={policy.warningMinutes}
+              onChange={e => handleChange({ ...policy, warningMinutes: Number(e.target.value) })}
+              disabled={isSaving}
+              className={inputClassName}
+            >
+              {WARNING_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} minute{minutes > 1 ? 's' : ''}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          Idle means no terminal input, no VSCode connection and no busy agent.
+        </p>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={policy.schedule !== null}
+              onChange={e => handleChange({ ...policy, schedule: e.target.checked ? defaultSchedule() : null })}
+              disabled={isSaving}
+            />
+            <span>Work hours: start and stop the sandbox on a schedule</span>
+          </label>
+
+          {policy.schedule && (
+            <div className="space-y-2 pl-6">
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAYS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    disabled={isSaving}
+                    aria-pressed={policy.schedule?.days.includes(day)}
+                    className={`rounded px-2 py-1 text-xs border ${
+                      policy.schedule?.days.includes(day)
+                        ? 'border-blue-500 bg-blue-500/10'
+                        : 'border-gray-300 dark:border-gray-600'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={policy.schedule.start}
+                  onChange={e => updateSchedule({ start: e.target.value })}
+                  disabled={isSaving}
+                  className={inputClassName}
+                />
+                <span>to</span>
+                <input
+                  type="time"
+                  value={policy.schedule.end}
+                  onChange={e => updateSchedule({ end: e.target.value })}
+                  disabled={isSaving}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="text-xs text-gray-500">Times in {policy.schedule.timezone}</div>
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { FileDown } from 'lucide-react';
+import { useWorkspaceStore } from '@/app/home/stores/workspaceStore';
+import { MANIFEST_FILE_NAME } from '@/lib/workspace-manifest';
+
+interface WorkspaceManifestSettingsProps {
+  compact?: boolean;   // Mobile settings layout
+}
+
+const linkClassName = 'rounded border border-gray-300 dark:border-gray-600 px-3 py-1 text-sm hover:bg-gray-100 dark:hover:bg-gray-600';
+
+/**
+ * Settings section for downloading the current workspace as a manifest to check into a repository
+ */
+export function WorkspaceManifestSettings({ compact = false }: WorkspaceManifestSettingsProps) {
+  const { sandboxId } = useWorkspaceStore();
+
+  if (!sandboxId) {
+    return null;
+  }
+
+  return (
+    <div className={`${compact ? 'bg-gray-100' : 'bg-gray-50'} dark:bg-gray-700 rounded-lg p-4`}>
+      {compact ? (
+        <h3 className="font-medium mb-3 flex items-center">
+          <FileDown className="w-4 h-4 mr-2" />
+          Export workspace
+        </h3>
+      ) : (
+        <h2 className="text-lg font-semibold mb-4 flex items-center">
+          <FileDown className="w-5 h-5 mr-2" />
+          Export workspace
+        </h2>
+      )}
+      <div className="space-y-3 text-sm">
+        <p className="text-gray-500">
+          Repositories, branches, custom commands, agents, VSCode settings, resources and env var names.
+          Commit {MANIFEST_FILE_NAME} so teammates can import it when they create their workspace. Env var values are not included.
+        </p>
+        <div className="flex gap-2">
+          <a href={`/api/workspace-manifest/${sandboxId}?format=yaml`} download className={linkClassName}>
+            Download {MANIFEST_FILE_NAME}
+          </a>
+          <a href={`/api/workspace-manifest/${sandboxId}?format=json`} download className={linkClassName}>
+            JSON
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
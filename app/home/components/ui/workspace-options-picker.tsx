@@ -0,0 +1,130 @@
+'use client';
+
+import {
+  WORKSPACE_IMAGES,
+  WORKSPACE_RESOURCE_LIMITS,
+  WORKSPACE_RESOURCE_PROFILES,
+  type ResourceProfileId,
+  type WorkspaceImageId,
+  type WorkspaceOptions,
+  type WorkspaceResources
+} from '@/lib/workspace-defaults';
+
+export interface WorkspaceOptionsPickerProps {
+  value: WorkspaceOptions;
+  onChange: (value: WorkspaceOptions) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const RESOURCE_FIELDS: Array<{ key: keyof WorkspaceResources; label: string }> = [
+  { key: 'cpu', label: 'CPU cores' },
+  { key: 'memory', label: 'Memory (GB)' },
+  { key: 'disk', label: 'Disk (GB)' }
+];
+
+const formatResources = ({ cpu, memory, disk }: WorkspaceResources) => `${cpu} CPU · ${memory} GB RAM · ${disk} GB disk`;
+
+function OptionButton({ selected, disabled, onClick, title, subtitle }: {
+  selected: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  title: string;
+  subtitle: string;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      aria-pressed={selected}
+      className={`rounded-lg border px-3 py-2 text-left transition-colors disabled:opacity-50 ${
+        selected ? 'border-blue-500 bg-blue-500/10' : 'border-gray-300 dark:border-gray-600 hover:border-blue-400'
+      }`}
+    >
+      <div className="text-sm font-medium">{title}</div>
+      <div className="text-xs opacity-70">{subtitle}</div>
+    </button>
+  );
+}
+
+/**
+ * Resource profile and base image for a new sandbox
+ * Custom resources are limited to WORKSPACE_RESOURCE_LIMITS (also enforced by /api/create-workspace)
+ */
+export function WorkspaceOptionsPicker({ value, onChange, disabled, className = '' }: WorkspaceOptionsPickerProps) {
+  const selectProfile = (resourceProfile: ResourceProfileId) => {
+    // Custom starts from the current values
+    const { cpu, memory, disk } = resourceProfile === 'custom' ? value.resources : WORKSPACE_RESOURCE_PROFILES[resourceProfile];
+    onChange({ ...value, resourceProfile, resources: { cpu, memory, disk } });
+  };
+
+  const setResource = (key: keyof WorkspaceResources, input: string) => {
+    const { min, max } = WORKSPACE_RESOURCE_LIMITS[key];
+    const parsed = Math.round(Number(input)) || min;
+    onChange({ ...value, resources: { ...value.resources, [key]: Math.min(max, Math.max(min, parsed)) } });
+  };
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Resources</div>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(WORKSPACE_RESOURCE_PROFILES) as Array<Exclude<ResourceProfileId, 'custom'>>).map(id => (
+            <OptionButton
+              key={id}
+              selected={value.resourceProfile === id}
+              disabled={disabled}
+              onClick={() => selectProfile(id)}
+              title={WORKSPACE_RESOURCE_PROFILES[id].label}
+              subtitle={formatResources(WORKSPACE_RESOURCE_PROFILES[id])}
+            />
+          ))}
+          <OptionButton
+            selected={value.resourceProfile === 'custom'}
+            disabled={disabled}
+            onClick={() => selectProfile('custom')}
+            title="Custom"
+            subtitle="Up to Daytona's limits"
+          />
+        </div>
+
+        {value.resourceProfile === 'custom' && (
+          <div className="grid grid-cols-3 gap-2">
+            {RESOURCE_FIELDS.map(({ key, label }) => (
+              <label key={key} className="text-xs space-y-1">
+                <span className="opacity-70">{label}</span>
+                <input
+                  type="number"
+                  min={WORKSPACE_RESOURCE_LIMITS[key].min}
+                  max={WORKSPACE_RESOURCE_LIMITS[key].max}
+                  step={1}
+                  value={value.resources[key]}
+                  onChange={e => setResource(key, e.target.value)}
+                  disabled={disabled}
+                  className="w-full rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Base image</div>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(WORKSPACE_IMAGES) as WorkspaceImageId[]).map(id => (
+            <OptionButton
+              key={id}
+              selected={value.image === id}
+              disabled={disabled}
+              onClick={() => onChange({ ...value, image: id })}
+              title={WORKSPACE_IMAGES[id].label}
+              subtitle={WORKSPACE_IMAGES[id].description}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Cpu } from 'lucide-react';
+import { useAgentsOSUser } from '@/hooks/use-agentsos-user';
+import {
+  DEFAULT_WORKSPACE_OPTIONS,
+  WORKSPACE_IMAGES,
+  WORKSPACE_RESOURCE_PROFILES,
+  type WorkspaceOptions
+} from '@/lib/workspace-defaults';
+import { WorkspaceOptionsPicker } from './workspace-options-picker';
+
+interface WorkspaceResourcesSettingsProps {
+  compact?: boolean;   // Mobile settings layout
+}
+
+/**
+ * Settings section showing the current sandbox's resources and the defaults used for new sandboxes
+ * Resources are fixed when a sandbox is created, so only the defaults are editable
+ */
+export function WorkspaceResourcesSettings({ compact = false }: WorkspaceResourcesSettingsProps) {
+  const { workspace, userProfile, updateUserPreferences } = useAgentsOSUser();
+  const savedDefaults = userProfile?.agentsOS?.preferences?.workspaceDefaults;
+  const [defaults, setDefaults] = useState<WorkspaceOptions>(savedDefaults ?? DEFAULT_WORKSPACE_OPTIONS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (savedDefaults) {
+      setDefaults(savedDefaults);
+    }
+  }, [savedDefaults]);
+
+  const handleChange = async (value: WorkspaceOptions) => {
+    const previous = defaults;
+    setDefaults(value);
+    setIsSaving(true);
+    setError(null);
+    try {
+      await updateUserPreferences({ workspaceDefaults: value });
+    } catch {
+      setDefaults(previous);
+      setError('Failed to save sandbox defaults');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Sandboxes created before profiles existed used the large profile on Node
+  const currentProfile = workspace?.resourceProfile ?? DEFAULT_WORKSPACE_OPTIONS.resourceProfile;
+  const currentResources = workspace?.resources
+    ?? (currentProfile === 'custom' ? DEFAULT_WORKSPACE_OPTIONS.resources : WORKSPACE_RESOURCE_PROFILES[currentProfile]);
+  const currentImage = WORKSPACE_IMAGES[workspace?.image ?? DEFAULT_WORKSPACE_OPTIONS.image];
+
+  return (
+    <div className={`${compact ? 'bg-gray-100' : 'bg-gray-50'} dark:bg-gray-700 rounded-lg p-4`}>
+      {compact ? (
+        <h3 className="font-medium mb-3 flex items-center">
+          <Cpu className="w-4 h-4 mr-2" />
+          Sandbox
+        </h3>
+      ) : (
+        <h2 className="text-lg font-semibold mb-4 flex items-center">
+          <Cpu className="w-5 h-5 mr-2" />
+          Sandbox
+        </h2>
+      )}
+      <div className="space-y-4">
+        {workspace && (
+          <div className="text-sm space-y-1">
+            <div>
+              <strong>Current sandbox:</strong>{' '}
+              {currentProfile === 'custom' ? 'Custom' : WORKSPACE_RESOURCE_PROFILES[currentProfile].label}
+              {' · '}{currentResources.cpu} CPU · {currentResources.memory} GB RAM · {currentResources.disk} GB disk
+            </div>
+            <div><strong>Image:</strong> {currentImage.label} ({currentImage.description})</div>
+          </div>
+        )}
+
+        <div>
+          <div className="text-sm text-gray-500 mb-2">Defaults for new sandboxes</div>
+          <WorkspaceOptionsPicker value={defaults} onChange={handleChange} disabled={isSaving} />
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import { ChevronDown, Folder, FolderOpen } from 'lucide-react';
+import { useState } from 'react';
+import { ChevronDown, Folder, FolderGit2, FolderOpen, GitBranch, GitFork, GitMerge, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -8,7 +9,12 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { useWorkspaceStore } from '../../stores/workspaceStore';
+import { useWorkspaceStore, type Workspace } from '../../stores/workspaceStore';
+import { useRemoveRepository } from '../../hooks/useRemoveRepository';
+import { formatHead, useRepositoryHeads } from '../../hooks/useRepositoryHeads';
+import { useWorktrees, type RemoveWorktreeOptions } from '../../hooks/useWorktrees';
+import { RemoveRepositoryDialog } from './remove-repository-dialog';
+import { CreateWorktreeDialog, ManageWorktreeDialog } from './worktree-dialogs';
 import { cn } from '@/lib/utils';
 
 export function WorkspaceSwitcher() {
@@ -20,6 +26,51 @@ export function WorkspaceSwitcher() {
   } = useWorkspaceStore();
 
   const activeWorkspace = getActiveWorkspace();
+  const { isRemoving, error, clearError, removeRepository } = useRemoveRepository();
+  const [pendingRemoval, setPendingRemoval] = useState<Workspace | null>(null);
+  const { heads } = useRepositoryHeads();
+  const worktrees = useWorktrees();
+  const [worktreeSource, setWorktreeSource] = useState<Workspace | null>(null);
+  const [managedWorktree, setManagedWorktree] = useState<Workspace | null>(null);
+  const [mergedInto, setMergedInto] = useState<string | null>(null);
+  const activeHead = activeWorkspace && heads[activeWorkspace.repository.name];
+
+  const confirmRemoval = async (deleteFiles: boolean) => {
+    if (!pendingRemoval) return;
+    if (await removeRepository(pendingRemoval.id, { deleteFiles })) {
+      setPendingRemoval(null);
+    }
+  };
+
+  const cancelRemoval = () => {
+    setPendingRemoval(null);
+    clearError();
+  };
+
+  const confirmWorktree = async (branch: string, baseBranch?: string) => {
+    if (worktreeSource && await worktrees.createWorktree(worktreeSource.id, branch, baseBranch)) {
+      setWorktreeSource(null);
+    }
+  };
+
+  const mergeWorktree = async () => {
+    if (managedWorktree) {
+      setMergedInto(await worktrees.mergeWorktree(managedWorktree.id));
+    }
+  };
+
+  const removeWorktree = async (options: RemoveWorktreeOptions) => {
+    if (managedWorktree && await worktrees.removeWorktree(managedWorktree.id, options)) {
+      closeWorktreeDialog();
+    }
+  };
+
+  const closeWorktreeDialog = () => {
+    setWorktreeSource(null);
+    setManagedWorktree(null);
+    setMergedInto(null);
+    worktrees.clearError();
+  };
 
   // Don't render if no workspaces
   if (workspaces.length === 0) {
@@ -32,48 +83,138 @@ export function WorkspaceSwitcher() {
       <div className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-white">
         <FolderOpen className="h-4 w-4 text-white/60" />
         <span>{activeWorkspace?.name}</span>
+        {activeHead && (
+          <span className="flex items-center gap-1 text-xs text-white/60">
+            <GitBranch className="h-3 w-3" />
+            {formatHead(activeHead)}
+          </span>
+        )}
       </div>
     );
   }
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button 
-          variant="ghost" 
-          size="sm" 
-          className="gap-2 font-medium text-white hover:bg-white/10 border-none"
-        >
-          <FolderOpen className="h-4 w-4 text-white/60" />
-          <span className="max-w-[120px] truncate">
-            {activeWorkspace?.name || 'Select Workspace'}
-          </span>
-          <ChevronDown className="h-3 w-3 text-white/60" />
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="start" className="w-48 bg-black/90 backdrop-blur-xl border-white/20">
-        {workspaces.map((workspace) => (
-          <DropdownMenuItem
-            key={workspace.id}
-            onClick={() => switchToWorkspace(workspace.id)}
-            className={cn(
-              "flex items-center gap-3 cursor-pointer text-white hover:bg-white/10",
-              workspace.id === activeWorkspaceId && "bg-white/20"
-            )}
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button 
+            variant="ghost" 
+            size="sm" 
+            className="gap-2 font-medium text-white hover:bg-white/10 border-none"
           >
-            <Folder className="h-4 w-4 text-white/60" />
-            <div className="flex-1 min-w-0">
-              <div className="font-medium truncate">{workspace.name}</div>
-              <div className="text-xs text-white/60 truncate">
-                {workspace.repository.tech || 'Repository'}
+            <FolderOpen className="h-4 w-4 text-white/60" />
+            <span className="max-w-[120px] truncate">
+              {activeWorkspace?.name || 'Select Workspace'}
+            </span>
+            <ChevronDown className="h-3 w-3 text-white/60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-48 bg-black/90 backdrop-blur-xl border-white/20">
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem
+              key={workspace.id}
+              onClick={() => switchToWorkspace(workspace.id)}
+              className={cn(
+                "flex items-center gap-3 cursor-pointer text-white hover:bg-white/10",
+                workspace.id === activeWorkspaceId && "bg-white/20"
+              )}
+            >
+              {workspace.repository.worktree ? (
+                <FolderGit2 className="h-4 w-4 text-white/60" />
+              ) : (
+                <Folder className="h-4 w-4 text-white/60" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{workspace.name}</div>
+                <div className="text-xs text-white/60 truncate">
+                  {heads[workspace.repository.name] ? (
+                    <span className="flex items-center gap-1">
+                      <GitBranch className="h-3 w-3 flex-shrink-0" />
+                      <span className="truncate">{formatHead(heads[workspace.repository.name])}</span>
+                    </span>
+                  ) : (
+                    workspace.repository.tech || 'Repository'
+                  )}
+                </div>
               </div>
-            </div>
-            {workspace.id === activeWorkspaceId && (
-              <div className="w-2 h-2 rounded-full bg-white flex-shrink-0" />
-            )}
-          </DropdownMenuItem>
-        ))}
-      </DropdownMenuContent>
-    </DropdownMenu>
+              {workspace.id === activeWorkspaceId && (
+                <div className="w-2 h-2 rounded-full bg-white flex-shrink-0" />
+              )}
+              {workspace.repository.worktree ? (
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    setManagedWorktree(workspace);
+                  }}
+                  className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10 flex-shrink-0"
+                  aria-label={`Merge or remove ${workspace.name}`}
+                  title="Merge or remove worktree"
+                >
+                  <GitMerge className="h-3.5 w-3.5" />
+                </button>
+              ) : workspace.repository.sourceType !== 'default' && (
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    setWorktreeSource(workspace);
+                  }}
+                  className="p-1 rounded text-white/40 hover:text-white hover:bg-white/10 flex-shrink-0"
+                  aria-label={`New worktree of ${workspace.name}`}
+                  title="New worktree"
+                >
+                  <GitFork className="h-3.5 w-3.5" />
+                </button>
+              )}
+              {workspace.repository.sourceType !== 'default' && !workspace.repository.worktree && (
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    setPendingRemoval(workspace);
+                  }}
+                  className="p-1 rounded text-white/40 hover:text-red-400 hover:bg-white/10 flex-shrink-0"
+                  aria-label={`Remove ${workspace.name}`}
+                  title="Remove repository"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {worktreeSource && (
+        <CreateWorktreeDialog
+          repositoryName={worktreeSource.name}
+          isBusy={worktrees.isBusy}
+          error={worktrees.error}
+          onConfirm={confirmWorktree}
+          onCancel={closeWorktreeDialog}
+        />
+      )}
+
+      {managedWorktree?.repository.worktree && (
+        <ManageWorktreeDialog
+          repositoryName={managedWorktree.name}
+          worktree={managedWorktree.repository.worktree}
+          isBusy={worktrees.isBusy}
+          error={worktrees.error}
+          mergedInto={mergedInto}
+          onMerge={mergeWorktree}
+          onRemove={removeWorktree}
+          onCancel={closeWorktreeDialog}
+        />
+      )}
+
+      {pendingRemoval && (
+        <RemoveRepositoryDialog
+          repositoryName={pendingRemoval.name}
+          isRemoving={isRemoving}
+          error={error}
+          onConfirm={confirmRemoval}
+          onCancel={cancelRemoval}
+        />
+      )}
+    </>
   );
 }
\ No newline at end of file
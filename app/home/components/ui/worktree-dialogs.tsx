@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DOCK_Z_INDEX } from '../../constants/layout';
+import type { RepositoryWorktree } from '@/types/workspace';
+import type { RemoveWorktreeOptions } from '../../hooks/useWorktrees';
+
+const inputClassName = 'w-full rounded border border-gray-300 dark:border-gray-600 bg-transparent px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+interface DialogFrameProps {
+  title: string;
+  isBusy: boolean;
+  onCancel: () => void;
+  children: React.ReactNode;
+}
+
+function DialogFrame({ title, isBusy, onCancel, children }: DialogFrameProps) {
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black/50"
+      style={{ zIndex: DOCK_Z_INDEX + 1 }}
+      onClick={isBusy ? undefined : onCancel}
+    >
+      <div
+        role="dialog"
+        aria-label={title}
+        className="w-[26rem] max-w-[90vw] rounded-xl bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 shadow-2xl p-5 space-y-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="font-semibold">{title}</div>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+interface CreateWorktreeDialogProps {
+  repositoryName: string;
+  isBusy: boolean;
+  error: string | null;
+  onConfirm: (branch: string, baseBranch?: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Branch for a new worktree of a repository
+ */
+export function CreateWorktreeDialog({ repositoryName, isBusy, error, onConfirm, onCancel }: CreateWorktreeDialogProps) {
+  const [branch, setBranch] = useState('');
+  const [baseBranch, setBaseBranch] = useState('');
+
+  return (
+    <DialogFrame title={`New worktree of ${repositoryName}`} isBusy={isBusy} onCancel={onCancel}>
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        A separate checkout with its own VSCode, terminal and agents, so another agent can work on a different branch.
+      </p>
+      <form
+        className="space-y-3"
+        onSubmit={e => {
+          e.preventDefault();
+          onConfirm(branch.trim(), baseBranch.trim() || undefined);
+        }}
+      >
+        <label className="block space-y-1 text-sm">
+          <span>Branch</span>
+          <input
+            value={branch}
+            onChange={e => setBranch(e.target.value)}
+            placeholder="feature/login"
+            disabled={isBusy}
+            className={inputClassName}
+            autoFocus
+          />
+        </label>
+        <label className="block space-y-1 text-sm">
+          <span>Create from</span>
+          <input
+            value={baseBranch}
+            onChange={e => setBaseBranch(e.target.value)}
+            placeholder="Current branch"
+            disabled={isBusy}
+            className={inputClassName}
+          />
+        </label>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isBusy}
+            className="rounded px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isBusy || !branch.trim()}
+            className="flex items-center gap-2 rounded bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+            Create worktree
+          </button>
+        </div>
+      </form>
+    </DialogFrame>
+  );
+}
+
+interface ManageWorktreeDialogProps {
+  repositoryName: string;
+  worktree: RepositoryWorktree;
+  isBusy: boolean;
+  error: string | null;
+  mergedInto: string | null;
+  onMerge: () => void;
+  onRemove: (options: RemoveWorktreeOptions) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Merge a worktree's branch back into its repository, or remove the worktree
+ */
+export function ManageWorktreeDialog({
+  repositoryName,
+  worktree,
+  isBusy,
+  error,
+  mergedInto,
+  onMerge,
+  onRemove,
+  onCancel
+}: ManageWorktreeDialogProps) {
+  const [deleteBranch, setDeleteBranch] = useState(false);
+  const [force, setForce] = useState(false);
+
+  return (
+    <DialogFrame title={repositoryName} isBusy={isBusy} onCancel={onCancel}>
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Worktree of <span className="font-mono text-xs">{worktree.parent}</span> on{' '}
+        <span className="font-mono text-xs">{worktree.branch}</span>, created from{' '}
+        <span className="font-mono text-xs">{worktree.baseBranch}</span>.
+      </p>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm">
+          {mergedInto ? `Merged into ${mergedInto}` : `Merge committed changes into ${worktree.parent}`}
+        </span>
+        <button
+          onClick={onMerge}
+          disabled={isBusy}
+          className="rounded border border-gray-300 dark:border-gray-600 px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          Merge
+        </button>
+      </div>
+
+      <div className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-3 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={deleteBranch} onChange={e => setDeleteBranch(e.target.checked)} disabled={isBusy} />
+          <span>Also delete the <span className="font-mono text-xs">{worktree.branch}</span> branch</span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={force} onChange={e => setForce(e.target.checked)} disabled={isBusy} />
+          <span>Discard uncommitted changes and unmerged commits</span>
+        </label>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={isBusy}
+          className="rounded px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          Close
+        </button>
+        <button
+          onClick={() => onRemove({ deleteBranch, force })}
+          disabled={isBusy}
+          className="flex items-center gap-2 rounded bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+        >
+          {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+          Remove worktree
+        </button>
+      </div>
+    </DialogFrame>
+  );
+}
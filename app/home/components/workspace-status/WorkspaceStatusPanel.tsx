@@ -1,11 +1,12 @@
 'use client';
 
 import React from 'react';
-import { AlertTriangle, Play, RefreshCw, Wifi, WifiOff } from 'lucide-react';
+import { AlertTriangle, Check, Loader2, Play, RefreshCw, Wifi, WifiOff, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useWorkspaceStatus } from '../../hooks/use-workspace-status';
 import { useWorkspaceStore } from '../../stores/workspaceStore';
 import { cn } from '@/lib/utils';
+import { formatProgressLabel } from '@/lib/workspace-progress';
 
 interface WorkspaceStatusPanelProps {
   sandboxId: string | null;
@@ -26,6 +27,7 @@ export function WorkspaceStatusPanel({
     status,
     isLoading,
     isRestarting,
+    restartProgress,
     error,
     isWorkspaceHealthy,
     needsRestart,
@@ -197,6 +199,20 @@ export function WorkspaceStatusPanel({
                     </>
                   )}
                 </Button>
+
+                {restartProgress.length > 0 && (
+                  <ul className="space-y-1 max-h-40 overflow-y-auto text-xs text-gray-600 dark:text-gray-400">
+                    {restartProgress.map(event => (
+                      <li key={formatProgressLabel(event)} className="flex items-center gap-2">
+                        {event.status === 'started' && <Loader2 className="h-3 w-3 animate-spin text-blue-500" />}
+                        {event.status === 'completed' && <Check className="h-3 w-3 text-green-500" />}
+                        {event.status === 'failed' && <X className="h-3 w-3 text-red-500" />}
+                        <span className="flex-1 truncate">{formatProgressLabel(event)}</span>
+                        {event.durationMs !== undefined && <span>{(event.durationMs / 1000).toFixed(1)}s</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             )}
             
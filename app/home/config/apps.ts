@@ -1,7 +1,9 @@
+import { AGENTS, type AgentId } from '@/lib/agent-registry';
+
 export interface AppConfig {
   id: string;
   name: string;
-  type: 'vscode' | 'claude' | 'diff' | 'settings' | 'terminal';
+  type: 'vscode' | 'diff' | 'settings' | 'terminal' | AgentId;
   title: string;
   description: string;
   iconUrl?: string;
@@ -17,14 +19,15 @@ export const APPS: AppConfig[] = [
     description: 'Visual Studio Code editor for development',
     iconUrl: 'vscode-icon'
   },
-  {
-    id: 'claude',
-    name: 'Claude Code',
-    type: 'claude',
-    title: 'Claude Code - AI Assistant',
-    description: 'AI-powered coding assistant',
-    iconUrl: 'claude-icon'
-  },
+  // One entry per agent in the agent registry
+  ...AGENTS.map(agent => ({
+    id: agent.id,
+    name: agent.appName,
+    type: agent.id,
+    title: `${agent.appName} - AI Assistant`,
+    description: agent.description,
+    iconUrl: `${agent.id}-icon`
+  })),
   {
     id: 'diff',
     name: 'Code Diff',
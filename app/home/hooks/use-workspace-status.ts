@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import type { WorkspaceStatusResponse, WorkspaceRestartResponse } from '@/types/workspace';
+import { EVENT_STREAM_CONTENT_TYPE, readProgressStream, type WorkspaceProgressEvent } from '@/lib/workspace-progress';
 
 export interface UseWorkspaceStatusOptions {
   sandboxId: string | null;
@@ -21,6 +22,7 @@ export function useWorkspaceStatus({
   const [isLoading, setIsLoading] = useState(false);
   const [isRestarting, setIsRestarting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [restartProgress, setRestartProgress] = useState<WorkspaceProgressEvent[]>([]);
 
   const checkStatus = useCallback(async () => {
     if (!sandboxId || !enabled) return;
@@ -58,18 +60,27 @@ export function useWorkspaceStatus({
 
     setIsRestarting(true);
     setError(null);
+    setRestartProgress([]);
 
     try {
       const response = await fetch(`/api/fix-services/${sandboxId}`, {
-        method: 'POST'
+        method: 'POST',
+        headers: { Accept: EVENT_STREAM_CONTENT_TYPE }
       });
       
-      const result: WorkspaceRestartResponse = await response.json();
-      
       if (!response.ok) {
-        throw new Error(result.message || 'Failed to restart workspace');
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || 'Failed to restart workspace');
       }
 
+      // Keep the latest event per phase so the panel can list them as they run
+      const result = await readProgressStream<WorkspaceRestartResponse>(response, event => {
+        setRestartProgress(prev => {
+          const index = prev.findIndex(p => p.phase === event.phase && p.repository === event.repository);
+          return index === -1 ? [...prev, event] : prev.map((p, i) => (i === index ? event : p));
+        });
+      });
+
       if (!result.success) {
         throw new Error(result.message || 'Workspace restart failed');
       }
@@ -117,6 +128,7 @@ export function useWorkspaceStatus({
     status,
     isLoading,
     isRestarting,
+    restartProgress,
     error,
     isWorkspaceHealthy,
     needsRestart,
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import type { CustomTerminal } from '@/types/workspace';
+
+export interface CustomTerminalFields {
+  name: string;
+  command: string;
+  icon?: string;
+}
+
+export interface UseCustomTerminalsOptions {
+  sandboxId: string | null;
+  repository: string | null;
+}
+
+export function useCustomTerminals({ sandboxId, repository }: UseCustomTerminalsOptions) {
+  const setCustomTerminals = useWorkspaceStore(state => state.setCustomTerminals);
+  const [isMutating, setIsMutating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = sandboxId ? `/api/custom-terminals/${sandboxId}` : null;
+
+  // Send a request, then sync the returned terminal list into the workspace store
+  const mutate = useCallback(async (url: string, init: RequestInit): Promise<CustomTerminal | null | false> => {
+    if (!repository) return false;
+
+    setIsMutating(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Custom terminal request failed');
+      }
+
+      setCustomTerminals(repository, data.terminals);
+      return data.terminal ?? null;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Custom terminal request failed');
+      return false;
+    } finally {
+      setIsMutating(false);
+    }
+  }, [repository, setCustomTerminals]);
+
+  const createTerminal = useCallback(async (fields: CustomTerminalFields): Promise<CustomTerminal | null> => {
+    if (!baseUrl) return null;
+
+    const terminal = await mutate(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ repository, ...fields })
+    });
+    return terminal || null;
+  }, [baseUrl, repository, mutate]);
+
+  const updateTerminal = useCallback(async (id: string, fields: CustomTerminalFields): Promise<boolean> => {
+    if (!baseUrl) return false;
+
+    const result = await mutate(baseUrl, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ repository, id, ...fields })
+    });
+    return result !== false;
+  }, [baseUrl, repository, mutate]);
+
+  const deleteTerminal = useCallback(async (id: string): Promise<boolean> => {
+    if (!baseUrl || !repository) return false;
+
+    const query = new URLSearchParams({ repository, id });
+    const result = await mutate(`${baseUrl}?${query}`, { method: 'DELETE' });
+    return result !== false;
+  }, [baseUrl, repository, mutate]);
+
+  return {
+    isMutating,
+    error,
+    createTerminal,
+    updateTerminal,
+    deleteTerminal
+  };
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import type { EnvDrift } from '@/lib/env-drift';
+
+// Agents and terminals edit env files in the sandbox too, so keep polling
+const POLL_INTERVAL = 60000;
+
+/**
+ * Whether the project's env file in the sandbox has diverged from its cloud variables,
+ * and pulling the sandbox's changes into the cloud
+ */
+export function useEnvDrift(projectName: string, branch?: string) {
+  const sandboxId = useWorkspaceStore(state => state.sandboxId);
+  const [drift, setDrift] = useState<EnvDrift | null>(null);
+  // Counts pulls, so variable lists know to reload
+  const [pullCount, setPullCount] = useState(0);
+
+  const url = projectName ? `/api/env-vars/${encodeURIComponent(projectName)}/drift` : '';
+
+  const refresh = useCallback(async () => {
+    if (!sandboxId || !url) {
+      setDrift(null);
+      return;
+    }
+
+    try {
+      const query = new URLSearchParams({ workspaceId: sandboxId, ...(branch && { branch }) });
+      const response = await fetch(`${url}?${query}`);
+      const data = await response.json();
+      setDrift(data.success ? data.drift : null);
+    } catch {
+      // Drift is informational, a stopped sandbox just shows none
+      setDrift(null);
+    }
+  }, [sandboxId, url, branch]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  /**
+   * Store variables added or edited in the sandbox in the cloud, all drifted keys by default
+   */
+  const pullLocalChanges = useCallback(async (keys?: string[]): Promise<string[]> => {
+    if (!sandboxId || !url) return [];
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ workspaceId: sandboxId, ...(branch && { branch }), ...(keys && { keys }) })
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to pull local changes');
+    }
+    setDrift(data.drift);
+    setPullCount(count => count + 1);
+    return data.pulled;
+  }, [sandboxId, url, branch]);
+
+  return {
+    drift,
+    driftCount: drift ? drift.localOnly.length + drift.changed.length : 0,
+    pullCount,
+    refresh,
+    pullLocalChanges
+  };
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { GitStatus, GitCommit, GitFileChange, GitFileDiff } from '@/lib/workspace-git';
+
+export type DiffSelection =
+  | { mode: 'unstaged' | 'staged'; path: string }
+  | { mode: 'commit'; path: string; commit: string };
+
+export interface UseGitChangesOptions {
+  sandboxId: string | null;
+  repository: string | null;
+}
+
+export function useGitChanges({ sandboxId, repository }: UseGitChangesOptions) {
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [diff, setDiff] = useState<GitFileDiff | null>(null);
+  const [selection, setSelection] = useState<DiffSelection | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [isMutating, setIsMutating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = sandboxId ? `/api/git/${sandboxId}` : null;
+  const repoParam = repository ? `repository=${encodeURIComponent(repository)}` : '';
+
+  const refresh = useCallback(async () => {
+    if (!baseUrl || !repository) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [statusResponse, logResponse] = await Promise.all([
+        fetch(`${baseUrl}/status?${repoParam}`),
+        fetch(`${baseUrl}/log?${repoParam}`)
+      ]);
+      const [statusData, logData] = await Promise.all([statusResponse.json(), logResponse.json()]);
+
+      if (!statusResponse.ok) {
+        throw new Error(statusData.error || 'Failed to load git status');
+      }
+      if (!logResponse.ok) {
+        throw new Error(logData.error || 'Failed to load commit history');
+      }
+
+      setStatus(statusData.status);
+      setCommits(logData.commits);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load git changes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [baseUrl, repository, repoParam]);
+
+  const selectFile = useCallback(async (next: DiffSelection) => {
+    if (!baseUrl || !repository) return;
+
+    setSelection(next);
+    setIsDiffLoading(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams({
+        repository,
+        path: next.path,
+        mode: next.mode,
+        ...(next.mode === 'commit' && { commit: next.commit })
+      });
+      const response = await fetch(`${baseUrl}/diff?${query}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load diff');
+      }
+
+      setDiff(data.diff);
+    } catch (err) {
+      setDiff(null);
+      setError(err instanceof Error ? err.message : 'Failed to load diff');
+    } finally {
+      setIsDiffLoading(false);
+    }
+  }, [baseUrl, repository]);
+
+  const loadCommitFiles = useCallback(async (hash: string): Promise<GitFileChange[]> => {
+    if (!baseUrl || !repository) return [];
+
+    try {
+      const response = await fetch(`${baseUrl}/log?${repoParam}&commit=${encodeURIComponent(hash)}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load commit');
+      }
+      return data.files;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load commit');
+      return [];
+    }
+  }, [baseUrl, repository, repoParam]);
+
+  // POST a git operation, then reload status, history and the open diff
+  const runOperation = useCallback(async (operation: string, payload: Record<string, unknown>): Promise<boolean> => {
+    if (!baseUrl || !repository) return false;
+
+    setIsMutating(true);
+    setError(null);
+    let failure: string | null = null;
+
+    try {
+      const response = await fetch(`${baseUrl}/${operation}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ repository, ...payload })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const files = Array.isArray(data.files) && data.files.length > 0 ? ` (${data.files.join(', ')})` : '';
+        failure = `${data.error || `git ${operation} failed`}${files}`;
+      }
+    } catch (err) {
+      failure = err instanceof Error ? err.message : `git ${operation} failed`;
+    }
+
+    setIsMutating(false);
+    await refresh();
+    if (selection && selection.mode !== 'commit') {
+      await selectFile(selection);
+    }
+
+    // Set after reloading, which clears the error state
+    if (failure) {
+      setError(failure);
+    }
+    return !failure;
+  }, [baseUrl, repository, refresh, selection, selectFile]);
+
+  const stageFiles = useCallback((paths: string[]) => runOperation('stage', { action: 'stage', paths }), [runOperation]);
+  const unstageFiles = useCallback((paths: string[]) => runOperation('stage', { action: 'unstage', paths }), [runOperation]);
+  const stageHunk = useCallback((path: string, index: number) => runOperation('stage', { action: 'stage', hunk: { path, index } }), [runOperation]);
+  const unstageHunk = useCallback((path: string, index: number) => runOperation('stage', { action: 'unstage', hunk: { path, index } }), [runOperation]);
+  const commit = useCallback((message: string) => runOperation('commit', { message }), [runOperation]);
+  const push = useCallback(() => runOperation('push', {}), [runOperation]);
+  const pull = useCallback(() => runOperation('pull', {}), [runOperation]);
+
+  // Reload when the repository changes
+  useEffect(() => {
+    setDiff(null);
+    setSelection(null);
+    refresh();
+  }, [refresh]);
+
+  return {
+    status,
+    commits,
+    diff,
+    selection,
+    isLoading,
+    isDiffLoading,
+    isMutating,
+    error,
+    refresh,
+    selectFile,
+    loadCommitFiles,
+    stageFiles,
+    unstageFiles,
+    stageHunk,
+    unstageHunk,
+    commit,
+    push,
+    pull
+  };
+}
@@ -2,12 +2,14 @@ import { useState, useEffect } from 'react';
 import { useUser } from '@clerk/nextjs';
 import { useAgentsOSUser } from '../../../hooks/use-agentsos-user';
 import type { UserWorkspace } from '@/types/workspace';
+import { useRepositoryHeads } from './useRepositoryHeads';
 
 export function useProjectEnvVars() {
   const { user } = useUser();
   const { userProfile, workspace } = useAgentsOSUser();
   const [availableProjects, setAvailableProjects] = useState<string[]>([]);
   const [selectedProject, setSelectedProject] = useState<string>('');
+  const { heads } = useRepositoryHeads();
 
   // Extract available projects from user's workspace
   useEffect(() => {
@@ -37,6 +39,8 @@ export function useProjectEnvVars() {
     availableProjects,
     selectedProject,
     setSelectedProject,
+    // Branch overrides apply to the branch checked out in the sandbox
+    selectedBranch: heads[selectedProject]?.branch ?? undefined,
     hasProjects: availableProjects.length > 0,
     isReady: !!user && userProfile !== null // Ready when user is loaded and profile check is complete
   };
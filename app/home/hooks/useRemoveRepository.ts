@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+
+export interface RemoveRepositoryOptions {
+  deleteFiles: boolean;
+}
+
+export function useRemoveRepository() {
+  const { sandboxId, workspaces, removeWorkspace } = useWorkspaceStore();
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Remove from the sandbox and Firestore first, then drop the workspace locally
+  const removeRepository = useCallback(async (workspaceId: string, { deleteFiles }: RemoveRepositoryOptions): Promise<boolean> => {
+    const workspace = workspaces.find(w => w.id === workspaceId);
+    if (!sandboxId || !workspace) return false;
+
+    setIsRemoving(true);
+    setError(null);
+
+    try {
+      const query = new URLSearchParams({
+        repository: workspace.repository.name,
+        deleteFiles: String(deleteFiles)
+      });
+      const response = await fetch(`/api/workspace/repositories/${sandboxId}?${query}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove repository');
+      }
+
+      removeWorkspace(workspaceId);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove repository');
+      return false;
+    } finally {
+      setIsRemoving(false);
+    }
+  }, [sandboxId, workspaces, removeWorkspace]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    isRemoving,
+    error,
+    clearError,
+    removeRepository
+  };
+}
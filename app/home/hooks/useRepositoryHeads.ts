@@ -0,0 +1,48 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+import type { GitHead } from '@/lib/workspace-git';
+
+// Branches are switched from terminals and agents too, so keep polling
+const POLL_INTERVAL = 30000;
+
+/**
+ * Branch name, or the short commit hash for a detached HEAD
+ */
+export function formatHead(head: GitHead): string {
+  return head.branch ?? `detached at ${head.commit}`;
+}
+
+/**
+ * Checked out branch and commit of each repository in the workspace, keyed by repository name
+ */
+export function useRepositoryHeads() {
+  const { sandboxId, workspaces } = useWorkspaceStore();
+  const [heads, setHeads] = useState<Record<string, GitHead>>({});
+
+  // Refetch when repositories are added or removed
+  const repositoryNames = workspaces.map(workspace => workspace.repository.name).join(',');
+
+  const refresh = useCallback(async () => {
+    if (!sandboxId || !repositoryNames) return;
+
+    try {
+      const response = await fetch(`/api/git/${sandboxId}/heads`);
+      if (response.ok) {
+        const data = await response.json();
+        setHeads(data.heads);
+      }
+    } catch {
+      // Branch names are informational, keep the last known ones
+    }
+  }, [sandboxId, repositoryNames]);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return { heads, refresh };
+}
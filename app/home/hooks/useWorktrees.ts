@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useWorkspaceStore } from '../stores/workspaceStore';
+
+export interface RemoveWorktreeOptions {
+  deleteBranch: boolean;
+  force: boolean;     // Throw away uncommitted changes and unmerged commits
+}
+
+export function useWorktrees() {
+  const { sandboxId, workspaces, createWorkspace, switchToWorkspace, removeWorkspace } = useWorkspaceStore();
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = sandboxId ? `/api/workspace/worktrees/${sandboxId}` : null;
+
+  // Run a worktree request, returning its response data or null after setting the error
+  const request = useCallback(async (url: string, init: RequestInit, fallback: string) => {
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+
+      if (!response.ok) {
+        const files = Array.isArray(data.files) && data.files.length > 0 ? ` (${data.files.join(', ')})` : '';
+        throw new Error(`${data.error || fallback}${files}`);
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  // The worktree opens as a new workspace once its services are up
+  const createWorktree = useCallback(async (workspaceId: string, branch: string, baseBranch?: string): Promise<boolean> => {
+    const workspace = workspaces.find(w => w.id === workspaceId);
+    if (!baseUrl || !workspace) return false;
+
+    const data = await request(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ repository: workspace.repository.name, branch, ...(baseBranch && { baseBranch }) })
+    }, 'Failed to create worktree');
+    if (!data) return false;
+
+    switchToWorkspace(createWorkspace(data.repository));
+    return true;
+  }, [baseUrl, workspaces, request, createWorkspace, switchToWorkspace]);
+
+  // Returns the branch the worktree was merged into
+  const mergeWorktree = useCallback(async (workspaceId: string): Promise<string | null> => {
+    const workspace = workspaces.find(w => w.id === workspaceId);
+    if (!baseUrl || !workspace) return null;
+
+    const data = await request(`${baseUrl}/merge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ repository: workspace.repository.name })
+    }, 'Failed to merge worktree');
+    return data?.into ?? null;
+  }, [baseUrl, workspaces, request]);
+
+  const removeWorktree = useCallback(async (workspaceId: string, { deleteBranch, force }: RemoveWorktreeOptions): Promise<boolean> => {
+    const workspace = workspaces.find(w => w.id === workspaceId);
+    if (!baseUrl || !workspace) return false;
+
+    const query = new URLSearchParams({
+      repository: workspace.repository.name,
+      deleteBranch: String(deleteBranch),
+      force: String(force)
+    });
+    const data = await request(`${baseUrl}?${query}`, { method: 'DELETE' }, 'Failed to remove worktree');
+    if (!data) return false;
+
+    removeWorkspace(workspaceId);
+    return true;
+  }, [baseUrl, workspaces, request, removeWorkspace]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    isBusy,
+    error,
+    clearError,
+    createWorktree,
+    mergeWorktree,
+    removeWorktree
+  };
+}
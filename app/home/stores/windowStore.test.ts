@@ -7,6 +7,7 @@ beforeAll(() => {
 })
 
 import { useWindowStore, Window } from './windowStore'
+import { AGENTS } from '@/lib/agent-registry'
 
 // Mock Date.now for consistent IDs
 const mockDateNow = vi.fn()
@@ -647,6 +648,29 @@ describe('WindowStore', () => {
       expect(result.current.nextZIndex).toBe(13)
     })
 
+    it('opens the startup agents of each repository on their ports', () => {
+      const { result } = renderHook(() => useWindowStore())
+
+      act(() => {
+        result.current.initializeWindows({
+          repositories: [{
+            url: 'https://github.com/acme/api',
+            name: 'api',
+            urls: { vscode: 'https://8080', terminal: 'https://9000', claude: 'https://4000', gemini: 'https://5000' },
+            ports: { vscode: 8080, terminal: 9000, claude: 4000, gemini: 5000 }
+          }]
+        })
+      })
+
+      const startupAgents = AGENTS.filter(agent => agent.openAtStartup)
+      expect(result.current.windows.map(w => w.type)).toEqual(['vscode', ...startupAgents.map(agent => agent.id), 'terminal'])
+      expect(result.current.windows.find(w => w.type === 'claude')).toMatchObject({
+        title: 'Claude - api',
+        repositoryUrl: 'https://4000',
+        agentPort: 4000
+      })
+    })
+
     it('replaces existing windows when initializing', () => {
       const { result } = renderHook(() => useWindowStore())
       
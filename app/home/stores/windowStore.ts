@@ -1,10 +1,13 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { WINDOW_Z_INDEX_BASE, WINDOW_Z_INDEX_MAX } from '../constants/layout';
+import type { AppType } from '../apps/BaseApp';
+import { AGENTS } from '@/lib/agent-registry';
+import type { ServicePorts, ServiceUrls } from '@/types/workspace';
 
 export interface Window {
   id: string;
-  type: 'vscode' | 'claude' | 'gemini' | 'diff' | 'settings' | 'terminal' | 'setup';
+  type: AppType;
   title: string;
   position: { x: number; y: number };
   size: { width: number; height: number };
@@ -20,11 +23,11 @@ export interface Window {
   };
   // Repository-specific data
   repositoryName?: string;
-  repositoryUrl?: string; // vscode URL, terminal URL, or claude URL
+  repositoryUrl?: string; // vscode, terminal or agent URL
   terminalPort?: number;
-  claudePort?: number;
-  geminiPort?: number;
+  agentPort?: number; // Port of the agent terminal (claude, gemini, ...)
   vscodePort?: number;
+  customTerminalId?: string; // Set on custom-terminal windows
 }
 
 interface Repository {
@@ -32,18 +35,8 @@ interface Repository {
   name: string;
   description?: string;
   tech?: string;
-  urls?: {
-    vscode: string;
-    terminal: string;
-    claude: string;
-    gemini: string;
-  };
-  ports?: {
-    vscode: number;
-    terminal: number;
-    claude: number;
-    gemini: number;
-  };
+  urls?: ServiceUrls;
+  ports?: ServicePorts;
 }
 
 interface WorkspaceData {
@@ -183,9 +176,11 @@ export const useWindowStore = create<WindowStore>()(
     initializeWindows: (workspaceData?: WorkspaceData) => set(() => {
       let newWindows: Window[] = [];
       let zIndex = WINDOW_Z_INDEX_BASE;
+      // Agents from the agent registry that open with the workspace
+      const startupAgents = AGENTS.filter(agent => agent.openAtStartup);
       
       if (workspaceData?.repositories && workspaceData.repositories.length > 0) {
-        // Create 3 windows per repository: VSCode, Claude terminal, regular terminal
+        // Create windows per repository: VSCode, a terminal per startup agent, regular terminal
         workspaceData.repositories.forEach((repo, repoIndex) => {
           const baseX = 50 + (repoIndex * 100); // Offset X for each repository
           const baseY = 50 + (repoIndex * 80);  // Offset Y for each repository
@@ -206,21 +201,22 @@ export const useWindowStore = create<WindowStore>()(
             vscodePort: repo.ports?.vscode
           });
           
-          // Claude terminal window
-          newWindows.push({
-            id: `claude-${repo.name}-${Date.now()}`,
-            type: 'claude',
-            title: `Claude - ${repo.name}`,
-            position: { x: baseX + 300, y: baseY + 100 },
-            size: { width: 600, height: 400 },
-            zIndex: zIndex++,
-            minimized: false,
-            maximized: false,
-            focused: false,
-            repositoryName: repo.name,
-            repositoryUrl: repo.urls?.claude || '',
-            claudePort: repo.ports?.claude,
-            geminiPort: repo.ports?.gemini
+          // Agent terminal windows
+          startupAgents.forEach((agent, agentIndex) => {
+            newWindows.push({
+              id: `${agent.id}-${repo.name}-${Date.now()}`,
+              type: agent.id,
+              title: `${agent.name} - ${repo.name}`,
+              position: { x: baseX + 300 + agentIndex * 50, y: baseY + 100 + agentIndex * 50 },
+              size: { width: 600, height: 400 },
+              zIndex: zIndex++,
+              minimized: false,
+              maximized: false,
+              focused: false,
+              repositoryName: repo.name,
+              repositoryUrl: repo.urls?.[agent.id] || '',
+              agentPort: repo.ports?.[agent.id]
+            });
           });
           
           // Regular terminal window
@@ -254,32 +250,32 @@ export const useWindowStore = create<WindowStore>()(
             focused: true,
             content: '// Welcome to AgentsOS!\\nconst hello = "world";'
           },
-          {
-            id: 'claude-1',
-            type: 'claude',
-            title: 'Claude - Full Stack',
-            position: { x: 300, y: 150 },
+          ...startupAgents.map((agent, agentIndex): Window => ({
+            id: `${agent.id}-1`,
+            type: agent.id,
+            title: `${agent.name} - Full Stack`,
+            position: { x: 300 + agentIndex * 50, y: 150 + agentIndex * 50 },
             size: { width: 600, height: 400 },
-            zIndex: WINDOW_Z_INDEX_BASE + 1,
+            zIndex: WINDOW_Z_INDEX_BASE + 1 + agentIndex,
             minimized: false,
             maximized: false,
             focused: false,
-            content: 'Claude is ready to help!'
-          },
+            content: `${agent.name} is ready to help!`
+          })),
           {
             id: 'terminal-1',
             type: 'terminal',
             title: 'Terminal',
             position: { x: 500, y: 250 },
             size: { width: 700, height: 350 },
-            zIndex: WINDOW_Z_INDEX_BASE + 2,
+            zIndex: WINDOW_Z_INDEX_BASE + 1 + startupAgents.length,
             minimized: false,
             maximized: false,
             focused: false,
             content: '$ npm run dev\\n✓ Server running on http://localhost:3000'
           }
         ];
-        zIndex = WINDOW_Z_INDEX_BASE + 3;
+        zIndex = WINDOW_Z_INDEX_BASE + 2 + startupAgents.length;
       }
       
       return {
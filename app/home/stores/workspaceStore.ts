@@ -3,24 +3,19 @@ import { subscribeWithSelector } from 'zustand/middleware';
 import { WINDOW_Z_INDEX_BASE } from '../constants/layout';
 import type { Window } from './windowStore';
 import { AppStore } from '../apps';
+import { AGENTS, isAgentId } from '@/lib/agent-registry';
+import type { CustomTerminal, RepositoryWorktree, ServicePorts, ServiceUrls } from '@/types/workspace';
 
 export interface Repository {
   url: string;
   name: string;
   description?: string;
   tech?: string;
-  urls?: {
-    vscode: string;
-    terminal: string;
-    claude: string;
-    gemini: string;
-  };
-  ports?: {
-    vscode: number;
-    terminal: number;
-    claude: number;
-    gemini: number;
-  };
+  sourceType?: 'default' | 'github' | 'manual';
+  urls?: ServiceUrls;
+  ports?: ServicePorts;
+  customTerminals?: CustomTerminal[];
+  worktree?: RepositoryWorktree;
 }
 
 export interface Workspace {
@@ -38,6 +33,7 @@ export interface WorkspaceStore {
   activeWorkspaceId: string | null;
   isLoading: boolean;
   sandboxId: string | null; // Current sandbox ID for status checking
+  isSandboxPickerOpen: boolean; // Reopens the boot-time sandbox picker
   
   // Workspace management
   createWorkspace: (repository: Repository) => string;
@@ -46,6 +42,7 @@ export interface WorkspaceStore {
   getActiveWorkspace: () => Workspace | null;
   getWorkspace: (workspaceId: string) => Workspace | null;
   setSandboxId: (sandboxId: string | null) => void;
+  setSandboxPickerOpen: (open: boolean) => void;
   
   // Window management for active workspace
   addWindow: (window: Omit<Window, 'id' | 'zIndex'>) => void;
@@ -63,6 +60,7 @@ export interface WorkspaceStore {
   initializeWorkspaces: (repositories: Repository[]) => void;
   initializeWorkspaceWindows: (workspaceId: string) => void;
   updateWorkspaceUrls: (repositories: Repository[]) => void;
+  setCustomTerminals: (repositoryName: string, terminals: CustomTerminal[]) => void;
   
   // Reset
   reset: () => void;
@@ -82,7 +80,6 @@ const createDefaultWindows = (repository: Repository): Window[] => {
   // 2. Have isOpenAtStartup flag set to true (or undefined for backward compatibility)
   
   const vscodeApp = AppStore.vscode;
-  const claudeApp = AppStore.claude;
   const terminalApp = AppStore.terminal;
   
   // VSCode window - only if not hidden and should open at startup
@@ -105,12 +102,15 @@ const createDefaultWindows = (repository: Repository): Window[] => {
     yOffset += 100;
   }
   
-  // Claude terminal window - only if not hidden and should open at startup
-  if (!claudeApp.metadata.isFullyHidden && claudeApp.metadata.isOpenAtStartup !== false) {
+  // Agent terminal windows - only if not hidden and should open at startup
+  for (const agent of AGENTS) {
+    const agentApp = AppStore[agent.id];
+    if (agentApp.metadata.isFullyHidden || agentApp.metadata.isOpenAtStartup === false) continue;
+
     windows.push({
-      id: `claude-${repository.name}-${Date.now()}`,
-      type: 'claude' as const,
-      title: `Claude - ${repository.name}`,
+      id: `${agent.id}-${repository.name}-${Date.now()}`,
+      type: agent.id,
+      title: `${agent.name} - ${repository.name}`,
       position: { x: baseX + xOffset, y: baseY + yOffset },
       size: { width: 600, height: 400 },
       zIndex: zIndex++,
@@ -118,9 +118,8 @@ const createDefaultWindows = (repository: Repository): Window[] => {
       maximized: false,
       focused: windows.length === 0, // First window gets focus
       repositoryName: repository.name,
-      repositoryUrl: repository.urls?.claude || '',
-      claudePort: repository.ports?.claude,
-      geminiPort: repository.ports?.gemini
+      repositoryUrl: repository.urls?.[agent.id] || '',
+      agentPort: repository.ports?.[agent.id]
     });
     xOffset += 150;
     yOffset += 100;
@@ -153,6 +152,7 @@ export const useWorkspaceStore = create<WorkspaceStore>()(
     activeWorkspaceId: null,
     isLoading: false,
     sandboxId: null,
+    isSandboxPickerOpen: false,
 
     createWorkspace: (repository: Repository) => {
       const workspaceId = `workspace-${repository.name.toLowerCase()}-${Date.now()}`;
@@ -432,7 +432,13 @@ export const useWorkspaceStore = create<WorkspaceStore>()(
             // Update the workspace's repository URLs
             const updatedWorkspace = {
               ...workspace,
-              repository: { ...workspace.repository, urls: updatedRepo.urls }
+              repository: {
+                ...workspace.repository,
+                urls: updatedRepo.urls,
+                // Ports can be reassigned by bootstrap when they conflict
+                ...(updatedRepo.ports && { ports: updatedRepo.ports }),
+                ...(updatedRepo.customTerminals && { customTerminals: updatedRepo.customTerminals })
+              }
             };
 
             // Update all windows in this workspace with new URLs and ports
@@ -447,20 +453,22 @@ export const useWorkspaceStore = create<WorkspaceStore>()(
                   newUrl = updatedRepo.urls?.vscode || '';
                   updates.vscodePort = updatedRepo.ports?.vscode;
                   break;
-                case 'claude':
-                  newUrl = updatedRepo.urls?.claude || '';
-                  updates.claudePort = updatedRepo.ports?.claude;
-                  break;
-                case 'gemini':
-                  newUrl = updatedRepo.urls?.gemini || '';
-                  updates.geminiPort = updatedRepo.ports?.gemini;
-                  break;
                 case 'terminal':
                   newUrl = updatedRepo.urls?.terminal || '';
                   updates.terminalPort = updatedRepo.ports?.terminal;
                   break;
-                default:
+                case 'custom-terminal':
                   newUrl = window.repositoryUrl || '';
+                  updates.terminalPort = updatedRepo.customTerminals?.find(terminal => terminal.id === window.customTerminalId)?.port
+                    ?? window.terminalPort;
+                  break;
+                default:
+                  if (isAgentId(window.type)) {
+                    newUrl = updatedRepo.urls?.[window.type] || '';
+                    updates.agentPort = updatedRepo.ports?.[window.type];
+                  } else {
+                    newUrl = window.repositoryUrl || '';
+                  }
               }
 
               return { ...window, repositoryUrl: newUrl, ...updates };
@@ -472,10 +480,39 @@ export const useWorkspaceStore = create<WorkspaceStore>()(
       });
     },
 
+    setCustomTerminals: (repositoryName: string, terminals: CustomTerminal[]) => {
+      set((state) => ({
+        workspaces: state.workspaces.map(workspace => {
+          if (workspace.repository.name !== repositoryName) return workspace;
+
+          // Close windows of removed terminals and keep the rest in sync
+          const windows = workspace.windows.flatMap(window => {
+            if (window.type !== 'custom-terminal') return [window];
+
+            const terminal = terminals.find(candidate => candidate.id === window.customTerminalId);
+            return terminal
+              ? [{ ...window, title: `${terminal.name} - ${repositoryName}`, terminalPort: terminal.port }]
+              : [];
+          });
+
+          return {
+            ...workspace,
+            repository: { ...workspace.repository, customTerminals: terminals },
+            windows,
+            activeWindowId: windows.some(window => window.id === workspace.activeWindowId) ? workspace.activeWindowId : null
+          };
+        })
+      }));
+    },
+
     setSandboxId: (sandboxId: string | null) => {
       set({ sandboxId });
     },
 
+    setSandboxPickerOpen: (open: boolean) => {
+      set({ isSandboxPickerOpen: open });
+    },
+
     reset: () => {
       set({
         workspaces: [],
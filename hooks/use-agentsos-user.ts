@@ -91,7 +91,10 @@ export function useAgentsOSUser() {
     }
 
     try {
-      await userService.updateWorkspaceStatus(uid, status);
+      if (!workspace) {
+        throw new Error('No workspace loaded');
+      }
+      await userService.updateWorkspaceStatus(uid, workspace.sandboxId, status);
       
       // Update local state
       setWorkspace(prev => 
@@ -101,7 +104,7 @@ export function useAgentsOSUser() {
       console.error('Error updating workspace status:', error);
       throw error;
     }
-  }, [getFirebaseUid, userService]);
+  }, [getFirebaseUid, userService, workspace]);
 
   /**
    * Update user preferences
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useWorkspaceStore } from '../app/home/stores/workspaceStore';
 import type { HealthCheckResponse } from '../types/health';
+import type { WorkspaceService } from '../lib/workspace-constants';
 
 export interface WorkspaceHealthConfig {
   autoHealthCheckEnabled?: boolean;
@@ -27,6 +28,8 @@ export function useWorkspaceHealth(config: WorkspaceHealthConfig = {}) {
   const [error, setError] = useState<string | null>(null);
   const [isRestarting, setIsRestarting] = useState(false);
   const [restartStartTime, setRestartStartTime] = useState<number | null>(null);
+  // "<repository>:<service>" while a single service restarts
+  const [restartingService, setRestartingService] = useState<string | null>(null);
 
   const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
 
@@ -128,6 +131,31 @@ export function useWorkspaceHealth(config: WorkspaceHealthConfig = {}) {
     }
   }, [sandboxId, isRestarting, checkHealth]);
 
+  const restartService = useCallback(async (repository: string, service: WorkspaceService) => {
+    if (!sandboxId || isRestarting || restartingService) return;
+    
+    setRestartingService(`${repository}:${service}`);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/workspace/services/${sandboxId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ repository, service })
+      });
+      const data = await response.json();
+      
+      if (!response.ok || !data.success) {
+        setError(data.error || data.details || 'Failed to restart service');
+      }
+      await checkHealth(true);
+    } catch {
+      setError('Failed to restart service');
+    } finally {
+      setRestartingService(null);
+    }
+  }, [sandboxId, isRestarting, restartingService, checkHealth]);
+
   return {
     healthData,
     isLoading,
@@ -137,5 +165,7 @@ export function useWorkspaceHealth(config: WorkspaceHealthConfig = {}) {
     activeWorkspace,
     checkHealth,
     fixServices,
+    restartingService,
+    restartService,
   };
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useWorkspaceStore } from '../app/home/stores/workspaceStore';
+import type { AutoStopPlan, WorkspaceActivity, WorkspaceIdlePolicy } from '../lib/workspace-idle';
+
+export interface WorkspaceIdleResponse {
+  policy: WorkspaceIdlePolicy;
+  sandboxState: string;
+  activity: WorkspaceActivity | null;
+  autoStop: AutoStopPlan | null;
+}
+
+export interface WorkspaceIdleConfig {
+  autoStopEnabled?: boolean;   // Off for views that only show or edit the policy
+  pollInterval?: number;
+}
+
+/**
+ * Polls the sandbox's idle status, counts down the warning period and stops
+ * the sandbox through /api/workspace-stop when the countdown runs out
+ */
+export function useWorkspaceIdle(config: WorkspaceIdleConfig = {}) {
+  const { autoStopEnabled = true, pollInterval = 60000 } = config;
+
+  const { sandboxId } = useWorkspaceStore();
+  const [status, setStatus] = useState<WorkspaceIdleResponse | null>(null);
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Sandbox clock minus browser clock, stop times are in sandbox time
+  const clockOffset = useRef(0);
+
+  const checkIdle = useCallback(async () => {
+    if (!sandboxId) return;
+
+    try {
+      const response = await fetch(`/api/workspace-idle/${sandboxId}`);
+      if (!response.ok) {
+        throw new Error('Failed to check idle status');
+      }
+      const data: WorkspaceIdleResponse = await response.json();
+      if (data.activity) {
+        clockOffset.current = Date.parse(data.activity.checkedAt) - Date.now();
+      }
+      setStatus(data);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check idle status');
+    }
+  }, [sandboxId]);
+
+  useEffect(() => {
+    if (!sandboxId) {
+      setStatus(null);
+      return;
+    }
+
+    checkIdle();
+    const interval = setInterval(checkIdle, pollInterval);
+    return () => clearInterval(interval);
+  }, [sandboxId, checkIdle, pollInterval]);
+
+  const stopAt = status?.sandboxState === 'started' ? status.autoStop?.stopAt : undefined;
+
+  // Tick every second so the countdown stays accurate between polls
+  useEffect(() => {
+    if (!stopAt) {
+      setRemainingMs(null);
+      return;
+    }
+
+    const update = () => setRemainingMs(Math.max(0, Date.parse(stopAt) - (Date.now() + clockOffset.current)));
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [stopAt]);
+
+  const warningMs = (status?.policy.warningMinutes ?? 0) * 60000;
+  const isWarning = remainingMs !== null && remainingMs <= warningMs;
+
+  const stopNow = useCallback(async () => {
+    if (!sandboxId || isStopping) return;
+
+    setIsStopping(true);
+    try {
+      const response = await fetch(`/api/workspace-stop/${sandboxId}`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Failed to stop workspace');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop workspace');
+    } finally {
+      setIsStopping(false);
+      await checkIdle();
+    }
+  }, [sandboxId, isStopping, checkIdle]);
+
+  // Re-check before stopping: activity in another tab or an agent may have pushed the stop back
+  useEffect(() => {
+    if (!autoStopEnabled || remainingMs !== 0 || isStopping) return;
+
+    (async () => {
+      const response = await fetch(`/api/workspace-idle/${sandboxId}`).catch(() => null);
+      const latest: WorkspaceIdleResponse | null = response?.ok ? await response.json() : null;
+      if (latest?.autoStop && latest.activity && Date.parse(latest.autoStop.stopAt) <= Date.parse(latest.activity.checkedAt)) {
+        await stopNow();
+      } else if (latest) {
+        setStatus(latest);
+      }
+    })();
+  }, [autoStopEnabled, remainingMs, isStopping, sandboxId, stopNow]);
+
+  const keepRunning = useCallback(async (minutes: number = 60) => {
+    if (!sandboxId) return;
+
+    try {
+      const response = await fetch(`/api/workspace-idle/${sandboxId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ minutes })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to keep workspace running');
+      }
+      setStatus(current => current && { ...current, activity: data.activity, autoStop: data.autoStop });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to keep workspace running');
+    }
+  }, [sandboxId]);
+
+  const savePolicy = useCallback(async (policy: WorkspaceIdlePolicy) => {
+    if (!sandboxId) return;
+
+    const response = await fetch(`/api/workspace-idle/${sandboxId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(policy)
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save auto-stop settings');
+    }
+    await checkIdle();
+  }, [sandboxId, checkIdle]);
+
+  return {
+    status,
+    policy: status?.policy ?? null,
+    autoStop: status?.autoStop ?? null,
+    remainingMs,
+    isWarning,
+    isStopping,
+    error,
+    checkIdle,
+    keepRunning,
+    stopNow,
+    savePolicy,
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Unit tests for the agent registry
+ * Tests that every registered agent is wired into services, ports and scripts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AGENTS, AGENT_IDS, getAgent, isAgentId, mapAgents } from '../agent-registry';
+import { WORKSPACE_SERVICES, SERVICE_PORT_RANGES, SERVICE_DISPLAY_NAMES, SERVICES_PER_REPOSITORY } from '../workspace-constants';
+import { PortManager } from '../port-manager';
+
+describe('agent-registry', () => {
+  it('should use unique, app-compatible ids', () => {
+    expect(new Set(AGENT_IDS).size).toBe(AGENTS.length);
+    for (const id of AGENT_IDS) {
+      expect(id).toMatch(/^[a-z0-9-]+$/);
+      expect(['vscode', 'terminal', 'diff', 'settings', 'setup']).not.toContain(id);
+    }
+  });
+
+  it('should give every service its own port range', () => {
+    const bases = Object.values(SERVICE_PORT_RANGES).sort((a, b) => a - b);
+
+    expect(new Set(bases).size).toBe(bases.length);
+    // 100 repository slots per service must not run into the next range
+    for (let i = 1; i < bases.length; i++) {
+      expect(bases[i] - bases[i - 1]).toBeGreaterThanOrEqual(100);
+    }
+  });
+
+  it('should register agents as workspace services', () => {
+    expect(WORKSPACE_SERVICES).toEqual(['vscode', 'terminal', ...AGENT_IDS]);
+    expect(SERVICES_PER_REPOSITORY).toBe(2 + AGENTS.length);
+
+    for (const agent of AGENTS) {
+      expect(SERVICE_PORT_RANGES[agent.id]).toBe(agent.portBase);
+      expect(SERVICE_DISPLAY_NAMES[agent.id]).toBe(agent.name);
+      expect(PortManager.getPortsForSlot(3)[agent.id]).toBe(agent.portBase + 3);
+    }
+  });
+
+  it('should look up agents by id', () => {
+    expect(getAgent('claude').cli.versionCommand).toBe('claude --version');
+    expect(isAgentId('gemini')).toBe(true);
+    expect(isAgentId('vscode')).toBe(false);
+    expect(mapAgents(agent => agent.launchCommand)).toEqual({ claude: 'claude', gemini: 'gemini' });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for user-defined custom terminals
+ * Tests input validation, id and port allocation and the commands run inside the sandbox
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Sandbox } from '@daytonaio/sdk';
+import type { Repository } from '@/types/workspace';
+import {
+  CustomTerminalError,
+  CustomTerminalManager,
+  MAX_CUSTOM_TERMINALS_PER_REPOSITORY,
+  addCustomTerminal,
+  createCustomTerminalId,
+  removeCustomTerminal,
+  updateCustomTerminal,
+  validateCustomTerminalInput
+} from '../custom-terminals';
+import { PortManager } from '../port-manager';
+import { CUSTOM_TERMINAL_PORT_RANGE } from '../workspace-constants';
+
+// Mock logger
+vi.mock('../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const ROOT = '/home/daytona';
+
+const createRepository = (slot: number, overrides: Partial<Repository> = {}): Repository => ({
+  id: `repo-${slot}`,
+  url: 'https://github.com/user/my-app',
+  name: 'my-app',
+  sourceType: 'github',
+  ports: PortManager.getPortsForSlot(slot),
+  ...overrides
+});
+
+describe('custom terminal configuration', () => {
+  describe('validateCustomTerminalInput', () => {
+    it('should trim fields and drop an empty icon', () => {
+      expect(validateCustomTerminalInput({ name: ' Dev server ', command: ' npm run dev ', icon: ' ' }))
+        .toEqual({ name: 'Dev server', command: 'npm run dev' });
+    });
+
+    it('should reject missing names, missing commands and multi-line commands', () => {
+      expect(() => validateCustomTerminalInput({ name: '', command: 'ls' })).toThrow(CustomTerminalError);
+      expect(() => validateCustomTerminalInput({ name: 'Logs', command: 42 })).toThrow('Command must be');
+      expect(() => validateCustomTerminalInput({ name: 'Logs', command: 'ls\nrm -rf /' })).toThrow('single line');
+    });
+  });
+
+  describe('createCustomTerminalId', () => {
+    it('should slugify the name and avoid existing ids', () => {
+      const existing = [{ id: 'dev-server', name: 'Dev server', command: 'npm run dev', port: 12000 }];
+
+      expect(createCustomTerminalId('Docker Logs!', [])).toBe('docker-logs');
+      expect(createCustomTerminalId('Dev Server', existing)).toBe('dev-server-2');
+      expect(createCustomTerminalId('🚀', [])).toBe('terminal');
+    });
+  });
+
+  describe('addCustomTerminal', () => {
+    it('should allocate the first port not assigned or bound in the sandbox', () => {
+      const unavailable = new Set([CUSTOM_TERMINAL_PORT_RANGE.start, CUSTOM_TERMINAL_PORT_RANGE.start + 1]);
+      const { repository, terminal } = addCustomTerminal(createRepository(2), { name: 'Dev', command: 'npm run dev' }, unavailable);
+
+      expect(terminal).toEqual({ id: 'dev', name: 'Dev', command: 'npm run dev', port: CUSTOM_TERMINAL_PORT_RANGE.start + 2 });
+      expect(repository.customTerminals).toEqual([terminal]);
+    });
+
+    it('should enforce the per-repository limit', () => {
+      let repository = createRepository(0);
+      for (let i = 0; i < MAX_CUSTOM_TERMINALS_PER_REPOSITORY; i++) {
+        repository = addCustomTerminal(repository, { name: `Term ${i}`, command: 'ls' }, PortManager.getAssignedPorts([repository])).repository;
+      }
+
+      expect(() => addCustomTerminal(repository, { name: 'One more', command: 'ls' }, new Set()))
+        .toThrow(expect.objectContaining({ code: 'LIMIT_REACHED' }));
+
+      repository = removeCustomTerminal(repository, 'term-3').repository;
+      expect(addCustomTerminal(repository, { name: 'One more', command: 'ls' }, PortManager.getAssignedPorts([repository])).terminal.port)
+        .toBe(CUSTOM_TERMINAL_PORT_RANGE.start + 3);
+    });
+  });
+
+  describe('updateCustomTerminal', () => {
+    it('should keep the id and port', () => {
+      const { repository, terminal } = addCustomTerminal(createRepository(0), { name: 'Dev', command: 'npm run dev' }, new Set());
+      const updated = updateCustomTerminal(repository, terminal.id, { name: 'Web', command: 'pnpm dev', icon: '🌐' });
+
+      expect(updated.terminal).toEqual({ id: 'dev', port: terminal.port, name: 'Web', command: 'pnpm dev', icon: '🌐' });
+    });
+
+    it('should throw for unknown terminals', () => {
+      expect(() => updateCustomTerminal(createRepository(0), 'missing', { name: 'x', command: 'y' }))
+        .toThrow(expect.objectContaining({ code: 'TERMINAL_NOT_FOUND', statusCode: 404 }));
+    });
+  });
+});
+
+describe('CustomTerminalManager', () => {
+  let mockSandbox: { process: { executeCommand: ReturnType<typeof vi.fn> } };
+  let manager: CustomTerminalManager;
+
+  beforeEach(() => {
+    mockSandbox = {
+      process: {
+        executeCommand: vi.fn().mockResolvedValue({ exitCode: 0, result: '' })
+      }
+    };
+    manager = new CustomTerminalManager(mockSandbox as unknown as Sandbox, ROOT);
+  });
+
+  it('should write a tmux script and start ttyd on the terminal port', async () => {
+    const terminal = { id: 'logs', name: 'Logs', command: 'docker compose logs -f "api"', port: 12001 };
+
+    await manager.start(createRepository(0, { customTerminals: [terminal] }), terminal);
+
+    const [scriptCommand] = mockSandbox.process.executeCommand.mock.calls[0];
+    expect(scriptCommand).toContain('/tmp/start-custom-logs-my-app.sh');
+    expect(scriptCommand).toContain('custom-logs-my-app');
+    expect(scriptCommand).toContain('docker compose logs -f \\"api\\"; exec zsh');
+
+    const [ttydCommand] = mockSandbox.process.executeCommand.mock.calls[1];
+    expect(ttydCommand).toContain('ttyd --port 12001 --writable');
+    expect(ttydCommand).toContain('"/tmp/start-custom-logs-my-app.sh"');
+  });
+
+  it('should kill the ttyd process and tmux session on stop', async () => {
+    const terminal = { id: 'logs', name: 'Logs', command: 'tail -f log', port: 12001 };
+
+    await manager.stop(createRepository(0), terminal);
+
+    expect(mockSandbox.process.executeCommand).toHaveBeenCalledWith(
+      expect.stringContaining('pkill -f "ttyd --port 12001( |$)"'),
+      ROOT
+    );
+    expect(mockSandbox.process.executeCommand.mock.calls[0][0]).toContain('tmux kill-session -t custom-logs-my-app');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for .env import and export
+ * Tests parsing of quotes, export prefixes, multi-line values and comments, serialization and import previews
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDotenv, planDotenvImport, serializeDotenv } from '../dotenv';
+
+describe('dotenv', () => {
+  it('should parse comments, export prefixes and quoted values', () => {
+    const content = [
+      '# Database',
+      'DATABASE_URL=postgres://localhost/app # local only',
+      'export API_KEY="sk-123"',
+      "GREETING='Hello #1 $USER'",
+      'ESCAPED="line\\nbreak \\"quoted\\" \\$HOME"',
+      'EMPTY=',
+      '  SPACED = value with spaces  ',
+      'HASH=abc#def',
+      ''
+    ].join('\n');
+
+    expect(parseDotenv(content)).toEqual({
+      variables: {
+        DATABASE_URL: 'postgres://localhost/app',
+        API_KEY: 'sk-123',
+        GREETING: 'Hello #1 $USER',
+        ESCAPED: 'line\nbreak "quoted" $HOME',
+        EMPTY: '',
+        SPACED: 'value with spaces',
+        HASH: 'abc#def'
+      },
+      errors: []
+    });
+  });
+
+  it('should read quoted values spanning several lines', () => {
+    const content = 'PRIVATE_KEY="-----BEGIN KEY-----\r\nabc\r\n-----END KEY-----"\r\nNEXT=1';
+
+    expect(parseDotenv(content).variables).toEqual({
+      PRIVATE_KEY: '-----BEGIN KEY-----\nabc\n-----END KEY-----',
+      NEXT: '1'
+    });
+  });
+
+  it('should report the line of each mistake and keep the valid variables', () => {
+    const content = ['GOOD=1', 'not an assignment', '1BAD=2', 'OPEN="never closed', 'LATER=3'].join('\n');
+    const { variables, errors } = parseDotenv(content);
+
+    expect(variables).toEqual({ GOOD: '1' });
+    expect(errors.map(error => error.line)).toEqual([2, 3, 4]);
+    expect(errors[2].message).toContain('Unterminated');
+  });
+
+  it('should keep the last value of a key set twice', () => {
+    expect(parseDotenv('A=1\nA=2').variables).toEqual({ A: '2' });
+  });
+
+  it('should serialize values that parse back unchanged', () => {
+    const variables = {
+      PLAIN: 'postgres://user@localhost:5432/db',
+      SPACES: 'hello world',
+      MULTILINE: 'a\nb',
+      QUOTES: 'say "hi" to $USER\\home',
+      EMPTY: ''
+    };
+    const content = serializeDotenv(variables, 'AgentsOS environment variables\nProject: api');
+
+    expect(content.startsWith('# AgentsOS environment variables\n# Project: api\n\n')).toBe(true);
+    expect(content).toContain('PLAIN=postgres://user@localhost:5432/db\n');
+    expect(content).toContain('MULTILINE="a\\nb"\n');
+    expect(parseDotenv(content)).toEqual({ variables, errors: [] });
+  });
+
+  it('should preview which variables an import adds and overwrites', () => {
+    expect(planDotenvImport({ A: '1', B: '2' }, { A: '1', B: '3', C: '4' })).toEqual({
+      added: ['C'],
+      overwritten: ['B'],
+      unchanged: ['A']
+    });
+  });
+});
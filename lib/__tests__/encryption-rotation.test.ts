@@ -0,0 +1,91 @@
+/**
+ * Unit tests for re-encrypting environment documents
+ * Tests walking the Daytona API key and global, project and branch env vars after a key rotation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AgentsOSEncryption } from '../encryption';
+import { reEncryptEnvironment } from '../encryption-rotation';
+
+describe('encryption-rotation', () => {
+  const userId = 'user-123';
+  const oldSecret = 'old-master-secret-32-chars-long!!!';
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_SECRET = oldSecret;
+    delete process.env.ENCRYPTION_KEY_VERSION;
+    delete process.env.ENCRYPTION_SECRET_V1;
+  });
+
+  afterEach(() => {
+    delete process.env.ENCRYPTION_KEY_VERSION;
+    delete process.env.ENCRYPTION_SECRET_V1;
+  });
+
+  const rotate = () => {
+    process.env.ENCRYPTION_SECRET_V1 = oldSecret;
+    process.env.ENCRYPTION_SECRET = 'new-master-secret-32-chars-long!!!';
+    process.env.ENCRYPTION_KEY_VERSION = '2';
+  };
+
+  const encrypt = (value: string) => AgentsOSEncryption.encrypt(value, userId);
+
+  it('should re-encrypt every value under an older key', () => {
+    const environment = {
+      daytonaApiKey: encrypt('daytona-key'),
+      projects: { web: { DATABASE_URL: encrypt('db') } },
+      global: { LOG_LEVEL: encrypt('info') },
+      branches: { web: { 'feature/x': { FEATURE_FLAG: encrypt('on') } } }
+    };
+
+    rotate();
+    const { report, update } = reEncryptEnvironment(environment, userId);
+
+    expect(report).toEqual({ userId, reEncrypted: 4, current: 0, failed: [] });
+    expect(update?.daytonaApiKey?.keyId).toBe('v2');
+    expect(AgentsOSEncryption.decrypt(update!.daytonaApiKey!, userId)).toBe('daytona-key');
+    expect(AgentsOSEncryption.decrypt(update!.projects!.web.DATABASE_URL, userId)).toBe('db');
+    expect(AgentsOSEncryption.decrypt(update!.global!.LOG_LEVEL, userId)).toBe('info');
+    expect(AgentsOSEncryption.decrypt(update!.branches!.web['feature/x'].FEATURE_FLAG, userId)).toBe('on');
+  });
+
+  it('should only update fields with values under an older key', () => {
+    const oldValue = encrypt('db');
+    rotate();
+    const currentValue = encrypt('info');
+
+    const { report, update } = reEncryptEnvironment({
+      projects: { web: { DATABASE_URL: oldValue }, api: { API_URL: currentValue } },
+      global: { LOG_LEVEL: currentValue }
+    }, userId);
+
+    expect(report).toMatchObject({ reEncrypted: 1, current: 2 });
+    expect(Object.keys(update!)).toEqual(['projects']);
+    // Current values are kept as they are
+    expect(update!.projects!.api.API_URL).toBe(currentValue);
+  });
+
+  it('should report nothing to write when every value is current', () => {
+    const { report, update } = reEncryptEnvironment({
+      daytonaApiKey: encrypt('daytona-key'),
+      projects: { web: { DATABASE_URL: encrypt('db') } }
+    }, userId);
+
+    expect(report).toEqual({ userId, reEncrypted: 0, current: 2, failed: [] });
+    expect(update).toBeNull();
+  });
+
+  it('should keep and report values that cannot be decrypted', () => {
+    const broken = { ...encrypt('db'), tag: Buffer.alloc(16).toString('base64') };
+    const environment = {
+      projects: { web: { DATABASE_URL: broken, API_URL: encrypt('api') } }
+    };
+
+    rotate();
+    const { report, update } = reEncryptEnvironment(environment, userId);
+
+    expect(report.failed).toEqual(['projects.web.DATABASE_URL']);
+    expect(report.reEncrypted).toBe(1);
+    expect(update!.projects!.web.DATABASE_URL).toBe(broken);
+  });
+});
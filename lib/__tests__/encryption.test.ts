@@ -301,4 +301,94 @@ describe('End-to-End Encryption Flow', () => {
     
     expect(decrypted).toBe(longValue);
   });
-});
\ No newline at end of file
+});
+describe('Key Rotation', () => {
+  const oldSecret = 'old-master-secret-32-chars-long!!!';
+  const newSecret = 'new-master-secret-32-chars-long!!!';
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_SECRET = oldSecret;
+    delete process.env.ENCRYPTION_KEY_VERSION;
+    delete process.env.ENCRYPTION_SECRET_V1;
+  });
+
+  afterEach(() => {
+    delete process.env.ENCRYPTION_KEY_VERSION;
+    delete process.env.ENCRYPTION_SECRET_V1;
+  });
+
+  // Rotate from v1 to v2, keeping the old secret readable
+  const rotate = () => {
+    process.env.ENCRYPTION_SECRET_V1 = oldSecret;
+    process.env.ENCRYPTION_SECRET = newSecret;
+    process.env.ENCRYPTION_KEY_VERSION = '2';
+  };
+
+  const getModule = async () => {
+    const encryptionModule = await import('../encryption');
+    return encryptionModule;
+  };
+
+  it('should record the current key id', async () => {
+    const { AgentsOSEncryption } = await getModule();
+
+    expect(AgentsOSEncryption.encrypt('value', userId).keyId).toBe('v1');
+
+    process.env.ENCRYPTION_KEY_VERSION = '3';
+    expect(AgentsOSEncryption.encrypt('value', userId).keyId).toBe('v3');
+  });
+
+  it('should decrypt values stored before key ids as v1', async () => {
+    const { AgentsOSEncryption } = await getModule();
+    const { keyId, ...legacy } = AgentsOSEncryption.encrypt('legacy-value', userId);
+
+    expect(keyId).toBe('v1');
+    expect(AgentsOSEncryption.decrypt(legacy, userId)).toBe('legacy-value');
+    expect(AgentsOSEncryption.needsReEncryption(legacy)).toBe(false);
+  });
+
+  it('should decrypt values of an older key after rotating', async () => {
+    const { AgentsOSEncryption } = await getModule();
+    const oldValue = AgentsOSEncryption.encrypt('old-value', userId);
+
+    rotate();
+
+    expect(AgentsOSEncryption.decrypt(oldValue, userId)).toBe('old-value');
+    expect(AgentsOSEncryption.needsReEncryption(oldValue)).toBe(true);
+  });
+
+  it('should re-encrypt values under the current key', async () => {
+    const { AgentsOSEncryption } = await getModule();
+    const oldValue = AgentsOSEncryption.encrypt('old-value', userId);
+
+    rotate();
+    const reEncrypted = AgentsOSEncryption.reEncrypt(oldValue, userId);
+
+    expect(reEncrypted.keyId).toBe('v2');
+    expect(AgentsOSEncryption.needsReEncryption(reEncrypted)).toBe(false);
+
+    // Readable once the old secret is removed
+    delete process.env.ENCRYPTION_SECRET_V1;
+    expect(AgentsOSEncryption.decrypt(reEncrypted, userId)).toBe('old-value');
+  });
+
+  it('should require the secret of an older key to decrypt its values', async () => {
+    const { AgentsOSEncryption } = await getModule();
+    const oldValue = AgentsOSEncryption.encrypt('old-value', userId);
+
+    rotate();
+    delete process.env.ENCRYPTION_SECRET_V1;
+
+    expect(() => {
+      AgentsOSEncryption.decrypt(oldValue, userId);
+    }).toThrow('ENCRYPTION_SECRET_V1 environment variable is required');
+  });
+
+  it('should reject a malformed ENCRYPTION_KEY_VERSION', async () => {
+    const { AgentsOSEncryption } = await getModule();
+    process.env.ENCRYPTION_KEY_VERSION = 'v2';
+
+    expect(() => AgentsOSEncryption.getCurrentKeyId()).toThrow('ENCRYPTION_KEY_VERSION must be a positive whole number');
+  });
+});
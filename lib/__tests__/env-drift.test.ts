@@ -0,0 +1,54 @@
+/**
+ * Unit tests for env drift detection
+ * Tests comparing cloud variables with the sandbox env file and choosing where pulled values go
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveEnvScopes } from '../env-scopes';
+import { detectEnvDrift, hasEnvDrift, planEnvDriftPull } from '../env-drift';
+
+describe('env-drift', () => {
+  const resolved = resolveEnvScopes({
+    global: { LOG_LEVEL: 'info' },
+    project: { DATABASE_URL: 'cloud-db', API_URL: 'cloud-api' },
+    branch: { FEATURE_FLAG: 'on' }
+  });
+
+  it('should report keys added, edited and not yet synced in the file', () => {
+    const local = { DATABASE_URL: 'cloud-db', API_URL: 'local-api', FEATURE_FLAG: 'off', AGENT_TOKEN: 'abc' };
+    const drift = detectEnvDrift(resolved, local, '.env.local');
+
+    expect(drift).toEqual({
+      path: '.env.local',
+      fileExists: true,
+      localOnly: ['AGENT_TOKEN'],
+      changed: [{ key: 'API_URL', source: 'project' }, { key: 'FEATURE_FLAG', source: 'branch' }],
+      missing: ['LOG_LEVEL']
+    });
+    expect(hasEnvDrift(drift)).toBe(true);
+  });
+
+  it('should not count variables only waiting for a sync as drift', () => {
+    const drift = detectEnvDrift(resolved, null, '.env.local');
+
+    expect(drift.fileExists).toBe(false);
+    expect(drift.missing).toEqual(['LOG_LEVEL', 'DATABASE_URL', 'API_URL', 'FEATURE_FLAG']);
+    expect(hasEnvDrift(drift)).toBe(false);
+  });
+
+  it('should pull branch override edits back to the branch and the rest into the project', () => {
+    const local = { API_URL: 'local-api', FEATURE_FLAG: 'off', AGENT_TOKEN: 'abc', 'not-a-key': 'x', LOG_LEVEL: 'info' };
+    const drift = detectEnvDrift(resolved, local, '.env.local');
+
+    expect(planEnvDriftPull(drift, local)).toEqual({
+      project: { AGENT_TOKEN: 'abc', API_URL: 'local-api' },
+      branch: { FEATURE_FLAG: 'off' },
+      skipped: ['not-a-key']
+    });
+    expect(planEnvDriftPull(drift, local, ['AGENT_TOKEN', 'LOG_LEVEL'])).toEqual({
+      project: { AGENT_TOKEN: 'abc' },
+      branch: {},
+      skipped: ['LOG_LEVEL']
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Unit tests for environment variable scopes
+ * Tests scope query parameters and the precedence of global, project and branch values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EnvScopeError, getEnvValues, parseEnvScope, resolveEnvScopes } from '../env-scopes';
+
+describe('env scopes', () => {
+  it('should default to the project scope', () => {
+    expect(parseEnvScope(new URLSearchParams())).toEqual({ scope: 'project' });
+    expect(parseEnvScope(new URLSearchParams({ scope: 'global' }))).toEqual({ scope: 'global' });
+    expect(parseEnvScope(new URLSearchParams({ scope: 'branch', branch: 'feature/login' })))
+      .toEqual({ scope: 'branch', branch: 'feature/login' });
+  });
+
+  it('should reject unknown scopes and invalid branches', () => {
+    const invalidScopes: Record<string, string>[] = [
+      { scope: 'team' },
+      { scope: 'branch' },
+      { scope: 'branch', branch: 'a..b' },
+      { scope: 'branch', branch: '-x' }
+    ];
+    for (const params of invalidScopes) {
+      expect(() => parseEnvScope(new URLSearchParams(params))).toThrow(EnvScopeError);
+    }
+  });
+
+  it('should let branch values beat project values and project values beat global ones', () => {
+    const resolved = resolveEnvScopes({
+      global: { OPENAI_API_KEY: 'global-key', LOG_LEVEL: 'info', REGION: 'eu' },
+      project: { LOG_LEVEL: 'debug', REGION: 'us' },
+      branch: { REGION: 'ap' }
+    });
+
+    expect(resolved).toEqual({
+      OPENAI_API_KEY: { value: 'global-key', source: 'global', overrides: [] },
+      LOG_LEVEL: { value: 'debug', source: 'project', overrides: ['global'] },
+      REGION: { value: 'ap', source: 'branch', overrides: ['global', 'project'] }
+    });
+    expect(getEnvValues(resolved)).toEqual({ OPENAI_API_KEY: 'global-key', LOG_LEVEL: 'debug', REGION: 'ap' });
+  });
+
+  it('should resolve missing scopes to nothing', () => {
+    expect(resolveEnvScopes({})).toEqual({});
+    expect(resolveEnvScopes({ project: { A: '1' } })).toEqual({ A: { value: '1', source: 'project', overrides: [] } });
+  });
+});
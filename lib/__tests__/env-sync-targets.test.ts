@@ -0,0 +1,61 @@
+/**
+ * Unit tests for env sync target files
+ * Tests target validation and reading and writing each file format
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EnvSyncTargetError,
+  formatEnvTargetFile,
+  parseEnvTargetFile,
+  validateEnvSyncTargets
+} from '../env-sync-targets';
+
+describe('env-sync-targets', () => {
+  it('should normalize valid targets', () => {
+    expect(validateEnvSyncTargets([
+      { path: './apps/web/.env', format: 'dotenv' },
+      { path: 'config/env.json', format: 'json' }
+    ])).toEqual([
+      { path: 'apps/web/.env', format: 'dotenv' },
+      { path: 'config/env.json', format: 'json' }
+    ]);
+  });
+
+  it('should reject paths outside the project, unknown formats and duplicates', () => {
+    const invalid: unknown[] = [
+      [],
+      [{ path: '../secrets/.env', format: 'dotenv' }],
+      [{ path: '/etc/environment', format: 'dotenv' }],
+      [{ path: 'apps/web/', format: 'dotenv' }],
+      [{ path: '.env; rm -rf ~', format: 'dotenv' }],
+      [{ path: 'config/secrets.yml', format: 'yaml' }],
+      [{ path: '.env', format: 'dotenv' }, { path: './.env', format: 'shell' }]
+    ];
+
+    for (const targets of invalid) {
+      expect(() => validateEnvSyncTargets(targets)).toThrow(EnvSyncTargetError);
+    }
+  });
+
+  it('should write shell exports that read back unchanged', () => {
+    const variables = { PLAIN: 'value', TRICKY: 'it\'s "$HOME" `date` \\n', MULTILINE: 'a\nb' };
+    const content = formatEnvTargetFile(variables, 'shell', 'AgentsOS\nProject: api');
+
+    expect(content.startsWith('# AgentsOS\n# Project: api\n\nexport PLAIN="value"\n')).toBe(true);
+    expect(parseEnvTargetFile(content, { path: 'env.sh', format: 'shell' })).toEqual(variables);
+  });
+
+  it('should read flat JSON objects and refuse files a merge would break', () => {
+    const target = { path: 'config/env.json', format: 'json' } as const;
+
+    expect(parseEnvTargetFile('{"PORT": 3000, "DEBUG": true, "NAME": "api"}', target)).toEqual({
+      PORT: '3000',
+      DEBUG: 'true',
+      NAME: 'api'
+    });
+    expect(() => parseEnvTargetFile('{"database": {"host": "localhost"}}', target)).toThrow('nested');
+    expect(() => parseEnvTargetFile('[1, 2]', target)).toThrow('JSON object');
+    expect(() => parseEnvTargetFile('{oops', target)).toThrow('not valid JSON');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for git patch helpers used for hunk staging
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parsePatch, buildHunkPatch } from '../git-patch';
+
+const PATCH = [
+  'diff --git a/src/a.ts b/src/a.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/a.ts',
+  '+++ b/src/a.ts',
+  '@@ -1,3 +1,3 @@',
+  ' line 1',
+  '-line 2',
+  '+line two',
+  ' line 3',
+  '@@ -10,2 +10,3 @@ function foo() {',
+  ' line 10',
+  '+line 10.5',
+  ' line 11',
+  ''
+].join('\n');
+
+describe('git-patch', () => {
+  it('should split a patch into file header and hunks', () => {
+    const { fileHeader, hunks } = parsePatch(PATCH);
+
+    expect(fileHeader).toBe('diff --git a/src/a.ts b/src/a.ts\nindex 1111111..2222222 100644\n--- a/src/a.ts\n+++ b/src/a.ts');
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0].header).toBe('@@ -1,3 +1,3 @@');
+    expect(hunks[1].header).toBe('@@ -10,2 +10,3 @@ function foo() {');
+    expect(hunks[1].content).toBe('@@ -10,2 +10,3 @@ function foo() {\n line 10\n+line 10.5\n line 11');
+  });
+
+  it('should build a patch for a single hunk', () => {
+    expect(buildHunkPatch(PATCH, 1)).toBe([
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -10,2 +10,3 @@ function foo() {',
+      ' line 10',
+      '+line 10.5',
+      ' line 11',
+      ''
+    ].join('\n'));
+  });
+
+  it('should return null for unknown hunks or empty patches', () => {
+    expect(buildHunkPatch(PATCH, 5)).toBeNull();
+    expect(buildHunkPatch('', 0)).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for the GitHub repository browser
+ * Tests query validation, the GitHub API paths searched and listed, and response parsing
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Sandbox } from '@daytonaio/sdk';
+import {
+  GitHubRepositories,
+  GitHubRepositoryError,
+  classifyGitHubError,
+  filterRepositoryPage,
+  getRepositoryListPath,
+  isFilteredSearch,
+  parseRepositoryPage,
+  parseRepositoryQuery
+} from '../github-repositories';
+
+vi.mock('../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const account = { login: 'octocat', organizations: ['acme', 'widgets'] };
+
+const query = (params: Record<string, string> = {}) => parseRepositoryQuery(new URLSearchParams(params));
+
+const apiRepository = {
+  name: 'api',
+  full_name: 'acme/api',
+  owner: { login: 'acme' },
+  description: '',
+  private: true,
+  language: 'TypeScript',
+  pushed_at: '2026-10-01T10:00:00Z',
+  updated_at: '2026-09-01T10:00:00Z'
+};
+
+describe('github repositories', () => {
+  it('should default to the first page of every account, most recently active first', () => {
+    expect(query()).toEqual({ search: '', owner: null, sort: 'activity', page: 1, perPage: 30 });
+    expect(query({ q: '  api ', owner: 'acme', sort: 'name', page: '3', perPage: '50' }))
+      .toEqual({ search: 'api', owner: 'acme', sort: 'name', page: 3, perPage: 50 });
+  });
+
+  it('should reject invalid query parameters', () => {
+    const invalidQueries: Record<string, string>[] = [
+      { owner: '-acme' },
+      { owner: 'acme/api' },
+      { sort: 'stars' },
+      { page: '0' },
+      { page: '1.5' },
+      { perPage: '101' },
+      { page: '11', perPage: '100' },
+      { q: 'x'.repeat(257) }
+    ];
+    for (const params of invalidQueries) {
+      expect(() => query(params)).toThrow(GitHubRepositoryError);
+    }
+  });
+
+  it('should search the user and their organizations unless an owner is chosen', () => {
+    expect(getRepositoryListPath(query({ q: 'api' }), account)).toBe(
+      `search/repositories?q=${encodeURIComponent('api user:octocat org:acme org:widgets fork:true')}&sort=updated&order=desc&per_page=30&page=1`
+    );
+    expect(getRepositoryListPath(query({ q: 'api', owner: 'acme', sort: 'name', page: '2' }), account)).toBe(
+      `search/repositories?q=${encodeURIComponent('api user:acme fork:true')}&per_page=30&page=2`
+    );
+  });
+
+  it('should filter every repository when the search would have too many organizations', () => {
+    const manyOrgs = { login: 'octocat', organizations: ['acme', 'widgets', 'gadgets', 'tools', 'labs'] };
+
+    expect(isFilteredSearch(query({ q: 'api' }), account)).toBe(false);
+    expect(isFilteredSearch(query({ q: 'api' }), manyOrgs)).toBe(true);
+    expect(isFilteredSearch(query({ q: 'api', owner: 'acme' }), manyOrgs)).toBe(false);
+    expect(isFilteredSearch(query(), manyOrgs)).toBe(false);
+    // Long organization names can exceed the query length with fewer of them
+    expect(isFilteredSearch(query({ q: 'api' }), { login: 'octocat', organizations: ['a'.repeat(39), 'b'.repeat(39)] })).toBe(false);
+    expect(isFilteredSearch(query({ q: 'x'.repeat(200) }), { login: 'octocat', organizations: ['a'.repeat(39), 'b'.repeat(39)] })).toBe(true);
+
+    expect(getRepositoryListPath(query({ q: 'api', sort: 'name', page: '2' }), manyOrgs))
+      .toBe('user/repos?affiliation=owner,organization_member&sort=full_name&direction=asc&per_page=100');
+  });
+
+  it('should page the repositories matching a filtered search', () => {
+    const output = [
+      { ...apiRepository, description: 'Payments API' },
+      { ...apiRepository, name: 'web', full_name: 'acme/web', description: 'Storefront' },
+      { ...apiRepository, name: 'api-docs', full_name: 'widgets/api-docs', owner: { login: 'widgets' } }
+    ].map(repo => JSON.stringify(repo)).join('\n');
+
+    expect(filterRepositoryPage(output, query({ q: 'API', perPage: '1' }))).toMatchObject({
+      repositories: [{ fullName: 'acme/api', description: 'Payments API' }],
+      total: 2,
+      hasNextPage: true
+    });
+    expect(filterRepositoryPage(output, query({ q: 'api', perPage: '1', page: '2' })).repositories[0].fullName).toBe('widgets/api-docs');
+    expect(filterRepositoryPage(output, query({ q: 'acme storefront' })).repositories.map(repo => repo.name)).toEqual(['web']);
+    expect(filterRepositoryPage('', query({ q: 'api' }))).toEqual({ repositories: [], total: 0, hasNextPage: false });
+  });
+
+  it('should list the repositories of the chosen owner', () => {
+    expect(getRepositoryListPath(query(), account))
+      .toBe('user/repos?affiliation=owner,collaborator,organization_member&sort=pushed&direction=desc&per_page=30&page=1');
+    expect(getRepositoryListPath(query({ owner: 'OctoCat' }), account))
+      .toBe('user/repos?affiliation=owner&sort=pushed&direction=desc&per_page=30&page=1');
+    expect(getRepositoryListPath(query({ owner: 'acme', sort: 'name' }), account))
+      .toBe('orgs/acme/repos?type=all&sort=full_name&direction=asc&per_page=30&page=1');
+    expect(getRepositoryListPath(query({ owner: 'someone' }), account))
+      .toBe('users/someone/repos?type=owner&sort=pushed&direction=desc&per_page=30&page=1');
+  });
+
+  it('should parse listings and searches', () => {
+    const listing = parseRepositoryPage(JSON.stringify([apiRepository]), query({ perPage: '1' }));
+    expect(listing).toEqual({
+      repositories: [{
+        name: 'api',
+        fullName: 'acme/api',
+        owner: 'acme',
+        description: null,
+        isPrivate: true,
+        language: 'TypeScript',
+        updatedAt: '2026-10-01T10:00:00Z'
+      }],
+      total: null,
+      hasNextPage: true
+    });
+
+    const search = JSON.stringify({ total_count: 31, items: [{ ...apiRepository, pushed_at: null }] });
+    expect(parseRepositoryPage(search, query({ q: 'api' }))).toMatchObject({
+      repositories: [{ updatedAt: '2026-09-01T10:00:00Z' }],
+      total: 31,
+      hasNextPage: true
+    });
+    expect(parseRepositoryPage(search, query({ q: 'api', page: '2' })).hasNextPage).toBe(false);
+  });
+
+  it('should classify gh api failures', () => {
+    expect(classifyGitHubError('To get started with GitHub CLI, please run:  gh auth login').code).toBe('GITHUB_AUTH_REQUIRED');
+    expect(classifyGitHubError('{"message":"Not Found"}gh: Not Found (HTTP 404)')).toMatchObject({ code: 'OWNER_NOT_FOUND', statusCode: 404 });
+    expect(classifyGitHubError('gh: Validation Failed (HTTP 422)').statusCode).toBe(400);
+    expect(classifyGitHubError('gh: Server Error (HTTP 502)').statusCode).toBe(502);
+  });
+
+  it('should read the login and organizations of the account', async () => {
+    const executeCommand = vi.fn(async () => ({ exitCode: 0, result: 'octocat\nacme\nwidgets\n' }));
+    const github = new GitHubRepositories({ process: { executeCommand } } as unknown as Sandbox, '/home/daytona');
+
+    await expect(github.getAccount()).resolves.toEqual(account);
+
+    executeCommand.mockResolvedValueOnce({ exitCode: 1, result: 'gh: Bad credentials (HTTP 401)' });
+    await expect(github.getAccount()).rejects.toMatchObject({ code: 'GITHUB_AUTH_REQUIRED' });
+  });
+
+  it('should list every page for a filtered search', async () => {
+    const executeCommand = vi.fn(async () => ({ exitCode: 0, result: `${JSON.stringify(apiRepository)}\n` }));
+    const github = new GitHubRepositories({ process: { executeCommand } } as unknown as Sandbox, '/home/daytona');
+    const manyOrgs = { login: 'octocat', organizations: ['acme', 'widgets', 'gadgets', 'tools', 'labs', 'infra'] };
+
+    await expect(github.list(query({ q: 'api' }), manyOrgs)).resolves.toMatchObject({ total: 1, hasNextPage: false });
+    expect(executeCommand).toHaveBeenCalledWith(
+      `(gh api 'user/repos?affiliation=owner,organization_member&sort=pushed&direction=desc&per_page=100' --paginate --jq '.[] | @json') 2>&1`,
+      '/home/daytona'
+    );
+  });
+});
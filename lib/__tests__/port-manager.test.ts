@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { PortManager } from '../port-manager';
+import { PortManager, parseListeningProcesses, type ListeningProcess } from '../port-manager';
+import { DYNAMIC_PORT_RANGE } from '../workspace-constants';
 import type { Repository } from '@/types/workspace';
 
 describe('PortManager', () => {
@@ -206,4 +207,101 @@ describe('PortManager', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('parseListeningProcesses', () => {
+    it('should map ss listeners to their process command lines', () => {
+      const output = [
+        'LISTEN 0 511 0.0.0.0:8080 0.0.0.0:* users:(("node",pid=101,fd=20))',
+        'LISTEN 0 128 [::]:4000 [::]:* users:(("node",pid=202,fd=3))',
+        'LISTEN 0 128 127.0.0.1:10000 0.0.0.0:* users:(("ttyd",pid=303,fd=12))',
+        '---',
+        '  101 /usr/lib/code-server/lib/node /usr/lib/code-server --bind-addr 0.0.0.0:8080',
+        '  202 node /home/daytona/projects/app/node_modules/.bin/next dev -p 4000',
+        '  303 ttyd --port 10000 --writable /tmp/start-zsh-app.sh'
+      ].join('\n');
+
+      const listeners = parseListeningProcesses(output);
+
+      expect([...listeners.keys()]).toEqual([8080, 4000, 10000]);
+      expect(listeners.get(4000)).toEqual({ port: 4000, pid: 202, command: 'node /home/daytona/projects/app/node_modules/.bin/next dev -p 4000' });
+    });
+
+    it('should parse netstat output', () => {
+      const listeners = parseListeningProcesses('tcp 0 0 0.0.0.0:5000 0.0.0.0:* LISTEN 42/python3\n---\n42 python3 -m http.server 5000\n');
+
+      expect(listeners.get(5000)).toEqual({ port: 5000, pid: 42, command: 'python3 -m http.server 5000' });
+    });
+  });
+
+  describe('allocatePorts', () => {
+    it('should prefer slot ports and fall back to the dynamic range when taken', () => {
+      const unavailable = new Set([8081]);
+      const ports = PortManager.allocatePorts(1, unavailable);
+
+      expect(ports).toEqual({ vscode: DYNAMIC_PORT_RANGE.start, terminal: 10001, claude: 4001, gemini: 5001 });
+      expect(unavailable).toEqual(new Set([8081, DYNAMIC_PORT_RANGE.start, 10001, 4001, 5001]));
+    });
+
+    it('should not let high slots overflow into another service range', () => {
+      const ports = PortManager.allocatePorts(2000, new Set());
+
+      expect(Object.values(ports).every(port => port >= DYNAMIC_PORT_RANGE.start)).toBe(true);
+      expect(new Set(Object.values(ports)).size).toBe(4);
+    });
+  });
+
+  describe('resolvePortConflicts', () => {
+    const createRepo = (id: string, slot: number, overrides: Partial<Repository> = {}): Repository => ({
+      id,
+      url: '',
+      name: id,
+      sourceType: 'manual',
+      ports: PortManager.getPortsForSlot(slot),
+      ...overrides
+    });
+    const listener = (port: number, command: string): [number, ListeningProcess] => [port, { port, pid: 1, command }];
+
+    it('should leave conflict-free workspaces and our own listeners untouched', () => {
+      const repositories = [createRepo('a', 0), createRepo('b', 1)];
+      const listeners = new Map([listener(8080, 'code-server --bind-addr 0.0.0.0:8080'), listener(10001, 'ttyd --port 10001')]);
+
+      const result = PortManager.resolvePortConflicts(repositories, listeners);
+
+      expect(result.reassignments).toEqual([]);
+      expect(result.repositories.map(repo => repo.ports)).toEqual(repositories.map(repo => repo.ports));
+    });
+
+    it('should move services off ports bound by user processes', () => {
+      const listeners = new Map([listener(4000, 'node next dev -p 4000')]);
+
+      const result = PortManager.resolvePortConflicts([createRepo('a', 0)], listeners);
+
+      expect(result.repositories[0].ports.claude).toBe(DYNAMIC_PORT_RANGE.start);
+      expect(result.reassignments).toEqual([
+        { repository: 'a', service: 'claude', from: 4000, to: DYNAMIC_PORT_RANGE.start, reason: 'bound' }
+      ]);
+    });
+
+    it('should keep the first owner of a duplicate port and fill missing ports from the slot', () => {
+      const duplicate = createRepo('b', 1, { ports: { ...PortManager.getPortsForSlot(1), vscode: 8080 } });
+      const missing = createRepo('c', 2);
+      delete (missing.ports as Partial<Repository['ports']>).gemini;
+
+      const result = PortManager.resolvePortConflicts([createRepo('a', 0), duplicate, missing], new Map());
+
+      expect(result.repositories[0].ports.vscode).toBe(8080);
+      expect(result.repositories[1].ports.vscode).toBe(DYNAMIC_PORT_RANGE.start);
+      expect(result.repositories[2].ports.gemini).toBe(5002);
+      expect(result.reassignments.map(({ repository, reason }) => [repository, reason])).toEqual([['b', 'duplicate'], ['c', 'missing']]);
+    });
+
+    it('should reassign custom terminals that collide with service ports', () => {
+      const repo = createRepo('a', 0, { customTerminals: [{ id: 'dev', name: 'Dev', command: 'npm run dev', port: 10000 }] });
+
+      const result = PortManager.resolvePortConflicts([repo], new Map());
+
+      expect(result.repositories[0].customTerminals?.[0].port).toBe(12000);
+      expect(result.reassignments[0]).toMatchObject({ service: 'custom:dev', from: 10000, to: 12000, reason: 'duplicate' });
+    });
+  });
+});
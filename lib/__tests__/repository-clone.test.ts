@@ -0,0 +1,70 @@
+/**
+ * Unit tests for repository clone options
+ * Tests validation and the git commands generated for refs, shallow clones and submodules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  RepositoryCloneError,
+  describeCloneSpec,
+  getCloneFlags,
+  getPostCloneCommand,
+  validateCloneSpec
+} from '../repository-clone';
+
+const SHA = '0123456789abcdef0123456789abcdef01234567';
+
+describe('repository clone options', () => {
+  describe('validateCloneSpec', () => {
+    it('should accept plain URLs for the default branch', () => {
+      expect(validateCloneSpec(' acme/api ')).toEqual({ url: 'acme/api' });
+    });
+
+    it('should keep the ref, depth and submodules', () => {
+      expect(validateCloneSpec({ url: 'acme/api', branch: '', tag: 'v1.2.0', depth: 1, submodules: true }))
+        .toEqual({ url: 'acme/api', tag: 'v1.2.0', depth: 1, submodules: true });
+    });
+
+    it('should reject options that could inject commands or contradict each other', () => {
+      const invalid = (value: unknown) => expect(() => validateCloneSpec(value)).toThrow(RepositoryCloneError);
+
+      invalid({ url: 'acme/api"; rm -rf ~; "' });
+      invalid({ url: 'acme/api', branch: '--upload-pack=evil' });
+      invalid({ url: 'acme/api', commit: 'HEAD~1' });
+      invalid({ url: 'acme/api', branch: 'main', tag: 'v1' });
+      invalid({ url: 'acme/api', depth: 0 });
+      invalid({ url: 'acme/api', depth: 1.5 });
+      invalid({ url: 'acme/api', submodules: 'yes' });
+      invalid(['acme/api']);
+    });
+
+    it('should require the full hash for shallow clones of a commit', () => {
+      expect(() => validateCloneSpec({ url: 'acme/api', commit: 'abc1234', depth: 1 })).toThrow('full 40 character hash');
+      expect(validateCloneSpec({ url: 'acme/api', commit: 'abc1234' })).toEqual({ url: 'acme/api', commit: 'abc1234' });
+    });
+  });
+
+  describe('commands', () => {
+    it('should clone branches and tags directly', () => {
+      expect(getCloneFlags({ url: 'acme/api', tag: 'v1.2.0', depth: 1 })).toEqual(['--branch "v1.2.0"', '--depth 1']);
+      expect(getPostCloneCommand({ url: 'acme/api', branch: 'develop' })).toBeNull();
+    });
+
+    it('should check out commits after cloning', () => {
+      expect(getCloneFlags({ url: 'acme/api', commit: 'abc1234' })).toEqual(['--no-checkout']);
+      expect(getPostCloneCommand({ url: 'acme/api', commit: 'abc1234' })).toBe('git checkout --detach abc1234');
+      expect(getPostCloneCommand({ url: 'acme/api', commit: SHA, depth: 1 }))
+        .toBe(`git fetch --depth 1 origin ${SHA} && git checkout --detach FETCH_HEAD`);
+    });
+
+    it('should initialize submodules after the checkout', () => {
+      expect(getPostCloneCommand({ url: 'acme/api', commit: 'abc1234', submodules: true }))
+        .toBe('git checkout --detach abc1234 && git submodule update --init --recursive');
+    });
+  });
+
+  it('should describe what gets checked out', () => {
+    expect(describeCloneSpec({ url: 'acme/api' })).toBe('default branch');
+    expect(describeCloneSpec({ url: 'acme/api', commit: SHA, depth: 1, submodules: true })).toBe('commit 0123456, depth 1, submodules');
+  });
+});
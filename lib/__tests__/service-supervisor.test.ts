@@ -0,0 +1,77 @@
+/**
+ * Unit tests for ServiceSupervisor
+ * Tests the generated supervisor commands and restart log parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ServiceSupervisor } from '../service-supervisor';
+
+describe('ServiceSupervisor', () => {
+  describe('script and commands', () => {
+    it('should restart the service with capped exponential backoff', () => {
+      const script = ServiceSupervisor.generateScript();
+
+      expect(script).toContain('"$@" &');
+      expect(script).toContain('delay=$(( delay * 2 ))');
+      expect(script).toContain('delay=60');
+      expect(script).toContain(`log="${ServiceSupervisor.STATE_DIR}/$port.restarts"`);
+    });
+
+    it('should move the script into place so running supervisors keep their copy', () => {
+      expect(ServiceSupervisor.generateInstallCommand()).toMatch(/> \/tmp\/agentsos-supervise\.sh\.\$\$ && chmod \+x .* && mv -f \/tmp\/agentsos-supervise\.sh\.\$\$ \/tmp\/agentsos-supervise\.sh$/);
+    });
+
+    it('should run the service under the supervisor in the background', () => {
+      expect(ServiceSupervisor.generateStartCommand(9999, `ttyd --port 9999 "/tmp/start.sh"`, '/tmp/ttyd.log'))
+        .toBe(`nohup /tmp/agentsos-supervise.sh 9999 ttyd --port 9999 "/tmp/start.sh" > /tmp/ttyd.log 2>&1 &`);
+    });
+
+    it('should stop only the supervisor for the given port', () => {
+      const command = ServiceSupervisor.generateStopCommand(999);
+
+      expect(command).toBe('pkill -f "[a]gentsos-supervise.sh 999 " || true');
+      // The trailing space keeps port 999 from matching 9999
+      expect(new RegExp('[a]gentsos-supervise.sh 999 ').test('/tmp/agentsos-supervise.sh 9999 ttyd')).toBe(false);
+    });
+
+    it('should kill only the services on the exact port', () => {
+      const patterns = [...ServiceSupervisor.generateKillServiceCommand(8080).matchAll(/pkill -f "([^"]+)"/g)]
+        .map(([, pattern]) => new RegExp(pattern));
+      const killed = (commandLine: string) => patterns.some(pattern => pattern.test(commandLine));
+
+      expect(killed('ttyd --port 8080 --writable -t theme=dark /tmp/start-zsh-app.sh')).toBe(true);
+      expect(killed('/usr/lib/code-server/lib/node /usr/lib/code-server --bind-addr 0.0.0.0:8080 --auth none')).toBe(true);
+      // Dynamic ports of other repositories end in the same digits
+      expect(killed('ttyd --port 28080 --writable -t theme=dark /tmp/start-zsh-api.sh')).toBe(false);
+      expect(killed('code-server /home/daytona/projects/api --bind-addr 0.0.0.0:28080 --auth none')).toBe(false);
+    });
+  });
+
+  describe('parseStats', () => {
+    const now = Date.parse('2024-06-01T12:00:00Z');
+    const secondsAgo = (seconds: number) => Math.floor(now / 1000) - seconds;
+
+    it('should count total and recent restarts per port', () => {
+      const output = [
+        `9999: ${secondsAgo(3600)} 1,${secondsAgo(300)} 139,${secondsAgo(60)} 1,`,
+        `8080: ${secondsAgo(30)} 0,`
+      ].join('\n');
+
+      const stats = ServiceSupervisor.parseStats(output, now);
+
+      expect(stats.get(9999)).toEqual({
+        total: 3,
+        recent: 2,
+        lastRestartAt: new Date(secondsAgo(60) * 1000).toISOString(),
+        lastExitCode: 1
+      });
+      expect(stats.get(8080)).toMatchObject({ total: 1, recent: 1, lastExitCode: 0 });
+    });
+
+    it('should skip ports without restarts and unrelated output', () => {
+      const stats = ServiceSupervisor.parseStats('9998: \nls: cannot access\n', now);
+
+      expect(stats.size).toBe(0);
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, it, expect } from 'vitest';
 import { TmuxScriptGenerator } from '../tmux-script-generator';
+import { getAgent } from '../agent-registry';
 
 describe('TmuxScriptGenerator', () => {
   const testRepoPath = '/home/user/projects/test-repo';
   const testRepoName = 'test-repo';
+  const claude = getAgent('claude');
 
   describe('generateTerminalScript', () => {
     it('generates correct terminal script with tmux session management', () => {
@@ -30,9 +32,9 @@ describe('TmuxScriptGenerator', () => {
     });
   });
 
-  describe('generateClaudeScript', () => {
+  describe('generateAgentScript', () => {
     it('generates correct Claude script with tmux session management', () => {
-      const script = TmuxScriptGenerator.generateClaudeScript(testRepoPath, testRepoName);
+      const script = TmuxScriptGenerator.generateAgentScript(testRepoPath, testRepoName, claude);
       
       expect(script).toContain('#!/bin/bash');
       expect(script).toContain(`cd ${testRepoPath}`);
@@ -47,11 +49,17 @@ describe('TmuxScriptGenerator', () => {
     });
 
     it('generates script with proper session name for Claude', () => {
-      const script = TmuxScriptGenerator.generateClaudeScript(testRepoPath, testRepoName);
+      const script = TmuxScriptGenerator.generateAgentScript(testRepoPath, testRepoName, claude);
       
       expect(script).toContain(`claude-${testRepoName}`);
       expect(script).not.toContain(`main-${testRepoName}`);
     });
+
+    it('uses each agent\'s id as session prefix and its launch command', () => {
+      const script = TmuxScriptGenerator.generateAgentScript(testRepoPath, testRepoName, getAgent('gemini'));
+
+      expect(script).toContain(`exec tmux new-session -s gemini-${testRepoName} "cd ${testRepoPath} && gemini"`);
+    });
   });
 
   describe('generateCustomScript', () => {
@@ -109,7 +117,7 @@ describe('TmuxScriptGenerator', () => {
   describe('consistency', () => {
     it('ensures both terminal and Claude scripts have consistent tmux configuration', () => {
       const terminalScript = TmuxScriptGenerator.generateTerminalScript(testRepoPath, testRepoName);
-      const claudeScript = TmuxScriptGenerator.generateClaudeScript(testRepoPath, testRepoName);
+      const claudeScript = TmuxScriptGenerator.generateAgentScript(testRepoPath, testRepoName, claude);
       
       // Both should have the same environment variables
       expect(terminalScript).toContain('export TERM=screen-256color');
@@ -125,7 +133,7 @@ describe('TmuxScriptGenerator', () => {
 
     it('generates different session names but same configuration', () => {
       const terminalScript = TmuxScriptGenerator.generateTerminalScript(testRepoPath, testRepoName);
-      const claudeScript = TmuxScriptGenerator.generateClaudeScript(testRepoPath, testRepoName);
+      const claudeScript = TmuxScriptGenerator.generateAgentScript(testRepoPath, testRepoName, claude);
       
       // Different session names
       expect(terminalScript).toContain(`main-${testRepoName}`);
@@ -154,7 +162,7 @@ describe('TmuxScriptGenerator', () => {
       }).not.toThrow();
       
       expect(() => {
-        TmuxScriptGenerator.generateClaudeScript('', '');
+        TmuxScriptGenerator.generateAgentScript('', '', claude);
       }).not.toThrow();
     });
   });
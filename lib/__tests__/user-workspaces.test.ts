@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the per-user workspace collection
+ * Tests listing, lookup and the fallback to the legacy single workspace
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findUserWorkspace,
+  getActiveUserWorkspace,
+  getLegacyWorkspace,
+  getWorkspaceUpdate,
+  listUserWorkspaces,
+  workspaceFieldPath
+} from '../user-workspaces';
+
+const createWorkspace = (sandboxId: string, createdAt: string) => ({
+  id: `workspace-${sandboxId}`,
+  sandboxId,
+  createdAt: new Date(createdAt)
+});
+
+describe('user workspaces', () => {
+  const legacy = createWorkspace('sandbox-legacy', '2024-01-01T00:00:00Z');
+  const clientA = createWorkspace('sandbox-a', '2024-03-01T00:00:00Z');
+  const clientB = createWorkspace('sandbox-b', '2024-02-01T00:00:00Z');
+
+  describe('listUserWorkspaces', () => {
+    it('should list the collection and the legacy workspace oldest first', () => {
+      const data = { workspace: legacy, workspaces: { 'sandbox-a': clientA, 'sandbox-b': clientB } };
+
+      expect(listUserWorkspaces(data).map(w => w.sandboxId)).toEqual(['sandbox-legacy', 'sandbox-b', 'sandbox-a']);
+    });
+
+    it('should not list the legacy workspace twice once it is migrated', () => {
+      const data = { workspace: legacy, workspaces: { 'sandbox-legacy': legacy } };
+
+      expect(getLegacyWorkspace(data)).toBeNull();
+      expect(listUserWorkspaces(data)).toEqual([legacy]);
+    });
+
+    it('should skip partial entries without a sandbox ID', () => {
+      const data = { workspaces: { 'sandbox-a': clientA, broken: { status: 'stopped' } as unknown as typeof clientA } };
+
+      expect(listUserWorkspaces(data)).toEqual([clientA]);
+      expect(listUserWorkspaces(undefined)).toEqual([]);
+    });
+  });
+
+  describe('getWorkspaceUpdate', () => {
+    it('should update fields of a workspace in the collection', () => {
+      const data = { workspaces: { 'sandbox-a': clientA } };
+
+      expect(getWorkspaceUpdate(data, 'sandbox-a', { status: 'stopped' })).toEqual({
+        update: { 'agentsOS.workspaces.sandbox-a.status': 'stopped' },
+        movesLegacy: false
+      });
+    });
+
+    it('should move a legacy workspace into the collection with the updated fields', () => {
+      const { update, movesLegacy } = getWorkspaceUpdate({ workspace: legacy }, 'sandbox-legacy', { status: 'stopped' });
+
+      expect(movesLegacy).toBe(true);
+      expect(update).toEqual({ 'agentsOS.workspaces.sandbox-legacy': { ...legacy, status: 'stopped' } });
+
+      // Still listed, with its sandbox ID, once the legacy field is deleted
+      const migrated = { workspaces: { 'sandbox-legacy': update['agentsOS.workspaces.sandbox-legacy'] as typeof legacy } };
+      expect(listUserWorkspaces(migrated)).toEqual([{ ...legacy, status: 'stopped' }]);
+    });
+
+    it('should move a legacy workspace when updating another one', () => {
+      const { update, movesLegacy } = getWorkspaceUpdate({ workspace: legacy, workspaces: { 'sandbox-a': clientA } }, 'sandbox-a', { status: 'stopped' });
+
+      expect(movesLegacy).toBe(true);
+      expect(update).toEqual({
+        'agentsOS.workspaces.sandbox-legacy': legacy,
+        'agentsOS.workspaces.sandbox-a.status': 'stopped'
+      });
+    });
+  });
+
+  describe('findUserWorkspace and getActiveUserWorkspace', () => {
+    const data = { workspaces: { 'sandbox-a': clientA, 'sandbox-b': clientB }, activeSandboxId: 'sandbox-a' };
+
+    it('should only find sandboxes in the collection', () => {
+      expect(findUserWorkspace(data, 'sandbox-b')).toBe(clientB);
+      expect(findUserWorkspace(data, 'sandbox-other')).toBeNull();
+    });
+
+    it('should prefer the last picked sandbox and fall back to the oldest', () => {
+      expect(getActiveUserWorkspace(data)).toBe(clientA);
+      expect(getActiveUserWorkspace({ ...data, activeSandboxId: 'deleted' })).toBe(clientB);
+      expect(getActiveUserWorkspace({})).toBeNull();
+    });
+  });
+
+  it('should build Firestore field paths under the workspace map', () => {
+    expect(workspaceFieldPath('sandbox-a')).toBe('agentsOS.workspaces.sandbox-a');
+    expect(workspaceFieldPath('sandbox-a', 'repositories')).toBe('agentsOS.workspaces.sandbox-a.repositories');
+  });
+});
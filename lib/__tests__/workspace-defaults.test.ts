@@ -0,0 +1,53 @@
+/**
+ * Unit tests for workspace creation options
+ * Tests resource profiles, custom limits and base image validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WORKSPACE_OPTIONS,
+  WorkspaceOptionsError,
+  validateWorkspaceOptions
+} from '../workspace-defaults';
+
+const expectOptionsError = (input: Parameters<typeof validateWorkspaceOptions>[0], code: string) => {
+  try {
+    validateWorkspaceOptions(input);
+    expect.fail('Expected WorkspaceOptionsError');
+  } catch (error) {
+    expect(WorkspaceOptionsError.isWorkspaceOptionsError(error)).toBe(true);
+    expect(error).toMatchObject({ statusCode: 400, code });
+  }
+};
+
+describe('validateWorkspaceOptions', () => {
+  it('should fall back to the defaults', () => {
+    expect(validateWorkspaceOptions({})).toEqual(DEFAULT_WORKSPACE_OPTIONS);
+  });
+
+  it('should resolve a profile to its resources and ignore sent resources', () => {
+    expect(validateWorkspaceOptions({ resourceProfile: 'small', resources: { cpu: 4, memory: 8, disk: 10 }, image: 'go' }))
+      .toEqual({ resourceProfile: 'small', resources: { cpu: 1, memory: 2, disk: 5 }, image: 'go' });
+  });
+
+  it('should accept custom resources within the limits', () => {
+    expect(validateWorkspaceOptions({ resourceProfile: 'custom', resources: { cpu: 3, memory: 6, disk: 8 } }))
+      .toEqual({ resourceProfile: 'custom', resources: { cpu: 3, memory: 6, disk: 8 }, image: 'node' });
+  });
+
+  it('should treat resources without a profile as custom', () => {
+    expect(validateWorkspaceOptions({ resources: { cpu: 2, memory: 2, disk: 2 } }).resourceProfile).toBe('custom');
+  });
+
+  it('should reject resources outside the limits', () => {
+    expectOptionsError({ resourceProfile: 'custom', resources: { cpu: 8, memory: 8, disk: 10 } }, 'INVALID_RESOURCES');
+    expectOptionsError({ resourceProfile: 'custom', resources: { cpu: 1.5, memory: 2, disk: 5 } }, 'INVALID_RESOURCES');
+    expectOptionsError({ resourceProfile: 'custom' }, 'INVALID_RESOURCES');
+  });
+
+  it('should reject unknown profiles and images', () => {
+    expectOptionsError({ resourceProfile: 'huge' }, 'INVALID_RESOURCE_PROFILE');
+    expectOptionsError({ resourceProfile: 'toString' }, 'INVALID_RESOURCE_PROFILE');
+    expectOptionsError({ image: 'ruby' }, 'INVALID_IMAGE');
+  });
+});
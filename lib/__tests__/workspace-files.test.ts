@@ -0,0 +1,325 @@
+/**
+ * Unit tests for WorkspaceFileSystem
+ * Tests path validation, tree building, ignore rules, binary detection and write operations
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Sandbox } from '@daytonaio/sdk';
+import {
+  WorkspaceFileSystem,
+  WorkspaceFileError,
+  normalizeRelativePath,
+  validateRepositoryName,
+  isBinaryFile,
+  MAX_FILE_SIZE
+} from '../workspace-files';
+
+// Mock logger
+vi.mock('../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const ROOT = '/home/daytona';
+const REPO = `${ROOT}/projects/my-app`;
+const MOD_TIME = '2024-01-15T10:30:00Z';
+
+const fileInfo = (name: string, isDir: boolean, size = 100) => ({
+  name,
+  isDir,
+  size,
+  modTime: MOD_TIME,
+  mode: '',
+  permissions: '',
+  owner: '',
+  group: ''
+});
+
+describe('WorkspaceFileSystem', () => {
+  let mockFs: {
+    listFiles: ReturnType<typeof vi.fn>;
+    getFileDetails: ReturnType<typeof vi.fn>;
+    downloadFile: ReturnType<typeof vi.fn>;
+    uploadFile: ReturnType<typeof vi.fn>;
+    createFolder: ReturnType<typeof vi.fn>;
+    moveFiles: ReturnType<typeof vi.fn>;
+    deleteFile: ReturnType<typeof vi.fn>;
+  };
+  let fileSystem: WorkspaceFileSystem;
+
+  beforeEach(() => {
+    mockFs = {
+      listFiles: vi.fn(),
+      getFileDetails: vi.fn(),
+      downloadFile: vi.fn(),
+      uploadFile: vi.fn(),
+      createFolder: vi.fn(),
+      moveFiles: vi.fn(),
+      deleteFile: vi.fn()
+    };
+    fileSystem = new WorkspaceFileSystem({ fs: mockFs } as unknown as Sandbox, ROOT);
+  });
+
+  describe('path helpers', () => {
+    it('should normalize relative paths', () => {
+      expect(normalizeRelativePath('src/App.tsx')).toBe('/src/App.tsx');
+      expect(normalizeRelativePath('/src/./utils/../App.tsx')).toBe('/src/App.tsx');
+      expect(normalizeRelativePath('')).toBe('/');
+    });
+
+    it('should reject paths escaping the repository root', () => {
+      expect(() => normalizeRelativePath('../other-repo/secret')).toThrow(WorkspaceFileError);
+      expect(() => normalizeRelativePath('/src/../../etc/passwd')).toThrow('Path escapes repository root');
+    });
+
+    it('should reject invalid repository names', () => {
+      expect(validateRepositoryName('my-app')).toBe('my-app');
+      expect(() => validateRepositoryName('..')).toThrow(WorkspaceFileError);
+      expect(() => validateRepositoryName('a/b')).toThrow(WorkspaceFileError);
+      expect(() => validateRepositoryName('')).toThrow(WorkspaceFileError);
+    });
+
+    it('should resolve paths inside the repository', () => {
+      expect(fileSystem.resolvePath('my-app', '/src/index.ts')).toBe(`${REPO}/src/index.ts`);
+      expect(fileSystem.resolvePath('my-app', '/')).toBe(REPO);
+    });
+  });
+
+  describe('isBinaryFile', () => {
+    it('should detect binary files by extension', () => {
+      expect(isBinaryFile('/public/logo.png')).toBe(true);
+      expect(isBinaryFile('/src/App.tsx')).toBe(false);
+    });
+
+    it('should detect binary content by NUL bytes', () => {
+      expect(isBinaryFile('/data.bin2', Buffer.from([0x48, 0x00, 0x49]))).toBe(true);
+      expect(isBinaryFile('/notes.txt', Buffer.from('hello', 'utf-8'))).toBe(false);
+    });
+  });
+
+  describe('getFileTree', () => {
+    it('should throw REPOSITORY_NOT_FOUND when the repository does not exist', async () => {
+      mockFs.getFileDetails.mockRejectedValue(new Error('not found'));
+
+      await expect(fileSystem.getFileTree('missing')).rejects.toMatchObject({
+        code: 'REPOSITORY_NOT_FOUND',
+        statusCode: 404
+      });
+    });
+
+    it('should list directories first and skip ignored entries', async () => {
+      mockFs.getFileDetails.mockResolvedValue(fileInfo('my-app', true));
+      mockFs.listFiles.mockImplementation(async (path: string) => {
+        if (path === REPO) {
+          return [
+            fileInfo('README.md', false, 512),
+            fileInfo('node_modules', true),
+            fileInfo('.git', true),
+            fileInfo('src', true)
+          ];
+        }
+        if (path === `${REPO}/src`) {
+          return [fileInfo('index.ts', false, 256)];
+        }
+        return [];
+      });
+
+      const tree = await fileSystem.getFileTree('my-app');
+
+      expect(tree.map(item => item.name)).toEqual(['src', 'README.md']);
+      expect(tree[0]).toEqual({
+        name: 'src',
+        path: '/src',
+        type: 'directory',
+        lastModified: '2024-01-15T10:30:00.000Z',
+        children: [{
+          name: 'index.ts',
+          path: '/src/index.ts',
+          type: 'file',
+          size: 256,
+          lastModified: '2024-01-15T10:30:00.000Z'
+        }]
+      });
+      expect(mockFs.listFiles).not.toHaveBeenCalledWith(`${REPO}/node_modules`);
+    });
+
+    it('should stop descending at the depth limit', async () => {
+      mockFs.getFileDetails.mockResolvedValue(fileInfo('my-app', true));
+      mockFs.listFiles.mockResolvedValueOnce([fileInfo('src', true)]);
+
+      const tree = await fileSystem.getFileTree('my-app', 1);
+
+      expect(tree[0].children).toBeUndefined();
+      expect(mockFs.listFiles).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('readFile', () => {
+    it('should return text file content', async () => {
+      mockFs.getFileDetails.mockResolvedValue(fileInfo('index.ts', false, 11));
+      mockFs.downloadFile.mockResolvedValue(Buffer.from('hello world', 'utf-8'));
+
+      const file = await fileSystem.readFile('my-app', 'src/index.ts');
+
+      expect(mockFs.downloadFile).toHaveBeenCalledWith(`${REPO}/src/index.ts`);
+      expect(file).toEqual({
+        path: '/src/index.ts',
+        content: 'hello world',
+        size: 11,
+        lastModified: '2024-01-15T10:30:00.000Z',
+        isBinary: false
+      });
+    });
+
+    it('should not download files with binary extensions', async () => {
+      mockFs.getFileDetails.mockResolvedValue(fileInfo('logo.png', false, 2048));
+
+      const file = await fileSystem.readFile('my-app', '/public/logo.png');
+
+      expect(file.isBinary).toBe(true);
+      expect(file.content).toBe('');
+      expect(mockFs.downloadFile).not.toHaveBeenCalled();
+    });
+
+    it('should flag binary content detected after download', async () => {
+      mockFs.getFileDetails.mockResolvedValue(fileInfo('data', false, 3));
+      mockFs.downloadFile.mockResolvedValue(Buffer.from([0x00, 0x01, 0x02]));
+
+      const file = await fileSystem.readFile('my-app', '/data');
+
+      expect(file.isBinary).toBe(true);
+      expect(file.content).toBe('');
+    });
+
+    it('should reject directories and oversized files', async () => {
+      mockFs.getFileDetails.mockResolvedValueOnce(fileInfo('src', true));
+      await expect(fileSystem.readFile('my-app', '/src')).rejects.toMatchObject({ code: 'NOT_A_FILE' });
+
+      mockFs.getFileDetails.mockResolvedValueOnce(fileInfo('big.json', false, MAX_FILE_SIZE + 1));
+      await expect(fileSystem.readFile('my-app', '/big.json')).rejects.toMatchObject({ code: 'FILE_TOO_LARGE' });
+    });
+
+    it('should throw FILE_NOT_FOUND for missing files', async () => {
+      mockFs.getFileDetails.mockRejectedValue(new Error('not found'));
+
+      await expect(fileSystem.readFile('my-app', '/missing.ts')).rejects.toMatchObject({
+        code: 'FILE_NOT_FOUND',
+        statusCode: 404
+      });
+    });
+  });
+
+  describe('writeFile', () => {
+    const withDetails = (entries: Record<string, ReturnType<typeof fileInfo>>) => {
+      mockFs.getFileDetails.mockImplementation(async (path: string) => {
+        if (entries[path]) return entries[path];
+        throw new Error('not found');
+      });
+    };
+
+    it('should save when lastModified matches the file on disk', async () => {
+      withDetails({ [`${REPO}/src/index.ts`]: fileInfo('index.ts', false, 5) });
+
+      const result = await fileSystem.writeFile('my-app', '/src/index.ts', 'hello', {
+        expectedLastModified: '2024-01-15T10:30:00.000Z'
+      });
+
+      expect(mockFs.uploadFile).toHaveBeenCalledWith(Buffer.from('hello', 'utf-8'), `${REPO}/src/index.ts`);
+      expect(result).toEqual({ path: '/src/index.ts', size: 5, lastModified: '2024-01-15T10:30:00.000Z' });
+    });
+
+    it('should reject the save with CONFLICT when the file changed since it was loaded', async () => {
+      withDetails({ [`${REPO}/src/index.ts`]: fileInfo('index.ts', false) });
+
+      await expect(fileSystem.writeFile('my-app', '/src/index.ts', 'hello', {
+        expectedLastModified: '2024-01-14T08:00:00.000Z'
+      })).rejects.toMatchObject({ code: 'CONFLICT', statusCode: 409 });
+      expect(mockFs.uploadFile).not.toHaveBeenCalled();
+    });
+
+    it('should reject the save with CONFLICT when the file was deleted since it was loaded', async () => {
+      withDetails({});
+
+      await expect(fileSystem.writeFile('my-app', '/src/index.ts', 'hello', {
+        expectedLastModified: MOD_TIME
+      })).rejects.toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('should refuse to overwrite in createOnly mode', async () => {
+      withDetails({ [`${REPO}/README.md`]: fileInfo('README.md', false) });
+
+      await expect(fileSystem.writeFile('my-app', '/README.md', '', { createOnly: true }))
+        .rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+    });
+
+    it('should require the parent directory of a new file to exist', async () => {
+      withDetails({ [REPO]: fileInfo('my-app', true) });
+
+      await expect(fileSystem.writeFile('my-app', '/missing/new.ts', ''))
+        .rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+      expect(mockFs.uploadFile).not.toHaveBeenCalled();
+    });
+
+    it('should create a directory', async () => {
+      mockFs.getFileDetails
+        .mockRejectedValueOnce(new Error('not found'))
+        .mockResolvedValueOnce(fileInfo('my-app', true))
+        .mockResolvedValueOnce(fileInfo('lib', true, 0));
+
+      const result = await fileSystem.createDirectory('my-app', '/lib');
+
+      expect(mockFs.createFolder).toHaveBeenCalledWith(`${REPO}/lib`, '755');
+      expect(result.path).toBe('/lib');
+    });
+  });
+
+  describe('renamePath and deletePath', () => {
+    it('should move a file to a new path', async () => {
+      mockFs.getFileDetails.mockImplementation(async (path: string) => {
+        if (path === `${REPO}/old.ts`) return fileInfo('old.ts', false);
+        if (path === `${REPO}/src`) return fileInfo('src', true);
+        if (path === `${REPO}/src/new.ts` && mockFs.moveFiles.mock.calls.length > 0) return fileInfo('new.ts', false);
+        throw new Error('not found');
+      });
+
+      const result = await fileSystem.renamePath('my-app', '/old.ts', '/src/new.ts');
+
+      expect(mockFs.moveFiles).toHaveBeenCalledWith(`${REPO}/old.ts`, `${REPO}/src/new.ts`);
+      expect(result.path).toBe('/src/new.ts');
+    });
+
+    it('should not move a directory into itself or over an existing path', async () => {
+      await expect(fileSystem.renamePath('my-app', '/src', '/src/nested')).rejects.toMatchObject({ code: 'INVALID_PATH' });
+
+      mockFs.getFileDetails.mockResolvedValue(fileInfo('any', false));
+      await expect(fileSystem.renamePath('my-app', '/a.ts', '/b.ts')).rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+    });
+
+    it('should delete an existing path but never the repository root', async () => {
+      mockFs.getFileDetails.mockResolvedValue(fileInfo('old.ts', false));
+
+      await fileSystem.deletePath('my-app', '/old.ts');
+      expect(mockFs.deleteFile).toHaveBeenCalledWith(`${REPO}/old.ts`);
+
+      await expect(fileSystem.deletePath('my-app', '/')).rejects.toMatchObject({ code: 'INVALID_PATH' });
+    });
+  });
+
+  describe('deleteRepository', () => {
+    it('should remove the repository directory and reject names outside projects/', async () => {
+      const executeCommand = vi.fn().mockResolvedValue({ exitCode: 0, result: '' });
+      const repoFileSystem = new WorkspaceFileSystem({ fs: mockFs, process: { executeCommand } } as unknown as Sandbox, ROOT);
+
+      await repoFileSystem.deleteRepository('my-app');
+      expect(executeCommand).toHaveBeenCalledWith(`rm -rf "${REPO}"`, ROOT);
+
+      await expect(repoFileSystem.deleteRepository('..')).rejects.toMatchObject({ code: 'INVALID_PATH' });
+      await expect(repoFileSystem.deleteRepository('a/../../etc')).rejects.toMatchObject({ code: 'INVALID_PATH' });
+      expect(executeCommand).toHaveBeenCalledTimes(1);
+    });
+  });
+});
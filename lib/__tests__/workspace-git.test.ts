@@ -0,0 +1,318 @@
+/**
+ * Unit tests for WorkspaceGit
+ * Tests git output parsing, the commands run inside the sandbox and error classification
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Sandbox } from '@daytonaio/sdk';
+import {
+  WorkspaceGit,
+  WorkspaceGitError,
+  parseGitStatus,
+  parseGitLog,
+  parseNameStatus,
+  parseHeads,
+  classifyRemoteError,
+  shellQuote,
+  validateCommitHash
+} from '../workspace-git';
+
+// Mock logger
+vi.mock('../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const ROOT = '/home/daytona';
+const REPO = `${ROOT}/projects/my-app`;
+
+describe('workspace-git parsing', () => {
+  describe('parseGitStatus', () => {
+    it('should parse branch tracking info', () => {
+      const status = parseGitStatus('## main...origin/main [ahead 2, behind 1]\0');
+
+      expect(status.branch).toBe('main');
+      expect(status.upstream).toBe('origin/main');
+      expect(status.ahead).toBe(2);
+      expect(status.behind).toBe(1);
+    });
+
+    it('should handle branches without upstream and repositories without commits', () => {
+      expect(parseGitStatus('## feature/login\0')).toMatchObject({ branch: 'feature/login', upstream: null, ahead: 0 });
+      expect(parseGitStatus('## No commits yet on main\0')).toMatchObject({ branch: 'main' });
+      expect(parseGitStatus('## HEAD (no branch)\0')).toMatchObject({ branch: null });
+    });
+
+    it('should split staged and unstaged changes', () => {
+      const output = [
+        '## main',
+        'M  src/staged.ts',
+        ' M src/unstaged.ts',
+        'MM src/both.ts',
+        'A  src/new.ts',
+        'R  renamed.ts',
+        'old.ts',
+        '?? notes.txt',
+        'UU conflict.ts'
+      ].join('\0');
+
+      const status = parseGitStatus(output);
+
+      expect(status.staged).toEqual([
+        { path: 'src/staged.ts', status: 'modified' },
+        { path: 'src/both.ts', status: 'modified' },
+        { path: 'src/new.ts', status: 'added' },
+        { path: 'renamed.ts', oldPath: 'old.ts', status: 'renamed' }
+      ]);
+      expect(status.unstaged).toEqual([
+        { path: 'src/unstaged.ts', status: 'modified' },
+        { path: 'src/both.ts', status: 'modified' },
+        { path: 'notes.txt', status: 'untracked' },
+        { path: 'conflict.ts', status: 'conflicted' }
+      ]);
+    });
+
+    it('should keep paths with spaces and arrows as they are', () => {
+      const status = parseGitStatus('## main\0 M src/my file.ts\0R  docs/new -> name.md\0docs/old name.md\0');
+
+      expect(status.staged).toEqual([{ path: 'docs/new -> name.md', oldPath: 'docs/old name.md', status: 'renamed' }]);
+      expect(status.unstaged).toEqual([{ path: 'src/my file.ts', status: 'modified' }]);
+    });
+  });
+
+  it('should parse git log records', () => {
+    const output = [
+      ['abc123def456', 'abc123d', 'Ada', 'ada@example.com', '2024-01-15T10:30:00+00:00', 'Fix bug'].join('\x1f'),
+      ['fff000', 'fff000', 'Bob', 'bob@example.com', '2024-01-14T10:30:00+00:00', 'Initial commit'].join('\x1f')
+    ].join('\x1e\n') + '\x1e\n';
+
+    expect(parseGitLog(output)).toEqual([
+      { hash: 'abc123def456', shortHash: 'abc123d', author: 'Ada', email: 'ada@example.com', date: '2024-01-15T10:30:00+00:00', subject: 'Fix bug' },
+      { hash: 'fff000', shortHash: 'fff000', author: 'Bob', email: 'bob@example.com', date: '2024-01-14T10:30:00+00:00', subject: 'Initial commit' }
+    ]);
+  });
+
+  it('should parse name-status output including renames', () => {
+    expect(parseNameStatus('M\0src/a.ts\0R100\0old.ts\0new.ts\0D\0my file.ts\0')).toEqual([
+      { path: 'src/a.ts', status: 'modified' },
+      { path: 'new.ts', oldPath: 'old.ts', status: 'renamed' },
+      { path: 'my file.ts', status: 'deleted' }
+    ]);
+  });
+
+  it('should quote shell arguments and validate commit hashes', () => {
+    expect(shellQuote("it's.ts")).toBe(`'it'"'"'s.ts'`);
+    expect(validateCommitHash('abc123')).toBe('abc123');
+    expect(() => validateCommitHash('HEAD; rm -rf /')).toThrow(WorkspaceGitError);
+  });
+});
+
+describe('parseHeads', () => {
+  it('should leave out repositories without commits', () => {
+    expect(parseHeads('empty\tmain\t\n')).toEqual({});
+  });
+});
+
+describe('classifyRemoteError', () => {
+  it('should detect rejected pushes', () => {
+    const error = classifyRemoteError('push', ' ! [rejected]        main -> main (fetch first)\nerror: failed to push some refs');
+    expect(error).toMatchObject({ code: 'PUSH_REJECTED', statusCode: 409 });
+  });
+
+  it('should detect merge conflicts and list the conflicted files', () => {
+    const output = [
+      'Auto-merging src/a.ts',
+      'CONFLICT (content): Merge conflict in src/a.ts',
+      'CONFLICT (content): Merge conflict in README.md',
+      'Automatic merge failed; fix conflicts and then commit the result.'
+    ].join('\n');
+
+    expect(classifyRemoteError('pull', output)).toMatchObject({
+      code: 'MERGE_CONFLICT',
+      files: ['src/a.ts', 'README.md']
+    });
+  });
+
+  it('should detect missing credentials and local changes blocking a pull', () => {
+    expect(classifyRemoteError('push', "fatal: could not read Username for 'https://github.com': terminal prompts disabled"))
+      .toMatchObject({ code: 'AUTHENTICATION_REQUIRED', statusCode: 401 });
+    expect(classifyRemoteError('pull', 'error: Your local changes to the following files would be overwritten by merge:'))
+      .toMatchObject({ code: 'LOCAL_CHANGES_WOULD_BE_OVERWRITTEN' });
+  });
+
+  it('should fall back to GIT_COMMAND_FAILED with the raw output as details', () => {
+    expect(classifyRemoteError('pull', 'fatal: something odd\n')).toMatchObject({
+      code: 'GIT_COMMAND_FAILED',
+      details: 'fatal: something odd'
+    });
+  });
+});
+
+describe('WorkspaceGit', () => {
+  let executeCommand: ReturnType<typeof vi.fn>;
+  let uploadFile: ReturnType<typeof vi.fn>;
+  let git: WorkspaceGit;
+
+  beforeEach(() => {
+    executeCommand = vi.fn(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      return { exitCode: 0, result: '' };
+    });
+    uploadFile = vi.fn();
+    git = new WorkspaceGit({ process: { executeCommand }, fs: { uploadFile } } as unknown as Sandbox, ROOT);
+  });
+
+  it('should reject directories that are not git repositories', async () => {
+    executeCommand.mockResolvedValueOnce({ exitCode: 0, result: 'NOT_A_REPOSITORY\n' });
+
+    await expect(git.getStatus('my-app')).rejects.toMatchObject({ code: 'NOT_A_REPOSITORY', statusCode: 404 });
+  });
+
+  it('should run git status in the repository directory', async () => {
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      return { exitCode: 0, result: '## main\0 M README.md\0' };
+    });
+
+    const status = await git.getStatus('my-app');
+
+    expect(executeCommand).toHaveBeenLastCalledWith(expect.stringContaining('status --porcelain=v1 -z --branch'), REPO);
+    expect(status.unstaged).toEqual([{ path: 'README.md', status: 'modified' }]);
+  });
+
+  it('should return empty history for repositories without commits', async () => {
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      return { exitCode: 128, result: "fatal: your current branch 'main' does not have any commits yet" };
+    });
+
+    await expect(git.getLog('my-app')).resolves.toEqual([]);
+  });
+
+  it('should surface other git failures as GIT_COMMAND_FAILED', async () => {
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      return { exitCode: 128, result: 'fatal: bad object abc1234' };
+    });
+
+    await expect(git.getCommitFiles('my-app', 'abc1234')).rejects.toMatchObject({
+      code: 'GIT_COMMAND_FAILED',
+      details: 'fatal: bad object abc1234'
+    });
+  });
+
+  it('should compare index and HEAD for staged diffs', async () => {
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      if (command.includes("show 'HEAD:src/a.ts'")) return { exitCode: 0, result: 'old\n' };
+      if (command.includes("show ':src/a.ts'")) return { exitCode: 0, result: 'new\n' };
+      if (command.includes('diff --cached')) return { exitCode: 0, result: '@@ -1 +1 @@\n-old\n+new\n' };
+      return { exitCode: 1, result: '' };
+    });
+
+    const diff = await git.getFileDiff('my-app', 'src/a.ts', { type: 'staged' });
+
+    expect(diff).toEqual({
+      path: '/src/a.ts',
+      original: 'old\n',
+      modified: 'new\n',
+      patch: '@@ -1 +1 @@\n-old\n+new\n',
+      isBinary: false
+    });
+  });
+
+  it('should read the working tree for unstaged diffs and treat missing originals as empty', async () => {
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      if (command.startsWith('cat --')) return { exitCode: 0, result: 'brand new\n' };
+      return { exitCode: 128, result: '' };
+    });
+
+    const diff = await git.getFileDiff('my-app', 'notes.txt', { type: 'unstaged' });
+
+    expect(diff.original).toBe('');
+    expect(diff.modified).toBe('brand new\n');
+  });
+
+  it('should flag binary diffs and drop their content', async () => {
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      if (command.includes('show --format=')) return { exitCode: 0, result: 'Binary files a/logo.png and b/logo.png differ\n' };
+      return { exitCode: 0, result: '\u0000PNG' };
+    });
+
+    const diff = await git.getFileDiff('my-app', 'logo.png', { type: 'commit', hash: 'abc1234' });
+
+    expect(diff.isBinary).toBe(true);
+    expect(diff.original).toBe('');
+    expect(diff.modified).toBe('');
+  });
+
+  it('should stage whole files with quoted paths', async () => {
+    await git.stageFiles('my-app', ['src/a.ts', "it's.md"]);
+
+    expect(executeCommand).toHaveBeenLastCalledWith(expect.stringContaining(`add -A -- 'src/a.ts' 'it'"'"'s.md'`), REPO);
+  });
+
+  it('should apply a single hunk to the index from a server-computed patch', async () => {
+    const patch = 'diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-a\n+b\n@@ -9 +9 @@\n-x\n+y\n';
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      if (command.includes(' diff -- ')) return { exitCode: 0, result: patch };
+      return { exitCode: 0, result: '' };
+    });
+
+    await git.applyHunk('my-app', 'a.ts', 1, 'stage');
+
+    const [uploaded, patchFile] = uploadFile.mock.calls[0];
+    expect(uploaded.toString('utf-8')).toBe('diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n@@ -9 +9 @@\n-x\n+y\n');
+    expect(executeCommand).toHaveBeenCalledWith(expect.stringContaining(`apply --cached '${patchFile}'`), REPO);
+    expect(executeCommand).toHaveBeenLastCalledWith(`rm -f '${patchFile}'`, REPO);
+  });
+
+  it('should reject unknown hunks', async () => {
+    await expect(git.applyHunk('my-app', 'a.ts', 3, 'unstage')).rejects.toMatchObject({ code: 'INVALID_HUNK' });
+    expect(uploadFile).not.toHaveBeenCalled();
+  });
+
+  it('should report an empty index as NOTHING_TO_COMMIT', async () => {
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      return { exitCode: 1, result: 'nothing to commit, working tree clean' };
+    });
+
+    await expect(git.commit('my-app', 'Update')).rejects.toMatchObject({ code: 'NOTHING_TO_COMMIT', statusCode: 400 });
+  });
+
+  it('should push non-interactively and return a structured error when rejected', async () => {
+    executeCommand.mockImplementation(async (command: string) => {
+      if (command.startsWith('git rev-parse')) return { exitCode: 0, result: 'true\n' };
+      return { exitCode: 1, result: ' ! [rejected] main -> main (non-fast-forward)' };
+    });
+
+    await expect(git.push('my-app')).rejects.toMatchObject({ code: 'PUSH_REJECTED' });
+    expect(executeCommand).toHaveBeenLastCalledWith(
+      expect.stringContaining('push'),
+      REPO,
+      { GIT_TERMINAL_PROMPT: '0' },
+      120
+    );
+  });
+
+  it('should read the heads of all repositories in one command', async () => {
+    executeCommand.mockResolvedValueOnce({ exitCode: 0, result: 'my-app\tmain\tabc1234\napi\t\tdef5678\n' });
+
+    const heads = await git.getHeads(['my-app', 'api']);
+
+    expect(executeCommand).toHaveBeenCalledTimes(1);
+    expect(executeCommand).toHaveBeenCalledWith(expect.stringContaining("for r in 'my-app' 'api'"), `${ROOT}/projects`);
+    expect(heads).toEqual({
+      'my-app': { branch: 'main', commit: 'abc1234' },
+      api: { branch: null, commit: 'def5678' }
+    });
+  });
+});
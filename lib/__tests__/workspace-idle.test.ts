@@ -0,0 +1,142 @@
+/**
+ * Unit tests for idle auto-stop and work-hours schedules
+ * Tests policy validation, activity parsing and when a sandbox is stopped or started
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AGENT_BUSY_CPU_PERCENT,
+  DEFAULT_IDLE_POLICY,
+  WorkspaceIdleError,
+  getAutoStopPlan,
+  getScheduleWindow,
+  isScheduledIdlePolicy,
+  parseActivity,
+  shouldStartOnSchedule,
+  validateIdlePolicy,
+  type WorkspaceActivity,
+  type WorkspaceSchedule
+} from '../workspace-idle';
+
+const schedule: WorkspaceSchedule = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00', timezone: 'UTC' };
+
+// 2024-06-03 is a Monday
+const at = (time: string) => new Date(`2024-06-03T${time}:00Z`);
+const seconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+const activity = (checkedAt: Date, lastActivityAt: Date, keepAliveUntil?: Date): WorkspaceActivity => ({
+  checkedAt: checkedAt.toISOString(),
+  lastActivityAt: lastActivityAt.toISOString(),
+  agentCpu: 0,
+  ...(keepAliveUntil && { keepAliveUntil: keepAliveUntil.toISOString() })
+});
+
+describe('workspace idle', () => {
+  it('should only schedule policies with auto-stop or work hours', () => {
+    expect(isScheduledIdlePolicy(undefined)).toBe(false);
+    expect(isScheduledIdlePolicy(DEFAULT_IDLE_POLICY)).toBe(false);
+    expect(isScheduledIdlePolicy({ ...DEFAULT_IDLE_POLICY, idleMinutes: 30 })).toBe(true);
+    expect(isScheduledIdlePolicy({ ...DEFAULT_IDLE_POLICY, schedule })).toBe(true);
+  });
+
+  describe('validateIdlePolicy', () => {
+    it('should default to no auto-stop', () => {
+      expect(validateIdlePolicy({})).toEqual(DEFAULT_IDLE_POLICY);
+    });
+
+    it('should accept an idle limit with a schedule', () => {
+      expect(validateIdlePolicy({ idleMinutes: 30, warningMinutes: 5, schedule: { ...schedule, days: [5, 1, 1] } }))
+        .toEqual({ idleMinutes: 30, warningMinutes: 5, schedule: { ...schedule, days: [1, 5] } });
+    });
+
+    it('should reject out of range limits and warnings longer than the idle limit', () => {
+      expect(() => validateIdlePolicy({ idleMinutes: 1 })).toThrow(WorkspaceIdleError);
+      expect(() => validateIdlePolicy({ idleMinutes: 10, warningMinutes: 10 })).toThrow('shorter than idleMinutes');
+    });
+
+    it('should reject invalid schedules', () => {
+      expect(() => validateIdlePolicy({ schedule: { ...schedule, days: [] } })).toThrow('weekdays');
+      expect(() => validateIdlePolicy({ schedule: { ...schedule, start: '9am' } })).toThrow('HH:MM');
+      expect(() => validateIdlePolicy({ schedule: { ...schedule, end: '08:00' } })).toThrow('after its start');
+      expect(() => validateIdlePolicy({ schedule: { ...schedule, timezone: 'Mars/Olympus' } })).toThrow('Unknown timezone');
+    });
+  });
+
+  describe('parseActivity', () => {
+    const now = at('12:00');
+
+    it('should use the latest terminal or VSCode activity', () => {
+      const output = [
+        `now ${seconds(now)}`,
+        `boot ${seconds(at('08:00'))}`,
+        `terminal ${seconds(at('10:00'))}`,
+        `terminal ${seconds(at('11:00'))}`,
+        `vscode ${seconds(at('10:30'))}`,
+        'agents 0.4'
+      ].join('\n');
+
+      expect(parseActivity(output)).toEqual({ ...activity(now, at('11:00')), agentCpu: 0.4 });
+    });
+
+    it('should treat busy agents as activity', () => {
+      const output = `now ${seconds(now)}\nboot ${seconds(at('08:00'))}\nagents ${AGENT_BUSY_CPU_PERCENT + 20}`;
+
+      expect(parseActivity(output).lastActivityAt).toBe(now.toISOString());
+    });
+
+    it('should only report a keep-alive that has not expired', () => {
+      const output = (keepAlive: Date) => `now ${seconds(now)}\nboot ${seconds(at('08:00'))}\nkeepalive ${seconds(keepAlive)}`;
+
+      expect(parseActivity(output(at('13:00'))).keepAliveUntil).toBe(at('13:00').toISOString());
+      expect(parseActivity(output(at('11:00'))).keepAliveUntil).toBeUndefined();
+    });
+
+    it('should fail without the sandbox clock', () => {
+      expect(() => parseActivity('agents 0')).toThrow('Unable to read sandbox activity');
+    });
+  });
+
+  describe('schedule', () => {
+    it('should find the work-hours window in the schedule timezone', () => {
+      expect(getScheduleWindow(schedule, at('12:34'))).toEqual({ start: at('09:00'), end: at('18:00') });
+      expect(getScheduleWindow({ ...schedule, timezone: 'Europe/Berlin' }, at('12:34'))).toEqual({ start: at('07:00'), end: at('16:00') });
+      expect(getScheduleWindow(schedule, at('18:00'))).toBeNull();
+      expect(getScheduleWindow(schedule, new Date('2024-06-02T12:00:00Z'))).toBeNull();
+    });
+
+    it('should only start sandboxes at the beginning of work hours', () => {
+      expect(shouldStartOnSchedule(schedule, at('09:10'))).toBe(true);
+      expect(shouldStartOnSchedule(schedule, at('12:00'))).toBe(false);
+      expect(shouldStartOnSchedule(null, at('09:10'))).toBe(false);
+    });
+  });
+
+  describe('getAutoStopPlan', () => {
+    it('should stop idle sandboxes after the idle limit', () => {
+      const policy = { ...DEFAULT_IDLE_POLICY, idleMinutes: 30 };
+
+      expect(getAutoStopPlan(policy, activity(at('20:10'), at('20:00'))))
+        .toEqual({ reason: 'idle', stopAt: at('20:30').toISOString() });
+    });
+
+    it('should stop scheduled sandboxes at the end of work hours, whichever comes first', () => {
+      const policy = { ...DEFAULT_IDLE_POLICY, idleMinutes: 60, schedule };
+
+      expect(getAutoStopPlan(policy, activity(at('17:50'), at('17:45'))))
+        .toEqual({ reason: 'schedule', stopAt: at('18:00').toISOString() });
+      expect(getAutoStopPlan(policy, activity(at('12:00'), at('11:00'))))
+        .toEqual({ reason: 'idle', stopAt: at('12:00').toISOString() });
+    });
+
+    it('should postpone the stop while kept alive', () => {
+      const policy = { ...DEFAULT_IDLE_POLICY, schedule };
+
+      expect(getAutoStopPlan(policy, activity(at('17:55'), at('17:55'), at('18:55'))))
+        .toEqual({ reason: 'schedule', stopAt: at('18:55').toISOString() });
+    });
+
+    it('should not stop sandboxes without a policy', () => {
+      expect(getAutoStopPlan(DEFAULT_IDLE_POLICY, activity(at('12:00'), at('08:00')))).toBeNull();
+    });
+  });
+});
@@ -270,6 +270,17 @@ describe('WorkspaceManager', () => {
     });
   });
 
+  describe('getSnapshotVolume', () => {
+    it('does not wait for a pending volume unless asked to', async () => {
+      const volume = { get: vi.fn().mockResolvedValue({ id: 'volume-1', state: 'pending_create' }) };
+      Object.assign(mockDaytona, { volume });
+
+      await expect(workspaceManager.getSnapshotVolume(false)).rejects.toThrow('is not ready (pending_create)');
+      expect(volume.get).toHaveBeenCalledTimes(1);
+      expect(volume.get).toHaveBeenCalledWith('agentsos-snapshots', true);
+    });
+  });
+
   describe('createSandbox', () => {
     it('creates sandbox with correct options', async () => {
       const options = { cpu: 2, memory: 4096, disk: 20480 };
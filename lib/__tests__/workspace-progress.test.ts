@@ -0,0 +1,100 @@
+/**
+ * Unit tests for workspace progress streaming
+ * Tests phase tracking and the server-sent event round trip
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Logger } from '../logger';
+import {
+  createProgressStream,
+  readProgressStream,
+  trackPhase,
+  wantsEventStream,
+  type WorkspaceProgressEvent
+} from '../workspace-progress';
+
+const logger = Logger.create('ProgressTest', []);
+
+describe('workspace progress', () => {
+  describe('trackPhase', () => {
+    it('should report start and completion with the repository', async () => {
+      const events: WorkspaceProgressEvent[] = [];
+
+      const result = await trackPhase(logger, event => events.push(event), 'Health Checks', async () => 'ok', 'my-repo');
+
+      expect(result).toBe('ok');
+      expect(events).toMatchObject([
+        { phase: 'Health Checks', repository: 'my-repo', status: 'started' },
+        { phase: 'Health Checks', repository: 'my-repo', status: 'completed' }
+      ]);
+      expect(events[1].durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report failures and rethrow', async () => {
+      const onProgress = vi.fn();
+
+      await expect(trackPhase(logger, onProgress, 'Sandbox Start', async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'failed', error: 'boom' }));
+    });
+  });
+
+  describe('progress stream', () => {
+    it('should deliver each phase before the result', async () => {
+      const response = createProgressStream(async onProgress => {
+        onProgress({ phase: 'Clone', repository: 'a', status: 'started' });
+        onProgress({ phase: 'Clone', repository: 'a', status: 'completed', durationMs: 5 });
+        return { sandboxId: 'sandbox-1' };
+      }, () => ({ error: 'unused' }));
+      const events: WorkspaceProgressEvent[] = [];
+
+      const result = await readProgressStream<{ sandboxId: string }>(response, event => events.push(event));
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(events.map(e => e.status)).toEqual(['started', 'completed']);
+      expect(result).toEqual({ sandboxId: 'sandbox-1' });
+    });
+
+    it('should surface operation errors through the stream', async () => {
+      const response = createProgressStream(async () => {
+        throw new Error('sandbox gone');
+      }, error => ({ error: 'Failed to fix services', details: (error as Error).message }));
+
+      await expect(readProgressStream(response, vi.fn())).rejects.toThrow('sandbox gone');
+    });
+
+    it('should finish the operation when the client disconnects mid-stream', async () => {
+      let releaseOperation!: () => void;
+      const operationGate = new Promise<void>(resolve => { releaseOperation = resolve; });
+      let finishOperation!: (value: string) => void;
+      const operationFinished = new Promise<string>(resolve => { finishOperation = resolve; });
+
+      const response = createProgressStream(async onProgress => {
+        onProgress({ phase: 'Sandbox Creation', status: 'started' });
+        await operationGate;
+        // Reported after the client is gone, must not throw
+        onProgress({ phase: 'Sandbox Creation', status: 'completed', durationMs: 5 });
+        onProgress({ phase: 'Save Workspace', status: 'started' });
+        finishOperation('saved');
+        return { sandboxId: 'sandbox-1' };
+      }, () => ({ error: 'unused' }));
+
+      const reader = response.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+      releaseOperation();
+
+      await expect(operationFinished).resolves.toBe('saved');
+    });
+  });
+
+  it('should only stream when the client accepts event streams', () => {
+    const request = (accept?: string) => new Request('http://localhost/api', accept ? { headers: { Accept: accept } } : undefined);
+
+    expect(wantsEventStream(request('text/event-stream'))).toBe(true);
+    expect(wantsEventStream(request('application/json'))).toBe(false);
+    expect(wantsEventStream(request())).toBe(false);
+  });
+});
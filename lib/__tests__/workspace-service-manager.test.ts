@@ -0,0 +1,82 @@
+/**
+ * Unit tests for WorkspaceServiceManager
+ * Tests restarting a single repository service without touching the others
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Sandbox } from '@daytonaio/sdk';
+import type { Repository } from '@/types/workspace';
+import { WorkspaceServiceManager } from '../workspace-service-manager';
+import { PortManager } from '../port-manager';
+
+vi.mock('@clerk/nextjs/server', () => ({
+  auth: vi.fn()
+}));
+
+vi.mock('@/lib/user-service-admin', () => ({
+  UserServiceAdmin: { getInstance: vi.fn() }
+}));
+
+const ROOT = '/home/daytona';
+
+const repository: Repository = {
+  id: 'repo-1',
+  url: 'https://github.com/user/api',
+  name: 'api',
+  sourceType: 'github',
+  ports: PortManager.getPortsForSlot(1)
+};
+
+describe('WorkspaceServiceManager', () => {
+  let executeCommand: ReturnType<typeof vi.fn>;
+  let sandbox: Sandbox;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    executeCommand = vi.fn().mockImplementation(async (command: string) => ({
+      exitCode: 0,
+      result: command.startsWith('curl') ? '200' : ''
+    }));
+    sandbox = { process: { executeCommand } } as unknown as Sandbox;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const restart = async (service: 'claude' | 'vscode') => {
+    const promise = WorkspaceServiceManager.getInstance().restartRepositoryService(sandbox, repository, service, 'sandbox-1', ROOT);
+    await vi.runAllTimersAsync();
+    return promise;
+  };
+  const commands = () => executeCommand.mock.calls.map(([command]) => command as string);
+
+  describe('restartRepositoryService', () => {
+    it('should restart only the agent and its tmux session', async () => {
+      const outcome = await restart('claude');
+      const { claude, vscode, terminal } = repository.ports;
+
+      expect(outcome).toEqual({ status: 'success', url: `https://${claude}-sandbox-1.proxy.daytona.work` });
+      expect(commands()).toContain('tmux kill-session -t claude-api 2>/dev/null; true');
+      expect(commands().some(command => command.includes(`agentsos-supervise.sh ${claude} ttyd`))).toBe(true);
+      expect(commands().some(command => command.includes('/tmp/start-claude-api.sh'))).toBe(true);
+      expect(commands().some(command => command.includes(`${vscode}`) || command.includes(`${terminal}`))).toBe(false);
+    });
+
+    it('should restart code-server without a tmux session', async () => {
+      await restart('vscode');
+
+      expect(commands().some(command => command.startsWith('tmux kill-session'))).toBe(false);
+      expect(commands().some(command => command.includes(`code-server "${ROOT}/projects/api" --bind-addr 0.0.0.0:${repository.ports.vscode}`))).toBe(true);
+    });
+
+    it('should report a failed health check', async () => {
+      executeCommand.mockImplementation(async (command: string) => ({
+        exitCode: 0,
+        result: command.startsWith('curl') ? '502' : ''
+      }));
+
+      await expect(restart('claude')).resolves.toEqual({ status: 'failed', error: 'Health check failed: HTTP 502' });
+    });
+  });
+});
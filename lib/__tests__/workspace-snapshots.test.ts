@@ -0,0 +1,209 @@
+/**
+ * Unit tests for workspace snapshots
+ * Tests the snapshot record, archive commands, capturing into the snapshot volume and
+ * restoring custom terminals
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Sandbox } from '@daytonaio/sdk';
+import type { UserWorkspace } from '@/types/workspace';
+import {
+  SNAPSHOT_MOUNT_PATH,
+  WorkspaceSnapshotError,
+  WorkspaceSnapshots,
+  createWorkspaceSnapshot,
+  expireStaleSnapshot,
+  generateArchiveCommand,
+  generateBackgroundArchiveCommand,
+  generateInstallGlobalPackagesCommand,
+  parseArchiveStatus,
+  parseGlobalPackages,
+  restoreCustomTerminals,
+  validateSnapshotName
+} from '../workspace-snapshots';
+import { PortManager } from '../port-manager';
+
+vi.mock('../logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn() }
+}));
+
+const workspace: UserWorkspace = {
+  id: 'workspace-1',
+  sandboxId: 'sandbox-1',
+  name: 'Main',
+  repositories: [{
+    id: 'repo-1',
+    name: 'app',
+    url: 'https://github.com/acme/app',
+    ports: { vscode: 8080, terminal: 9999, claude: 9998, gemini: 9997 },
+    serviceUrls: { vscode: 'https://8080-sandbox-1.proxy.daytona.work' },
+    tokens: { vscode: 'secret' }
+  }],
+  status: 'running',
+  image: 'python',
+  resourceProfile: 'large',
+  createdAt: new Date(),
+  updatedAt: new Date()
+} as unknown as UserWorkspace;
+
+const createSandbox = (results: Array<{ exitCode: number; result: string }>, mounted = true) => ({
+  id: 'sandbox-1',
+  volumes: mounted ? [{ volumeId: 'volume-1', mountPath: SNAPSHOT_MOUNT_PATH }] : [],
+  process: {
+    executeCommand: vi.fn().mockImplementation(() => Promise.resolve(results.shift() ?? { exitCode: 0, result: '' }))
+  }
+}) as unknown as Sandbox;
+
+describe('workspace snapshots', () => {
+  it('should record repositories without the old sandbox URLs and tokens', () => {
+    const snapshot = createWorkspaceSnapshot(workspace, 'Before upgrade', new Date('2024-06-03T12:00:00Z'));
+
+    expect(snapshot).toMatchObject({
+      name: 'Before upgrade',
+      sourceSandboxId: 'sandbox-1',
+      status: 'creating',
+      archivePath: `${SNAPSHOT_MOUNT_PATH}/${snapshot.id}.tar.gz`,
+      image: 'python',
+      resourceProfile: 'large',
+      createdAt: '2024-06-03T12:00:00.000Z'
+    });
+    expect(snapshot.repositories[0]).not.toHaveProperty('serviceUrls');
+    expect(snapshot.repositories[0]).not.toHaveProperty('tokens');
+  });
+
+  it('should validate snapshot names', () => {
+    expect(validateSnapshotName(undefined, 'Fallback')).toBe('Fallback');
+    expect(validateSnapshotName('  Nightly ', 'Fallback')).toBe('Nightly');
+    expect(() => validateSnapshotName('x'.repeat(101), 'Fallback')).toThrow(WorkspaceSnapshotError);
+  });
+
+  it('should archive existing paths without agent credentials', () => {
+    const command = generateArchiveCommand('/home/daytona', '/agentsos-snapshots/s.tar.gz');
+
+    expect(command).toContain('cd "/home/daytona"');
+    expect(command).toContain('--exclude=".claude/.credentials.json"');
+    expect(command).toContain('tar -czf "/agentsos-snapshots/s.tar.gz"');
+  });
+
+  it('should archive in the background and record the exit code', () => {
+    const command = generateBackgroundArchiveCommand('/home/daytona', '/agentsos-snapshots/s.tar.gz', '/agentsos-snapshots/s.status');
+
+    expect(command).toContain('tar -czf "/agentsos-snapshots/s.tar.gz"');
+    expect(command).toContain('> "/agentsos-snapshots/s.status"');
+    expect(command).toMatch(/nohup \/tmp\/agentsos-s\.status\.sh > \/dev\/null 2>&1 &$/);
+
+    expect(parseArchiveStatus('')).toBeNull();
+    expect(parseArchiveStatus('0\n2048\n')).toEqual({ exitCode: 0, result: '2048' });
+    expect(parseArchiveStatus('2\ntar: No space left on device\n')).toEqual({ exitCode: 2, result: 'tar: No space left on device' });
+  });
+
+  it('should fail snapshots stuck creating past the archive timeout', () => {
+    const snapshot = createWorkspaceSnapshot(workspace, 'Nightly', new Date('2024-06-03T12:00:00Z'));
+
+    expect(expireStaleSnapshot(snapshot, new Date('2024-06-03T12:10:00Z'))).toBe(snapshot);
+    expect(expireStaleSnapshot(snapshot, new Date('2024-06-03T13:00:00Z'))).toMatchObject({
+      status: 'failed',
+      error: 'Snapshot did not finish in time'
+    });
+    expect(expireStaleSnapshot({ ...snapshot, status: 'ready' }, new Date('2024-06-04T12:00:00Z')).status).toBe('ready');
+  });
+
+  it('should pin global packages except npm', () => {
+    const packages = parseGlobalPackages(JSON.stringify({
+      dependencies: { npm: { version: '10.0.0' }, '@google/gemini-cli': { version: '0.1.5' } }
+    }));
+
+    expect(packages).toEqual({ '@google/gemini-cli': '0.1.5' });
+    expect(generateInstallGlobalPackagesCommand(packages)).toBe('npm install -g "@google/gemini-cli@0.1.5"');
+    expect(generateInstallGlobalPackagesCommand({})).toBeNull();
+    expect(parseGlobalPackages('not json')).toEqual({});
+  });
+
+  it('should restore custom terminals by repository name on free ports', () => {
+    const snapshot = createWorkspaceSnapshot({
+      ...workspace,
+      repositories: [{
+        ...workspace.repositories[0],
+        customTerminals: [
+          { id: 'dev-server', name: 'Dev server', command: 'npm run dev', port: 12000, previewPort: 3000 },
+          { id: 'tests', name: 'Tests', command: 'npm test -- --watch', port: 12001 }
+        ]
+      }]
+    }, 'Nightly');
+    const restored = [
+      { ...PortManager.createDefaultRepository(), customTerminals: [{ id: 'logs', name: 'Logs', command: 'tail -f log', port: 12000 }] },
+      { id: 'repo-2', name: 'app', url: 'https://github.com/acme/app', sourceType: 'github' as const, ports: PortManager.getPortsForSlot(1) }
+    ];
+
+    const [defaultRepository, app] = restoreCustomTerminals(snapshot, restored);
+
+    expect(defaultRepository).toBe(restored[0]);
+    expect(app.ports).toEqual(PortManager.getPortsForSlot(1));
+    expect(app.customTerminals).toEqual([
+      { id: 'dev-server', name: 'Dev server', command: 'npm run dev', port: 12001, previewPort: 3000 },
+      { id: 'tests', name: 'Tests', command: 'npm test -- --watch', port: 12002 }
+    ]);
+  });
+
+  describe('capture', () => {
+    const snapshot = createWorkspaceSnapshot(workspace, 'Nightly');
+
+    it('should start archiving into the volume and return the creating snapshot', async () => {
+      const sandbox = createSandbox([
+        { exitCode: 0, result: JSON.stringify({ dependencies: { '@anthropic-ai/claude-code': { version: '1.0.0' } } }) },
+        { exitCode: 0, result: '' }
+      ]);
+
+      const started = await new WorkspaceSnapshots(sandbox, '/home/daytona').capture(snapshot);
+
+      expect(started).toMatchObject({
+        status: 'creating',
+        statusPath: `${SNAPSHOT_MOUNT_PATH}/${snapshot.id}.status`,
+        globalPackages: { '@anthropic-ai/claude-code': '1.0.0' }
+      });
+      expect(vi.mocked(sandbox.process.executeCommand).mock.calls[1][0]).toContain('nohup');
+    });
+
+    it('should refuse sandboxes without the snapshot volume', async () => {
+      const sandbox = createSandbox([], false);
+
+      await expect(new WorkspaceSnapshots(sandbox, '/home/daytona').capture(snapshot))
+        .rejects.toMatchObject({ statusCode: 409, code: 'SNAPSHOT_VOLUME_NOT_MOUNTED' });
+      expect(sandbox.process.executeCommand).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the archive cannot be started', async () => {
+      const sandbox = createSandbox([{ exitCode: 0, result: '{}' }, { exitCode: 1, result: 'No space left on device' }]);
+
+      await expect(new WorkspaceSnapshots(sandbox, '/home/daytona').capture(snapshot))
+        .rejects.toThrow('No space left on device');
+    });
+  });
+
+  describe('checkCapture', () => {
+    const snapshot = createWorkspaceSnapshot(workspace, 'Nightly');
+
+    it('should wait while the archive is running', async () => {
+      const sandbox = createSandbox([{ exitCode: 0, result: '' }]);
+
+      expect(await new WorkspaceSnapshots(sandbox, '/home/daytona').checkCapture(snapshot)).toBeNull();
+    });
+
+    it('should finish the snapshot with its size once archived', async () => {
+      const sandbox = createSandbox([{ exitCode: 0, result: '0\n2048\n' }]);
+
+      expect(await new WorkspaceSnapshots(sandbox, '/home/daytona').checkCapture(snapshot))
+        .toMatchObject({ status: 'ready', sizeBytes: 2048 });
+      expect(sandbox.process.executeCommand).toHaveBeenCalledWith(expect.stringContaining(snapshot.statusPath!), '/home/daytona');
+    });
+
+    it('should fail the snapshot when the archive could not be written', async () => {
+      const sandbox = createSandbox([{ exitCode: 0, result: '2\ntar: No space left on device\n' }]);
+
+      expect(await new WorkspaceSnapshots(sandbox, '/home/daytona').checkCapture(snapshot)).toMatchObject({
+        status: 'failed',
+        error: 'Failed to archive sandbox: tar: No space left on device'
+      });
+    });
+  });
+});
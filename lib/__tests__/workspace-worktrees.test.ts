@@ -0,0 +1,137 @@
+/**
+ * Unit tests for git worktrees
+ * Tests worktree repository entries and the git commands run to create, merge and remove them
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Sandbox } from '@daytonaio/sdk';
+import type { Repository } from '@/types/workspace';
+import { PortManager } from '../port-manager';
+import {
+  WorkspaceWorktreeError,
+  WorkspaceWorktrees,
+  createWorktreeRepository,
+  getWorktreeName,
+  getWorktrees,
+  validateWorktreeBranch
+} from '../workspace-worktrees';
+
+vi.mock('../logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const ROOT = '/home/daytona';
+
+const api: Repository = {
+  id: 'repo-1',
+  url: 'https://github.com/acme/api.git',
+  name: 'api',
+  sourceType: 'github',
+  ports: PortManager.getPortsForSlot(0)
+};
+
+const worktree: Repository = {
+  ...api,
+  id: 'repo-2',
+  name: 'api--feature-login',
+  branch: 'feature/login',
+  ports: PortManager.getPortsForSlot(1),
+  worktree: { parent: 'api', branch: 'feature/login', baseBranch: 'main' }
+};
+
+describe('workspace worktrees', () => {
+  it('should name worktrees after their repository and branch', () => {
+    expect(getWorktreeName('api', 'feature/login')).toBe('api--feature-login');
+    expect(getWorktrees([api, worktree], 'api')).toEqual([worktree]);
+  });
+
+  it('should reject branch names git or the shell would misread', () => {
+    expect(validateWorktreeBranch('feature/login')).toBe('feature/login');
+    for (const branch of ['--force', 'a..b', 'feature/', 'a b', '$(whoami)', undefined]) {
+      expect(() => validateWorktreeBranch(branch)).toThrow(WorkspaceWorktreeError);
+    }
+  });
+
+  it('should add worktrees as repositories on free ports', () => {
+    const taken = PortManager.getPortsForSlot(1).vscode;
+    const repository = createWorktreeRepository(api, 'feature/login', 'main', [api], new Set([taken]), 1000);
+
+    expect(repository).toMatchObject({
+      id: 'repo-1000-1',
+      name: 'api--feature-login',
+      url: api.url,
+      branch: 'feature/login',
+      worktree: { parent: 'api', branch: 'feature/login', baseBranch: 'main' }
+    });
+    expect(repository.ports.vscode).not.toBe(taken);
+    expect(PortManager.getAssignedPorts([api]).has(repository.ports.terminal)).toBe(false);
+  });
+
+  it('should not add the same worktree twice', () => {
+    expect(() => createWorktreeRepository(api, 'feature/login', 'main', [api, worktree], new Set()))
+      .toThrow(expect.objectContaining({ code: 'WORKTREE_EXISTS' }));
+  });
+
+  describe('WorkspaceWorktrees', () => {
+    let executeCommand: ReturnType<typeof vi.fn>;
+    let worktrees: WorkspaceWorktrees;
+
+    beforeEach(() => {
+      executeCommand = vi.fn(async () => ({ exitCode: 0, result: '' }));
+      worktrees = new WorkspaceWorktrees({ process: { executeCommand } } as unknown as Sandbox, ROOT);
+    });
+
+    it('should create new branches from the base branch and check out existing ones', async () => {
+      executeCommand.mockResolvedValueOnce({ exitCode: 1, result: '' });
+      await worktrees.create('api', 'api--feature-login', 'feature/login', 'main');
+
+      expect(executeCommand).toHaveBeenLastCalledWith(
+        'git worktree add -b "feature/login" "../api--feature-login" "main"',
+        `${ROOT}/projects/api`,
+        undefined,
+        expect.any(Number)
+      );
+
+      await worktrees.create('api', 'api--feature-login', 'feature/login', 'main');
+      expect(executeCommand.mock.lastCall?.[0]).toBe('git worktree add "../api--feature-login" "feature/login"');
+    });
+
+    it('should abort conflicting merges and report the conflicted files', async () => {
+      executeCommand.mockImplementation(async (command: string) => {
+        if (command.startsWith('git merge --no-ff')) {
+          return { exitCode: 1, result: 'CONFLICT (content): Merge conflict in src/app.ts\nAutomatic merge failed' };
+        }
+        return { exitCode: 0, result: command.startsWith('git symbolic-ref') ? 'main\n' : '' };
+      });
+
+      await expect(worktrees.merge(worktree)).rejects.toMatchObject({ code: 'MERGE_CONFLICT', files: ['src/app.ts'] });
+      expect(executeCommand).toHaveBeenLastCalledWith('git merge --abort 2>/dev/null; true', `${ROOT}/projects/api`, undefined, undefined);
+    });
+
+    it('should not merge worktrees with uncommitted changes', async () => {
+      executeCommand.mockResolvedValueOnce({ exitCode: 0, result: ' M src/app.ts\n' });
+
+      await expect(worktrees.merge(worktree)).rejects.toMatchObject({ code: 'UNCOMMITTED_CHANGES' });
+      expect(executeCommand).toHaveBeenCalledWith('git status --porcelain', `${ROOT}/projects/api--feature-login`, undefined, undefined);
+    });
+
+    it('should keep worktrees with uncommitted changes unless forced', async () => {
+      executeCommand.mockResolvedValueOnce({ exitCode: 128, result: "fatal: '../api--feature-login' contains modified or untracked files, use --force to delete it" });
+      await expect(worktrees.remove(worktree, { force: false, deleteBranch: true }))
+        .rejects.toMatchObject({ code: 'UNCOMMITTED_CHANGES' });
+
+      await expect(worktrees.remove(worktree, { force: true, deleteBranch: true })).resolves.toEqual({ branchDeleted: true });
+      expect(executeCommand).toHaveBeenCalledWith('git worktree remove --force "../api--feature-login"', `${ROOT}/projects/api`, undefined, undefined);
+      expect(executeCommand).toHaveBeenLastCalledWith('git branch -D "feature/login"', `${ROOT}/projects/api`, undefined, undefined);
+    });
+
+    it('should refuse repositories that are not worktrees', async () => {
+      await expect(worktrees.remove(api, { force: false, deleteBranch: false })).rejects.toMatchObject({ code: 'NOT_A_WORKTREE' });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Agent registry - single source of truth for the AI coding agents available in a workspace
+ *
+ * Each descriptor drives CLI installation, tmux startup scripts, port allocation,
+ * preview URL/token retrieval and the desktop/mobile app entries. Adding an agent
+ * only requires a new entry here. Browser-safe: no SDK imports.
+ */
+
+export interface AgentDescriptor {
+  id: string;              // Service and app id (lowercase, dashes only)
+  name: string;            // Short name used in window titles and logs
+  appName: string;         // App name shown in the dock and home screen
+  description: string;
+  author: string;
+  version: string;
+  cli: {
+    name: string;          // Human readable CLI name used in install logs
+    installCommand: string;
+    versionCommand: string;  // Exits non-zero when the CLI is missing
+  };
+  launchCommand: string;   // Command run inside the agent's tmux session
+  portBase: number;        // Slot N listens on portBase + N
+  icon: {
+    emoji: string;
+    url?: string;
+  };
+  color: string;           // Tailwind background class for the app icon
+  openAtStartup: boolean;
+}
+
+export const AGENTS = [
+  {
+    id: 'claude',
+    name: 'Claude',
+    appName: 'Claude Code',
+    description: 'AI-powered coding assistant with advanced code analysis, debugging, and development support',
+    author: 'Anthropic',
+    version: '1.0.67',
+    cli: {
+      name: 'Claude Code CLI',
+      installCommand: 'npm install -g @anthropic-ai/claude-code',
+      versionCommand: 'claude --version'
+    },
+    launchCommand: 'claude',
+    portBase: 4000,
+    icon: {
+      emoji: '🤖',
+      url: 'https://anthropic.gallerycdn.vsassets.io/extensions/anthropic/claude-code/1.0.67/1754087738567/Microsoft.VisualStudio.Services.Icons.Default'
+    },
+    color: 'bg-purple-500',
+    openAtStartup: true
+  },
+  {
+    id: 'gemini',
+    name: 'Gemini',
+    appName: 'Gemini AI',
+    description: 'Google\'s AI-powered coding assistant with advanced code analysis and development support',
+    author: 'Google',
+    version: '1.0.0',
+    cli: {
+      name: 'Gemini CLI',
+      installCommand: 'npm install -g @google/gemini-cli',
+      versionCommand: 'gemini --version'
+    },
+    launchCommand: 'gemini',
+    portBase: 5000,
+    icon: {
+      emoji: '✨',
+      url: 'https://www.gstatic.com/lamda/images/gemini_sparkle_v002_d4735304ff6292a690345.svg'
+    },
+    color: 'bg-blue-500',
+    openAtStartup: false
+  }
+] as const satisfies readonly AgentDescriptor[];
+
+export type AgentId = typeof AGENTS[number]['id'];
+
+export const AGENT_IDS: readonly AgentId[] = AGENTS.map(agent => agent.id);
+
+export function isAgentId(id: string): id is AgentId {
+  return (AGENT_IDS as readonly string[]).includes(id);
+}
+
+export function getAgent(id: AgentId): AgentDescriptor {
+  const agent = AGENTS.find(candidate => candidate.id === id);
+  if (!agent) {
+    throw new Error(`Unknown agent: ${id}`);
+  }
+  return agent;
+}
+
+/**
+ * Agents enabled in a workspace, every registered agent unless it lists them
+ */
+export function getWorkspaceAgents(ids?: readonly AgentId[]): Array<typeof AGENTS[number]> {
+  return ids ? AGENTS.filter(agent => ids.includes(agent.id)) : [...AGENTS];
+}
+
+/**
+ * Build a record keyed by agent id, e.g. ports or preview URLs for every agent
+ */
+export function mapAgents<T>(fn: (agent: AgentDescriptor) => T): Record<AgentId, T> {
+  return Object.fromEntries(AGENTS.map(agent => [agent.id, fn(agent)])) as Record<AgentId, T>;
+}
@@ -1,4 +1,8 @@
 import type { CreateWorkspaceResponse } from '@/types/workspace';
+import type { ResourceProfileId, WorkspaceImageId } from '@/lib/workspace-defaults';
+import { EVENT_STREAM_CONTENT_TYPE, readProgressStream, type WorkspaceProgressListener } from '@/lib/workspace-progress';
+import type { WorkspaceSnapshot } from '@/lib/workspace-snapshots';
+import type { WorkspaceManifest } from '@/lib/workspace-manifest';
 
 export interface Repository {
   url: string;
@@ -11,10 +15,15 @@ export interface CreateWorkspaceRequest {
   repositories?: Repository[];
   workspaceName?: string;
   daytonaApiKey?: string;
+  resourceProfile?: ResourceProfileId;
   resources?: {
     cpu: number;
     memory: number;
+    disk: number;
   };
+  image?: WorkspaceImageId;
+  snapshotId?: string;   // Restore a snapshot instead of cloning repositories
+  manifest?: WorkspaceManifest;   // Imported agentsos.yaml, its resources apply unless given here
 }
 
 export interface WorkspaceUrls {
@@ -31,11 +40,18 @@ export class WorkspaceApi {
     this.baseUrl = baseUrl;
   }
 
-  async createWorkspace(request: CreateWorkspaceRequest): Promise<CreateWorkspaceResponse> {
+  /**
+   * Create a workspace, streaming each setup phase to onProgress when given
+   */
+  async createWorkspace(
+    request: CreateWorkspaceRequest,
+    onProgress?: WorkspaceProgressListener
+  ): Promise<CreateWorkspaceResponse> {
     const response = await fetch(`${this.baseUrl}/api/create-workspace`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(onProgress && { Accept: EVENT_STREAM_CONTENT_TYPE }),
       },
       body: JSON.stringify(request),
     });
@@ -45,6 +61,10 @@ export class WorkspaceApi {
       throw new Error(error.error || 'Failed to create workspace');
     }
 
+    if (onProgress) {
+      return readProgressStream<CreateWorkspaceResponse>(response, onProgress);
+    }
+
     return response.json();
   }
 
@@ -130,6 +150,34 @@ export class WorkspaceApi {
 
     return response.json();
   }
+
+  async listSnapshots(): Promise<{ snapshots: WorkspaceSnapshot[] }> {
+    const response = await fetch(`${this.baseUrl}/api/workspace-snapshots`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to list snapshots' }));
+      throw new Error(error.error || 'Failed to list snapshots');
+    }
+
+    return response.json();
+  }
+
+  async createSnapshot(sandboxId: string, name?: string): Promise<{ success: boolean; snapshot: WorkspaceSnapshot }> {
+    const response = await fetch(`${this.baseUrl}/api/workspace-snapshots/${sandboxId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to create snapshot' }));
+      throw new Error(error.error || 'Failed to create snapshot');
+    }
+
+    return response.json();
+  }
 }
 
 // Singleton instance for the app
@@ -58,7 +58,7 @@ describe('workspace-auth', () => {
 
   let mockSandbox: MockSandbox;
   let mockUserService: {
-    getUserWorkspace: ReturnType<typeof vi.fn>;
+    getUserWorkspaces: ReturnType<typeof vi.fn>;
     createOrUpdateWorkspace: ReturnType<typeof vi.fn>;
     updateWorkspaceStatus: ReturnType<typeof vi.fn>;
     getDaytonaApiKey: ReturnType<typeof vi.fn>;
@@ -93,7 +93,7 @@ describe('workspace-auth', () => {
 
     // Mock UserService
     mockUserService = {
-      getUserWorkspace: vi.fn().mockResolvedValue(mockUserWorkspace),
+      getUserWorkspaces: vi.fn().mockResolvedValue([mockUserWorkspace]),
       createOrUpdateWorkspace: vi.fn(),
       updateWorkspaceStatus: vi.fn(),
       getDaytonaApiKey: vi.fn().mockResolvedValue(mockApiKey)
@@ -136,7 +136,7 @@ describe('workspace-auth', () => {
 
       expect(mockAuth).toHaveBeenCalledOnce();
       expect(mockUserService.getDaytonaApiKey).toHaveBeenCalledWith(mockUserId);
-      expect(mockUserService.getUserWorkspace).toHaveBeenCalledWith(mockUserId);
+      expect(mockUserService.getUserWorkspaces).toHaveBeenCalledWith(mockUserId);
       expect(mockDaytonaClient).toHaveBeenCalledWith(mockApiKey);
     });
 
@@ -177,7 +177,7 @@ describe('workspace-auth', () => {
     });
 
     it('should throw WORKSPACE_NOT_FOUND when no workspace', async () => {
-      mockUserService.getUserWorkspace.mockResolvedValue(null);
+      mockUserService.getUserWorkspaces.mockResolvedValue([]);
 
       await expect(authenticateWorkspaceAccess(mockSandboxId))
         .rejects
@@ -194,9 +194,18 @@ describe('workspace-auth', () => {
       }
     });
 
+    it('should authorize any sandbox in the user\'s workspace collection', async () => {
+      const otherWorkspace = { ...mockUserWorkspace, id: 'workspace-789', sandboxId: 'sandbox-789' };
+      mockUserService.getUserWorkspaces.mockResolvedValue([mockUserWorkspace, otherWorkspace]);
+
+      const result = await authenticateWorkspaceAccess('sandbox-789');
+
+      expect(result.userWorkspace).toBe(otherWorkspace);
+    });
+
     it('should throw ACCESS_DENIED when sandbox ID mismatch', async () => {
       const wrongUserWorkspace = { ...mockUserWorkspace, sandboxId: 'different-sandbox' };
-      mockUserService.getUserWorkspace.mockResolvedValue(wrongUserWorkspace);
+      mockUserService.getUserWorkspaces.mockResolvedValue([wrongUserWorkspace]);
 
       await expect(authenticateWorkspaceAccess(mockSandboxId))
         .rejects
@@ -349,7 +358,7 @@ describe('workspace-auth', () => {
       expect(mockUserService.getDaytonaApiKey).toHaveBeenCalledWith(mockUserId);
       
       // 3. Must get user workspace from Firebase
-      expect(mockUserService.getUserWorkspace).toHaveBeenCalledWith(mockUserId);
+      expect(mockUserService.getUserWorkspaces).toHaveBeenCalledWith(mockUserId);
       
       // 4. Must create DaytonaClient with API key
       expect(mockDaytonaClient).toHaveBeenCalledWith(mockApiKey);
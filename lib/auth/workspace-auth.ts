@@ -62,15 +62,16 @@ export async function authenticateWorkspaceAccess(sandboxId: string): Promise<Wo
     );
   }
 
-  // 3. Get user's workspace data from Firebase
-  const userWorkspace = await userService.getUserWorkspace(userId);
+  // 3. Get user's workspaces from Firebase
+  const userWorkspaces = await userService.getUserWorkspaces(userId);
   
-  if (!userWorkspace) {
+  if (userWorkspaces.length === 0) {
     throw new WorkspaceAuthError('Workspace not found', 404, WorkspaceAuthErrorCode.WORKSPACE_NOT_FOUND);
   }
   
-  // 4. Verify sandbox ownership
-  if (userWorkspace.sandboxId !== sandboxId) {
+  // 4. Verify sandbox ownership against the user's collection
+  const userWorkspace = userWorkspaces.find(workspace => workspace.sandboxId === sandboxId);
+  if (!userWorkspace) {
     throw new WorkspaceAuthError(
       'Access denied - workspace does not belong to user', 
       403, 
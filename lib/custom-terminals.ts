@@ -0,0 +1,226 @@
+import type { Sandbox } from '@daytonaio/sdk';
+import { logger } from './logger';
+import { TTYD_THEME, CUSTOM_TERMINAL_PORT_RANGE } from './workspace-constants';
+import { TmuxScriptGenerator } from './tmux-script-generator';
+import { PortManager } from './port-manager';
+import { ServiceSupervisor } from './service-supervisor';
+import type { CustomTerminal, Repository } from '@/types/workspace';
+
+export const MAX_CUSTOM_TERMINALS_PER_REPOSITORY = 10;
+
+const MAX_NAME_LENGTH = 40;
+const MAX_COMMAND_LENGTH = 500;
+const MAX_ICON_LENGTH = 8;
+
+export interface CustomTerminalInput {
+  name: string;
+  command: string;
+  icon?: string;
+}
+
+export type CustomTerminalErrorCode =
+  | 'INVALID_INPUT'
+  | 'REPOSITORY_NOT_FOUND'
+  | 'TERMINAL_NOT_FOUND'
+  | 'LIMIT_REACHED';
+
+export class CustomTerminalError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: CustomTerminalErrorCode
+  ) {
+    super(message);
+    this.name = 'CustomTerminalError';
+  }
+
+  static isCustomTerminalError(error: unknown): error is CustomTerminalError {
+    return error instanceof CustomTerminalError;
+  }
+}
+
+/**
+ * Validate and normalize user input for a custom terminal
+ */
+export function validateCustomTerminalInput(input: Partial<Record<keyof CustomTerminalInput, unknown>>): CustomTerminalInput {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const command = typeof input.command === 'string' ? input.command.trim() : '';
+  const icon = typeof input.icon === 'string' ? input.icon.trim() : '';
+
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new CustomTerminalError(`Name must be 1-${MAX_NAME_LENGTH} characters`, 400, 'INVALID_INPUT');
+  }
+  if (!command || command.length > MAX_COMMAND_LENGTH) {
+    throw new CustomTerminalError(`Command must be 1-${MAX_COMMAND_LENGTH} characters`, 400, 'INVALID_INPUT');
+  }
+  if (/[\r\n]/.test(command)) {
+    throw new CustomTerminalError('Command must be a single line', 400, 'INVALID_INPUT');
+  }
+  if (icon.length > MAX_ICON_LENGTH) {
+    throw new CustomTerminalError('Icon must be a single emoji', 400, 'INVALID_INPUT');
+  }
+
+  return { name, command, ...(icon && { icon }) };
+}
+
+/**
+ * Derive a unique, shell-safe id from the terminal name
+ */
+export function createCustomTerminalId(name: string, existing: CustomTerminal[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'terminal';
+  const taken = new Set(existing.map(terminal => terminal.id));
+
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+/**
+ * Pick a port for a new terminal that is not assigned or bound anywhere in the sandbox
+ */
+export function allocateCustomTerminalPort(repository: Repository, unavailable: Set<number>): number {
+  if ((repository.customTerminals ?? []).length >= MAX_CUSTOM_TERMINALS_PER_REPOSITORY) {
+    throw new CustomTerminalError(
+      `A repository can have at most ${MAX_CUSTOM_TERMINALS_PER_REPOSITORY} custom terminals`,
+      400,
+      'LIMIT_REACHED'
+    );
+  }
+  return PortManager.findFreePort(unavailable, CUSTOM_TERMINAL_PORT_RANGE);
+}
+
+export function findRepository(repositories: Repository[], name: string): Repository {
+  const repository = repositories.find(repo => repo.name === name);
+  if (!repository) {
+    throw new CustomTerminalError(`Repository not found: ${name}`, 404, 'REPOSITORY_NOT_FOUND');
+  }
+  return repository;
+}
+
+export function findCustomTerminal(repository: Repository, id: string): CustomTerminal {
+  const terminal = repository.customTerminals?.find(candidate => candidate.id === id);
+  if (!terminal) {
+    throw new CustomTerminalError(`Custom terminal not found: ${id}`, 404, 'TERMINAL_NOT_FOUND');
+  }
+  return terminal;
+}
+
+/**
+ * Add a terminal to a repository, returning the updated repository
+ */
+export function addCustomTerminal(
+  repository: Repository,
+  input: CustomTerminalInput,
+  unavailablePorts: Set<number>
+): { repository: Repository; terminal: CustomTerminal } {
+  const existing = repository.customTerminals ?? [];
+  const terminal: CustomTerminal = {
+    id: createCustomTerminalId(input.name, existing),
+    ...input,
+    port: allocateCustomTerminalPort(repository, unavailablePorts)
+  };
+
+  return {
+    repository: { ...repository, customTerminals: [...existing, terminal] },
+    terminal
+  };
+}
+
+/**
+ * Replace a terminal's name, command or icon; id and ports never change
+ */
+export function updateCustomTerminal(repository: Repository, id: string, input: CustomTerminalInput): { repository: Repository; terminal: CustomTerminal } {
+  const current = findCustomTerminal(repository, id);
+  const terminal: CustomTerminal = {
+    id: current.id,
+    port: current.port,
+    ...(current.previewPort && { previewPort: current.previewPort }),
+    ...input
+  };
+
+  return {
+    repository: {
+      ...repository,
+      customTerminals: (repository.customTerminals ?? []).map(candidate => candidate.id === id ? terminal : candidate)
+    },
+    terminal
+  };
+}
+
+export function removeCustomTerminal(repository: Repository, id: string): { repository: Repository; terminal: CustomTerminal } {
+  const terminal = findCustomTerminal(repository, id);
+
+  return {
+    repository: {
+      ...repository,
+      customTerminals: (repository.customTerminals ?? []).filter(candidate => candidate.id !== id)
+    },
+    terminal
+  };
+}
+
+export function replaceRepository(repositories: Repository[], repository: Repository): Repository[] {
+  return repositories.map(repo => repo.id === repository.id ? repository : repo);
+}
+
+// Escape for the double-quoted tmux command in the startup script
+function escapeForDoubleQuotes(command: string): string {
+  return command.replace(/[\\"$`]/g, '\\$&');
+}
+
+/**
+ * Starts and stops custom terminals (tmux session behind ttyd) inside a sandbox
+ */
+export class CustomTerminalManager {
+  private logger = logger;
+
+  constructor(private sandbox: Sandbox, private rootDir: string) {}
+
+  async start(repository: Repository, terminal: CustomTerminal): Promise<void> {
+    const repoPath = `${this.rootDir}/projects/${repository.name}`;
+    const scriptPath = `/tmp/start-custom-${terminal.id}-${repository.name}.sh`;
+
+    // Drop into a shell when the command exits so its output stays visible
+    const script = TmuxScriptGenerator.generateCustomScript(
+      repoPath,
+      repository.name,
+      `${escapeForDoubleQuotes(terminal.command)}; exec zsh`,
+      `custom-${terminal.id}`
+    );
+
+    await this.sandbox.process.executeCommand(
+      TmuxScriptGenerator.generateScriptCreationCommand(script, scriptPath),
+      this.rootDir
+    );
+
+    // Terminals can be added after the last restart, so make sure the supervisor is there
+    const startCommand = ServiceSupervisor.generateStartCommand(
+      terminal.port,
+      `ttyd --port ${terminal.port} --writable -t 'theme=${TTYD_THEME}' "${scriptPath}"`,
+      `/tmp/custom-${terminal.id}-${repository.name}-${terminal.port}.log`
+    );
+    await this.sandbox.process.executeCommand(
+      `${ServiceSupervisor.generateInstallCommand()} && ${startCommand}`,
+      this.rootDir
+    );
+
+    this.logger.info(`Started custom terminal "${terminal.name}" for ${repository.name} on port ${terminal.port}`);
+  }
+
+  async stop(repository: Repository, terminal: CustomTerminal): Promise<void> {
+    await this.sandbox.process.executeCommand(
+      `${ServiceSupervisor.generateStopCommand(terminal.port)}; ${ServiceSupervisor.generateKillServiceCommand(terminal.port)}; tmux kill-session -t custom-${terminal.id}-${repository.name} 2>/dev/null || true`,
+      this.rootDir
+    );
+
+    this.logger.info(`Stopped custom terminal "${terminal.name}" for ${repository.name}`);
+  }
+
+  async startAll(repository: Repository): Promise<void> {
+    for (const terminal of repository.customTerminals ?? []) {
+      await this.start(repository, terminal);
+    }
+  }
+}
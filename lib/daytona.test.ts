@@ -54,7 +54,7 @@ describe('DaytonaClient Environment File Operations', () => {
 
       const result = await daytonaClient.readEnvFile('sandbox-id', 'project-name');
 
-      expect(mockWorkspaceManager.readEnvFile).toHaveBeenCalledWith('sandbox-id', 'project-name');
+      expect(mockWorkspaceManager.readEnvFile).toHaveBeenCalledWith('sandbox-id', 'project-name', undefined);
       expect(result).toBe(expectedResult);
     });
 
@@ -64,7 +64,7 @@ describe('DaytonaClient Environment File Operations', () => {
 
       const result = await daytonaClient.readEnvFile('sandbox-id');
 
-      expect(mockWorkspaceManager.readEnvFile).toHaveBeenCalledWith('sandbox-id', undefined);
+      expect(mockWorkspaceManager.readEnvFile).toHaveBeenCalledWith('sandbox-id', undefined, undefined);
       expect(result).toBe(expectedResult);
     });
 
@@ -73,7 +73,7 @@ describe('DaytonaClient Environment File Operations', () => {
 
       const result = await daytonaClient.readEnvFile('sandbox-id', 'project-name');
 
-      expect(mockWorkspaceManager.readEnvFile).toHaveBeenCalledWith('sandbox-id', 'project-name');
+      expect(mockWorkspaceManager.readEnvFile).toHaveBeenCalledWith('sandbox-id', 'project-name', undefined);
       expect(result).toBeNull();
     });
 
@@ -82,7 +82,7 @@ describe('DaytonaClient Environment File Operations', () => {
       mockWorkspaceManager.readEnvFile.mockRejectedValue(error);
 
       await expect(daytonaClient.readEnvFile('sandbox-id', 'project-name')).rejects.toThrow('Failed to read file');
-      expect(mockWorkspaceManager.readEnvFile).toHaveBeenCalledWith('sandbox-id', 'project-name');
+      expect(mockWorkspaceManager.readEnvFile).toHaveBeenCalledWith('sandbox-id', 'project-name', undefined);
     });
   });
 
@@ -91,13 +91,14 @@ describe('DaytonaClient Environment File Operations', () => {
       const content = 'KEY1=value1\nKEY2=value2';
       mockWorkspaceManager.writeEnvFile.mockResolvedValue(undefined);
 
-      await daytonaClient.writeEnvFile('sandbox-id', content, true, 'project-name');
+      await daytonaClient.writeEnvFile('sandbox-id', content, true, 'project-name', 'apps/web/.env');
 
       expect(mockWorkspaceManager.writeEnvFile).toHaveBeenCalledWith(
         'sandbox-id',
         content,
         true,
-        'project-name'
+        'project-name',
+        'apps/web/.env'
       );
     });
 
@@ -111,6 +112,7 @@ describe('DaytonaClient Environment File Operations', () => {
         'sandbox-id',
         content,
         true,
+        undefined,
         undefined
       );
     });
@@ -125,7 +127,8 @@ describe('DaytonaClient Environment File Operations', () => {
         'sandbox-id',
         content,
         false,
-        'project-name'
+        'project-name',
+        undefined
       );
     });
 
@@ -139,7 +142,8 @@ describe('DaytonaClient Environment File Operations', () => {
         'sandbox-id',
         content,
         true,
-        'project-name'
+        'project-name',
+        undefined
       );
     });
   });
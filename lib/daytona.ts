@@ -1,17 +1,25 @@
 import { Sandbox } from '@daytonaio/sdk';
 import { SandboxState } from '@daytonaio/api-client';
-import type { CreateWorkspaceResponse, Repository } from '@/types/workspace';
+import type { CreateWorkspaceResponse, RepositoryToClone } from '@/types/workspace';
 import { WorkspaceManager } from './workspace-manager';
 import { WorkspaceCreator } from './workspace-creator';
+import type { WorkspaceImageId } from './workspace-defaults';
+import type { WorkspaceProgressListener } from './workspace-progress';
+import type { WorkspaceSnapshot } from './workspace-snapshots';
+import type { AgentId } from './agent-registry';
 
 interface WorkspaceSetupOptions {
-  repositories?: Repository[];
+  repositories?: RepositoryToClone[];
   workspaceName?: string;
   resources?: {
     cpu: number;
     memory: number;
     disk: number;
   };
+  image?: WorkspaceImageId;
+  snapshot?: WorkspaceSnapshot;
+  agents?: AgentId[];
+  onProgress?: WorkspaceProgressListener;
 }
 
 // Main Daytona client - facade that delegates to specialized managers
@@ -55,11 +63,17 @@ export class DaytonaClient {
   }
 
   // File System Operations
-  async readEnvFile(sandboxId: string, projectName?: string): Promise<string | null> {
-    return await this.manager.readEnvFile(sandboxId, projectName);
+  async readEnvFile(sandboxId: string, projectName?: string, relativePath?: string): Promise<string | null> {
+    return await this.manager.readEnvFile(sandboxId, projectName, relativePath);
   }
 
-  async writeEnvFile(sandboxId: string, content: string, createBackup: boolean = true, projectName?: string): Promise<void> {
-    return await this.manager.writeEnvFile(sandboxId, content, createBackup, projectName);
+  async writeEnvFile(
+    sandboxId: string,
+    content: string,
+    createBackup: boolean = true,
+    projectName?: string,
+    relativePath?: string
+  ): Promise<void> {
+    return await this.manager.writeEnvFile(sandboxId, content, createBackup, projectName, relativePath);
   }
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+/**
+ * .env file parsing and serialization for bulk env var import and export
+ * Browser-safe: the settings app previews an import before anything is saved
+ */
+
+export const ENV_KEY_PATTERN = /^[A-Z_][A-Z0-9_]*$/i;
+export const MAX_ENV_KEY_LENGTH = 100;
+export const MAX_ENV_VALUE_LENGTH = 10000;
+
+export interface DotenvParseError {
+  line: number;         // 1-based line the variable starts on
+  message: string;
+}
+
+export interface DotenvParseResult {
+  variables: Record<string, string>;
+  errors: DotenvParseError[];
+}
+
+export interface DotenvImportPlan {
+  added: string[];        // Not set yet
+  overwritten: string[];  // Set to a different value
+  unchanged: string[];    // Set to the same value
+}
+
+// KEY=value with an optional `export ` prefix
+const ASSIGNMENT_PATTERN = /^\s*(?:export\s+)?([^=\s]+)\s*=(.*)$/;
+
+// Values that need no quoting to be read back unchanged
+const PLAIN_VALUE_PATTERN = /^[A-Za-z0-9_./:@%+,=-]*$/;
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\', $: '$', '`': '`' };
+
+/**
+ * Find the closing quote of a quoted value, skipping backslash escapes in double quotes
+ */
+function findClosingQuote(text: string, quote: string): number {
+  for (let i = 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse .env content: comments, blank lines, `export` prefixes, single quoted literals,
+ * double quoted values with escapes, and quoted values spanning several lines.
+ * A key set twice keeps its last value, as dotenv does.
+ */
+export function parseDotenv(content: string): DotenvParseResult {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const variables: Record<string, string> = {};
+  const errors: DotenvParseError[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const trimmed = lines[i].trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      continue;
+    }
+
+    const match = lines[i].match(ASSIGNMENT_PATTERN);
+    if (!match) {
+      errors.push({ line: lineNumber, message: 'Expected KEY=value' });
+      continue;
+    }
+
+    const key = match[1];
+    let rest = match[2].trimStart();
+    let value: string;
+
+    if (rest.startsWith('"') || rest.startsWith("'")) {
+      const quote = rest[0];
+      let end = findClosingQuote(rest, quote);
+      // Multi-line values continue until the closing quote
+      while (end === -1 && i + 1 < lines.length) {
+        rest += `\n${lines[++i]}`;
+        end = findClosingQuote(rest, quote);
+      }
+      if (end === -1) {
+        errors.push({ line: lineNumber, message: `Unterminated quoted value for ${key}` });
+        continue;
+      }
+
+      const trailing = rest.slice(end + 1).trim();
+      if (trailing && !trailing.startsWith('#')) {
+        errors.push({ line: lineNumber, message: `Unexpected text after the quoted value of ${key}` });
+        continue;
+      }
+
+      const quoted = rest.slice(1, end);
+      value = quote === '"'
+        ? quoted.replace(/\\(.)/g, (escape, char: string) => DOUBLE_QUOTE_ESCAPES[char] ?? escape)
+        : quoted;
+    } else {
+      // Unquoted values end at a comment
+      value = rest.replace(/\s+#.*$/, '').trim();
+    }
+
+    if (!ENV_KEY_PATTERN.test(key)) {
+      errors.push({ line: lineNumber, message: `Invalid key ${key}: use letters, numbers and underscores, not starting with a number` });
+    } else if (key.length > MAX_ENV_KEY_LENGTH) {
+      errors.push({ line: lineNumber, message: `Key too long: ${key}. Maximum length is ${MAX_ENV_KEY_LENGTH} characters.` });
+    } else if (value.length > MAX_ENV_VALUE_LENGTH) {
+      errors.push({ line: lineNumber, message: `Value too long for ${key}. Maximum length is 10,000 characters.` });
+    } else {
+      variables[key] = value;
+    }
+  }
+
+  return { variables, errors };
+}
+
+/**
+ * Quote a value when needed so parseDotenv reads it back unchanged
+ */
+export function formatDotenvValue(value: string): string {
+  if (PLAIN_VALUE_PATTERN.test(value)) {
+    return value;
+  }
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, '\\$')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+  return `"${escaped}"`;
+}
+
+/**
+ * Serialize variables as .env content, keys sorted, under an optional comment header
+ */
+export function serializeDotenv(variables: Record<string, string>, header?: string): string {
+  const comment = header ? header.split('\n').map(line => `# ${line}`.trimEnd()).join('\n') + '\n\n' : '';
+  const lines = Object.keys(variables)
+    .sort()
+    .map(key => `${key}=${formatDotenvValue(variables[key])}`);
+  return comment + lines.join('\n') + (lines.length > 0 ? '\n' : '');
+}
+
+/**
+ * Which imported variables are new, would overwrite a different value, or are already set
+ */
+export function planDotenvImport(existing: Record<string, string>, incoming: Record<string, string>): DotenvImportPlan {
+  const plan: DotenvImportPlan = { added: [], overwritten: [], unchanged: [] };
+
+  for (const [key, value] of Object.entries(incoming)) {
+    if (!(key in existing)) {
+      plan.added.push(key);
+    } else if (existing[key] !== value) {
+      plan.overwritten.push(key);
+    } else {
+      plan.unchanged.push(key);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,89 @@
+/**
+ * Re-encryption of a user's environment document under the current encryption key,
+ * after ENCRYPTION_SECRET is rotated (see AgentsOSEncryption)
+ */
+
+import { AgentsOSEncryption, type EncryptedValue } from './encryption';
+import type { ProjectEnvironment, UserEnvironment } from '@/types/environments';
+
+// Fields of environments/{userId} that hold encrypted values
+export type EncryptedEnvironmentFields = Pick<UserEnvironment, 'daytonaApiKey' | 'projects' | 'global' | 'branches'>;
+
+export interface ReEncryptionReport {
+  userId: string;
+  reEncrypted: number;    // Values under an older key, re-encrypted unless this is a dry run
+  current: number;        // Values already under the current key
+  failed: string[];       // Paths of values that could not be decrypted, left as they are
+}
+
+export interface ReEncryptionResult {
+  report: ReEncryptionReport;
+  // Changed fields to write back, null when every value is current or failed
+  update: Partial<EncryptedEnvironmentFields> | null;
+}
+
+/**
+ * Re-encrypt every value of an environment document that uses an older key. Values
+ * that fail to decrypt are reported and kept, so a missing old secret loses nothing.
+ */
+export function reEncryptEnvironment(environment: Partial<EncryptedEnvironmentFields>, userId: string): ReEncryptionResult {
+  const report: ReEncryptionReport = { userId, reEncrypted: 0, current: 0, failed: [] };
+  const update: Partial<EncryptedEnvironmentFields> = {};
+
+  const reEncryptValue = (value: EncryptedValue, path: string): EncryptedValue => {
+    if (!AgentsOSEncryption.needsReEncryption(value)) {
+      report.current++;
+      return value;
+    }
+    try {
+      const reEncrypted = AgentsOSEncryption.reEncrypt(value, userId);
+      report.reEncrypted++;
+      return reEncrypted;
+    } catch {
+      report.failed.push(path);
+      return value;
+    }
+  };
+
+  // Returns the same object when nothing in it changed
+  const reEncryptVars = (vars: ProjectEnvironment, path: string): ProjectEnvironment => {
+    let changed = false;
+    const result: ProjectEnvironment = {};
+    for (const [key, value] of Object.entries(vars)) {
+      result[key] = reEncryptValue(value, `${path}.${key}`);
+      changed ||= result[key] !== value;
+    }
+    return changed ? result : vars;
+  };
+
+  const reEncryptMap = <T>(map: Record<string, T>, path: string, reEncryptEntry: (entry: T, path: string) => T): Record<string, T> => {
+    let changed = false;
+    const result: Record<string, T> = {};
+    for (const [name, entry] of Object.entries(map)) {
+      result[name] = reEncryptEntry(entry, `${path}.${name}`);
+      changed ||= result[name] !== entry;
+    }
+    return changed ? result : map;
+  };
+
+  if (environment.daytonaApiKey) {
+    const daytonaApiKey = reEncryptValue(environment.daytonaApiKey, 'daytonaApiKey');
+    if (daytonaApiKey !== environment.daytonaApiKey) update.daytonaApiKey = daytonaApiKey;
+  }
+  if (environment.projects) {
+    const projects = reEncryptMap(environment.projects, 'projects', reEncryptVars);
+    if (projects !== environment.projects) update.projects = projects;
+  }
+  if (environment.global) {
+    const global = reEncryptVars(environment.global, 'global');
+    if (global !== environment.global) update.global = global;
+  }
+  if (environment.branches) {
+    const branches = reEncryptMap(environment.branches, 'branches', (branchMap, path) =>
+      reEncryptMap(branchMap, path, reEncryptVars)
+    );
+    if (branches !== environment.branches) update.branches = branches;
+  }
+
+  return { report, update: Object.keys(update).length > 0 ? update : null };
+}
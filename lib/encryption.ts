@@ -11,6 +11,14 @@ import crypto from 'crypto';
  * - Per-user keys derived using PBKDF2 with userId as salt
  * - AES-256-GCM for authenticated encryption
  * 
+ * Key Rotation:
+ * - Each value records the key it was encrypted with (keyId, "v1" when missing)
+ * - ENCRYPTION_KEY_VERSION names the current key, 1 by default
+ * - Secrets of older keys stay readable as ENCRYPTION_SECRET_V<n>
+ * - To rotate: move the secret to ENCRYPTION_SECRET_V<n>, set a new ENCRYPTION_SECRET
+ *   and ENCRYPTION_KEY_VERSION=<n+1>, re-encrypt with POST /api/admin/re-encrypt, then
+ *   remove ENCRYPTION_SECRET_V<n>
+ * 
  * TODO: Migrate to Google Cloud KMS for production scale
  */
 export class AgentsOSEncryption {
@@ -18,21 +26,34 @@ export class AgentsOSEncryption {
   private static readonly KEY_LENGTH = 32; // 256 bits
   private static readonly IV_LENGTH = 16;  // 128 bits
   private static readonly ITERATIONS = 100000; // PBKDF2 iterations
+  private static readonly LEGACY_KEY_ID = 'v1'; // Values from before keyIds were stored
   
   /**
-   * Get the master encryption secret from environment
+   * Identifier of the key new values are encrypted with
    */
-  private static getMasterSecret(): string {
-    const secret = process.env.ENCRYPTION_SECRET;
+  static getCurrentKeyId(): string {
+    const version = process.env.ENCRYPTION_KEY_VERSION || '1';
+    if (!/^[1-9]\d*$/.test(version)) {
+      throw new Error(`ENCRYPTION_KEY_VERSION must be a positive whole number, got "${version}"`);
+    }
+    return `v${version}`;
+  }
+  
+  /**
+   * Get the master encryption secret of a key from environment
+   */
+  private static getMasterSecret(keyId: string): string {
+    const name = keyId === this.getCurrentKeyId() ? 'ENCRYPTION_SECRET' : `ENCRYPTION_SECRET_${keyId.toUpperCase()}`;
+    const secret = process.env[name];
     if (!secret) {
       throw new Error(
-        'ENCRYPTION_SECRET environment variable is required for secure storage. ' +
+        `${name} environment variable is required for secure storage. ` +
         'Please add it to your Vercel environment variables.'
       );
     }
     if (secret.length < 32) {
       throw new Error(
-        'ENCRYPTION_SECRET must be at least 32 characters long for security. ' +
+        `${name} must be at least 32 characters long for security. ` +
         'Generate a strong secret: openssl rand -base64 32'
       );
     }
@@ -40,11 +61,11 @@ export class AgentsOSEncryption {
   }
   
   /**
-   * Derive a user-specific encryption key from master secret + userId
+   * Derive a user-specific encryption key from a master secret + userId
    */
-  private static deriveUserKey(userId: string): Buffer {
-    const masterSecret = this.getMasterSecret();
-    const salt = `agentsos-v1-${userId}`; // Versioned salt for future migrations
+  private static deriveUserKey(userId: string, keyId: string): Buffer {
+    const masterSecret = this.getMasterSecret(keyId);
+    const salt = `agentsos-${keyId}-${userId}`; // Versioned salt, so each key derives differently
     
     return crypto.pbkdf2Sync(
       masterSecret,
@@ -60,7 +81,8 @@ export class AgentsOSEncryption {
    */
   static encrypt(value: string, userId: string): EncryptedValue {
     try {
-      const key = this.deriveUserKey(userId);
+      const keyId = this.getCurrentKeyId();
+      const key = this.deriveUserKey(userId, keyId);
       const iv = crypto.randomBytes(this.IV_LENGTH);
       
       const cipher = crypto.createCipheriv(this.ALGORITHM, key, iv) as crypto.CipherGCM;
@@ -77,7 +99,8 @@ export class AgentsOSEncryption {
         iv: iv.toString('base64'),
         tag: tag.toString('base64'),
         algorithm: this.ALGORITHM,
-        version: 1 // For future migrations
+        version: 1, // For future migrations
+        keyId
       };
     } catch (error) {
       throw new Error(
@@ -96,7 +119,7 @@ export class AgentsOSEncryption {
         throw new Error(`Unsupported encryption version: ${encryptedValue.version}`);
       }
       
-      const key = this.deriveUserKey(userId);
+      const key = this.deriveUserKey(userId, encryptedValue.keyId ?? this.LEGACY_KEY_ID);
       const iv = Buffer.from(encryptedValue.iv, 'base64');
       const tag = Buffer.from(encryptedValue.tag, 'base64');
       const encrypted = Buffer.from(encryptedValue.value, 'base64');
@@ -117,6 +140,20 @@ export class AgentsOSEncryption {
     }
   }
   
+  /**
+   * Whether a value was encrypted with an older key than the current one
+   */
+  static needsReEncryption(encryptedValue: EncryptedValue): boolean {
+    return (encryptedValue.keyId ?? this.LEGACY_KEY_ID) !== this.getCurrentKeyId();
+  }
+  
+  /**
+   * Decrypt a value with the key it was encrypted with and encrypt it with the current one
+   */
+  static reEncrypt(encryptedValue: EncryptedValue, userId: string): EncryptedValue {
+    return this.encrypt(this.decrypt(encryptedValue, userId), userId);
+  }
+  
   /**
    * Validate that an API key has the expected format
    */
@@ -164,6 +201,7 @@ export interface EncryptedValue {
   tag: string;        // Base64 encoded authentication tag
   algorithm: string;  // Encryption algorithm used
   version: number;    // Version for future migrations
+  keyId?: string;     // Key the value was encrypted with, "v1" when missing
 }
 
 /**
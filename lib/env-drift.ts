@@ -0,0 +1,91 @@
+/**
+ * Drift between the cloud environment variables of a project and the env file in its
+ * sandbox, where agents and terminals add and edit values without going through settings.
+ * Browser-safe: the settings app shows which keys have diverged.
+ */
+
+import type { EnvVarScope, ResolvedEnvVar } from './env-scopes';
+import { ENV_KEY_PATTERN, MAX_ENV_KEY_LENGTH, MAX_ENV_VALUE_LENGTH } from './dotenv';
+
+export interface EnvDrift {
+  path: string;                 // File compared, the project's first sync target
+  fileExists: boolean;
+  localOnly: string[];          // Set in the file but not in the cloud, e.g. by an agent
+  changed: Array<{              // Edited in the file
+    key: string;
+    source: EnvVarScope;        // Scope the cloud value comes from
+  }>;
+  missing: string[];            // In the cloud but not synced to the file yet
+}
+
+export interface EnvDriftPull {
+  project: Record<string, string>;
+  branch: Record<string, string>;
+  skipped: string[];            // Not storable as env vars, or not drifted
+}
+
+/**
+ * Compare the effective cloud variables of a project with the variables of its env file
+ */
+export function detectEnvDrift(
+  resolved: Record<string, ResolvedEnvVar>,
+  local: Record<string, string> | null,
+  path: string
+): EnvDrift {
+  const drift: EnvDrift = { path, fileExists: local !== null, localOnly: [], changed: [], missing: [] };
+  const localVars = local ?? {};
+
+  for (const [key, { value, source }] of Object.entries(resolved)) {
+    if (!(key in localVars)) {
+      drift.missing.push(key);
+    } else if (localVars[key] !== value) {
+      drift.changed.push({ key, source });
+    }
+  }
+  drift.localOnly = Object.keys(localVars).filter(key => !(key in resolved));
+
+  return drift;
+}
+
+/**
+ * Whether the file has values the cloud would lose on the next sync
+ */
+export function hasEnvDrift(drift: EnvDrift): boolean {
+  return drift.localOnly.length > 0 || drift.changed.length > 0;
+}
+
+/**
+ * Pick the local values to store in the cloud. Edits of branch overrides go back to the
+ * branch, so they are not shadowed again; everything else lands in the project scope,
+ * keeping sandbox values out of the variables every project inherits.
+ */
+export function planEnvDriftPull(
+  drift: EnvDrift,
+  local: Record<string, string>,
+  keys?: string[]
+): EnvDriftPull {
+  const sources = new Map<string, EnvVarScope | undefined>([
+    ...drift.localOnly.map(key => [key, undefined] as const),
+    ...drift.changed.map(({ key, source }) => [key, source] as const)
+  ]);
+  const pull: EnvDriftPull = { project: {}, branch: {}, skipped: [] };
+
+  for (const key of keys ?? [...sources.keys()]) {
+    const value = local[key];
+    if (
+      !sources.has(key) ||
+      value === undefined ||
+      !ENV_KEY_PATTERN.test(key) ||
+      key.length > MAX_ENV_KEY_LENGTH ||
+      value.length > MAX_ENV_VALUE_LENGTH
+    ) {
+      pull.skipped.push(key);
+    } else if (sources.get(key) === 'branch') {
+      pull.branch[key] = value;
+    } else {
+      pull.project[key] = value;
+    }
+  }
+
+  return pull;
+}
@@ -0,0 +1,98 @@
+/**
+ * Environment variable scopes - global variables inherited by every project, a
+ * project's own variables, and overrides for one branch of a project. Browser-safe:
+ * the settings app shows where each effective value comes from.
+ */
+
+import { GIT_REF_PATTERN } from './repository-clone';
+
+export type EnvVarScope = 'global' | 'project' | 'branch';
+
+export type EnvScope =
+  | { scope: 'global' }
+  | { scope: 'project' }
+  | { scope: 'branch'; branch: string };
+
+// Decrypted variables of each scope that applies to a project on a branch
+export interface EnvScopeLayers {
+  global?: Record<string, string>;
+  project?: Record<string, string>;
+  branch?: Record<string, string>;
+}
+
+export interface ResolvedEnvVar {
+  value: string;
+  source: EnvVarScope;
+  overrides: EnvVarScope[];   // Less specific scopes that also set the key
+}
+
+// Least to most specific; a more specific scope wins
+export const ENV_SCOPE_PRECEDENCE: EnvVarScope[] = ['global', 'project', 'branch'];
+
+export class EnvScopeError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: 'INVALID_SCOPE'
+  ) {
+    super(message);
+    this.name = 'EnvScopeError';
+  }
+
+  static isEnvScopeError(error: unknown): error is EnvScopeError {
+    return error instanceof EnvScopeError;
+  }
+}
+
+/**
+ * Validate the branch of branch scoped variables
+ */
+export function validateEnvBranch(branch: unknown): string {
+  if (typeof branch !== 'string' || !GIT_REF_PATTERN.test(branch) || branch.includes('..')) {
+    throw new EnvScopeError('A valid branch is required for branch scoped variables', 400, 'INVALID_SCOPE');
+  }
+  return branch;
+}
+
+/**
+ * Read the scope and branch query parameters of an env var request, the project by default
+ */
+export function parseEnvScope(params: URLSearchParams): EnvScope {
+  const scope = params.get('scope') || 'project';
+
+  if (scope === 'global' || scope === 'project') {
+    return { scope };
+  }
+  if (scope === 'branch') {
+    return { scope, branch: validateEnvBranch(params.get('branch')) };
+  }
+  throw new EnvScopeError(`Invalid scope: ${scope}. Expected global, project or branch.`, 400, 'INVALID_SCOPE');
+}
+
+/**
+ * Effective variables of a project on a branch: branch overrides beat project values,
+ * which beat global ones
+ */
+export function resolveEnvScopes(layers: EnvScopeLayers): Record<string, ResolvedEnvVar> {
+  const resolved: Record<string, ResolvedEnvVar> = {};
+
+  for (const scope of ENV_SCOPE_PRECEDENCE) {
+    for (const [key, value] of Object.entries(layers[scope] ?? {})) {
+      const previous = resolved[key];
+      resolved[key] = {
+        value,
+        source: scope,
+        overrides: previous ? [...previous.overrides, previous.source] : []
+      };
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Just the values of resolved variables
+ */
+export function getEnvValues(resolved: Record<string, ResolvedEnvVar>): Record<string, string> {
+  return Object.fromEntries(Object.entries(resolved).map(([key, { value }]) => [key, value]));
+}
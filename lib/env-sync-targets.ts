@@ -0,0 +1,141 @@
+/**
+ * Files an environment variable sync writes in a project, and the format of each:
+ * `.env.local` at the project root by default, or e.g. `apps/web/.env` in a monorepo.
+ * Browser-safe: the settings app validates targets before saving them.
+ */
+
+import { parseDotenv, serializeDotenv } from './dotenv';
+
+export type EnvTargetFormat = 'dotenv' | 'json' | 'shell';
+
+export interface EnvSyncTarget {
+  path: string;              // Relative to the project directory
+  format: EnvTargetFormat;
+}
+
+export const ENV_TARGET_FORMATS: Record<EnvTargetFormat, string> = {
+  dotenv: 'dotenv (KEY=value)',
+  json: 'JSON object',
+  shell: 'Shell (export KEY="value")'
+};
+
+export const DEFAULT_ENV_SYNC_TARGETS: EnvSyncTarget[] = [{ path: '.env.local', format: 'dotenv' }];
+
+export const MAX_ENV_SYNC_TARGETS = 10;
+const MAX_TARGET_PATH_LENGTH = 255;
+
+// Relative paths of plain segments; also keeps paths safe to quote in shell commands
+const TARGET_PATH_PATTERN = /^[A-Za-z0-9._@+-]+(\/[A-Za-z0-9._@+-]+)*$/;
+
+export class EnvSyncTargetError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: 'INVALID_TARGET' | 'INVALID_TARGET_FILE'
+  ) {
+    super(message);
+    this.name = 'EnvSyncTargetError';
+  }
+
+  static isEnvSyncTargetError(error: unknown): error is EnvSyncTargetError {
+    return error instanceof EnvSyncTargetError;
+  }
+}
+
+/**
+ * Validate the sync targets of a project, normalizing `./` prefixes
+ */
+export function validateEnvSyncTargets(targets: unknown): EnvSyncTarget[] {
+  if (!Array.isArray(targets) || targets.length === 0) {
+    throw new EnvSyncTargetError('At least one target file is required', 400, 'INVALID_TARGET');
+  }
+  if (targets.length > MAX_ENV_SYNC_TARGETS) {
+    throw new EnvSyncTargetError(`At most ${MAX_ENV_SYNC_TARGETS} target files are allowed`, 400, 'INVALID_TARGET');
+  }
+
+  const seen = new Set<string>();
+  return targets.map(target => {
+    const { path, format } = (target ?? {}) as Partial<EnvSyncTarget>;
+    const normalized = typeof path === 'string' ? path.trim().replace(/^(\.\/)+/, '') : '';
+
+    if (
+      !TARGET_PATH_PATTERN.test(normalized) ||
+      normalized.length > MAX_TARGET_PATH_LENGTH ||
+      normalized.split('/').some(segment => segment === '.' || segment === '..')
+    ) {
+      throw new EnvSyncTargetError(
+        `Invalid target path "${String(path)}": use a path relative to the project directory`,
+        400,
+        'INVALID_TARGET'
+      );
+    }
+    if (typeof format !== 'string' || !(format in ENV_TARGET_FORMATS)) {
+      throw new EnvSyncTargetError(`Invalid format for ${normalized}: use dotenv, json or shell`, 400, 'INVALID_TARGET');
+    }
+    if (seen.has(normalized)) {
+      throw new EnvSyncTargetError(`${normalized} is listed twice`, 400, 'INVALID_TARGET');
+    }
+    seen.add(normalized);
+
+    return { path: normalized, format: format as EnvTargetFormat };
+  });
+}
+
+/**
+ * Read the variables of an existing target file. Shell files keep only their
+ * assignments; JSON files must be a flat object, or merging would drop nested values.
+ */
+export function parseEnvTargetFile(content: string, target: EnvSyncTarget): Record<string, string> {
+  if (target.format !== 'json') {
+    return parseDotenv(content).variables;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = content.trim() ? JSON.parse(content) : {};
+  } catch {
+    throw new EnvSyncTargetError(`${target.path} is not valid JSON`, 422, 'INVALID_TARGET_FILE');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new EnvSyncTargetError(`${target.path} must contain a JSON object`, 422, 'INVALID_TARGET_FILE');
+  }
+
+  const variables: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (value !== null && typeof value === 'object') {
+      throw new EnvSyncTargetError(`${target.path} must be a flat object, but ${key} is nested`, 422, 'INVALID_TARGET_FILE');
+    }
+    variables[key] = String(value);
+  }
+  return variables;
+}
+
+/**
+ * Quote a value for a double quoted shell string, keeping newlines literal
+ */
+export function formatShellValue(value: string): string {
+  return `"${value.replace(/[\\"$`]/g, '\\$&')}"`;
+}
+
+/**
+ * Write variables in a target's format, under a comment header where the format has comments
+ */
+export function formatEnvTargetFile(variables: Record<string, string>, format: EnvTargetFormat, header?: string): string {
+  if (format === 'json') {
+    return JSON.stringify(variables, null, 2) + '\n';
+  }
+  if (format === 'dotenv') {
+    return serializeDotenv(variables, header);
+  }
+
+  const comment = header ? header.split('\n').map(line => `# ${line}`.trimEnd()).join('\n') + '\n\n' : '';
+  const lines = Object.entries(variables).map(([key, value]) => `export ${key}=${formatShellValue(value)}`);
+  return comment + lines.join('\n') + (lines.length > 0 ? '\n' : '');
+}
+
+/**
+ * Whether a target is the project root .env.local every project syncs to by default
+ */
+export function isDefaultEnvSyncTarget(target: EnvSyncTarget): boolean {
+  return target.path === '.env.local' && target.format === 'dotenv';
+}
@@ -4,6 +4,27 @@ import { signInWithCustomToken, User as FirebaseUser } from 'firebase/auth';
 import { doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore';
 import { auth, db } from './firebase';
 import type { UserResource } from '@clerk/types';
+import type { WorkspaceOptions } from './workspace-defaults';
+
+export interface FirebaseWorkspace {
+  id: string;
+  sandboxId: string;
+  name?: string;
+  repositories: Array<{
+    url: string;
+    name: string;
+    description?: string;
+    tech?: string;
+  }>;
+  status: 'creating' | 'running' | 'stopped' | 'error';
+  urls?: {
+    vscode: string;
+    terminal: string;
+    claude: string;
+  };
+  createdAt: unknown;
+  lastAccessedAt: unknown;
+}
 
 export interface FirebaseUserData {
   uid: string;
@@ -19,31 +40,16 @@ export interface FirebaseUserData {
   // AgentsOS specific data
   agentsOS?: {
     onboardingCompleted: boolean;
-    workspace?: {
-      id: string;
-      sandboxId: string;
-      name: string;
-      repositories: Array<{
-        url: string;
-        name: string;
-        description?: string;
-        tech?: string;
-      }>;
-      status: 'creating' | 'running' | 'stopped' | 'error';
-      urls?: {
-        vscode: string;
-        terminal: string;
-        claude: string;
-      };
-      createdAt: unknown;
-      lastAccessedAt: unknown;
-    };
+    workspace?: FirebaseWorkspace; // Legacy single workspace
+    workspaces?: Record<string, FirebaseWorkspace>; // Keyed by sandbox ID
+    activeSandboxId?: string;
     preferences: {
       theme: 'light' | 'dark' | 'system';
       setupDone?: boolean;
       githubReposEnabled?: boolean;
       githubRepos?: string[];
       wallpaper?: string;
+      workspaceDefaults?: WorkspaceOptions;  // Resources and image for new sandboxes
     };
     createdAt: unknown;
     lastAccessedAt: unknown;
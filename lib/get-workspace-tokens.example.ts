@@ -1,10 +1,11 @@
 /**
  * Example: How to access workspace tokens from Firebase
  * 
- * Tokens are now saved at: users/{userId}/agentsOS/workspace/repositories[].tokens
+ * Tokens are now saved at: users/{userId}/agentsOS/workspaces/{sandboxId}/repositories[].tokens
  */
 
 import { UserServiceAdmin } from './user-service-admin';
+import { WORKSPACE_SERVICES } from './workspace-constants';
 
 /**
  * Get tokens for a specific workspace and port
@@ -24,11 +25,9 @@ export async function getWorkspaceTokens(userId: string, sandboxId: string, port
     throw new Error('Workspace ID mismatch');
   }
   
-  // Find the repository with the matching port
-  const repository = workspace.repositories.find(repo => 
-    repo.ports.terminal === port || 
-    repo.ports.vscode === port || 
-    repo.ports.claude === port
+  // Find the repository and service (vscode, terminal or an agent) with the matching port
+  const repository = workspace.repositories.find(repo =>
+    WORKSPACE_SERVICES.some(service => repo.ports[service] === port)
   );
   
   if (!repository) {
@@ -36,16 +35,8 @@ export async function getWorkspaceTokens(userId: string, sandboxId: string, port
   }
   
   // Get the token for the specific service
-  let token: string | null = null;
-  if (repository.tokens) {
-    if (repository.ports.terminal === port) {
-      token = repository.tokens.terminal;
-    } else if (repository.ports.vscode === port) {
-      token = repository.tokens.vscode;
-    } else if (repository.ports.claude === port) {
-      token = repository.tokens.claude;
-    }
-  }
+  const service = WORKSPACE_SERVICES.find(candidate => repository.ports[candidate] === port);
+  const token = (service && repository.tokens?.[service]) ?? null;
   
   return {
     token,
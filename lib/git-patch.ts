@@ -0,0 +1,63 @@
+/**
+ * Helpers for working with unified diff patches produced by git
+ * Kept free of server dependencies so the Diff app can use them in the browser
+ */
+
+export interface PatchHunk {
+  index: number;
+  header: string;   // "@@ -a,b +c,d @@ ..." line
+  content: string;  // header line plus body lines
+}
+
+export interface ParsedPatch {
+  fileHeader: string; // "diff --git", "index", "---", "+++" lines
+  hunks: PatchHunk[];
+}
+
+/**
+ * Split a single-file patch into its file header and hunks
+ */
+export function parsePatch(patch: string): ParsedPatch {
+  const lines = patch.split('\n');
+  const headerLines: string[] = [];
+  const hunks: PatchHunk[] = [];
+  let current: string[] | null = null;
+
+  const flush = () => {
+    if (current) {
+      hunks.push({ index: hunks.length, header: current[0], content: current.join('\n') });
+    }
+  };
+
+  for (const line of lines) {
+    if (line.startsWith('@@')) {
+      flush();
+      current = [line];
+    } else if (current) {
+      current.push(line);
+    } else {
+      headerLines.push(line);
+    }
+  }
+  flush();
+
+  // Trailing empty line from the final newline belongs to no hunk
+  const last = hunks[hunks.length - 1];
+  if (last && last.content.endsWith('\n')) {
+    last.content = last.content.replace(/\n+$/, '');
+  }
+
+  return { fileHeader: headerLines.join('\n'), hunks };
+}
+
+/**
+ * Build a patch containing only one hunk, suitable for `git apply --cached`
+ */
+export function buildHunkPatch(patch: string, hunkIndex: number): string | null {
+  const { fileHeader, hunks } = parsePatch(patch);
+  const hunk = hunks[hunkIndex];
+  if (!fileHeader.trim() || !hunk) {
+    return null;
+  }
+  return `${fileHeader}\n${hunk.content}\n`;
+}
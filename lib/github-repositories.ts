@@ -0,0 +1,307 @@
+/**
+ * GitHub repository browser
+ * Searches and pages through the repositories of the sandbox's GitHub account and its
+ * organizations with the GitHub CLI, most recently active first
+ */
+
+import type { Sandbox } from '@daytonaio/sdk';
+import { shellQuote } from './workspace-git';
+
+export interface GitHubRepository {
+  name: string;
+  fullName: string;
+  owner: string;
+  description: string | null;
+  isPrivate: boolean;
+  language: string | null;
+  updatedAt: string;      // Last push, falling back to the last metadata update
+}
+
+export type GitHubRepositorySort = 'activity' | 'name';
+
+export interface GitHubRepositoryQuery {
+  search: string;         // Matched against names and descriptions; empty lists everything
+  owner: string | null;   // A user or organization login; null for every account the user belongs to
+  sort: GitHubRepositorySort;
+  page: number;
+  perPage: number;
+}
+
+export interface GitHubAccount {
+  login: string;
+  organizations: string[];
+}
+
+export interface GitHubRepositoryPage {
+  repositories: GitHubRepository[];
+  total: number | null;   // Only known for searches
+  hasNextPage: boolean;
+}
+
+export const DEFAULT_REPOSITORIES_PER_PAGE = 30;
+export const MAX_REPOSITORIES_PER_PAGE = 100;
+export const MAX_SEARCH_LENGTH = 256;
+
+// GitHub only returns the first 1000 results of a search
+const MAX_SEARCH_RESULTS = 1000;
+
+// GitHub rejects longer search queries, and more than 5 AND/OR/NOT operators, which
+// user: and org: qualifiers are joined with
+const MAX_SEARCH_QUERY_LENGTH = 256;
+const MAX_SEARCH_SCOPES = 5;
+
+const LOGIN_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/;
+
+export type GitHubRepositoryErrorCode =
+  | 'INVALID_QUERY'
+  | 'GITHUB_AUTH_REQUIRED'
+  | 'OWNER_NOT_FOUND'
+  | 'GITHUB_REQUEST_FAILED';
+
+export class GitHubRepositoryError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: GitHubRepositoryErrorCode,
+    public details?: string
+  ) {
+    super(message);
+    this.name = 'GitHubRepositoryError';
+  }
+
+  static isGitHubRepositoryError(error: unknown): error is GitHubRepositoryError {
+    return error instanceof GitHubRepositoryError;
+  }
+}
+
+function parseInteger(value: string | null, name: string, fallback: number, max: number): number {
+  if (value === null || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1 || number > max) {
+    throw new GitHubRepositoryError(`${name} must be a whole number from 1 to ${max}`, 400, 'INVALID_QUERY');
+  }
+  return number;
+}
+
+/**
+ * Validate the q, owner, sort, page and perPage query parameters of a repository listing
+ */
+export function parseRepositoryQuery(params: URLSearchParams): GitHubRepositoryQuery {
+  const search = (params.get('q') ?? '').trim();
+  if (search.length > MAX_SEARCH_LENGTH) {
+    throw new GitHubRepositoryError(`q must be at most ${MAX_SEARCH_LENGTH} characters`, 400, 'INVALID_QUERY');
+  }
+
+  const owner = params.get('owner') || null;
+  if (owner !== null && !LOGIN_PATTERN.test(owner)) {
+    throw new GitHubRepositoryError(`Invalid owner: ${owner}`, 400, 'INVALID_QUERY');
+  }
+
+  const sort = params.get('sort') || 'activity';
+  if (sort !== 'activity' && sort !== 'name') {
+    throw new GitHubRepositoryError('sort must be activity or name', 400, 'INVALID_QUERY');
+  }
+
+  const perPage = parseInteger(params.get('perPage'), 'perPage', DEFAULT_REPOSITORIES_PER_PAGE, MAX_REPOSITORIES_PER_PAGE);
+  const page = parseInteger(params.get('page'), 'page', 1, Math.ceil(MAX_SEARCH_RESULTS / perPage));
+
+  return { search, owner, sort, page, perPage };
+}
+
+/**
+ * Search query for the owner, or for the user and their organizations; null when GitHub
+ * would reject it, for users in many organizations
+ */
+function getSearchQuery(search: string, owner: string | null, account: GitHubAccount): string | null {
+  const scope = owner
+    ? [`user:${owner}`]
+    : [`user:${account.login}`, ...account.organizations.map(organization => `org:${organization}`)];
+  const q = [search, ...scope, 'fork:true'].join(' ');
+  return owner || (scope.length <= MAX_SEARCH_SCOPES && q.length <= MAX_SEARCH_QUERY_LENGTH) ? q : null;
+}
+
+/**
+ * Whether a search can't run on GitHub and filters every repository of the user instead
+ */
+export function isFilteredSearch(query: GitHubRepositoryQuery, account: GitHubAccount): boolean {
+  return !!query.search && getSearchQuery(query.search, query.owner, account) === null;
+}
+
+/**
+ * GitHub API path for a page of repositories. Searches are scoped to the owner, or to
+ * the user and their organizations; listings without a search use the repository
+ * endpoints, which also include repositories the user collaborates on. A filtered search
+ * lists every page of the repositories the search would cover.
+ */
+export function getRepositoryListPath(query: GitHubRepositoryQuery, account: GitHubAccount): string {
+  const { search, owner, sort, page, perPage } = query;
+  const paging = `per_page=${perPage}&page=${page}`;
+  const order = sort === 'activity' ? 'sort=pushed&direction=desc' : 'sort=full_name&direction=asc';
+
+  if (search) {
+    const q = getSearchQuery(search, owner, account);
+    if (q === null) {
+      return `user/repos?affiliation=owner,organization_member&${order}&per_page=${MAX_REPOSITORIES_PER_PAGE}`;
+    }
+    // Searches can't be sorted by name, so those keep GitHub's best match order
+    return `search/repositories?q=${encodeURIComponent(q)}${sort === 'activity' ? '&sort=updated&order=desc' : ''}&${paging}`;
+  }
+
+  if (!owner) {
+    return `user/repos?affiliation=owner,collaborator,organization_member&${order}&${paging}`;
+  }
+  if (owner.toLowerCase() === account.login.toLowerCase()) {
+    return `user/repos?affiliation=owner&${order}&${paging}`;
+  }
+  if (account.organizations.some(organization => organization.toLowerCase() === owner.toLowerCase())) {
+    return `orgs/${owner}/repos?type=all&${order}&${paging}`;
+  }
+  // Anyone else's public repositories
+  return `users/${owner}/repos?type=owner&${order}&${paging}`;
+}
+
+interface GitHubAPIRepository {
+  name: string;
+  full_name: string;
+  owner: { login: string };
+  description: string | null;
+  private: boolean;
+  language: string | null;
+  pushed_at: string | null;
+  updated_at: string;
+}
+
+function toRepository(repo: GitHubAPIRepository): GitHubRepository {
+  return {
+    name: repo.name,
+    fullName: repo.full_name,
+    owner: repo.owner.login,
+    description: repo.description || null,
+    isPrivate: repo.private,
+    language: repo.language || null,
+    updatedAt: repo.pushed_at ?? repo.updated_at
+  };
+}
+
+/**
+ * Parse the JSON output of a repository listing or search
+ */
+export function parseRepositoryPage(output: string, query: GitHubRepositoryQuery): GitHubRepositoryPage {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch {
+    throw new GitHubRepositoryError('GitHub returned an unexpected response', 502, 'GITHUB_REQUEST_FAILED', output.trim().slice(0, 500));
+  }
+
+  const isSearch = !Array.isArray(parsed);
+  const items = isSearch ? (parsed as { items?: GitHubAPIRepository[] }).items : parsed as GitHubAPIRepository[];
+  if (!Array.isArray(items)) {
+    throw new GitHubRepositoryError('GitHub returned an unexpected response', 502, 'GITHUB_REQUEST_FAILED');
+  }
+
+  const repositories = items.map(toRepository);
+
+  if (isSearch) {
+    const total = (parsed as { total_count?: number }).total_count ?? repositories.length;
+    return {
+      repositories,
+      total,
+      hasNextPage: query.page * query.perPage < Math.min(total, MAX_SEARCH_RESULTS)
+    };
+  }
+
+  // Listings don't report a total; a full page means there may be another
+  return { repositories, total: null, hasNextPage: repositories.length === query.perPage };
+}
+
+/**
+ * Search every repository of a filtered search (one JSON repository per line) for the
+ * words of the query in names and descriptions, and page the matches
+ */
+export function filterRepositoryPage(output: string, query: GitHubRepositoryQuery): GitHubRepositoryPage {
+  let items: GitHubAPIRepository[];
+  try {
+    items = output.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  } catch {
+    throw new GitHubRepositoryError('GitHub returned an unexpected response', 502, 'GITHUB_REQUEST_FAILED', output.trim().slice(0, 500));
+  }
+
+  const words = query.search.toLowerCase().split(/\s+/);
+  const matches = items.map(toRepository).filter(repo => {
+    const text = `${repo.fullName} ${repo.description ?? ''}`.toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+  const start = (query.page - 1) * query.perPage;
+
+  return {
+    repositories: matches.slice(start, start + query.perPage),
+    total: matches.length,
+    hasNextPage: start + query.perPage < matches.length
+  };
+}
+
+/**
+ * Turn the output of a failed gh api call into a structured error
+ */
+export function classifyGitHubError(output: string): GitHubRepositoryError {
+  const details = output.trim().slice(0, 500);
+
+  if (/gh auth login|not logged in|HTTP 401|Bad credentials/i.test(output)) {
+    return new GitHubRepositoryError(
+      'GitHub authentication required',
+      401,
+      'GITHUB_AUTH_REQUIRED',
+      'Please authenticate with GitHub CLI first using: gh auth login'
+    );
+  }
+  if (/HTTP 404/.test(output)) {
+    return new GitHubRepositoryError('GitHub user or organization not found', 404, 'OWNER_NOT_FOUND', details);
+  }
+  if (/HTTP 422/.test(output)) {
+    return new GitHubRepositoryError('GitHub could not run this search', 400, 'INVALID_QUERY', details);
+  }
+  return new GitHubRepositoryError('Failed to fetch GitHub repositories', 502, 'GITHUB_REQUEST_FAILED', details);
+}
+
+export class GitHubRepositories {
+  constructor(
+    private sandbox: Sandbox,
+    private rootDir: string
+  ) {}
+
+  /**
+   * The authenticated user's login and the organizations they belong to
+   */
+  async getAccount(): Promise<GitHubAccount> {
+    const output = await this.api(`gh api user --jq .login && gh api user/orgs --paginate --jq '.[].login'`);
+    const [login, ...organizations] = output.split('\n').map(line => line.trim()).filter(Boolean);
+    if (!login) {
+      throw classifyGitHubError(output);
+    }
+    return { login, organizations };
+  }
+
+  /**
+   * One page of repositories matching the query
+   */
+  async list(query: GitHubRepositoryQuery, account: GitHubAccount): Promise<GitHubRepositoryPage> {
+    const path = shellQuote(getRepositoryListPath(query, account));
+    if (isFilteredSearch(query, account)) {
+      const output = await this.api(`gh api ${path} --paginate --jq '.[] | @json'`);
+      return filterRepositoryPage(output, query);
+    }
+
+    const output = await this.api(`gh api ${path}`);
+    return parseRepositoryPage(output, query);
+  }
+
+  private async api(command: string): Promise<string> {
+    // gh prints the reason for a failed request to stderr
+    const response = await this.sandbox.process.executeCommand(`(${command}) 2>&1`, this.rootDir);
+    if (response.exitCode !== 0) {
+      throw classifyGitHubError(response.result);
+    }
+    return response.result;
+  }
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { CheckCircle, XCircle, AlertCircle, RefreshCw, Activity } from 'lucide-react';
 import type { ServiceStatus, HealthCheckResponse } from '../types/health';
+import { SUPERVISOR_RESTART_WINDOW_MS } from './service-supervisor';
 
 export const getHealthIcon = (
   sandboxId: string | null,
@@ -85,4 +86,13 @@ export const getServiceIcon = (service: ServiceStatus): React.ReactElement => {
   } else {
     return <AlertCircle className="h-3 w-3 text-amber-500" />;
   }
-};
\ No newline at end of file
+};
+
+// e.g. "restarted 3 times in 10 min", null when the supervisor has not restarted it recently
+export const getRestartText = (service: ServiceStatus): string | null => {
+  const recent = service.restarts?.recent ?? 0;
+  if (recent === 0) {
+    return null;
+  }
+  return `restarted ${recent} ${recent === 1 ? 'time' : 'times'} in ${SUPERVISOR_RESTART_WINDOW_MS / 60000} min`;
+};
@@ -1,22 +1,216 @@
 /**
- * Simple port manager for multi-repository workspaces
+ * Port manager for multi-repository workspaces
+ *
+ * Ports start out slot-based (base + slot per service). Assignments are stored on
+ * each repository in Firestore; when a port collides with another assignment or is
+ * bound by a foreign process in the sandbox it is reassigned from DYNAMIC_PORT_RANGE.
  */
 
-import { Repository } from '@/types/workspace';
+import type { Sandbox } from '@daytonaio/sdk';
+import { Repository, ServicePorts } from '@/types/workspace';
+import {
+  SERVICE_PORT_RANGES,
+  WORKSPACE_SERVICES,
+  MAX_SLOT_PORTS,
+  DYNAMIC_PORT_RANGE,
+  CUSTOM_TERMINAL_PORT_RANGE,
+  type WorkspaceService
+} from './workspace-constants';
+
+export interface PortRange {
+  start: number;
+  end: number;
+}
+
+export interface ListeningProcess {
+  port: number;
+  pid: number | null;
+  command: string | null;
+}
+
+export interface PortReassignment {
+  repository: string;
+  service: WorkspaceService | `custom:${string}`;
+  from: number | null;   // null when the port was missing
+  to: number;
+  reason: 'missing' | 'duplicate' | 'bound';
+}
+
+// ttyd and code-server are the only listeners the workspace starts itself
+const WORKSPACE_PROCESS_PATTERN = /\bttyd\b|code-server/;
+
+/**
+ * Parse `ss -ltnpH` (or `netstat -ltnp`) output followed by `ps -eo pid=,args=`,
+ * separated by a line containing only `---`
+ */
+export function parseListeningProcesses(output: string): Map<number, ListeningProcess> {
+  const [socketOutput = '', processOutput = ''] = output.split(/^---$/m);
+
+  const commands = new Map<number, string>();
+  for (const line of processOutput.split('\n')) {
+    const match = line.trim().match(/^(\d+)\s+(.+)$/);
+    if (match) commands.set(Number(match[1]), match[2]);
+  }
+
+  const listeners = new Map<number, ListeningProcess>();
+  for (const line of socketOutput.split('\n')) {
+    const fields = line.trim().split(/\s+/);
+    // Local address is the 4th column in both ss and netstat output
+    if (fields.length < 4 || !/^(LISTEN|tcp)/.test(fields[0])) continue;
+
+    const port = Number(fields[3].match(/:(\d+)$/)?.[1]);
+    if (!port || listeners.has(port)) continue;
+
+    const pidMatch = line.match(/pid=(\d+)/) || line.match(/\s(\d+)\/\S+\s*$/);
+    const pid = pidMatch ? Number(pidMatch[1]) : null;
+    listeners.set(port, { port, pid, command: pid !== null ? commands.get(pid) ?? null : null });
+  }
+
+  return listeners;
+}
+
+/**
+ * A listener only conflicts when it is known to be something other than ttyd/code-server
+ */
+export function isForeignListener(listener: ListeningProcess | undefined): boolean {
+  return !!listener?.command && !WORKSPACE_PROCESS_PATTERN.test(listener.command);
+}
 
 export class PortManager {
   /**
    * Calculate ports for a repository slot
-   * Slot 0 = default (8080, 10000, 4000, 5000)
-   * Slot N = (8080+N, 10000+N, 4000+N, 5000+N)
+   * Slot 0 = default (base port of every service, e.g. 8080, 10000, 4000, 5000)
+   * Slot N = (base+N for every service)
    */
-  static getPortsForSlot(slot: number) {
-    return {
-      vscode: 8080 + slot,
-      terminal: 10000 + slot,
-      claude: 4000 + slot,
-      gemini: 5000 + slot,
+  static getPortsForSlot(slot: number): ServicePorts {
+    return Object.fromEntries(
+      WORKSPACE_SERVICES.map(service => [service, SERVICE_PORT_RANGES[service] + slot])
+    ) as ServicePorts;
+  }
+
+  /**
+   * Every port assigned to a service or custom terminal in the workspace
+   */
+  static getAssignedPorts(repositories: Repository[]): Set<number> {
+    const ports = new Set<number>();
+    for (const repo of repositories) {
+      for (const service of WORKSPACE_SERVICES) {
+        if (repo.ports?.[service]) ports.add(repo.ports[service]);
+      }
+      for (const terminal of repo.customTerminals ?? []) {
+        ports.add(terminal.port);
+      }
+    }
+    return ports;
+  }
+
+  /**
+   * First port in the range that is not in `unavailable`
+   */
+  static findFreePort(unavailable: Set<number>, range: PortRange = DYNAMIC_PORT_RANGE): number {
+    for (let port = range.start; port <= range.end; port++) {
+      if (!unavailable.has(port)) return port;
+    }
+    throw new Error(`No free port available in range ${range.start}-${range.end}`);
+  }
+
+  /**
+   * Slot-based ports where possible, dynamic ports for slots past MAX_SLOT_PORTS
+   * or ports that are already taken. Allocated ports are added to `unavailable`.
+   */
+  static allocatePorts(slot: number, unavailable: Set<number>): ServicePorts {
+    const preferred = this.getPortsForSlot(slot);
+    const ports = {} as ServicePorts;
+
+    for (const service of WORKSPACE_SERVICES) {
+      const port = slot < MAX_SLOT_PORTS && !unavailable.has(preferred[service])
+        ? preferred[service]
+        : this.findFreePort(unavailable);
+      ports[service] = port;
+      unavailable.add(port);
+    }
+
+    return ports;
+  }
+
+  /**
+   * Ports currently listening in the sandbox and the processes bound to them
+   */
+  static async getListeningProcesses(sandbox: Sandbox, rootDir?: string): Promise<Map<number, ListeningProcess>> {
+    const result = await sandbox.process.executeCommand(
+      `(ss -ltnpH 2>/dev/null || netstat -ltnp 2>/dev/null); echo '---'; ps -eo pid=,args=`,
+      rootDir
+    );
+    return parseListeningProcesses(result.result || '');
+  }
+
+  /**
+   * Give every service and custom terminal a port that is present, unique across the
+   * workspace and not bound by a foreign process. Repositories are processed in the
+   * given order, so earlier repositories keep contested ports.
+   */
+  static resolvePortConflicts(
+    repositories: Repository[],
+    listeners: Map<number, ListeningProcess>
+  ): { repositories: Repository[]; reassignments: PortReassignment[] } {
+    const reassignments: PortReassignment[] = [];
+    const foreignPorts = new Set([...listeners.values()].filter(isForeignListener).map(listener => listener.port));
+    const claimed = new Set<number>();
+
+    // Ports are reassigned only once every valid assignment has been claimed
+    const needsPort = (port: number | undefined): PortReassignment['reason'] | null => {
+      if (!port) return 'missing';
+      if (claimed.has(port)) return 'duplicate';
+      if (foreignPorts.has(port)) return 'bound';
+      return null;
     };
+
+    const pending: Array<() => void> = [];
+    const resolved = repositories.map((repo, slot) => {
+      const ports = { ...repo.ports } as ServicePorts;
+      const customTerminals = repo.customTerminals?.map(terminal => ({ ...terminal }));
+
+      for (const service of WORKSPACE_SERVICES) {
+        const reason = needsPort(ports[service]);
+        if (!reason) {
+          claimed.add(ports[service]);
+          continue;
+        }
+
+        pending.push(() => {
+          const from = ports[service] || null;
+          const preferred = this.getPortsForSlot(slot)[service];
+          // Missing ports (older workspaces) keep the slot-based default when it is free
+          const to = reason === 'missing' && slot < MAX_SLOT_PORTS && !claimed.has(preferred) && !foreignPorts.has(preferred)
+            ? preferred
+            : this.findFreePort(new Set([...claimed, ...foreignPorts, ...listeners.keys()]));
+          ports[service] = to;
+          claimed.add(to);
+          reassignments.push({ repository: repo.name, service, from, to, reason });
+        });
+      }
+
+      for (const terminal of customTerminals ?? []) {
+        const reason = needsPort(terminal.port);
+        if (!reason) {
+          claimed.add(terminal.port);
+          continue;
+        }
+
+        pending.push(() => {
+          const to = this.findFreePort(new Set([...claimed, ...foreignPorts, ...listeners.keys()]), CUSTOM_TERMINAL_PORT_RANGE);
+          reassignments.push({ repository: repo.name, service: `custom:${terminal.id}`, from: terminal.port || null, to, reason });
+          terminal.port = to;
+          claimed.add(to);
+        });
+      }
+
+      return { ...repo, ports, ...(customTerminals && { customTerminals }) };
+    });
+
+    pending.forEach(reassign => reassign());
+
+    return { repositories: resolved, reassignments };
   }
 
   /**
@@ -34,4 +228,4 @@ export class PortManager {
   }
 }
 
-export default PortManager;
\ No newline at end of file
+export default PortManager;
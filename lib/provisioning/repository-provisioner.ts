@@ -4,27 +4,59 @@
  * Handles automated Git repository cloning within Daytona workspaces.
  * Clones repositories into the workspace's /projects directory with support for:
  * - GitHub repository URLs (various formats)
+ * - Branch, tag or commit checkout, shallow clones and submodules
  * - Duplicate detection and skipping
  * - Fallback from gh CLI to git clone
  * - Detailed progress tracking and error handling
+ * - Applying the repository's own agentsos.yaml (setup commands, VSCode extensions, recommended agents)
  * 
  * Used during workspace creation to set up user's repositories.
  */
 
 import { Daytona, type Sandbox } from '@daytonaio/sdk';
 import { Logger } from '@/lib/logger';
+import type { AgentId } from '@/lib/agent-registry';
+import {
+  REPOSITORY_CONFIG_FILES,
+  parseRepositoryConfig,
+  type ManifestCommand,
+  type RepositoryConfig
+} from '@/lib/workspace-manifest';
+import { getCloneFlags, getPostCloneCommand, type RepositoryCloneSpec } from '@/lib/repository-clone';
+
+// Dependency installs like `npm ci` on a large repository
+const SETUP_COMMAND_TIMEOUT_SECONDS = 15 * 60;
+
+/**
+ * What a repository's agentsos.yaml asked for and how applying it went
+ * Commands and env var names are saved on the workspace by the caller
+ */
+export interface RepositoryConfigOutcome {
+  file: string;
+  status: 'applied' | 'failed' | 'invalid';
+  setup: Array<{ command: string; success: boolean }>;
+  commands: ManifestCommand[];
+  env: string[];
+  agents: AgentId[];   // Recommended agents, reported to the user
+  extensions: { installed: string[]; failed: string[] };
+  error?: string;
+}
+
+export interface RepositoryProvisionDetail {
+  repository: string;
+  status: 'cloned' | 'skipped' | 'failed';
+  reason?: string;
+  path?: string;
+  branch?: string;                    // Requested branch, saved on the workspace repository
+  config?: RepositoryConfigOutcome;   // Only for cloned repositories with an agentsos.yaml
+}
 
 export interface RepositoryProvisionResult {
   success: boolean;
   cloned: number;
   skipped: number;
   failed: number;
-  details: Array<{
-    repository: string;
-    status: 'cloned' | 'skipped' | 'failed';
-    reason?: string;
-    path?: string;
-  }>;
+  details: RepositoryProvisionDetail[];
 }
 
 export class RepositoryProvisioner {
@@ -40,7 +72,7 @@ export class RepositoryProvisioner {
     this.logger = Logger.create('RepositoryProvisioner');
   }
   
-  async provision(repositories: string[]): Promise<RepositoryProvisionResult> {
+  async provision(repositories: RepositoryCloneSpec[]): Promise<RepositoryProvisionResult> {
     const result: RepositoryProvisionResult = {
       success: true,
       cloned: 0,
@@ -61,8 +93,8 @@ export class RepositoryProvisioner {
       await this.ensureProjectsDirectory();
       
       // Process each repository
-      for (const repoUrl of repositories) {
-        const repoResult = await this.cloneRepository(repoUrl);
+      for (const repository of repositories) {
+        const repoResult = await this.cloneRepository(repository);
         result.details.push(repoResult);
         
         switch (repoResult.status) {
@@ -130,12 +162,8 @@ export class RepositoryProvisioner {
     this.logger.debug('Projects directory ensured', { path: projectsDir });
   }
   
-  private async cloneRepository(repoUrl: string): Promise<{
-    repository: string;
-    status: 'cloned' | 'skipped' | 'failed';
-    reason?: string;
-    path?: string;
-  }> {
+  private async cloneRepository(spec: RepositoryCloneSpec): Promise<RepositoryProvisionDetail> {
+    const repoUrl = spec.url;
     if (!this.sandbox || !this.rootDir) {
       return {
         repository: repoUrl,
@@ -175,7 +203,8 @@ export class RepositoryProvisioner {
       }
       
       // Clone the repository
-      this.logger.info('Cloning repository', { repository: repoUrl });
+      this.logger.info('Cloning repository', { repository: repoUrl, ...spec });
+      const flags = getCloneFlags(spec).join(' ');
       
       // Build the clone URL
       const cloneUrl = repoUrl.includes('github.com') 
@@ -183,7 +212,7 @@ export class RepositoryProvisioner {
         : `https://github.com/${repoUrl}.git`;
       
       const cloneResult = await this.sandbox.process.executeCommand(
-        `cd "${this.rootDir}/projects" && gh repo clone "${repoUrl}" "${repoName}"`,
+        `cd "${this.rootDir}/projects" && gh repo clone "${repoUrl}" "${repoName}"${flags && ` -- ${flags}`}`,
         this.rootDir
       );
       
@@ -192,7 +221,7 @@ export class RepositoryProvisioner {
         this.logger.warn('gh clone failed, trying git clone', { repository: repoUrl });
         
         const gitCloneResult = await this.sandbox.process.executeCommand(
-          `cd "${this.rootDir}/projects" && git clone "${cloneUrl}" "${repoName}"`,
+          `cd "${this.rootDir}/projects" && git clone${flags && ` ${flags}`} "${cloneUrl}" "${repoName}"`,
           this.rootDir
         );
         
@@ -210,16 +239,28 @@ export class RepositoryProvisioner {
       if (verifyResult.result.trim() !== 'SUCCESS') {
         throw new Error('Repository clone verification failed');
       }
+
+      const postCloneCommand = getPostCloneCommand(spec);
+      if (postCloneCommand) {
+        const postCloneResult = await this.sandbox.process.executeCommand(postCloneCommand, repoPath);
+        if (postCloneResult.exitCode !== 0) {
+          throw new Error(`Checkout failed: ${postCloneResult.result}`);
+        }
+      }
       
       this.logger.success('Repository cloned successfully', { 
         repository: repoUrl,
         path: repoPath 
       });
       
+      const config = await this.applyRepositoryConfig(repoPath);
+      
       return {
         repository: repoUrl,
         status: 'cloned',
-        path: repoPath
+        path: repoPath,
+        ...(spec.branch && { branch: spec.branch }),
+        ...(config && { config })
       };
       
     } catch (error) {
@@ -236,6 +277,63 @@ export class RepositoryProvisioner {
     }
   }
   
+  /**
+   * Run the setup commands and install the extensions of the repository's agentsos.yaml, if it has one
+   * A broken config never fails the clone, it is reported in the outcome instead
+   */
+  private async applyRepositoryConfig(repoPath: string): Promise<RepositoryConfigOutcome | null> {
+    if (!this.sandbox) return null;
+    
+    const files = REPOSITORY_CONFIG_FILES.map(file => `"${file}"`).join(' ');
+    const found = await this.sandbox.process.executeCommand(
+      `for f in ${files}; do if [ -f "$f" ]; then echo "$f"; cat "$f"; exit 0; fi; done; exit 1`,
+      repoPath
+    );
+    if (found.exitCode !== 0) return null;
+    
+    const [file, ...lines] = found.result.split('\n');
+    const outcome: RepositoryConfigOutcome = {
+      file: file.trim(),
+      status: 'applied',
+      setup: [],
+      commands: [],
+      env: [],
+      agents: [],
+      extensions: { installed: [], failed: [] }
+    };
+    
+    let config: RepositoryConfig;
+    try {
+      config = parseRepositoryConfig(lines.join('\n'));
+    } catch (error) {
+      this.logger.warn('Ignoring invalid repository config', { path: repoPath, error });
+      return { ...outcome, status: 'invalid', error: error instanceof Error ? error.message : String(error) };
+    }
+    
+    const { setup, extensions, ...declared } = config;
+    Object.assign(outcome, declared);
+    
+    // Later setup commands usually depend on earlier ones, so stop at the first failure
+    for (const command of setup) {
+      this.logger.info('Running repository setup command', { path: repoPath, command });
+      const result = await this.sandbox.process.executeCommand(command, repoPath, undefined, SETUP_COMMAND_TIMEOUT_SECONDS);
+      outcome.setup.push({ command, success: result.exitCode === 0 });
+      if (result.exitCode !== 0) {
+        outcome.status = 'failed';
+        outcome.error = `Setup command failed: ${command}`;
+        break;
+      }
+    }
+    
+    for (const extension of extensions) {
+      const result = await this.sandbox.process.executeCommand(`code-server --install-extension ${extension}`, repoPath);
+      outcome.extensions[result.exitCode === 0 ? 'installed' : 'failed'].push(extension);
+    }
+    
+    this.logger.success('Repository config applied', { path: repoPath, file: outcome.file, status: outcome.status });
+    return outcome;
+  }
+  
   private extractRepoName(repoUrl: string): string {
     // Handle various URL formats
     // owner/repo -> repo
@@ -0,0 +1,137 @@
+/**
+ * Repository clone options - which ref to check out, how much history and whether to
+ * fetch submodules. Browser-safe: the setup wizard validates with the same rules as
+ * the provision API.
+ */
+
+// Branch and tag names, passed to git double-quoted
+export const GIT_REF_PATTERN = /^(?!-)[A-Za-z0-9._/-]+$/;
+
+// owner/repo or a clone URL, passed to gh/git double-quoted
+const CLONE_URL_PATTERN = /^[^\s"'`$\\]+$/;
+const COMMIT_PATTERN = /^[0-9a-f]{7,40}$/i;
+const FULL_COMMIT_PATTERN = /^[0-9a-f]{40}$/i;
+
+export const MAX_CLONE_DEPTH = 10000;
+
+export interface RepositoryCloneSpec {
+  url: string;             // owner/repo or a clone URL
+  branch?: string;         // At most one of branch, tag and commit; the default branch when none is set
+  tag?: string;
+  commit?: string;
+  depth?: number;          // Shallow clone with this many commits
+  submodules?: boolean;    // Initialize submodules recursively, always with full history
+}
+
+export class RepositoryCloneError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: 'INVALID_CLONE_OPTIONS'
+  ) {
+    super(message);
+    this.name = 'RepositoryCloneError';
+  }
+
+  static isRepositoryCloneError(error: unknown): error is RepositoryCloneError {
+    return error instanceof RepositoryCloneError;
+  }
+}
+
+function invalid(message: string): never {
+  throw new RepositoryCloneError(`Invalid clone options: ${message}`, 400, 'INVALID_CLONE_OPTIONS');
+}
+
+/**
+ * Validate a repository to clone, accepting a plain URL for the default branch
+ */
+export function validateCloneSpec(value: unknown): RepositoryCloneSpec {
+  if (typeof value === 'string') {
+    value = { url: value };
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    invalid('expected a repository URL or an object with a url');
+  }
+
+  const { url, branch, tag, commit, depth, submodules } = value as Record<string, unknown>;
+  if (typeof url !== 'string' || !url.trim() || !CLONE_URL_PATTERN.test(url.trim())) {
+    invalid('url must be owner/repo or a clone URL');
+  }
+
+  const refs = { branch, tag, commit };
+  const setRefs = Object.entries(refs).filter(([, ref]) => ref !== undefined && ref !== '');
+  if (setRefs.length > 1) {
+    invalid(`${url}: choose one of branch, tag or commit`);
+  }
+  for (const [name, ref] of setRefs) {
+    const pattern = name === 'commit' ? COMMIT_PATTERN : GIT_REF_PATTERN;
+    if (typeof ref !== 'string' || !pattern.test(ref)) {
+      invalid(`${url}: ${ref} is not a valid ${name}`);
+    }
+  }
+
+  if (depth !== undefined && (!Number.isInteger(depth) || (depth as number) < 1 || (depth as number) > MAX_CLONE_DEPTH)) {
+    invalid(`${url}: depth must be a whole number between 1 and ${MAX_CLONE_DEPTH}`);
+  }
+  // Servers only hand out commits by their full hash, a shallow clone can't resolve a short one
+  if (depth !== undefined && typeof commit === 'string' && commit && !FULL_COMMIT_PATTERN.test(commit)) {
+    invalid(`${url}: shallow clones of a commit need its full 40 character hash`);
+  }
+  if (submodules !== undefined && typeof submodules !== 'boolean') {
+    invalid(`${url}: submodules must be true or false`);
+  }
+
+  const [ref] = setRefs as Array<[keyof typeof refs, string]>;
+  return {
+    url: url.trim(),
+    ...(ref && { [ref[0]]: ref[1] }),
+    ...(depth !== undefined && { depth: depth as number }),
+    ...(submodules && { submodules })
+  };
+}
+
+/**
+ * Extra `git clone` flags; gh repo clone takes them after `--`
+ */
+export function getCloneFlags(spec: RepositoryCloneSpec): string[] {
+  const ref = spec.branch ?? spec.tag;
+  return [
+    ...(ref ? [`--branch "${ref}"`] : []),
+    ...(spec.commit ? ['--no-checkout'] : []),
+    ...(spec.depth ? [`--depth ${spec.depth}`] : [])
+  ];
+}
+
+/**
+ * Command to run inside the fresh clone to check out a commit and fetch submodules, if any
+ */
+export function getPostCloneCommand(spec: RepositoryCloneSpec): string | null {
+  const commands: string[] = [];
+
+  if (spec.commit) {
+    commands.push(spec.depth
+      ? `git fetch --depth ${spec.depth} origin ${spec.commit} && git checkout --detach FETCH_HEAD`
+      : `git checkout --detach ${spec.commit}`);
+  }
+  if (spec.submodules) {
+    commands.push('git submodule update --init --recursive');
+  }
+
+  return commands.length > 0 ? commands.join(' && ') : null;
+}
+
+/**
+ * Short description of what gets checked out, e.g. "tag v1.2.0, depth 1"
+ */
+export function describeCloneSpec(spec: RepositoryCloneSpec): string {
+  const ref = spec.branch ? `branch ${spec.branch}`
+    : spec.tag ? `tag ${spec.tag}`
+    : spec.commit ? `commit ${spec.commit.slice(0, 7)}`
+    : 'default branch';
+
+  return [
+    ref,
+    ...(spec.depth ? [`depth ${spec.depth}`] : []),
+    ...(spec.submodules ? ['submodules'] : [])
+  ].join(', ');
+}
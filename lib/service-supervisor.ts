@@ -0,0 +1,129 @@
+import { TmuxScriptGenerator } from './tmux-script-generator';
+
+// Counts restarts within this window for "restarted 3 times in 10 min"
+export const SUPERVISOR_RESTART_WINDOW_MS = 10 * 60 * 1000;
+
+export interface ServiceRestartStats {
+  total: number;           // Restarts since the supervisor was started
+  recent: number;          // Restarts within SUPERVISOR_RESTART_WINDOW_MS
+  lastRestartAt?: string;  // ISO timestamp
+  lastExitCode?: number;
+}
+
+/**
+ * ServiceSupervisor - keeps ttyd and code-server running inside the sandbox
+ *
+ * There is no systemd in the sandbox, so each service runs in the foreground of a
+ * small bash loop that restarts it with exponential backoff when it exits and
+ * appends "<epoch seconds> <exit code>" to a per-port restart log.
+ */
+export class ServiceSupervisor {
+  static readonly SCRIPT_PATH = '/tmp/agentsos-supervise.sh';
+  static readonly STATE_DIR = '/tmp/agentsos-supervisor';
+
+  private static readonly BACKOFF = {
+    initialSeconds: 1,
+    maxSeconds: 60,
+    stableSeconds: 60   // A run at least this long resets the backoff
+  } as const;
+
+  /**
+   * Supervisor script; usage: agentsos-supervise.sh <port> <command...>
+   */
+  static generateScript(): string {
+    const { initialSeconds, maxSeconds, stableSeconds } = this.BACKOFF;
+
+    return `#!/bin/bash
+port="$1"
+shift
+mkdir -p ${this.STATE_DIR}
+log="${this.STATE_DIR}/$port.restarts"
+: > "$log"
+trap 'kill $child 2>/dev/null; exit 0' TERM INT
+delay=${initialSeconds}
+while true; do
+  started=$(date +%s)
+  "$@" &
+  child=$!
+  wait $child
+  code=$?
+  if [ $(( $(date +%s) - started )) -ge ${stableSeconds} ]; then
+    delay=${initialSeconds}
+  fi
+  echo "$(date +%s) $code" >> "$log"
+  sleep $delay &
+  wait $!
+  delay=$(( delay * 2 ))
+  if [ $delay -gt ${maxSeconds} ]; then
+    delay=${maxSeconds}
+  fi
+done`;
+  }
+
+  /**
+   * Command that writes the supervisor script into the sandbox (idempotent)
+   * Written next to it and moved into place, as running supervisors still read the old file
+   */
+  static generateInstallCommand(): string {
+    const tempPath = `${this.SCRIPT_PATH}.$$`;
+    return `${TmuxScriptGenerator.generateScriptCreationCommand(this.generateScript(), tempPath)} && mv -f ${tempPath} ${this.SCRIPT_PATH}`;
+  }
+
+  /**
+   * Run a service command under the supervisor, in the background
+   */
+  static generateStartCommand(port: number, command: string, logFile: string): string {
+    return `nohup ${this.SCRIPT_PATH} ${port} ${command} > ${logFile} 2>&1 &`;
+  }
+
+  /**
+   * Stop the supervisor for a port so it does not restart the service being stopped
+   * ([a] keeps the pattern from matching the shell running pkill)
+   */
+  static generateStopCommand(port: number): string {
+    return `pkill -f "[a]gentsos-supervise.sh ${port} " || true`;
+  }
+
+  /**
+   * Kill the ttyd or code-server serving a port, matched on the exact port argument so
+   * stopping 8080 leaves the 28080 of another repository running
+   */
+  static generateKillServiceCommand(port: number): string {
+    return `pkill -f "ttyd --port ${port}( |$)" || true; pkill -f "code-server.*--bind-addr 0\\.0\\.0\\.0:${port}( |$)" || true`;
+  }
+
+  /**
+   * Print every restart log as "<port>: <entries>" lines
+   */
+  static generateStatsCommand(): string {
+    return `for f in ${this.STATE_DIR}/*.restarts; do [ -f "$f" ] && echo "$(basename "$f" .restarts): $(tr '\\n' ',' < "$f")"; done; true`;
+  }
+
+  /**
+   * Parse the output of generateStatsCommand into restart stats per port
+   */
+  static parseStats(output: string, now: number = Date.now()): Map<number, ServiceRestartStats> {
+    const stats = new Map<number, ServiceRestartStats>();
+
+    for (const line of output.split('\n')) {
+      const match = line.match(/^(\d+):\s*(.*)$/);
+      if (!match) continue;
+
+      const restarts = match[2]
+        .split(',')
+        .map(entry => entry.trim().split(/\s+/).map(Number))
+        .filter(([seconds]) => Number.isFinite(seconds) && seconds > 0);
+      if (restarts.length === 0) continue;
+
+      const [lastSeconds, lastExitCode] = restarts[restarts.length - 1];
+      stats.set(Number(match[1]), {
+        total: restarts.length,
+        recent: restarts.filter(([seconds]) => now - seconds * 1000 <= SUPERVISOR_RESTART_WINDOW_MS).length,
+        lastRestartAt: new Date(lastSeconds * 1000).toISOString(),
+        ...(Number.isFinite(lastExitCode) && { lastExitCode })
+      });
+    }
+
+    return stats;
+  }
+}
@@ -1,3 +1,5 @@
+import type { AgentDescriptor } from './agent-registry';
+
 /**
  * TmuxScriptGenerator - Centralized utility for generating tmux startup scripts
  * 
@@ -36,26 +38,14 @@ export class TmuxScriptGenerator {
   }
 
   /**
-   * Generate Claude CLI startup script with tmux session management
-   */
-  static generateClaudeScript(repoPath: string, repoName: string): string {
-    return this.generateScript({
-      repoPath,
-      repoName,
-      sessionName: `claude-${repoName}`,
-      command: 'claude'
-    });
-  }
-
-  /**
-   * Generate Gemini CLI startup script with tmux session management
+   * Generate agent CLI startup script with tmux session management
    */
-  static generateGeminiScript(repoPath: string, repoName: string): string {
+  static generateAgentScript(repoPath: string, repoName: string, agent: AgentDescriptor): string {
     return this.generateScript({
       repoPath,
       repoName,
-      sessionName: `gemini-${repoName}`,
-      command: 'gemini'
+      sessionName: `${agent.id}-${repoName}`,
+      command: agent.launchCommand
     });
   }
 
@@ -33,7 +33,25 @@ export const adminDb = admin.apps.length > 0 ? admin.firestore() : null;
 // Use Firebase Admin timestamp
 const Timestamp = admin.firestore.Timestamp;
 
-import type { UserWorkspace } from '@/types/workspace';
+// idlePolicies/{sandboxId}: { uid, sandboxId, idlePolicy }, one per workspace the scheduler acts on,
+// so it does not read every user
+const IDLE_POLICIES_COLLECTION = 'idlePolicies';
+
+import type { UserWorkspace, Repository } from '@/types/workspace';
+import { isScheduledIdlePolicy, type WorkspaceIdlePolicy } from './workspace-idle';
+import type { WorkspaceSnapshot } from './workspace-snapshots';
+import type { EnvScope, EnvScopeLayers } from './env-scopes';
+import { DEFAULT_ENV_SYNC_TARGETS, type EnvSyncTarget } from './env-sync-targets';
+import type { ReEncryptionReport } from './encryption-rotation';
+import type { ProjectEnvironment } from '@/types/environments';
+import {
+  findUserWorkspace,
+  getActiveUserWorkspace,
+  getLegacyWorkspace,
+  listUserWorkspaces,
+  workspaceFieldPath,
+  type WorkspaceCollection
+} from './user-workspaces';
 
 /**
  * Clean undefined values from object to avoid Firestore errors
@@ -74,7 +92,38 @@ export class UserServiceAdmin {
   }
 
   /**
-   * Create or update user's workspace (only one workspace per user)
+   * Read the user's workspace collection, moving a legacy single workspace into it
+   */
+  private async getWorkspaceCollection(uid: string): Promise<WorkspaceCollection<UserWorkspace> | null> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    const userRef = adminDb.collection('users').doc(uid);
+    const userDoc = await userRef.get();
+    if (!userDoc.exists) {
+      return null;
+    }
+
+    const agentsOS: WorkspaceCollection<UserWorkspace> | undefined = userDoc.data()?.agentsOS;
+    const legacy = getLegacyWorkspace(agentsOS);
+    if (legacy) {
+      await userRef.update({
+        [workspaceFieldPath(legacy.sandboxId)]: legacy,
+        'agentsOS.workspace': admin.firestore.FieldValue.delete(),
+      });
+      return {
+        ...agentsOS,
+        workspace: undefined,
+        workspaces: { ...agentsOS?.workspaces, [legacy.sandboxId]: legacy },
+      };
+    }
+
+    return agentsOS ?? null;
+  }
+
+  /**
+   * Create or update one of the user's workspaces and make it the active one
    */
   async createOrUpdateWorkspace(uid: string, workspace: UserWorkspace): Promise<void> {
     if (!adminDb) {
@@ -87,10 +136,13 @@ export class UserServiceAdmin {
       // Clean the workspace data to avoid undefined values
       const cleanedWorkspace = cleanUndefinedValues(workspace);
       
-      // Create or update user's embedded workspace
+      // Create or update the workspace in the user's collection
       await userRef.set({
         agentsOS: {
-          workspace: cleanedWorkspace,
+          workspaces: {
+            [workspace.sandboxId]: cleanedWorkspace
+          },
+          activeSandboxId: workspace.sandboxId,
           lastAccessedAt: Timestamp.now(),
           onboardingCompleted: true,
           preferences: {
@@ -107,26 +159,177 @@ export class UserServiceAdmin {
   }
 
   /**
-   * Get user's workspace (single workspace per user)
+   * Get every workspace of the user, oldest first
+   */
+  async getUserWorkspaces(uid: string): Promise<UserWorkspace[]> {
+    try {
+      return listUserWorkspaces(await this.getWorkspaceCollection(uid));
+    } catch (error) {
+      console.error('Error getting user workspaces:', error);
+      throw new Error('Failed to get user workspaces');
+    }
+  }
+
+  /**
+   * Get the workspace of a sandbox, or the active workspace when no sandbox is given
+   */
+  async getUserWorkspace(uid: string, sandboxId?: string): Promise<UserWorkspace | null> {
+    try {
+      const collection = await this.getWorkspaceCollection(uid);
+      return sandboxId ? findUserWorkspace(collection, sandboxId) : getActiveUserWorkspace(collection);
+    } catch (error) {
+      console.error('Error getting user workspace:', error);
+      throw new Error('Failed to get user workspace');
+    }
+  }
+
+  /**
+   * Remove a workspace from the user's collection
+   */
+  async removeWorkspace(uid: string, sandboxId: string): Promise<void> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      const collection = await this.getWorkspaceCollection(uid);
+      const batch = adminDb.batch();
+      batch.update(adminDb.collection('users').doc(uid), {
+        [workspaceFieldPath(sandboxId)]: admin.firestore.FieldValue.delete(),
+        ...(collection?.activeSandboxId === sandboxId && {
+          'agentsOS.activeSandboxId': admin.firestore.FieldValue.delete()
+        }),
+        updatedAt: Timestamp.now()
+      });
+      batch.delete(adminDb.collection(IDLE_POLICIES_COLLECTION).doc(sandboxId));
+      await batch.commit();
+    } catch (error) {
+      console.error('Error removing workspace:', error);
+      throw new Error('Failed to remove workspace');
+    }
+  }
+
+  /**
+   * Replace the repositories of one of the user's workspaces
    */
-  async getUserWorkspace(uid: string): Promise<UserWorkspace | null> {
+  async updateWorkspaceRepositories(uid: string, sandboxId: string, repositories: Repository[]): Promise<void> {
     if (!adminDb) {
       throw new Error('Firebase Admin not initialized');
     }
     
     try {
-      const userRef = adminDb.collection('users').doc(uid);
-      const userDoc = await userRef.get();
-      
-      if (userDoc.exists) {
-        const userData = userDoc.data();
-        return userData?.agentsOS?.workspace || null;
+      await adminDb.collection('users').doc(uid).update({
+        [workspaceFieldPath(sandboxId, 'repositories')]: cleanUndefinedValues(repositories),
+        [workspaceFieldPath(sandboxId, 'updatedAt')]: new Date(),
+        updatedAt: Timestamp.now()
+      });
+    } catch (error) {
+      console.error('Error updating workspace repositories:', error);
+      throw new Error('Failed to update workspace repositories');
+    }
+  }
+
+  /**
+   * Replace the idle auto-stop policy of one of the user's workspaces
+   */
+  async updateWorkspaceIdlePolicy(uid: string, sandboxId: string, idlePolicy: WorkspaceIdlePolicy): Promise<void> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      const batch = adminDb.batch();
+      batch.update(adminDb.collection('users').doc(uid), {
+        [workspaceFieldPath(sandboxId, 'idlePolicy')]: cleanUndefinedValues(idlePolicy),
+        [workspaceFieldPath(sandboxId, 'updatedAt')]: new Date(),
+        updatedAt: Timestamp.now()
+      });
+      const scheduledRef = adminDb.collection(IDLE_POLICIES_COLLECTION).doc(sandboxId);
+      if (isScheduledIdlePolicy(idlePolicy)) {
+        batch.set(scheduledRef, { uid, sandboxId, idlePolicy: cleanUndefinedValues(idlePolicy), updatedAt: Timestamp.now() });
+      } else {
+        batch.delete(scheduledRef);
       }
-      
-      return null;
+      await batch.commit();
     } catch (error) {
-      console.error('Error getting user workspace:', error);
-      throw new Error('Failed to get user workspace');
+      console.error('Error updating workspace idle policy:', error);
+      throw new Error('Failed to update workspace idle policy');
+    }
+  }
+
+  /**
+   * Every workspace, across all users, with idle auto-stop or a schedule enabled
+   * Used by the scheduler, which runs without a signed-in user
+   */
+  async getWorkspacesWithIdlePolicies(): Promise<Array<{ uid: string; workspace: Pick<UserWorkspace, 'sandboxId' | 'idlePolicy'> }>> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      const policies = await adminDb.collection(IDLE_POLICIES_COLLECTION).get();
+      return policies.docs.map(policyDoc => {
+        const { uid, sandboxId, idlePolicy } = policyDoc.data() as { uid: string; sandboxId: string; idlePolicy: WorkspaceIdlePolicy };
+        return { uid, workspace: { sandboxId, idlePolicy } };
+      });
+    } catch (error) {
+      console.error('Error getting workspaces with idle policies:', error);
+      throw new Error('Failed to get workspaces with idle policies');
+    }
+  }
+
+  /**
+   * Theme picked at onboarding or in Settings, also applied to VSCode
+   */
+  async getUserTheme(uid: string): Promise<'light' | 'dark' | 'system' | null> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      const userDoc = await adminDb.collection('users').doc(uid).get();
+      return userDoc.data()?.agentsOS?.preferences?.theme ?? null;
+    } catch (error) {
+      console.error('Error getting user theme:', error);
+      throw new Error('Failed to get user theme');
+    }
+  }
+
+  /**
+   * Create or update a snapshot record, kept at agentsOS.snapshots.{id}
+   * Separate from the workspaces so it survives deleting the sandbox
+   */
+  async saveWorkspaceSnapshot(uid: string, snapshot: WorkspaceSnapshot): Promise<void> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      await adminDb.collection('users').doc(uid).update({
+        [`agentsOS.snapshots.${snapshot.id}`]: cleanUndefinedValues(snapshot),
+        updatedAt: Timestamp.now()
+      });
+    } catch (error) {
+      console.error('Error saving workspace snapshot:', error);
+      throw new Error('Failed to save workspace snapshot');
+    }
+  }
+
+  /**
+   * Every snapshot of the user, newest first
+   */
+  async getWorkspaceSnapshots(uid: string): Promise<WorkspaceSnapshot[]> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      const userDoc = await adminDb.collection('users').doc(uid).get();
+      const snapshots: Record<string, WorkspaceSnapshot> = userDoc.data()?.agentsOS?.snapshots ?? {};
+      return Object.values(snapshots).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('Error getting workspace snapshots:', error);
+      throw new Error('Failed to get workspace snapshots');
     }
   }
 
@@ -135,6 +338,7 @@ export class UserServiceAdmin {
    */
   async updateWorkspaceStatus(
     uid: string,
+    sandboxId: string,
     status: UserWorkspace['status']
   ): Promise<void> {
     if (!adminDb) {
@@ -145,18 +349,12 @@ export class UserServiceAdmin {
       const userRef = adminDb.collection('users').doc(uid);
       const now = Timestamp.now();
       
-      const workspaceUpdate = {
-        status: status,
-        updatedAt: now.toDate(),
-      };
-      
-      await userRef.set({
-        agentsOS: {
-          workspace: workspaceUpdate,
-          lastAccessedAt: now,
-        },
+      await userRef.update({
+        [workspaceFieldPath(sandboxId, 'status')]: status,
+        [workspaceFieldPath(sandboxId, 'updatedAt')]: now.toDate(),
+        'agentsOS.lastAccessedAt': now,
         updatedAt: now,
-      }, { merge: true });
+      });
     } catch (error) {
       console.error('Error updating workspace status:', error);
       throw new Error('Failed to update workspace status');
@@ -308,6 +506,21 @@ export class UserServiceAdmin {
     }
   }
 
+  /**
+   * Add empty values for env var names a project needs but the user hasn't set yet
+   * Used by manifests and repository configs, which list names but never values
+   */
+  async ensureProjectEnvKeys(uid: string, projectName: string, keys: string[]): Promise<string[]> {
+    const environment = await this.getUserEnvironment(uid);
+    const existing = environment?.projects?.[projectName] ?? {};
+    const missing = keys.filter(key => !(key in existing));
+
+    for (const key of missing) {
+      await this.storeProjectEnvVar(uid, projectName, key, '');
+    }
+    return missing;
+  }
+
   /**
    * Delete a specific environment variable for a project
    */
@@ -350,6 +563,204 @@ export class UserServiceAdmin {
     }
   }
 
+  /**
+   * Store an environment variable in the global, project or branch scope
+   */
+  async storeScopedEnvVar(uid: string, projectName: string, scope: EnvScope, key: string, value: string): Promise<void> {
+    if (scope.scope === 'project') {
+      return this.storeProjectEnvVar(uid, projectName, key, value);
+    }
+    return this.storeScopedEnvVars(uid, projectName, scope, { [key]: value });
+  }
+
+  /**
+   * Store several environment variables of one scope in a single write
+   */
+  async storeScopedEnvVars(uid: string, projectName: string, scope: EnvScope, variables: Record<string, string>): Promise<void> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      const { EncryptionHelpers } = await import('./encryption');
+      const encrypted = Object.fromEntries(
+        Object.entries(variables).map(([key, value]) => [key, EncryptionHelpers.encryptEnvVar(value, uid)])
+      );
+
+      // A merged set only touches these keys, creating the scope's maps as needed
+      const scoped = scope.scope === 'global'
+        ? { global: encrypted }
+        : scope.scope === 'project'
+          ? { projects: { [projectName]: encrypted } }
+          : { branches: { [projectName]: { [scope.branch]: encrypted } } };
+      await adminDb.collection('environments').doc(uid).set({
+        userId: uid,
+        ...scoped,
+        updatedAt: Timestamp.now()
+      }, { merge: true });
+    } catch (error) {
+      console.error(`Error storing ${scope.scope} environment variables:`, error);
+      throw new Error(`Failed to store ${scope.scope} environment variables`);
+    }
+  }
+
+  /**
+   * Get the environment variables of one scope (decrypted)
+   */
+  async getScopedEnvVars(uid: string, projectName: string, scope: EnvScope): Promise<Record<string, string>> {
+    if (scope.scope === 'project') {
+      return this.getProjectEnvVars(uid, projectName);
+    }
+
+    const environment = await this.getUserEnvironment(uid);
+    const encrypted = scope.scope === 'global'
+      ? environment?.global
+      : environment?.branches?.[projectName]?.[scope.branch];
+    return this.decryptEnvVars(uid, encrypted ?? {});
+  }
+
+  /**
+   * Decrypted global, project and branch variables that apply to a project, for
+   * resolving which value wins
+   */
+  async getEnvScopeLayers(uid: string, projectName: string, branch?: string): Promise<EnvScopeLayers> {
+    const environment = await this.getUserEnvironment(uid);
+    const branchVars = branch ? environment?.branches?.[projectName]?.[branch] : undefined;
+
+    return {
+      global: await this.decryptEnvVars(uid, environment?.global ?? {}),
+      project: await this.decryptEnvVars(uid, environment?.projects?.[projectName] ?? {}),
+      branch: await this.decryptEnvVars(uid, branchVars ?? {})
+    };
+  }
+
+  /**
+   * Delete an environment variable from the global, project or branch scope
+   */
+  async deleteScopedEnvVar(uid: string, projectName: string, scope: EnvScope, key: string): Promise<void> {
+    if (scope.scope === 'project') {
+      return this.deleteProjectEnvVar(uid, projectName, key);
+    }
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      const envRef = adminDb.collection('environments').doc(uid);
+      const envDoc = await envRef.get();
+      if (!envDoc.exists) {
+        return; // Nothing to delete
+      }
+
+      // Segments of a FieldPath may contain dots and slashes, as project and branch names do
+      const path = scope.scope === 'global'
+        ? new admin.firestore.FieldPath('global', key)
+        : new admin.firestore.FieldPath('branches', projectName, scope.branch, key);
+      await envRef.update(path, admin.firestore.FieldValue.delete(), 'updatedAt', Timestamp.now());
+    } catch (error) {
+      console.error(`Error deleting ${scope.scope} environment variable:`, error);
+      throw new Error(`Failed to delete ${scope.scope} environment variable`);
+    }
+  }
+
+  /**
+   * Files an env var sync writes in a project, .env.local at its root unless configured
+   */
+  async getEnvSyncTargets(uid: string, projectName: string): Promise<EnvSyncTarget[]> {
+    const environment = await this.getUserEnvironment(uid);
+    return environment?.syncTargets?.[projectName] ?? DEFAULT_ENV_SYNC_TARGETS;
+  }
+
+  /**
+   * Replace the files an env var sync writes in a project
+   */
+  async storeEnvSyncTargets(uid: string, projectName: string, targets: EnvSyncTarget[]): Promise<void> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      // Arrays are replaced as a whole by a merged set
+      await adminDb.collection('environments').doc(uid).set({
+        userId: uid,
+        syncTargets: { [projectName]: targets },
+        updatedAt: Timestamp.now()
+      }, { merge: true });
+    } catch (error) {
+      console.error('Error storing env sync targets:', error);
+      throw new Error('Failed to store env sync targets');
+    }
+  }
+
+  /**
+   * A page of users with an environment document, ordered by id
+   * Used by the re-encryption migration, which runs without a signed-in user
+   */
+  async listEnvironmentUserIds(limit: number, after?: string): Promise<string[]> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+
+    try {
+      let query = adminDb.collection('environments').orderBy(admin.firestore.FieldPath.documentId());
+      if (after) {
+        query = query.startAfter(after);
+      }
+      const page = await query.limit(limit).select().get();
+      return page.docs.map(envDoc => envDoc.id);
+    } catch (error) {
+      console.error('Error listing environments:', error);
+      throw new Error('Failed to list environments');
+    }
+  }
+
+  /**
+   * Re-encrypt a user's Daytona API key and env vars under the current encryption key.
+   * A dry run reports what would change without writing.
+   */
+  async reEncryptUserEnvironment(uid: string, dryRun: boolean): Promise<ReEncryptionReport & { written: boolean }> {
+    if (!adminDb) {
+      throw new Error('Firebase Admin not initialized');
+    }
+    const db = adminDb;
+
+    try {
+      const { reEncryptEnvironment } = await import('./encryption-rotation');
+      const envRef = db.collection('environments').doc(uid);
+
+      // A transaction, so values stored while re-encrypting are not overwritten
+      return await db.runTransaction(async transaction => {
+        const envDoc = await transaction.get(envRef);
+        const { report, update } = reEncryptEnvironment(envDoc.data() ?? {}, uid);
+
+        if (dryRun || !update) {
+          return { ...report, written: false };
+        }
+        transaction.update(envRef, { ...update, updatedAt: Timestamp.now() });
+        return { ...report, written: true };
+      });
+    } catch (error) {
+      console.error('Error re-encrypting user environment:', error);
+      throw new Error('Failed to re-encrypt user environment');
+    }
+  }
+
+  private async decryptEnvVars(uid: string, encrypted: ProjectEnvironment): Promise<Record<string, string>> {
+    const decrypted: Record<string, string> = {};
+    const { EncryptionHelpers } = await import('./encryption');
+
+    for (const [key, encryptedValue] of Object.entries(encrypted)) {
+      try {
+        decrypted[key] = EncryptionHelpers.decryptEnvVar(encryptedValue, uid);
+      } catch (error) {
+        console.error(`Failed to decrypt env var ${key}:`, error);
+        // Skip this variable but continue with others
+      }
+    }
+
+    return decrypted;
+  }
+
   /**
    * Get user's full environment document
    */
@@ -1,9 +1,11 @@
 'use client';
 
-import { doc, getDoc, setDoc, updateDoc, Timestamp } from 'firebase/firestore';
+import { deleteField, doc, getDoc, setDoc, updateDoc, Timestamp } from 'firebase/firestore';
 import { db } from './firebase';
 import type { Repository, UserWorkspace } from '@/types/workspace';
 import type { EncryptedValue } from './encryption';
+import type { WorkspaceOptions } from './workspace-defaults';
+import { getActiveUserWorkspace, getWorkspaceUpdate, listUserWorkspaces, workspaceFieldPath } from './user-workspaces';
 
 /**
  * User profile data structure in Firebase
@@ -18,10 +20,13 @@ export interface UserProfile {
   // AgentsOS specific data
   agentsOS?: {
     onboardingCompleted: boolean;
-    workspace?: UserWorkspace; // Single workspace per user
+    workspace?: UserWorkspace; // Legacy single workspace, moved into `workspaces` on first server read
+    workspaces?: Record<string, UserWorkspace>; // Keyed by sandbox ID
+    activeSandboxId?: string; // Last sandbox picked at boot
     daytonaApiKey?: EncryptedValue; // Encrypted Daytona API key
     preferences: {
       theme: 'light' | 'dark' | 'system';
+      workspaceDefaults?: WorkspaceOptions;
     };
     createdAt: Timestamp;
     lastAccessedAt: Timestamp;
@@ -133,15 +138,16 @@ export class UserService {
   }
 
   /**
-   * Create or update user's workspace (only one workspace per user)
+   * Create or update one of the user's workspaces and make it the active one
    */
   async createOrUpdateWorkspace(uid: string, workspace: UserWorkspace): Promise<void> {
     try {
       const userRef = doc(db, 'users', uid);
       
-      // Update user's embedded workspace
+      // Update the workspace in the user's collection
       await updateDoc(userRef, {
-        'agentsOS.workspace': workspace,
+        [workspaceFieldPath(workspace.sandboxId)]: workspace,
+        'agentsOS.activeSandboxId': workspace.sandboxId,
         'agentsOS.lastAccessedAt': Timestamp.now(),
         updatedAt: Timestamp.now(),
       });
@@ -152,37 +158,74 @@ export class UserService {
   }
 
   /**
-   * Get user's workspace (single workspace per user)
+   * Get every workspace of the user, oldest first
+   */
+  async getUserWorkspaces(uid: string): Promise<UserWorkspace[]> {
+    try {
+      const userProfile = await this.getUserProfile(uid);
+      return listUserWorkspaces(userProfile?.agentsOS);
+    } catch (error) {
+      console.error('Error getting user workspaces:', error);
+      throw new Error('Failed to get user workspaces');
+    }
+  }
+
+  /**
+   * Get the user's active workspace (last picked, or the oldest one)
    */
   async getUserWorkspace(uid: string): Promise<UserWorkspace | null> {
     try {
       const userProfile = await this.getUserProfile(uid);
-      return userProfile?.agentsOS?.workspace || null;
+      return getActiveUserWorkspace(userProfile?.agentsOS);
     } catch (error) {
       console.error('Error getting user workspace:', error);
       throw new Error('Failed to get user workspace');
     }
   }
 
+  /**
+   * Field updates for one workspace, moving a legacy single workspace into the collection
+   * like the admin service does on its first read
+   */
+  private async getWorkspaceUpdate(uid: string, sandboxId: string, fields: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const userProfile = await this.getUserProfile(uid);
+    const { update, movesLegacy } = getWorkspaceUpdate(userProfile?.agentsOS, sandboxId, fields);
+    return movesLegacy ? { ...update, 'agentsOS.workspace': deleteField() } : update;
+  }
+
+  /**
+   * Remember the sandbox picked at boot
+   */
+  async setActiveWorkspace(uid: string, sandboxId: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'users', uid), {
+        'agentsOS.activeSandboxId': sandboxId,
+        'agentsOS.lastAccessedAt': Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error('Error setting active workspace:', error);
+      throw new Error('Failed to set active workspace');
+    }
+  }
+
   /**
    * Update workspace status
    */
   async updateWorkspaceStatus(
     uid: string,
+    sandboxId: string,
     status: UserWorkspace['status']
   ): Promise<void> {
     try {
       const userRef = doc(db, 'users', uid);
       const now = Timestamp.now();
       
-      const updateData = {
-        'agentsOS.workspace.status': status,
-        'agentsOS.workspace.updatedAt': now,
+      await updateDoc(userRef, {
+        ...await this.getWorkspaceUpdate(uid, sandboxId, { status, updatedAt: now }),
         'agentsOS.lastAccessedAt': now,
         updatedAt: now,
-      };
-      
-      await updateDoc(userRef, updateData);
+      });
     } catch (error) {
       console.error('Error updating workspace status:', error);
       throw new Error('Failed to update workspace status');
@@ -203,7 +246,7 @@ export class UserService {
   }
 
   /**
-   * Add repositories to user's workspace
+   * Add repositories to the user's active workspace
    */
   async addRepositoriesToWorkspace(uid: string, repositories: Repository[]): Promise<void> {
     try {
@@ -222,8 +265,10 @@ export class UserService {
       const updatedRepositories = [...existingRepos, ...newRepos];
 
       await updateDoc(userRef, {
-        'agentsOS.workspace.repositories': updatedRepositories,
-        'agentsOS.workspace.lastAccessedAt': Timestamp.now(),
+        ...await this.getWorkspaceUpdate(uid, workspace.sandboxId, {
+          repositories: updatedRepositories,
+          lastAccessedAt: Timestamp.now()
+        }),
         'agentsOS.lastAccessedAt': Timestamp.now(),
         updatedAt: Timestamp.now(),
       });
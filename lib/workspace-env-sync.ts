@@ -1,9 +1,12 @@
 /**
  * Smart environment variable sync service for workspaces
- * Handles reading, merging, and writing .env.local files with intelligent conflict resolution
+ * Handles reading, merging, and writing .env.local and each project's other target files
+ * with intelligent conflict resolution
  */
 
 import { DaytonaClient } from './daytona';
+import { getEnvValues, resolveEnvScopes, type EnvScopeLayers, type EnvVarScope } from './env-scopes';
+import { formatEnvTargetFile, parseEnvTargetFile, type EnvSyncTarget } from './env-sync-targets';
 
 export interface EnvVariable {
   key: string;
@@ -29,8 +32,26 @@ export interface MergeResult {
   // File state
   fileExisted: boolean;
   backupCreated: boolean;
+
+  // Scope each cloud variable's value came from, for scoped syncs
+  sources?: Record<string, EnvVarScope>;
+}
+
+export interface TargetSyncResult extends MergeResult {
+  target: EnvSyncTarget;
+}
+
+export interface ScopedSyncResult extends MergeResult {
+  // Result for each target file when a project has several; the first is repeated above
+  targets?: TargetSyncResult[];
 }
 
+const SCOPE_LABELS: Record<EnvVarScope, string> = {
+  branch: 'Branch overrides',
+  project: 'Project',
+  global: 'Global (all projects)'
+};
+
 export class WorkspaceEnvSync {
   private daytonaClient: DaytonaClient;
 
@@ -39,14 +60,20 @@ export class WorkspaceEnvSync {
   }
 
   /**
-   * Read the existing .env.local file from the workspace
+   * Read the existing .env.local file, or another target file, from the workspace
    */
-  async readExistingEnvFile(sandboxId: string, projectName?: string): Promise<Record<string, string> | null> {
-    const content = await this.daytonaClient.readEnvFile(sandboxId, projectName);
+  async readExistingEnvFile(
+    sandboxId: string,
+    projectName?: string,
+    target?: EnvSyncTarget
+  ): Promise<Record<string, string> | null> {
+    const content = target
+      ? await this.daytonaClient.readEnvFile(sandboxId, projectName, target.path)
+      : await this.daytonaClient.readEnvFile(sandboxId, projectName);
     if (!content) {
       return null;
     }
-    return this.parseEnvFile(content);
+    return !target || target.format === 'dotenv' ? this.parseEnvFile(content) : parseEnvTargetFile(content, target);
   }
 
   /**
@@ -181,11 +208,22 @@ export class WorkspaceEnvSync {
     const localOnly = new Set(mergeResult.preserved);
     const conflicted = new Set(mergeResult.conflicts.map(c => c.key));
 
-    // Section 1: Cloud-managed variables
+    // Section 1: Cloud-managed variables, grouped by scope for scoped syncs
     if (cloudManaged.size > 0) {
       content += '# --- Managed by AgentsOS (synced from cloud) ---\n';
-      for (const [key, value] of Object.entries(mergeResult.final)) {
-        if (cloudManaged.has(key) && !conflicted.has(key)) {
+      const managed = Object.entries(mergeResult.final).filter(([key]) => cloudManaged.has(key) && !conflicted.has(key));
+      const { sources } = mergeResult;
+      const groups = sources
+        ? (['branch', 'project', 'global'] as const).map(scope => ({
+            label: `# ${SCOPE_LABELS[scope]}\n`,
+            entries: managed.filter(([key]) => sources[key] === scope)
+          }))
+        : [{ label: '', entries: managed }];
+
+      for (const { label, entries } of groups) {
+        if (entries.length === 0) continue;
+        content += label;
+        for (const [key, value] of entries) {
           content += `${key}=${this.escapeValue(value)}\n`;
         }
       }
@@ -222,6 +260,23 @@ export class WorkspaceEnvSync {
     return content;
   }
 
+  /**
+   * Generate the content of a target file. dotenv targets get the sectioned .env.local
+   * layout; JSON and shell files list the merged variables.
+   */
+  generateTargetFileContent(
+    mergeResult: MergeResult,
+    projectName: string,
+    cloudVars: Record<string, string>,
+    target: EnvSyncTarget
+  ): string {
+    if (target.format === 'dotenv') {
+      return this.generateEnvFileContent(mergeResult, projectName, cloudVars);
+    }
+    const header = `AgentsOS Environment Variables\nLast synced: ${new Date().toISOString()}\nProject: ${projectName}`;
+    return formatEnvTargetFile(mergeResult.final, target.format, header);
+  }
+
   /**
    * Escape value for .env file format
    */
@@ -235,10 +290,20 @@ export class WorkspaceEnvSync {
   }
 
   /**
-   * Write the merged environment variables to .env.local
+   * Write the merged environment variables to .env.local, or another target file
    */
-  async writeEnvFile(sandboxId: string, content: string, createBackup: boolean = true, projectName?: string): Promise<void> {
-    await this.daytonaClient.writeEnvFile(sandboxId, content, createBackup, projectName);
+  async writeEnvFile(
+    sandboxId: string,
+    content: string,
+    createBackup: boolean = true,
+    projectName?: string,
+    target?: EnvSyncTarget
+  ): Promise<void> {
+    if (target) {
+      await this.daytonaClient.writeEnvFile(sandboxId, content, createBackup, projectName, target.path);
+    } else {
+      await this.daytonaClient.writeEnvFile(sandboxId, content, createBackup, projectName);
+    }
   }
 
   /**
@@ -251,15 +316,19 @@ export class WorkspaceEnvSync {
     options: {
       conflictResolution?: 'prefer-local' | 'prefer-cloud';
       createBackup?: boolean;
+      sources?: Record<string, EnvVarScope>;
+      target?: EnvSyncTarget;   // .env.local at the project root by default
     } = {}
   ): Promise<MergeResult> {
     const { 
       conflictResolution = 'prefer-local',
-      createBackup = true
+      createBackup = true,
+      sources,
+      target
     } = options;
 
-    // Read existing .env.local
-    const localVars = await this.readExistingEnvFile(sandboxId, projectName);
+    // Read the existing target file
+    const localVars = await this.readExistingEnvFile(sandboxId, projectName, target);
 
     // Perform smart merge
     const mergeResult = this.mergeEnvironmentVariables(
@@ -267,14 +336,53 @@ export class WorkspaceEnvSync {
       cloudVars,
       conflictResolution
     );
+    if (sources) {
+      mergeResult.sources = sources;
+    }
 
     // Generate new content
-    const content = this.generateEnvFileContent(mergeResult, projectName, cloudVars);
+    const content = target
+      ? this.generateTargetFileContent(mergeResult, projectName, cloudVars, target)
+      : this.generateEnvFileContent(mergeResult, projectName, cloudVars);
 
     // Write to workspace
-    await this.writeEnvFile(sandboxId, content, createBackup && mergeResult.fileExisted, projectName);
+    await this.writeEnvFile(sandboxId, content, createBackup && mergeResult.fileExisted, projectName, target);
     mergeResult.backupCreated = createBackup && mergeResult.fileExisted;
 
     return mergeResult;
   }
-}
\ No newline at end of file
+
+  /**
+   * Sync the variables of every scope that applies to a project, branch overrides
+   * winning over project values and project values over global ones. Each target file
+   * is merged with its own local values and backed up on its own.
+   */
+  async syncScopedEnvironmentVariables(
+    sandboxId: string,
+    layers: EnvScopeLayers,
+    projectName: string,
+    options: {
+      conflictResolution?: 'prefer-local' | 'prefer-cloud';
+      createBackup?: boolean;
+      targets?: EnvSyncTarget[];
+    } = {}
+  ): Promise<ScopedSyncResult> {
+    const { targets, ...syncOptions } = options;
+    const resolved = resolveEnvScopes(layers);
+    const sources = Object.fromEntries(Object.entries(resolved).map(([key, { source }]) => [key, source]));
+    const cloudVars = getEnvValues(resolved);
+
+    if (!targets || targets.length === 0) {
+      return this.syncEnvironmentVariables(sandboxId, cloudVars, projectName, { ...syncOptions, sources });
+    }
+
+    // One file at a time, in the order the project lists them
+    const results: TargetSyncResult[] = [];
+    for (const target of targets) {
+      const result = await this.syncEnvironmentVariables(sandboxId, cloudVars, projectName, { ...syncOptions, sources, target });
+      results.push({ ...result, target });
+    }
+
+    return { ...results[0], targets: results };
+  }
+}
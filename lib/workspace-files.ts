@@ -0,0 +1,456 @@
+/**
+ * Workspace file system service
+ * Lists, reads and writes files inside the projects/<repo> directories of a Daytona sandbox
+ */
+
+import type { Sandbox } from '@daytonaio/sdk';
+import { logger } from './logger';
+
+export interface FileTreeItem {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  children?: FileTreeItem[];
+  size?: number;
+  lastModified?: string;
+}
+
+export interface FileContent {
+  path: string;
+  content: string;
+  size: number;
+  lastModified: string;
+  isBinary: boolean;
+}
+
+export interface FileWriteResult {
+  path: string;
+  size: number;
+  lastModified: string;
+}
+
+export interface WriteFileOptions {
+  // lastModified the client last saw; the write fails with CONFLICT if the file changed since
+  expectedLastModified?: string;
+  // Fail with ALREADY_EXISTS instead of overwriting an existing file
+  createOnly?: boolean;
+}
+
+// Directories and files never shown in the file tree
+export const IGNORED_ENTRIES = [
+  'node_modules',
+  '.git',
+  '.next',
+  'dist',
+  'build',
+  'coverage',
+  '.turbo',
+  '.cache',
+  '.DS_Store'
+] as const;
+
+// Tree depth limits (depth 1 = direct children of the repository root)
+export const DEFAULT_TREE_DEPTH = 4;
+export const MAX_TREE_DEPTH = 10;
+
+// Files larger than this are not loaded into the editor
+export const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2 MB
+
+// Extensions that are always treated as binary without downloading the file
+const BINARY_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'bmp', 'ico', 'webp', 'avif',
+  'pdf', 'zip', 'gz', 'tgz', 'tar', 'rar', '7z',
+  'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'mp3', 'mp4', 'mov', 'avi', 'wav', 'webm',
+  'exe', 'dll', 'so', 'dylib', 'bin', 'wasm', 'class', 'jar', 'pyc'
+]);
+
+// Number of leading bytes inspected when sniffing file contents for binary data
+const BINARY_SNIFF_LENGTH = 8000;
+
+export type WorkspaceFileErrorCode =
+  | 'INVALID_PATH'
+  | 'REPOSITORY_NOT_FOUND'
+  | 'FILE_NOT_FOUND'
+  | 'NOT_A_FILE'
+  | 'FILE_TOO_LARGE'
+  | 'ALREADY_EXISTS'
+  | 'CONFLICT';
+
+export class WorkspaceFileError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: WorkspaceFileErrorCode
+  ) {
+    super(message);
+    this.name = 'WorkspaceFileError';
+  }
+
+  static isWorkspaceFileError(error: unknown): error is WorkspaceFileError {
+    return error instanceof WorkspaceFileError;
+  }
+}
+
+/**
+ * Check whether a file or directory name is excluded from the tree
+ */
+export function isIgnoredEntry(name: string): boolean {
+  return (IGNORED_ENTRIES as readonly string[]).includes(name);
+}
+
+/**
+ * Detect binary content by extension first, then by looking for NUL bytes
+ */
+export function isBinaryFile(filePath: string, buffer?: Buffer): boolean {
+  const ext = filePath.split('.').pop()?.toLowerCase();
+  if (ext && ext !== filePath.toLowerCase() && BINARY_EXTENSIONS.has(ext)) {
+    return true;
+  }
+
+  if (!buffer) {
+    return false;
+  }
+
+  const sample = buffer.subarray(0, BINARY_SNIFF_LENGTH);
+  return sample.includes(0);
+}
+
+/**
+ * Normalize a repository-relative path into "/a/b/c" form.
+ * Rejects any path that would escape the repository root.
+ */
+export function normalizeRelativePath(relativePath: string): string {
+  const resolved: string[] = [];
+
+  for (const segment of relativePath.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..') {
+      if (resolved.length === 0) {
+        throw new WorkspaceFileError('Path escapes repository root', 400, 'INVALID_PATH');
+      }
+      resolved.pop();
+      continue;
+    }
+    resolved.push(segment);
+  }
+
+  return '/' + resolved.join('/');
+}
+
+/**
+ * Validate a repository name (a single directory under projects/)
+ */
+export function validateRepositoryName(repository: string): string {
+  if (!repository || !/^[a-zA-Z0-9._-]+$/.test(repository) || repository === '.' || repository === '..') {
+    throw new WorkspaceFileError(`Invalid repository name: ${repository}`, 400, 'INVALID_PATH');
+  }
+  return repository;
+}
+
+export class WorkspaceFileSystem {
+  private logger = logger;
+
+  constructor(
+    private sandbox: Sandbox,
+    private rootDir: string
+  ) {}
+
+  /**
+   * Absolute path of a repository inside the sandbox
+   */
+  getRepositoryPath(repository: string): string {
+    return `${this.rootDir}/projects/${validateRepositoryName(repository)}`;
+  }
+
+  /**
+   * Resolve a repository-relative path to an absolute sandbox path
+   */
+  resolvePath(repository: string, relativePath: string): string {
+    const normalized = normalizeRelativePath(relativePath);
+    const repoPath = this.getRepositoryPath(repository);
+    return normalized === '/' ? repoPath : `${repoPath}${normalized}`;
+  }
+
+  /**
+   * Build the file tree of a repository, skipping ignored entries
+   */
+  async getFileTree(repository: string, depth: number = DEFAULT_TREE_DEPTH): Promise<FileTreeItem[]> {
+    const maxDepth = Math.min(Math.max(Math.floor(depth), 1), MAX_TREE_DEPTH);
+    const repoPath = this.getRepositoryPath(repository);
+
+    try {
+      await this.sandbox.fs.getFileDetails(repoPath);
+    } catch {
+      throw new WorkspaceFileError(`Repository "${repository}" not found in workspace`, 404, 'REPOSITORY_NOT_FOUND');
+    }
+
+    return this.listDirectory(repoPath, '', 1, maxDepth);
+  }
+
+  /**
+   * Read a text file from a repository
+   */
+  async readFile(repository: string, relativePath: string): Promise<FileContent> {
+    const normalized = normalizeRelativePath(relativePath);
+    const absolutePath = this.resolvePath(repository, normalized);
+
+    let details;
+    try {
+      details = await this.sandbox.fs.getFileDetails(absolutePath);
+    } catch {
+      throw new WorkspaceFileError(`File not found: ${normalized}`, 404, 'FILE_NOT_FOUND');
+    }
+
+    if (details.isDir) {
+      throw new WorkspaceFileError(`Path is a directory: ${normalized}`, 400, 'NOT_A_FILE');
+    }
+
+    const base = {
+      path: normalized,
+      size: details.size,
+      lastModified: this.toIsoString(details.modTime)
+    };
+
+    // Skip the download entirely for files we already know are binary
+    if (isBinaryFile(normalized)) {
+      return { ...base, content: '', isBinary: true };
+    }
+
+    if (details.size > MAX_FILE_SIZE) {
+      throw new WorkspaceFileError(
+        `File is too large to open (${details.size} bytes, limit ${MAX_FILE_SIZE})`,
+        413,
+        'FILE_TOO_LARGE'
+      );
+    }
+
+    const buffer = await this.sandbox.fs.downloadFile(absolutePath);
+    if (isBinaryFile(normalized, buffer)) {
+      return { ...base, content: '', isBinary: true };
+    }
+
+    return { ...base, content: buffer.toString('utf-8'), isBinary: false };
+  }
+
+  /**
+   * Write a text file, creating it if needed.
+   * Uses optimistic concurrency: when expectedLastModified is given and the file was
+   * modified since (e.g. by an agent in the terminal), the write is rejected with CONFLICT.
+   */
+  async writeFile(
+    repository: string,
+    relativePath: string,
+    content: string,
+    options: WriteFileOptions = {}
+  ): Promise<FileWriteResult> {
+    const normalized = this.requireNonRootPath(relativePath);
+    const absolutePath = this.resolvePath(repository, normalized);
+
+    const existing = await this.getDetailsOrNull(absolutePath);
+
+    if (existing) {
+      if (existing.isDir) {
+        throw new WorkspaceFileError(`Path is a directory: ${normalized}`, 400, 'NOT_A_FILE');
+      }
+      if (options.createOnly) {
+        throw new WorkspaceFileError(`File already exists: ${normalized}`, 409, 'ALREADY_EXISTS');
+      }
+      if (options.expectedLastModified && !this.isSameTimestamp(existing.modTime, options.expectedLastModified)) {
+        throw new WorkspaceFileError(
+          `File was modified in the workspace since it was loaded: ${normalized}`,
+          409,
+          'CONFLICT'
+        );
+      }
+    } else {
+      if (options.expectedLastModified) {
+        throw new WorkspaceFileError(`File was deleted in the workspace since it was loaded: ${normalized}`, 409, 'CONFLICT');
+      }
+      await this.requireParentDirectory(repository, normalized);
+    }
+
+    await this.sandbox.fs.uploadFile(Buffer.from(content, 'utf-8'), absolutePath);
+    this.logger.debug(`Wrote ${normalized} in repository ${repository}`);
+
+    return this.getWriteResult(absolutePath, normalized);
+  }
+
+  /**
+   * Create a directory (parent must already exist)
+   */
+  async createDirectory(repository: string, relativePath: string): Promise<FileWriteResult> {
+    const normalized = this.requireNonRootPath(relativePath);
+    const absolutePath = this.resolvePath(repository, normalized);
+
+    if (await this.getDetailsOrNull(absolutePath)) {
+      throw new WorkspaceFileError(`Path already exists: ${normalized}`, 409, 'ALREADY_EXISTS');
+    }
+    await this.requireParentDirectory(repository, normalized);
+
+    await this.sandbox.fs.createFolder(absolutePath, '755');
+    this.logger.debug(`Created directory ${normalized} in repository ${repository}`);
+
+    return this.getWriteResult(absolutePath, normalized);
+  }
+
+  /**
+   * Rename or move a file or directory within the repository
+   */
+  async renamePath(repository: string, fromPath: string, toPath: string): Promise<FileWriteResult> {
+    const from = this.requireNonRootPath(fromPath);
+    const to = this.requireNonRootPath(toPath);
+
+    if (to === from || to.startsWith(`${from}/`)) {
+      throw new WorkspaceFileError(`Cannot move ${from} into itself`, 400, 'INVALID_PATH');
+    }
+
+    const absoluteFrom = this.resolvePath(repository, from);
+    const absoluteTo = this.resolvePath(repository, to);
+
+    if (!(await this.getDetailsOrNull(absoluteFrom))) {
+      throw new WorkspaceFileError(`File not found: ${from}`, 404, 'FILE_NOT_FOUND');
+    }
+    if (await this.getDetailsOrNull(absoluteTo)) {
+      throw new WorkspaceFileError(`Path already exists: ${to}`, 409, 'ALREADY_EXISTS');
+    }
+    await this.requireParentDirectory(repository, to);
+
+    await this.sandbox.fs.moveFiles(absoluteFrom, absoluteTo);
+    this.logger.debug(`Renamed ${from} to ${to} in repository ${repository}`);
+
+    return this.getWriteResult(absoluteTo, to);
+  }
+
+  /**
+   * Delete a file or directory
+   */
+  async deletePath(repository: string, relativePath: string): Promise<void> {
+    const normalized = this.requireNonRootPath(relativePath);
+    const absolutePath = this.resolvePath(repository, normalized);
+
+    if (!(await this.getDetailsOrNull(absolutePath))) {
+      throw new WorkspaceFileError(`File not found: ${normalized}`, 404, 'FILE_NOT_FOUND');
+    }
+
+    await this.sandbox.fs.deleteFile(absolutePath);
+    this.logger.debug(`Deleted ${normalized} in repository ${repository}`);
+  }
+
+  /**
+   * Delete a repository's whole directory under projects/
+   */
+  async deleteRepository(repository: string): Promise<void> {
+    const repoPath = this.getRepositoryPath(repository);
+    const result = await this.sandbox.process.executeCommand(`rm -rf "${repoPath}"`, this.rootDir);
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to delete repository directory: ${result.result}`);
+    }
+    this.logger.debug(`Deleted repository directory ${repoPath}`);
+  }
+
+  private requireNonRootPath(relativePath: string): string {
+    const normalized = normalizeRelativePath(relativePath);
+    if (normalized === '/') {
+      throw new WorkspaceFileError('Operation not allowed on the repository root', 400, 'INVALID_PATH');
+    }
+    return normalized;
+  }
+
+  private async requireParentDirectory(repository: string, normalized: string): Promise<void> {
+    const parent = normalized.slice(0, normalized.lastIndexOf('/')) || '/';
+    const details = await this.getDetailsOrNull(this.resolvePath(repository, parent));
+    if (!details || !details.isDir) {
+      throw new WorkspaceFileError(`Parent directory not found: ${parent}`, 404, 'FILE_NOT_FOUND');
+    }
+  }
+
+  private async getDetailsOrNull(absolutePath: string) {
+    try {
+      return await this.sandbox.fs.getFileDetails(absolutePath);
+    } catch {
+      return null;
+    }
+  }
+
+  private async getWriteResult(absolutePath: string, normalized: string): Promise<FileWriteResult> {
+    const details = await this.sandbox.fs.getFileDetails(absolutePath);
+    return {
+      path: normalized,
+      size: details.size,
+      lastModified: this.toIsoString(details.modTime)
+    };
+  }
+
+  private isSameTimestamp(modTime: string, expected: string): boolean {
+    const actual = new Date(modTime).getTime();
+    const wanted = new Date(expected).getTime();
+    if (isNaN(actual) || isNaN(wanted)) {
+      return modTime === expected;
+    }
+    return actual === wanted;
+  }
+
+  private async listDirectory(
+    absolutePath: string,
+    relativePath: string,
+    currentDepth: number,
+    maxDepth: number
+  ): Promise<FileTreeItem[]> {
+    const entries = await this.sandbox.fs.listFiles(absolutePath);
+
+    const visible = entries
+      .filter(entry => !isIgnoredEntry(entry.name))
+      .sort((a, b) => {
+        // Directories first, then alphabetical
+        if (a.isDir !== b.isDir) {
+          return a.isDir ? -1 : 1;
+        }
+        return a.name.localeCompare(b.name);
+      });
+
+    const items: FileTreeItem[] = [];
+    for (const entry of visible) {
+      const itemPath = `${relativePath}/${entry.name}`;
+
+      if (entry.isDir) {
+        let children: FileTreeItem[] | undefined;
+        if (currentDepth < maxDepth) {
+          try {
+            children = await this.listDirectory(`${absolutePath}/${entry.name}`, itemPath, currentDepth + 1, maxDepth);
+          } catch (error) {
+            this.logger.warn(`Failed to list directory ${itemPath}`, error);
+            children = [];
+          }
+        }
+
+        items.push({
+          name: entry.name,
+          path: itemPath,
+          type: 'directory',
+          // children is left undefined when the depth limit is reached so clients can lazy-load
+          ...(children && { children }),
+          lastModified: this.toIsoString(entry.modTime)
+        });
+      } else {
+        items.push({
+          name: entry.name,
+          path: itemPath,
+          type: 'file',
+          size: entry.size,
+          lastModified: this.toIsoString(entry.modTime)
+        });
+      }
+    }
+
+    return items;
+  }
+
+  private toIsoString(modTime: string): string {
+    const date = new Date(modTime);
+    return isNaN(date.getTime()) ? modTime : date.toISOString();
+  }
+}
@@ -0,0 +1,639 @@
+/**
+ * Workspace git service
+ * Runs git commands inside a repository of a Daytona sandbox and parses their output
+ */
+
+import type { Sandbox } from '@daytonaio/sdk';
+import { logger } from './logger';
+import { normalizeRelativePath, validateRepositoryName } from './workspace-files';
+import { buildHunkPatch } from './git-patch';
+
+export type GitChangeStatus =
+  | 'modified'
+  | 'added'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'type-changed'
+  | 'untracked'
+  | 'conflicted';
+
+export interface GitFileChange {
+  path: string;
+  oldPath?: string;
+  status: GitChangeStatus;
+}
+
+export interface GitStatus {
+  branch: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+}
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+}
+
+// Which two versions of a file a diff compares
+export type GitDiffTarget =
+  | { type: 'unstaged' }             // index -> working tree
+  | { type: 'staged' }               // HEAD -> index
+  | { type: 'commit'; hash: string } // parent commit -> commit
+
+export interface GitFileDiff {
+  path: string;
+  original: string;
+  modified: string;
+  patch: string;
+  isBinary: boolean;
+}
+
+// What a repository has checked out; branch is null for a detached HEAD (tag or commit)
+export interface GitHead {
+  branch: string | null;
+  commit: string;
+}
+
+export interface GitRemoteResult {
+  output: string;
+  status: GitStatus;
+}
+
+export const DEFAULT_LOG_LIMIT = 50;
+export const MAX_LOG_LIMIT = 500;
+
+// Network operations (push/pull) can be slow on large repositories
+const REMOTE_COMMAND_TIMEOUT = 120; // seconds
+
+// Never let git block waiting for a username/password prompt
+const NON_INTERACTIVE_ENV = { GIT_TERMINAL_PROMPT: '0' };
+
+// Run every command with stable, machine-readable output
+const GIT = 'git -c core.quotePath=false -c color.ui=never';
+
+// Field/record separators for git log --format
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+export type WorkspaceGitErrorCode =
+  | 'NOT_A_REPOSITORY'
+  | 'INVALID_REF'
+  | 'INVALID_HUNK'
+  | 'NOTHING_TO_COMMIT'
+  | 'IDENTITY_NOT_CONFIGURED'
+  | 'AUTHENTICATION_REQUIRED'
+  | 'NO_REMOTE'
+  | 'PUSH_REJECTED'
+  | 'MERGE_CONFLICT'
+  | 'LOCAL_CHANGES_WOULD_BE_OVERWRITTEN'
+  | 'GIT_COMMAND_FAILED';
+
+export class WorkspaceGitError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: WorkspaceGitErrorCode,
+    public details?: string,
+    public files?: string[]
+  ) {
+    super(message);
+    this.name = 'WorkspaceGitError';
+  }
+
+  static isWorkspaceGitError(error: unknown): error is WorkspaceGitError {
+    return error instanceof WorkspaceGitError;
+  }
+}
+
+/**
+ * Quote a value for safe use as a single POSIX shell argument
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'"'"'`)}'`;
+}
+
+/**
+ * Validate a commit hash (abbreviated or full)
+ */
+export function validateCommitHash(hash: string): string {
+  if (!/^[0-9a-f]{4,40}$/i.test(hash)) {
+    throw new WorkspaceGitError(`Invalid commit hash: ${hash}`, 400, 'INVALID_REF');
+  }
+  return hash;
+}
+
+/**
+ * Turn the output of a failed push/pull into a structured error
+ */
+export function classifyRemoteError(operation: 'push' | 'pull', output: string): WorkspaceGitError {
+  const details = output.trim();
+
+  if (/could not read Username|Authentication failed|terminal prompts disabled|Permission denied|403/i.test(output)) {
+    return new WorkspaceGitError(
+      'GitHub authentication required. Run "gh auth login" in the terminal.',
+      401,
+      'AUTHENTICATION_REQUIRED',
+      details
+    );
+  }
+  if (/No configured push destination|does not appear to be a git repository|no tracking information/i.test(output)) {
+    return new WorkspaceGitError(`No remote configured to ${operation}`, 400, 'NO_REMOTE', details);
+  }
+  if (operation === 'push' && /\[rejected\]|non-fast-forward|fetch first|Updates were rejected/i.test(output)) {
+    return new WorkspaceGitError(
+      'Push rejected: the remote has commits you do not have locally. Pull first, then push again.',
+      409,
+      'PUSH_REJECTED',
+      details
+    );
+  }
+  if (/would be overwritten by merge|commit your changes or stash them/i.test(output)) {
+    return new WorkspaceGitError(
+      'Pull aborted: local changes would be overwritten. Commit or discard them first.',
+      409,
+      'LOCAL_CHANGES_WOULD_BE_OVERWRITTEN',
+      details
+    );
+  }
+  if (/CONFLICT|Automatic merge failed/.test(output)) {
+    const files = [...output.matchAll(/^CONFLICT \([^)]*\): .* in (.+)$/gm)].map(match => match[1].trim());
+    return new WorkspaceGitError(
+      'Merge conflict: resolve the conflicted files, then commit.',
+      409,
+      'MERGE_CONFLICT',
+      details,
+      files
+    );
+  }
+
+  return new WorkspaceGitError(`git ${operation} failed`, 500, 'GIT_COMMAND_FAILED', details);
+}
+
+/**
+ * Map a porcelain status letter to a change status
+ */
+function toChangeStatus(letter: string): GitChangeStatus {
+  switch (letter) {
+    case 'A': return 'added';
+    case 'D': return 'deleted';
+    case 'R': return 'renamed';
+    case 'C': return 'copied';
+    case 'T': return 'type-changed';
+    case 'U': return 'conflicted';
+    default: return 'modified';
+  }
+}
+
+// XY combinations reported by git status for unmerged paths
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
+/**
+ * Parse `git status --porcelain=v1 -z --branch` output
+ * Entries end with NUL and paths are never quoted; a rename or copy is followed by an
+ * extra entry holding its source path
+ */
+export function parseGitStatus(output: string): GitStatus {
+  const status: GitStatus = {
+    branch: null,
+    upstream: null,
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: []
+  };
+
+  const entries = output.split('\0');
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry.trim()) continue;
+
+    if (entry.startsWith('## ')) {
+      parseBranchLine(entry.slice(3), status);
+      continue;
+    }
+
+    const code = entry.slice(0, 2);
+    const path = entry.slice(3);
+
+    if (code === '??') {
+      status.unstaged.push({ path, status: 'untracked' });
+      continue;
+    }
+    if (code === '!!') continue;
+
+    if (CONFLICT_CODES.has(code)) {
+      status.unstaged.push({ path, status: 'conflicted' });
+      continue;
+    }
+
+    const oldPath = /[RC]/.test(code) ? entries[++i] : undefined;
+    const [indexStatus, worktreeStatus] = code;
+
+    if (indexStatus !== ' ') {
+      status.staged.push({
+        path,
+        ...(oldPath && { oldPath }),
+        status: toChangeStatus(indexStatus)
+      });
+    }
+    if (worktreeStatus !== ' ') {
+      status.unstaged.push({ path, status: toChangeStatus(worktreeStatus) });
+    }
+  }
+
+  return status;
+}
+
+function parseBranchLine(branchInfo: string, status: GitStatus): void {
+  const noCommits = branchInfo.match(/^No commits yet on (.+)$/) || branchInfo.match(/^Initial commit on (.+)$/);
+  if (noCommits) {
+    status.branch = noCommits[1];
+    return;
+  }
+  if (branchInfo.startsWith('HEAD (no branch)')) {
+    return;
+  }
+
+  const match = branchInfo.match(/^(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/);
+  if (!match) return;
+
+  status.branch = match[1];
+  status.upstream = match[2] || null;
+
+  const tracking = match[3] || '';
+  const ahead = tracking.match(/ahead (\d+)/);
+  const behind = tracking.match(/behind (\d+)/);
+  status.ahead = ahead ? parseInt(ahead[1], 10) : 0;
+  status.behind = behind ? parseInt(behind[1], 10) : 0;
+}
+
+/**
+ * Parse `git log --format=%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e` output
+ */
+export function parseGitLog(output: string): GitCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.trim())
+    .filter(Boolean)
+    .map(record => {
+      const [hash, shortHash, author, email, date, subject] = record.split(FIELD_SEPARATOR);
+      return { hash, shortHash, author, email, date, subject: subject || '' };
+    });
+}
+
+/**
+ * Parse `<repository>\t<branch>\t<short hash>` lines, see WorkspaceGit.getHeads
+ */
+export function parseHeads(output: string): Record<string, GitHead> {
+  const heads: Record<string, GitHead> = {};
+  for (const line of output.split('\n')) {
+    const [repository, branch, commit] = line.split('\t');
+    // Repositories without commits have no hash
+    if (repository && commit?.trim()) {
+      heads[repository] = { branch: branch || null, commit: commit.trim() };
+    }
+  }
+  return heads;
+}
+
+/**
+ * Parse `git show --name-status -z` output: a status, then one path or, for renames
+ * and copies, the source and destination paths, each ending with NUL
+ */
+export function parseNameStatus(output: string): GitFileChange[] {
+  const fields = output.split('\0');
+  const changes: GitFileChange[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const code = fields[i].trim();
+    if (!code) continue;
+
+    const status = toChangeStatus(code.charAt(0));
+    changes.push(status === 'renamed' || status === 'copied'
+      ? { oldPath: fields[++i], path: fields[++i], status }
+      : { path: fields[++i], status });
+  }
+
+  return changes;
+}
+
+export class WorkspaceGit {
+  private logger = logger;
+
+  constructor(
+    private sandbox: Sandbox,
+    private rootDir: string
+  ) {}
+
+  /**
+   * Absolute path of a repository inside the sandbox
+   */
+  getRepositoryPath(repository: string): string {
+    return `${this.rootDir}/projects/${validateRepositoryName(repository)}`;
+  }
+
+  /**
+   * Branch information plus staged and unstaged changes
+   */
+  async getStatus(repository: string): Promise<GitStatus> {
+    const output = await this.run(repository, `${GIT} status --porcelain=v1 -z --branch --untracked-files=all`);
+    return parseGitStatus(output);
+  }
+
+  /**
+   * Checked out branch and commit of several repositories in one command
+   * Repositories that are missing or not git repositories are left out
+   */
+  async getHeads(repositories: string[]): Promise<Record<string, GitHead>> {
+    if (repositories.length === 0) return {};
+
+    const names = repositories.map(repository => shellQuote(validateRepositoryName(repository))).join(' ');
+    const response = await this.sandbox.process.executeCommand(
+      `for r in ${names}; do [ -e "$r/.git" ] && printf '%s\t%s\t%s\n' "$r" "$(git -C "$r" symbolic-ref --short -q HEAD)" "$(git -C "$r" rev-parse --short HEAD 2>/dev/null)"; done; true`,
+      `${this.rootDir}/projects`
+    );
+    return parseHeads(response.result);
+  }
+
+  /**
+   * Recent commits on the current branch, newest first
+   */
+  async getLog(repository: string, limit: number = DEFAULT_LOG_LIMIT): Promise<GitCommit[]> {
+    const count = Math.min(Math.max(Math.floor(limit), 1), MAX_LOG_LIMIT);
+    const format = ['%H', '%h', '%an', '%ae', '%aI', '%s'].join('%x1f') + '%x1e';
+
+    const cwd = await this.requireRepository(repository);
+    const response = await this.sandbox.process.executeCommand(
+      `${GIT} log -n ${count} --format=${format}`,
+      cwd
+    );
+
+    // A repository without commits makes git log fail; treat it as empty history
+    if (response.exitCode !== 0) {
+      if (/does not have any commits|bad default revision/.test(response.result)) {
+        return [];
+      }
+      throw this.commandError('git log', response.result);
+    }
+
+    return parseGitLog(response.result);
+  }
+
+  /**
+   * Files changed by a single commit
+   */
+  async getCommitFiles(repository: string, hash: string): Promise<GitFileChange[]> {
+    const ref = validateCommitHash(hash);
+    const output = await this.run(repository, `${GIT} show --name-status -z --format= -M ${ref}`);
+    return parseNameStatus(output);
+  }
+
+  /**
+   * Original and modified content of a file plus its unified patch
+   */
+  async getFileDiff(repository: string, filePath: string, target: GitDiffTarget): Promise<GitFileDiff> {
+    const normalized = normalizeRelativePath(filePath);
+    const gitPath = normalized.slice(1);
+    const quotedPath = shellQuote(gitPath);
+
+    let originalRef: string | null;
+    let modifiedRef: string | null;
+    let patchCommand: string;
+
+    switch (target.type) {
+      case 'staged':
+        originalRef = `HEAD:${gitPath}`;
+        modifiedRef = `:${gitPath}`;
+        patchCommand = `${GIT} diff --cached -- ${quotedPath}`;
+        break;
+      case 'commit': {
+        const ref = validateCommitHash(target.hash);
+        originalRef = `${ref}^:${gitPath}`;
+        modifiedRef = `${ref}:${gitPath}`;
+        patchCommand = `${GIT} show --format= ${ref} -- ${quotedPath}`;
+        break;
+      }
+      default:
+        originalRef = `:${gitPath}`;
+        modifiedRef = null; // working tree
+        // Untracked files have no index entry, so diff them against /dev/null
+        patchCommand = `(${GIT} ls-files --error-unmatch -- ${quotedPath} >/dev/null 2>&1 && ${GIT} diff -- ${quotedPath}) || ${GIT} diff --no-index -- /dev/null ${quotedPath}`;
+    }
+
+    const cwd = await this.requireRepository(repository);
+    const [original, modified, patchResponse] = await Promise.all([
+      this.readRef(cwd, originalRef),
+      modifiedRef ? this.readRef(cwd, modifiedRef) : this.readWorkingTree(cwd, quotedPath),
+      this.sandbox.process.executeCommand(patchCommand, cwd)
+    ]);
+
+    const patch = patchResponse.result || '';
+    const isBinary = /^Binary files .* differ$/m.test(patch);
+
+    return {
+      path: normalized,
+      original: isBinary ? '' : original,
+      modified: isBinary ? '' : modified,
+      patch,
+      isBinary
+    };
+  }
+
+  /**
+   * Stage whole files (including deletions)
+   */
+  async stageFiles(repository: string, paths: string[]): Promise<void> {
+    await this.run(repository, `${GIT} add -A -- ${this.quotePaths(paths)}`);
+  }
+
+  /**
+   * Move whole files out of the index, keeping working tree changes
+   */
+  async unstageFiles(repository: string, paths: string[]): Promise<void> {
+    const quoted = this.quotePaths(paths);
+    // `git restore --staged` needs HEAD; before the first commit, drop entries from the index instead
+    await this.run(
+      repository,
+      `if ${GIT} rev-parse --verify -q HEAD >/dev/null; then ${GIT} restore --staged -- ${quoted}; else ${GIT} rm -r -q --cached -- ${quoted}; fi`
+    );
+  }
+
+  /**
+   * Stage a single hunk of the unstaged diff, or unstage a hunk of the staged diff
+   */
+  async applyHunk(repository: string, filePath: string, hunkIndex: number, action: 'stage' | 'unstage'): Promise<void> {
+    const gitPath = normalizeRelativePath(filePath).slice(1);
+    const quotedPath = shellQuote(gitPath);
+    const cwd = await this.requireRepository(repository);
+
+    // Recompute the patch server-side so clients can only stage what git reports
+    const diffCommand = action === 'stage'
+      ? `${GIT} diff -- ${quotedPath}`
+      : `${GIT} diff --cached -- ${quotedPath}`;
+    const diffResponse = await this.sandbox.process.executeCommand(diffCommand, cwd);
+    const hunkPatch = diffResponse.exitCode === 0 ? buildHunkPatch(diffResponse.result, hunkIndex) : null;
+
+    if (!hunkPatch) {
+      throw new WorkspaceGitError(
+        `Hunk ${hunkIndex} not found in ${action === 'stage' ? 'unstaged' : 'staged'} changes of ${gitPath}`,
+        400,
+        'INVALID_HUNK'
+      );
+    }
+
+    const patchFile = `/tmp/agentsos-hunk-${Date.now()}-${Math.random().toString(36).slice(2)}.patch`;
+    await this.sandbox.fs.uploadFile(Buffer.from(hunkPatch, 'utf-8'), patchFile);
+
+    try {
+      const reverse = action === 'unstage' ? ' -R' : '';
+      const response = await this.sandbox.process.executeCommand(
+        `${GIT} apply --cached${reverse} ${shellQuote(patchFile)} 2>&1`,
+        cwd
+      );
+      if (response.exitCode !== 0) {
+        throw new WorkspaceGitError(
+          'Hunk no longer applies cleanly. Refresh and try again.',
+          409,
+          'INVALID_HUNK',
+          response.result.trim()
+        );
+      }
+    } finally {
+      await this.sandbox.process.executeCommand(`rm -f ${shellQuote(patchFile)}`, cwd);
+    }
+  }
+
+  /**
+   * Commit the staged changes
+   */
+  async commit(repository: string, message: string): Promise<GitCommit> {
+    const cwd = await this.requireRepository(repository);
+    const response = await this.sandbox.process.executeCommand(
+      `${GIT} commit -q -m ${shellQuote(message)} 2>&1`,
+      cwd
+    );
+
+    if (response.exitCode !== 0) {
+      const output = response.result;
+      if (/nothing to commit|no changes added to commit|nothing added to commit/i.test(output)) {
+        throw new WorkspaceGitError('Nothing staged to commit', 400, 'NOTHING_TO_COMMIT', output.trim());
+      }
+      if (/Please tell me who you are|unable to auto-detect email address/i.test(output)) {
+        throw new WorkspaceGitError(
+          'Git identity is not configured. Set user.name and user.email in the terminal.',
+          400,
+          'IDENTITY_NOT_CONFIGURED',
+          output.trim()
+        );
+      }
+      throw this.commandError('git commit', output);
+    }
+
+    const [latest] = await this.getLog(repository, 1);
+    this.logger.info(`Committed ${latest?.shortHash} in repository ${repository}`);
+    return latest;
+  }
+
+  /**
+   * Push the current branch, setting the upstream on first push
+   */
+  async push(repository: string): Promise<GitRemoteResult> {
+    const cwd = await this.requireRepository(repository);
+    const command = `gh auth setup-git >/dev/null 2>&1; ` +
+      `if ${GIT} rev-parse --abbrev-ref --symbolic-full-name @{u} >/dev/null 2>&1; ` +
+      `then ${GIT} push 2>&1; else ${GIT} push -u origin HEAD 2>&1; fi`;
+
+    return this.runRemote(repository, cwd, 'push', command);
+  }
+
+  /**
+   * Pull the current branch with a merge (never rebases agent work)
+   */
+  async pull(repository: string): Promise<GitRemoteResult> {
+    const cwd = await this.requireRepository(repository);
+    const command = `gh auth setup-git >/dev/null 2>&1; ${GIT} pull --no-rebase --no-edit 2>&1`;
+
+    return this.runRemote(repository, cwd, 'pull', command);
+  }
+
+  private async runRemote(
+    repository: string,
+    cwd: string,
+    operation: 'push' | 'pull',
+    command: string
+  ): Promise<GitRemoteResult> {
+    const response = await this.sandbox.process.executeCommand(command, cwd, NON_INTERACTIVE_ENV, REMOTE_COMMAND_TIMEOUT);
+
+    if (response.exitCode !== 0) {
+      const error = classifyRemoteError(operation, response.result);
+      this.logger.warn(`git ${operation} failed in repository ${repository}`, { code: error.code });
+      throw error;
+    }
+
+    return {
+      output: response.result.trim(),
+      status: await this.getStatus(repository)
+    };
+  }
+
+  private quotePaths(paths: string[]): string {
+    if (paths.length === 0) {
+      throw new WorkspaceGitError('At least one path is required', 400, 'INVALID_REF');
+    }
+    return paths.map(path => shellQuote(normalizeRelativePath(path).slice(1) || '.')).join(' ');
+  }
+
+  /**
+   * Run a git command in a repository, throwing on a non-zero exit code
+   */
+  protected async run(repository: string, command: string): Promise<string> {
+    const cwd = await this.requireRepository(repository);
+    const response = await this.sandbox.process.executeCommand(command, cwd);
+
+    if (response.exitCode !== 0) {
+      throw this.commandError(command.replace(GIT, 'git').split(' ').slice(0, 2).join(' '), response.result);
+    }
+    return response.result;
+  }
+
+  protected async requireRepository(repository: string): Promise<string> {
+    const cwd = this.getRepositoryPath(repository);
+    const check = await this.sandbox.process.executeCommand(
+      'git rev-parse --is-inside-work-tree 2>/dev/null || echo "NOT_A_REPOSITORY"',
+      cwd
+    );
+
+    if (check.exitCode !== 0 || !check.result.includes('true')) {
+      throw new WorkspaceGitError(
+        `Repository "${repository}" is not a git repository`,
+        404,
+        'NOT_A_REPOSITORY'
+      );
+    }
+    return cwd;
+  }
+
+  protected commandError(command: string, output: string): WorkspaceGitError {
+    this.logger.warn(`${command} failed`, { output: output.substring(0, 500) });
+    return new WorkspaceGitError(`${command} failed`, 500, 'GIT_COMMAND_FAILED', output.trim());
+  }
+
+  private async readRef(cwd: string, ref: string): Promise<string> {
+    // Missing objects (added/deleted files) read as empty content
+    const response = await this.sandbox.process.executeCommand(`${GIT} show ${shellQuote(ref)} 2>/dev/null`, cwd);
+    return response.exitCode === 0 ? response.result : '';
+  }
+
+  private async readWorkingTree(cwd: string, quotedPath: string): Promise<string> {
+    const response = await this.sandbox.process.executeCommand(`cat -- ${quotedPath} 2>/dev/null`, cwd);
+    return response.exitCode === 0 ? response.result : '';
+  }
+}
@@ -0,0 +1,85 @@
+import type { Sandbox } from '@daytonaio/sdk';
+import type { DaytonaClient } from '@/lib/daytona';
+import type { UserWorkspace } from '@/types/workspace';
+import { Logger } from '@/lib/logger';
+import {
+  DEFAULT_IDLE_POLICY,
+  generateActivityCommand,
+  generateKeepAliveCommand,
+  getAutoStopPlan,
+  parseActivity,
+  shouldStartOnSchedule,
+  type AutoStopPlan,
+  type WorkspaceActivity
+} from '@/lib/workspace-idle';
+
+export interface WorkspaceIdleStatus {
+  activity: WorkspaceActivity | null;   // null while the sandbox is not started
+  autoStop: AutoStopPlan | null;
+}
+
+export type ScheduledAction = 'stopped' | 'started' | null;
+
+// All the monitor reads of a workspace
+type IdleWorkspace = Pick<UserWorkspace, 'sandboxId' | 'idlePolicy'>;
+
+/**
+ * WorkspaceIdleMonitor - reads sandbox activity and applies a workspace's idle policy
+ * Stopping goes through DaytonaClient.stopWorkspace, the same path as /api/workspace-stop
+ */
+export class WorkspaceIdleMonitor {
+  private logger = Logger.create('WorkspaceIdle');
+
+  constructor(private daytonaClient: DaytonaClient) {}
+
+  async getActivity(sandbox: Sandbox): Promise<WorkspaceActivity> {
+    const result = await sandbox.process.executeCommand(generateActivityCommand());
+    return parseActivity(result.result);
+  }
+
+  async getStatus(sandbox: Sandbox, workspace: IdleWorkspace): Promise<WorkspaceIdleStatus> {
+    if (sandbox.state !== 'started') {
+      return { activity: null, autoStop: null };
+    }
+
+    const activity = await this.getActivity(sandbox);
+    return { activity, autoStop: getAutoStopPlan(workspace.idlePolicy ?? DEFAULT_IDLE_POLICY, activity) };
+  }
+
+  /**
+   * Postpone any auto-stop, e.g. when the user answers the countdown warning
+   */
+  async keepAlive(sandbox: Sandbox, workspace: IdleWorkspace, minutes: number): Promise<WorkspaceIdleStatus> {
+    await sandbox.process.executeCommand(generateKeepAliveCommand(new Date(Date.now() + minutes * 60000)));
+    this.logger.info(`Auto-stop postponed`, { sandboxId: sandbox.id, minutes }, 'IDLE');
+    return this.getStatus(sandbox, workspace);
+  }
+
+  /**
+   * Stop the sandbox once its auto-stop time has passed, or start it when work hours begin
+   * Run by the scheduler for sandboxes nobody has open; the browser warns and stops on its own
+   */
+  async applyPolicy(workspace: IdleWorkspace, now: Date = new Date()): Promise<ScheduledAction> {
+    const { sandboxId } = workspace;
+    const sandbox = await this.daytonaClient.getSandbox(sandboxId);
+
+    if (sandbox.state === 'stopped') {
+      if (!shouldStartOnSchedule(workspace.idlePolicy?.schedule ?? null, now)) {
+        return null;
+      }
+      // Services come back up when the workspace is opened (see workspace-bootstrap)
+      this.logger.info(`Starting sandbox for work hours`, { sandboxId }, 'SCHEDULE');
+      await sandbox.start();
+      return 'started';
+    }
+
+    const { autoStop } = await this.getStatus(sandbox, workspace);
+    if (!autoStop || Date.parse(autoStop.stopAt) > now.getTime()) {
+      return null;
+    }
+
+    this.logger.info(`Stopping sandbox`, { sandboxId, reason: autoStop.reason }, 'IDLE');
+    await this.daytonaClient.stopWorkspace(sandboxId);
+    return 'stopped';
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * Idle auto-stop and work-hours schedules for sandboxes
+ * Browser-safe: the commands run inside the sandbox are generated here and
+ * executed by WorkspaceIdleMonitor on the server.
+ */
+
+import { AGENTS } from './agent-registry';
+
+// Stop times are taken from the sandbox clock so a skewed browser clock can't stop it early
+export interface WorkspaceActivity {
+  checkedAt: string;          // ISO timestamp
+  lastActivityAt: string;     // Latest terminal input, VSCode heartbeat, busy agent or sandbox start
+  agentCpu: number;           // Summed CPU % of the agent CLIs
+  keepAliveUntil?: string;    // Set by "Keep running"
+}
+
+export interface WorkspaceSchedule {
+  days: number[];             // 0 = Sunday, as Date.getDay()
+  start: string;              // 'HH:MM', sandbox is started
+  end: string;                // 'HH:MM', sandbox is stopped
+  timezone: string;           // IANA zone, e.g. 'Europe/Berlin'
+}
+
+export interface WorkspaceIdlePolicy {
+  idleMinutes: number | null;         // null disables idle auto-stop
+  warningMinutes: number;             // Countdown shown before stopping
+  schedule: WorkspaceSchedule | null;
+}
+
+export interface AutoStopPlan {
+  reason: 'idle' | 'schedule';
+  stopAt: string;             // ISO timestamp
+}
+
+export const DEFAULT_IDLE_POLICY: WorkspaceIdlePolicy = {
+  idleMinutes: null,
+  warningMinutes: 5,
+  schedule: null
+};
+
+export const IDLE_POLICY_LIMITS = {
+  idleMinutes: { min: 5, max: 24 * 60 },
+  warningMinutes: { min: 1, max: 30 }
+} as const;
+
+// Agents above this (summed) CPU % are working, even without terminal input
+export const AGENT_BUSY_CPU_PERCENT = 5;
+
+// The scheduler only starts a sandbox this soon after the work day begins,
+// so a sandbox stopped by hand at noon stays stopped
+export const SCHEDULE_START_GRACE_MS = 30 * 60 * 1000;
+
+export const KEEP_ALIVE_FILE = '/tmp/agentsos-keepalive';
+const CODE_SERVER_HEARTBEAT = '$HOME/.local/share/code-server/heartbeat';
+
+export type WorkspaceIdleErrorCode = 'INVALID_IDLE_POLICY' | 'INVALID_SCHEDULE';
+
+export class WorkspaceIdleError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: WorkspaceIdleErrorCode
+  ) {
+    super(message);
+    this.name = 'WorkspaceIdleError';
+  }
+
+  static isWorkspaceIdleError(error: unknown): error is WorkspaceIdleError {
+    return error instanceof WorkspaceIdleError;
+  }
+}
+
+function parseTimeOfDay(value: unknown): number | null {
+  const match = typeof value === 'string' ? value.match(/^([01]\d|2[0-3]):([0-5]\d)$/) : null;
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateWholeNumber(value: unknown, key: keyof typeof IDLE_POLICY_LIMITS): number {
+  const { min, max } = IDLE_POLICY_LIMITS[key];
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new WorkspaceIdleError(`${key} must be a whole number between ${min} and ${max}`, 400, 'INVALID_IDLE_POLICY');
+  }
+  return value;
+}
+
+function validateSchedule(schedule: unknown): WorkspaceSchedule {
+  if (!schedule || typeof schedule !== 'object') {
+    throw new WorkspaceIdleError('Schedule requires days, start, end and timezone', 400, 'INVALID_SCHEDULE');
+  }
+
+  const { days, start, end, timezone } = schedule as Record<string, unknown>;
+  if (!Array.isArray(days) || days.length === 0 || !days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+    throw new WorkspaceIdleError('Schedule days must be weekdays from 0 (Sunday) to 6', 400, 'INVALID_SCHEDULE');
+  }
+
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null) {
+    throw new WorkspaceIdleError('Schedule start and end must be HH:MM', 400, 'INVALID_SCHEDULE');
+  }
+  if (endMinutes <= startMinutes) {
+    throw new WorkspaceIdleError('Schedule end must be after its start', 400, 'INVALID_SCHEDULE');
+  }
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    throw new WorkspaceIdleError(`Unknown timezone: ${String(timezone)}`, 400, 'INVALID_SCHEDULE');
+  }
+
+  return {
+    days: [...new Set(days as number[])].sort(),
+    start: start as string,
+    end: end as string,
+    timezone
+  };
+}
+
+/**
+ * Whether the scheduler has anything to do for a policy: auto-stop or work hours
+ */
+export function isScheduledIdlePolicy(policy: WorkspaceIdlePolicy | undefined): policy is WorkspaceIdlePolicy {
+  return !!policy && (policy.idleMinutes !== null || policy.schedule !== null);
+}
+
+/**
+ * Validate an idle policy from a request body, falling back to DEFAULT_IDLE_POLICY
+ */
+export function validateIdlePolicy(input: {
+  idleMinutes?: unknown;
+  warningMinutes?: unknown;
+  schedule?: unknown;
+}): WorkspaceIdlePolicy {
+  const idleMinutes = input.idleMinutes == null ? null : validateWholeNumber(input.idleMinutes, 'idleMinutes');
+  const warningMinutes = validateWholeNumber(input.warningMinutes ?? DEFAULT_IDLE_POLICY.warningMinutes, 'warningMinutes');
+
+  if (idleMinutes !== null && warningMinutes >= idleMinutes) {
+    throw new WorkspaceIdleError('warningMinutes must be shorter than idleMinutes', 400, 'INVALID_IDLE_POLICY');
+  }
+
+  return {
+    idleMinutes,
+    warningMinutes,
+    schedule: input.schedule == null ? null : validateSchedule(input.schedule)
+  };
+}
+
+/**
+ * Command printing "<source> <value>" lines for parseActivity
+ * - boot: container start (/proc/1), so a sandbox nobody opened still goes idle
+ * - terminal: last input of each attached tmux client (every ttyd tab is one)
+ * - vscode: code-server touches its heartbeat file while a browser is connected
+ * - agents: summed CPU of the agent CLIs ([x] keeps awk from matching itself)
+ */
+export function generateActivityCommand(): string {
+  const agentPattern = AGENTS.map(agent => `[${agent.launchCommand[0]}]${agent.launchCommand.slice(1)}`).join('|');
+
+  return [
+    'echo "now $(date +%s)"',
+    'echo "boot $(stat -c %Y /proc/1)"',
+    `tmux list-clients -F 'terminal #{client_activity}' 2>/dev/null`,
+    `[ -f "${CODE_SERVER_HEARTBEAT}" ] && echo "vscode $(stat -c %Y "${CODE_SERVER_HEARTBEAT}")"`,
+    `[ -f ${KEEP_ALIVE_FILE} ] && echo "keepalive $(cat ${KEEP_ALIVE_FILE})"`,
+    `ps -eo pcpu=,args= | awk '/${agentPattern}/ { cpu += $1 } END { print "agents", cpu + 0 }'`,
+    'true'
+  ].join('; ');
+}
+
+/**
+ * Command that postpones any auto-stop until the given time
+ */
+export function generateKeepAliveCommand(until: Date): string {
+  return `echo ${Math.floor(until.getTime() / 1000)} > ${KEEP_ALIVE_FILE}`;
+}
+
+/**
+ * Parse the output of generateActivityCommand
+ */
+export function parseActivity(output: string): WorkspaceActivity {
+  const values: Record<string, number[]> = {};
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(/^(\w+) (\d+(?:\.\d+)?)$/);
+    if (match) {
+      (values[match[1]] ??= []).push(Number(match[2]));
+    }
+  }
+
+  const nowSeconds = values.now?.[0];
+  if (!nowSeconds) {
+    throw new Error('Unable to read sandbox activity');
+  }
+
+  const agentCpu = values.agents?.[0] ?? 0;
+  const lastActivitySeconds = agentCpu >= AGENT_BUSY_CPU_PERCENT
+    ? nowSeconds
+    : Math.max(...(values.boot ?? []), ...(values.terminal ?? []), ...(values.vscode ?? []), 0);
+  const keepAliveSeconds = values.keepalive?.[0];
+
+  return {
+    checkedAt: new Date(nowSeconds * 1000).toISOString(),
+    lastActivityAt: new Date(Math.min(lastActivitySeconds, nowSeconds) * 1000).toISOString(),
+    agentCpu,
+    ...(keepAliveSeconds && keepAliveSeconds > nowSeconds && { keepAliveUntil: new Date(keepAliveSeconds * 1000).toISOString() })
+  };
+}
+
+/**
+ * Weekday and minutes since midnight in the schedule's timezone
+ */
+function getZonedTime(date: Date, timezone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+/**
+ * The work-hours window containing `now`, or null outside work hours
+ */
+export function getScheduleWindow(schedule: WorkspaceSchedule, now: Date): { start: Date; end: Date } | null {
+  const { day, minutes } = getZonedTime(now, schedule.timezone);
+  const startMinutes = parseTimeOfDay(schedule.start) ?? 0;
+  const endMinutes = parseTimeOfDay(schedule.end) ?? 0;
+
+  if (!schedule.days.includes(day) || minutes < startMinutes || minutes >= endMinutes) {
+    return null;
+  }
+
+  // Relative to now rather than midnight, which keeps DST shifts out of the math
+  const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+  return {
+    start: new Date(startOfMinute - (minutes - startMinutes) * 60000),
+    end: new Date(startOfMinute + (endMinutes - minutes) * 60000)
+  };
+}
+
+/**
+ * Whether the scheduler should start a stopped sandbox now
+ */
+export function shouldStartOnSchedule(schedule: WorkspaceSchedule | null, now: Date): boolean {
+  const window = schedule ? getScheduleWindow(schedule, now) : null;
+  return window !== null && now.getTime() - window.start.getTime() < SCHEDULE_START_GRACE_MS;
+}
+
+/**
+ * When a running sandbox will be stopped, and why
+ * Idle sandboxes stop idleMinutes after their last activity; scheduled ones at the end of work hours.
+ * "Keep running" pushes either back until keepAliveUntil.
+ */
+export function getAutoStopPlan(policy: WorkspaceIdlePolicy, activity: WorkspaceActivity): AutoStopPlan | null {
+  const now = new Date(activity.checkedAt);
+  const keepAliveUntil = activity.keepAliveUntil ? new Date(activity.keepAliveUntil).getTime() : 0;
+  const plans: AutoStopPlan[] = [];
+
+  if (policy.idleMinutes !== null) {
+    const idleStop = new Date(activity.lastActivityAt).getTime() + policy.idleMinutes * 60000;
+    plans.push({ reason: 'idle', stopAt: new Date(Math.max(idleStop, keepAliveUntil)).toISOString() });
+  }
+
+  const window = policy.schedule ? getScheduleWindow(policy.schedule, now) : null;
+  if (window) {
+    plans.push({ reason: 'schedule', stopAt: new Date(Math.max(window.end.getTime(), keepAliveUntil)).toISOString() });
+  }
+
+  return plans.sort((a, b) => a.stopAt.localeCompare(b.stopAt))[0] ?? null;
+}
@@ -1,5 +1,6 @@
 import { Sandbox } from '@daytonaio/sdk';
 import { logger } from './logger';
+import { AGENTS, type AgentDescriptor } from './agent-registry';
 
 export class WorkspaceInstaller {
   private logger = logger;
@@ -12,22 +13,6 @@ export class WorkspaceInstaller {
     additional: ['net-tools']
   } as const;
 
-  // Single source of truth for CLI tools
-  private static readonly CLI_TOOLS = {
-    claude: {
-      name: 'Claude Code CLI',
-      command: 'claude',
-      installCommand: 'npm install -g @anthropic-ai/claude-code',
-      checkCommand: 'claude --version'
-    },
-    gemini: {
-      name: 'Gemini CLI',
-      command: 'gemini',
-      installCommand: 'npm install -g @google/gemini-cli',
-      checkCommand: 'gemini --version'
-    }
-  } as const;
-
   /**
    * Ensure critical system packages are installed (for existing workspaces)
    * Only installs missing packages, doesn't update existing ones
@@ -104,17 +89,17 @@ export class WorkspaceInstaller {
    * Ensure CLI tools are installed (for existing workspaces)
    * Only installs missing tools, doesn't update existing ones
    */
-  async ensureCLITools(sandbox: Sandbox, rootDir: string): Promise<void> {
+  async ensureCLITools(sandbox: Sandbox, rootDir: string, agents: readonly AgentDescriptor[] = AGENTS): Promise<void> {
     this.logger.info('Checking CLI tools...');
     
-    // Check which CLI tools are missing
-    const toolsToCheck = Object.entries(WorkspaceInstaller.CLI_TOOLS);
-    const missingTools: Array<{ name: string; tool: typeof WorkspaceInstaller.CLI_TOOLS[keyof typeof WorkspaceInstaller.CLI_TOOLS] }> = [];
+    // Check which agent CLIs are missing (see AGENTS in agent-registry)
+    const missingTools: AgentDescriptor[] = [];
     
-    for (const [key, tool] of toolsToCheck) {
+    for (const agent of agents) {
+      const tool = agent.cli;
       try {
         const checkResult = await sandbox.process.executeCommand(
-          `which ${tool.command}`,
+          tool.versionCommand,
           rootDir,
           undefined,
           5000
@@ -124,16 +109,16 @@ export class WorkspaceInstaller {
           this.logger.info(`✓ ${tool.name} already installed`);
         } else {
           this.logger.info(`✗ ${tool.name} missing, will install`);
-          missingTools.push({ name: key, tool });
+          missingTools.push(agent);
         }
       } catch {
         this.logger.info(`✗ ${tool.name} check failed, will install`);
-        missingTools.push({ name: key, tool });
+        missingTools.push(agent);
       }
     }
     
     // Install missing CLI tools
-    for (const { name, tool } of missingTools) {
+    for (const { id, cli: tool } of missingTools) {
       this.logger.workspace.installing(tool.name);
       
       const result = await sandbox.process.executeCommand(
@@ -146,8 +131,8 @@ export class WorkspaceInstaller {
       if (result.exitCode !== 0) {
         const errorData = {
           error: result.result,
-          code: `${name.toUpperCase()}_CLI_INSTALL_FAILED`,
-          details: { exitCode: result.exitCode, tool: name }
+          code: `${id.toUpperCase().replace(/-/g, '_')}_CLI_INSTALL_FAILED`,
+          details: { exitCode: result.exitCode, tool: id }
         };
         this.logger.logError(`${tool.name} installation failed, continuing without it`, errorData);
         // Continue with other tools instead of throwing
@@ -184,6 +169,34 @@ export class WorkspaceInstaller {
     }
   }
 
+  /**
+   * Install Node.js 20 when the base image has no npm (Python and Go images)
+   */
+  async installNodeRuntime(sandbox: Sandbox, rootDir: string): Promise<void> {
+    const checkResult = await sandbox.process.executeCommand('which npm', rootDir, undefined, 5000);
+    if (checkResult.exitCode === 0) {
+      return;
+    }
+
+    this.logger.workspace.installing('Node.js runtime');
+    const result = await sandbox.process.executeCommand(
+      `curl -fsSL https://deb.nodesource.com/setup_20.x | bash - && apt-get install -y -qq nodejs`,
+      rootDir,
+      undefined,
+      180000
+    );
+
+    if (result.exitCode !== 0) {
+      const errorData = {
+        error: result.result,
+        code: 'NODE_RUNTIME_INSTALL_FAILED',
+        details: { exitCode: result.exitCode }
+      };
+      this.logger.logError('Node.js installation failed', errorData);
+      throw new Error(`Node.js installation failed: ${result.result}`);
+    }
+  }
+
   async installTtyd(sandbox: Sandbox, rootDir: string): Promise<void> {
     this.logger.workspace.installing('terminal (ttyd)');
     // Install ttyd using the install script for better compatibility
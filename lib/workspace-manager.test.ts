@@ -209,6 +209,29 @@ describe('WorkspaceManager Environment File Operations', () => {
       );
     });
 
+    it('should write a nested target file next to its backup, creating its directory', async () => {
+      const content = 'KEY1=value1';
+      const existingContent = Buffer.from('OLD_KEY=old_value');
+
+      mockSandbox.process.executeCommand.mockResolvedValue({ result: 'project-exists' });
+      mockSandbox.fs.downloadFile.mockResolvedValue(existingContent);
+
+      await workspaceManager.writeEnvFile('sandbox-id', content, true, 'test-project', 'apps/web/.env');
+
+      expect(mockSandbox.fs.uploadFile).toHaveBeenCalledWith(
+        existingContent,
+        expect.stringMatching(/^\/root\/projects\/test-project\/apps\/web\/\.env\.backup-/)
+      );
+      expect(mockSandbox.process.executeCommand).toHaveBeenCalledWith(
+        'mkdir -p "/root/projects/test-project/apps/web"',
+        '/root'
+      );
+      expect(mockSandbox.fs.uploadFile).toHaveBeenCalledWith(
+        Buffer.from(content, 'utf-8'),
+        '/root/projects/test-project/apps/web/.env'
+      );
+    });
+
     it('should fallback to root directory when project not found', async () => {
       const content = 'KEY1=value1\nKEY2=value2';
       mockSandbox.process.executeCommand.mockRejectedValue(new Error('Projects directory not found'));
@@ -1,7 +1,10 @@
-import { Daytona, Sandbox } from '@daytonaio/sdk';
-import { SandboxState } from '@daytonaio/api-client';
+import { Daytona, Image, Sandbox, type VolumeMount } from '@daytonaio/sdk';
+import { SandboxState, type VolumeDto } from '@daytonaio/api-client';
 import { logger } from './logger';
 import { PortManager } from './port-manager';
+import { WORKSPACE_SERVICES } from './workspace-constants';
+import { WORKSPACE_IMAGES, DEFAULT_WORKSPACE_OPTIONS, type WorkspaceImageId } from './workspace-defaults';
+import { SNAPSHOT_VOLUME_NAME } from './workspace-snapshots';
 
 // Handles basic workspace lifecycle operations (start, stop, list, get status)
 export class WorkspaceManager {
@@ -44,9 +47,9 @@ export class WorkspaceManager {
 
         const ports = PortManager.getPortsForSlot(0);
         const healthCheck = await sandbox.process.executeCommand(
-          `curl -s -o /dev/null -w "%{http_code}" http://localhost:${ports.vscode} && echo "" && 
-           curl -s -o /dev/null -w "%{http_code}" http://localhost:${ports.terminal} && echo "" && 
-           curl -s -o /dev/null -w "%{http_code}" http://localhost:${ports.claude}`,
+          WORKSPACE_SERVICES
+            .map(service => `curl -s -o /dev/null -w "%{http_code}" http://localhost:${ports[service]}`)
+            .join(' && echo "" && '),
           rootDir,
           undefined,
           10000
@@ -179,7 +182,7 @@ export class WorkspaceManager {
     return await this.daytona.get(sandboxId);
   }
 
-  async readEnvFile(sandboxId: string, projectName?: string): Promise<string | null> {
+  async readEnvFile(sandboxId: string, projectName?: string, relativePath: string = '.env.local'): Promise<string | null> {
     try {
       const sandbox = await this.daytona.get(sandboxId);
       
@@ -194,29 +197,35 @@ export class WorkspaceManager {
       if (projectName) {
         // Try to read from specific project directory first
         const projectPath = `${rootDir}/projects/${projectName}`;
-        envPath = `${projectPath}/.env.local`;
+        envPath = `${projectPath}/${relativePath}`;
         
         // Verify project directory exists
         const checkDir = await sandbox.process.executeCommand(`ls -la "${projectPath}" || echo "NOT_FOUND"`, rootDir);
         if (checkDir.result.includes('NOT_FOUND')) {
           this.logger.debug(`Project directory "${projectName}" not found, trying root directory`);
-          envPath = `${rootDir}/.env.local`;
+          envPath = `${rootDir}/${relativePath}`;
         }
       } else {
         // Fallback to root directory
-        envPath = `${rootDir}/.env.local`;
+        envPath = `${rootDir}/${relativePath}`;
       }
       
       const buffer = await sandbox.fs.downloadFile(envPath);
       return buffer.toString('utf-8');
     } catch {
       // File doesn't exist or can't be read
-      this.logger.debug(`.env.local does not exist in workspace ${sandboxId}`);
+      this.logger.debug(`${relativePath} does not exist in workspace ${sandboxId}`);
       return null;
     }
   }
 
-  async writeEnvFile(sandboxId: string, content: string, createBackup: boolean = true, projectName?: string): Promise<void> {
+  async writeEnvFile(
+    sandboxId: string,
+    content: string,
+    createBackup: boolean = true,
+    projectName?: string,
+    relativePath: string = '.env.local'
+  ): Promise<void> {
     const sandbox = await this.daytona.get(sandboxId);
     
     // Get the user's root directory 
@@ -251,64 +260,103 @@ export class WorkspaceManager {
       }
       
       const projectPath = `${projectsDir}/${targetProject}`;
-      const envPath = `${projectPath}/.env.local`;
+      const envPath = `${projectPath}/${relativePath}`;
       
       if (createBackup) {
         try {
           // Try to backup existing file
           const existing = await sandbox.fs.downloadFile(envPath);
           const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-          const backupPath = `${projectPath}/.env.local.backup-${timestamp}`;
+          const backupPath = `${envPath}.backup-${timestamp}`;
           await sandbox.fs.uploadFile(existing, backupPath);
           this.logger.debug(`Created backup at ${backupPath}`);
         } catch {
           // No existing file to backup
-          this.logger.debug('No existing .env.local to backup');
+          this.logger.debug(`No existing ${relativePath} to backup`);
         }
       }
       
-      // Write the new content
+      // Write the new content, creating the directories of nested targets
+      if (relativePath.includes('/')) {
+        await this.ensureParentDirectory(sandbox, envPath, rootDir);
+      }
       const buffer = Buffer.from(content, 'utf-8');
       await sandbox.fs.uploadFile(buffer, envPath);
-      this.logger.info(`Updated .env.local in project ${targetProject} at ${envPath}`);
+      this.logger.info(`Updated ${relativePath} in project ${targetProject} at ${envPath}`);
       
     } catch {
       // Fallback to root directory if projects structure doesn't exist
       this.logger.warn('Projects directory not found, falling back to root directory');
-      const envPath = `${rootDir}/.env.local`;
+      const envPath = `${rootDir}/${relativePath}`;
       
       if (createBackup) {
         try {
           const existing = await sandbox.fs.downloadFile(envPath);
           const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-          const backupPath = `${rootDir}/.env.local.backup-${timestamp}`;
+          const backupPath = `${envPath}.backup-${timestamp}`;
           await sandbox.fs.uploadFile(existing, backupPath);
           this.logger.debug(`Created backup at ${backupPath}`);
         } catch {
-          this.logger.debug('No existing .env.local to backup');
+          this.logger.debug(`No existing ${relativePath} to backup`);
         }
       }
       
+      if (relativePath.includes('/')) {
+        await this.ensureParentDirectory(sandbox, envPath, rootDir);
+      }
       const buffer = Buffer.from(content, 'utf-8');
       await sandbox.fs.uploadFile(buffer, envPath);
-      this.logger.info(`Updated .env.local in workspace root at ${envPath}`);
+      this.logger.info(`Updated ${relativePath} in workspace root at ${envPath}`);
     }
   }
 
+  private async ensureParentDirectory(sandbox: Sandbox, filePath: string, rootDir: string): Promise<void> {
+    const parent = filePath.slice(0, filePath.lastIndexOf('/'));
+    await sandbox.process.executeCommand(`mkdir -p "${parent}"`, rootDir);
+  }
+
+  /**
+   * The account's snapshot volume, created on first use
+   * New volumes take a few seconds before they can be mounted; without waiting,
+   * one that is not ready yet is an error
+   */
+  async getSnapshotVolume(wait = true): Promise<VolumeDto> {
+    let volume = await this.daytona.volume.get(SNAPSHOT_VOLUME_NAME, true);
+
+    for (let attempt = 0; wait && volume.state !== 'ready' && attempt < 30; attempt++) {
+      if (volume.state === 'error') {
+        throw new Error(`Snapshot volume ${SNAPSHOT_VOLUME_NAME} is in an error state`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      volume = await this.daytona.volume.get(SNAPSHOT_VOLUME_NAME);
+    }
+
+    if (volume.state !== 'ready') {
+      throw new Error(`Snapshot volume ${SNAPSHOT_VOLUME_NAME} is not ready (${volume.state})`);
+    }
+    return volume;
+  }
+
   async createSandbox(options: {
     cpu: number;
     memory: number;
     disk: number;
+    image?: WorkspaceImageId;
+    volumes?: VolumeMount[];
   }): Promise<Sandbox> {
+    const { image, setupCommands } = WORKSPACE_IMAGES[options.image ?? DEFAULT_WORKSPACE_OPTIONS.image];
+
     return await this.daytona.create({
       public: false,
-      image: "node:20",
+      // Images with setup commands are built by Daytona on first use
+      image: setupCommands ? Image.base(image).runCommands(...setupCommands) : image,
       autoStopInterval: 480,
       resources: {
         cpu: options.cpu,
         memory: options.memory,
         disk: options.disk
-      }
+      },
+      ...(options.volumes && { volumes: options.volumes })
     });
   }
 }
\ No newline at end of file
@@ -0,0 +1,384 @@
+/**
+ * Workspace manifest - a portable description of a workspace, usually checked in as agentsos.yaml
+ *
+ * Describes what a teammate needs to get an identical environment: repositories and
+ * branches, custom commands, agents, VSCode theme/extensions, resources and the names
+ * of the env vars each repository needs. Env var values are never part of a manifest.
+ * Browser-safe: parsed in onboarding before anything is sent to the server.
+ */
+
+import yaml from 'js-yaml';
+import type { CustomTerminal, Repository, UserWorkspace } from '@/types/workspace';
+import type { WorkspaceConfig } from './provisioning/workspace-provisioner';
+import { AGENT_IDS, isAgentId, type AgentId } from './agent-registry';
+import { CustomTerminalError, MAX_CUSTOM_TERMINALS_PER_REPOSITORY, addCustomTerminal, validateCustomTerminalInput } from './custom-terminals';
+import { PortManager } from './port-manager';
+import { GIT_REF_PATTERN } from './repository-clone';
+import { validateWorkspaceOptions, WorkspaceOptionsError } from './workspace-defaults';
+
+export const MANIFEST_VERSION = 1;
+export const MANIFEST_FILE_NAME = 'agentsos.yaml';
+// Looked up in this order in the root of a cloned repository
+export const REPOSITORY_CONFIG_FILES = [MANIFEST_FILE_NAME, 'agentsos.yml', '.agentsos.yaml'];
+
+const MAX_MANIFEST_REPOSITORIES = 20;
+const MAX_NAME_LENGTH = 100;
+const MAX_SETUP_COMMANDS = 10;
+const MAX_SETUP_COMMAND_LENGTH = 500;
+
+const REPOSITORY_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const EXTENSION_PATTERN = /^[A-Za-z0-9-]+\.[A-Za-z0-9._-]+$/;   // publisher.name, passed to code-server unquoted
+
+export type ManifestFormat = 'yaml' | 'json';
+
+export interface ManifestCommand {
+  name: string;
+  command: string;
+  icon?: string;
+  port?: number;   // Port the command serves, e.g. a dev server
+}
+
+export interface ManifestRepository {
+  url: string;
+  name?: string;               // Defaults to the last segment of the URL
+  branch?: string;             // Default branch when unset
+  commands?: ManifestCommand[];   // Custom terminals, ports are assigned on import
+  env?: string[];              // Env var names the repository needs
+}
+
+export interface WorkspaceManifest {
+  version: typeof MANIFEST_VERSION;
+  name?: string;
+  resourceProfile?: UserWorkspace['resourceProfile'];
+  resources?: UserWorkspace['resources'];
+  image?: UserWorkspace['image'];
+  agents?: AgentId[];       // Agents to install and start, every registered agent when unset
+  vscode?: Pick<WorkspaceConfig, 'theme' | 'extensions'>;
+  repositories: ManifestRepository[];
+}
+
+/**
+ * Config checked into a repository's own agentsos.yaml, applied when the repository is cloned
+ * A workspace manifest in a repository is read the same way: keys other than these are ignored
+ */
+export interface RepositoryConfig {
+  setup: string[];          // Run once after cloning, in the repository, e.g. `npm ci`
+  commands: ManifestCommand[];
+  env: string[];
+  agents: AgentId[];        // Recommended agents
+  extensions: string[];     // VSCode extensions
+}
+
+// Read from the sandbox and the user's env store when exporting
+export interface ManifestExportDetails {
+  branches?: Record<string, string>;    // Repository name → checked out branch
+  envKeys?: Record<string, string[]>;   // Repository name → env var names
+  vscode?: WorkspaceManifest['vscode'];
+}
+
+export class WorkspaceManifestError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: 'INVALID_MANIFEST'
+  ) {
+    super(message);
+    this.name = 'WorkspaceManifestError';
+  }
+
+  static isWorkspaceManifestError(error: unknown): error is WorkspaceManifestError {
+    return error instanceof WorkspaceManifestError;
+  }
+}
+
+function invalid(message: string): never {
+  throw new WorkspaceManifestError(`Invalid manifest: ${message}`, 400, 'INVALID_MANIFEST');
+}
+
+function loadYaml(content: string): unknown {
+  try {
+    return yaml.load(content);
+  } catch (error) {
+    invalid(error instanceof Error ? error.message.split('\n')[0] : 'unable to parse');
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateStringList(value: unknown, path: string, pattern: RegExp, description: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    invalid(`${path} must be a list`);
+  }
+  return value.map((item, index) => {
+    if (typeof item !== 'string' || !pattern.test(item)) {
+      invalid(`${path}[${index}] must be ${description}`);
+    }
+    return item;
+  });
+}
+
+/**
+ * Repository name from its URL, e.g. https://github.com/acme/api.git → api
+ */
+export function getRepositoryNameFromUrl(url: string): string {
+  return url.replace(/\/+$/, '').split(/[/:]/).pop()?.replace(/\.git$/, '') ?? '';
+}
+
+function validateCommands(value: unknown, path: string): ManifestCommand[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length > MAX_CUSTOM_TERMINALS_PER_REPOSITORY) {
+    invalid(`${path} must be a list of at most ${MAX_CUSTOM_TERMINALS_PER_REPOSITORY} commands`);
+  }
+
+  return value.map((command, index) => {
+    const input = isRecord(command) ? command : {};
+    const { port } = input;
+    if (port !== undefined && (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535)) {
+      invalid(`${path}[${index}].port must be a port number`);
+    }
+
+    try {
+      return { ...validateCustomTerminalInput(input), ...(port !== undefined && { port: port as number }) };
+    } catch (error) {
+      if (CustomTerminalError.isCustomTerminalError(error)) {
+        invalid(`${path}[${index}]: ${error.message}`);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Agent ids from the agent registry, in the order they are listed
+ */
+function validateAgents(value: unknown): AgentId[] | undefined {
+  const agents = validateStringList(value, 'agents', /^[a-z0-9-]+$/, 'an agent id');
+  const unknownAgent = agents?.find(agent => !isAgentId(agent));
+  if (unknownAgent) {
+    invalid(`agent ${unknownAgent} is not available, expected ${AGENT_IDS.join(', ')}`);
+  }
+  return agents && [...new Set(agents as AgentId[])];
+}
+
+function validateRepository(value: unknown, index: number): ManifestRepository {
+  const path = `repositories[${index}]`;
+  if (!isRecord(value)) {
+    invalid(`${path} must be an object`);
+  }
+
+  // Interpolated into `git clone "<url>"`, so nothing that could escape the quotes
+  const { url } = value;
+  if (typeof url !== 'string' || !/^(https:\/\/|git@)[^\s"'`$\\]+$/.test(url)) {
+    invalid(`${path}.url must be an https:// or git@ URL`);
+  }
+
+  const name = value.name ?? getRepositoryNameFromUrl(url);
+  if (typeof name !== 'string' || !REPOSITORY_NAME_PATTERN.test(name)) {
+    invalid(`${path}.name may only contain letters, digits, dots, dashes and underscores`);
+  }
+
+  if (value.branch !== undefined && (typeof value.branch !== 'string' || !GIT_REF_PATTERN.test(value.branch))) {
+    invalid(`${path}.branch is not a valid branch name`);
+  }
+
+  const commands = validateCommands(value.commands, `${path}.commands`);
+
+  return {
+    url,
+    name,
+    ...(value.branch !== undefined && { branch: value.branch as string }),
+    ...(commands && { commands }),
+    ...(value.env !== undefined && { env: validateStringList(value.env, `${path}.env`, ENV_KEY_PATTERN, 'an env var name') })
+  };
+}
+
+/**
+ * Validate a parsed manifest, returning it without unknown keys
+ */
+export function validateManifest(value: unknown): WorkspaceManifest {
+  if (!isRecord(value)) {
+    invalid('expected an object');
+  }
+  if (value.version !== undefined && value.version !== MANIFEST_VERSION) {
+    invalid(`unsupported version ${String(value.version)}, expected ${MANIFEST_VERSION}`);
+  }
+  if (value.name !== undefined && (typeof value.name !== 'string' || value.name.length > MAX_NAME_LENGTH)) {
+    invalid(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+
+  const { resourceProfile, resources, image } = value;
+  if (resourceProfile !== undefined || resources !== undefined || image !== undefined) {
+    try {
+      validateWorkspaceOptions({ resourceProfile, resources, image });
+    } catch (error) {
+      if (WorkspaceOptionsError.isWorkspaceOptionsError(error)) {
+        invalid(error.message);
+      }
+      throw error;
+    }
+  }
+
+  const agents = validateAgents(value.agents);
+
+  let vscode: WorkspaceManifest['vscode'];
+  if (value.vscode !== undefined) {
+    if (!isRecord(value.vscode)) {
+      invalid('vscode must be an object');
+    }
+    const { theme } = value.vscode;
+    if (theme !== undefined && theme !== 'light' && theme !== 'dark' && theme !== 'system') {
+      invalid('vscode.theme must be light, dark or system');
+    }
+    const extensions = validateStringList(value.vscode.extensions, 'vscode.extensions', EXTENSION_PATTERN, 'a publisher.name extension id');
+    vscode = { ...(theme !== undefined && { theme }), ...(extensions && { extensions }) };
+  }
+
+  const repositoryList = value.repositories ?? [];
+  if (!Array.isArray(repositoryList) || repositoryList.length > MAX_MANIFEST_REPOSITORIES) {
+    invalid(`repositories must be a list of at most ${MAX_MANIFEST_REPOSITORIES} repositories`);
+  }
+  const repositories = repositoryList.map(validateRepository);
+  const names = repositories.map(repository => repository.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    invalid(`repository name ${duplicate} is used twice`);
+  }
+
+  return {
+    version: MANIFEST_VERSION,
+    ...(value.name !== undefined && { name: value.name as string }),
+    ...(resourceProfile !== undefined && { resourceProfile: resourceProfile as WorkspaceManifest['resourceProfile'] }),
+    ...(resources !== undefined && { resources: resources as WorkspaceManifest['resources'] }),
+    ...(image !== undefined && { image: image as WorkspaceManifest['image'] }),
+    ...(agents && { agents }),
+    ...(vscode && { vscode }),
+    repositories
+  };
+}
+
+/**
+ * Parse a YAML or JSON manifest (JSON is valid YAML)
+ */
+export function parseManifest(content: string): WorkspaceManifest {
+  return validateManifest(loadYaml(content));
+}
+
+export function serializeManifest(manifest: WorkspaceManifest, format: ManifestFormat = 'yaml'): string {
+  return format === 'json'
+    ? `${JSON.stringify(manifest, null, 2)}\n`
+    : yaml.dump(manifest, { noRefs: true, lineWidth: 120 });
+}
+
+function toManifestCommand({ name, command, icon, previewPort }: CustomTerminal): ManifestCommand {
+  return { name, command, ...(icon && { icon }), ...(previewPort && { port: previewPort }) };
+}
+
+/**
+ * Describe a workspace as a manifest; the default repository has no URL and is left out
+ */
+export function createManifest(workspace: UserWorkspace, details: ManifestExportDetails = {}): WorkspaceManifest {
+  const repositories = workspace.repositories
+    .filter(repository => repository.url)
+    .map(repository => {
+      const branch = details.branches?.[repository.name];
+      const env = details.envKeys?.[repository.name];
+      const commands = repository.customTerminals?.map(toManifestCommand);
+
+      return {
+        url: repository.url,
+        name: repository.name,
+        ...(branch && { branch }),
+        ...(commands?.length && { commands }),
+        ...(env?.length && { env: [...env].sort() })
+      };
+    });
+
+  return {
+    version: MANIFEST_VERSION,
+    ...(workspace.name && { name: workspace.name }),
+    ...(workspace.resourceProfile && { resourceProfile: workspace.resourceProfile }),
+    ...(workspace.resourceProfile === 'custom' && workspace.resources && { resources: workspace.resources }),
+    ...(workspace.image && { image: workspace.image }),
+    agents: [...(workspace.agents ?? AGENT_IDS)],
+    ...(details.vscode && Object.keys(details.vscode).length > 0 && { vscode: details.vscode }),
+    repositories
+  };
+}
+
+/**
+ * Repositories to clone for a manifest, ports by slot like any new workspace
+ */
+export function getManifestRepositories(manifest: WorkspaceManifest, now: number = Date.now()): Repository[] {
+  return manifest.repositories.map((repository, index) => ({
+    id: `repo-${now}-${index}`,
+    url: repository.url,
+    name: repository.name ?? getRepositoryNameFromUrl(repository.url),
+    sourceType: 'github',
+    ports: PortManager.getPortsForSlot(index),
+    ...(repository.branch && { branch: repository.branch })
+  }));
+}
+
+/**
+ * Add commands as custom terminals to repositories, by repository name
+ * Runs once every repository has its ports so terminal ports don't collide with them
+ */
+export function applyCommands(repositories: Repository[], commandsByRepository: Record<string, ManifestCommand[]>): Repository[] {
+  const unavailablePorts = PortManager.getAssignedPorts(repositories);
+
+  return repositories.map(current => (commandsByRepository[current.name] ?? []).reduce((repository, { port, ...input }) => {
+    const { repository: updated, terminal } = addCustomTerminal(repository, input, unavailablePorts);
+    unavailablePorts.add(terminal.port);
+    return port === undefined ? updated : {
+      ...updated,
+      customTerminals: updated.customTerminals?.map(candidate => candidate.id === terminal.id ? { ...terminal, previewPort: port } : candidate)
+    };
+  }, current));
+}
+
+/**
+ * Add the manifest's commands as custom terminals to the created repositories
+ */
+export function applyManifestCommands(manifest: WorkspaceManifest, repositories: Repository[]): Repository[] {
+  return applyCommands(repositories, Object.fromEntries(
+    manifest.repositories.map(repository => [repository.name ?? getRepositoryNameFromUrl(repository.url), repository.commands ?? []])
+  ));
+}
+
+/**
+ * Parse a repository's agentsos.yaml
+ */
+export function parseRepositoryConfig(content: string): RepositoryConfig {
+  const value = loadYaml(content);
+  if (!isRecord(value)) {
+    invalid('expected an object');
+  }
+
+  const setup = value.setup === undefined ? [] : value.setup;
+  if (!Array.isArray(setup) || setup.length > MAX_SETUP_COMMANDS) {
+    invalid(`setup must be a list of at most ${MAX_SETUP_COMMANDS} commands`);
+  }
+  setup.forEach((command, index) => {
+    if (typeof command !== 'string' || !command.trim() || command.length > MAX_SETUP_COMMAND_LENGTH || /[\r\n]/.test(command)) {
+      invalid(`setup[${index}] must be a single line command of at most ${MAX_SETUP_COMMAND_LENGTH} characters`);
+    }
+  });
+
+  const vscode = isRecord(value.vscode) ? value.vscode : {};
+
+  return {
+    setup: (setup as string[]).map(command => command.trim()),
+    commands: validateCommands(value.commands, 'commands') ?? [],
+    env: validateStringList(value.env, 'env', ENV_KEY_PATTERN, 'an env var name') ?? [],
+    agents: validateAgents(value.agents) ?? [],
+    extensions: validateStringList(vscode.extensions, 'vscode.extensions', EXTENSION_PATTERN, 'a publisher.name extension id') ?? []
+  };
+}
@@ -0,0 +1,187 @@
+import type { Logger } from './logger';
+
+/**
+ * Progress of long-running workspace operations (create, bootstrap, fix-services),
+ * streamed to the client as server-sent events while the operation runs
+ */
+export interface WorkspaceProgressEvent {
+  phase: string;                // Same label as the logger timer, e.g. 'Health Checks'
+  repository?: string;          // Set for per-repository steps
+  status: 'started' | 'completed' | 'failed';
+  durationMs?: number;
+  error?: string;
+}
+
+export type WorkspaceProgressListener = (event: WorkspaceProgressEvent) => void;
+
+export interface WorkspaceStreamError {
+  error: string;
+  code?: string;
+  details?: string;
+}
+
+// SSE event names: 'progress' while running, then exactly one 'result' or 'error'
+export type WorkspaceStreamEvent<T> =
+  | { event: 'progress'; data: WorkspaceProgressEvent }
+  | { event: 'result'; data: T }
+  | { event: 'error'; data: WorkspaceStreamError };
+
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+export function formatProgressLabel({ phase, repository }: Pick<WorkspaceProgressEvent, 'phase' | 'repository'>): string {
+  return repository ? `${phase} (${repository})` : phase;
+}
+
+/**
+ * Run one phase under the logger timer and report it to the listener, if any
+ */
+export async function trackPhase<T>(
+  logger: Logger,
+  onProgress: WorkspaceProgressListener | undefined,
+  phase: string,
+  operation: () => Promise<T>,
+  repository?: string
+): Promise<T> {
+  const startTime = Date.now();
+  onProgress?.({ phase, repository, status: 'started' });
+
+  try {
+    const result = await logger.time(formatProgressLabel({ phase, repository }), operation);
+    onProgress?.({ phase, repository, status: 'completed', durationMs: Date.now() - startTime });
+    return result;
+  } catch (error) {
+    onProgress?.({
+      phase,
+      repository,
+      status: 'failed',
+      durationMs: Date.now() - startTime,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Whether the client asked for a progress stream instead of a single JSON response
+ */
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes(EVENT_STREAM_CONTENT_TYPE) ?? false;
+}
+
+export function formatServerSentEvent<T>({ event, data }: WorkspaceStreamEvent<T>): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Stream an operation's progress as server-sent events, ending with its result
+ * Errors thrown by the operation are mapped with toStreamError, since the
+ * HTTP status has already been sent by then
+ */
+export function createProgressStream<T>(
+  operation: (onProgress: WorkspaceProgressListener) => Promise<T>,
+  toStreamError: (error: unknown) => WorkspaceStreamError
+): Response {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects, after which progress is dropped
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Delivery is best-effort: a closed tab must never fail the operation,
+      // e.g. leave a created sandbox unsaved
+      const send = (event: WorkspaceStreamEvent<T>) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        const result = await operation(data => send({ event: 'progress', data }));
+        send({ event: 'result', data: result });
+      } catch (error) {
+        send({ event: 'error', data: toStreamError(error) });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': EVENT_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
+function parseServerSentEvent(chunk: string): { event: string; data: string } | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of chunk.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice('data:'.length).trimStart());
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+/**
+ * Read a progress stream on the client, calling onProgress for each phase
+ * Resolves with the final result and rejects with the streamed error
+ */
+export async function readProgressStream<T>(
+  response: Response,
+  onProgress: WorkspaceProgressListener
+): Promise<T> {
+  if (!response.body) {
+    throw new Error('Progress stream has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const parsed = parseServerSentEvent(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (!parsed) continue;
+
+      const data = JSON.parse(parsed.data);
+      if (parsed.event === 'progress') {
+        onProgress(data as WorkspaceProgressEvent);
+      } else if (parsed.event === 'result') {
+        return data as T;
+      } else if (parsed.event === 'error') {
+        const { error, details } = data as WorkspaceStreamError;
+        throw new Error(details || error);
+      }
+    }
+
+    if (done) {
+      throw new Error('Progress stream ended without a result');
+    }
+  }
+}
@@ -1,11 +1,15 @@
 import { Daytona, type Sandbox } from '@daytonaio/sdk';
 import { auth } from '@clerk/nextjs/server';
 import { UserServiceAdmin } from '@/lib/user-service-admin';
-import type { UserWorkspace, Repository } from '@/types/workspace';
+import type { UserWorkspace, Repository, ServicePorts } from '@/types/workspace';
 import { Logger } from '@/lib/logger';
-import { TTYD_THEME, SERVICES_PER_REPOSITORY } from '@/lib/workspace-constants';
+import { TTYD_THEME, SERVICES_PER_REPOSITORY, SERVICE_DISPLAY_NAMES, WORKSPACE_SERVICES, type WorkspaceService } from '@/lib/workspace-constants';
+import { AGENTS, getWorkspaceAgents } from '@/lib/agent-registry';
 import { WorkspaceInstaller } from '@/lib/workspace-installer';
 import { TmuxScriptGenerator } from '@/lib/tmux-script-generator';
+import { CustomTerminalManager } from '@/lib/custom-terminals';
+import { ServiceSupervisor, type ServiceRestartStats } from '@/lib/service-supervisor';
+import { trackPhase, type WorkspaceProgressListener } from '@/lib/workspace-progress';
 
 export interface ServiceRestartResult {
   success: boolean;
@@ -28,26 +32,36 @@ export interface ServiceStatus {
   pid?: number;
   url?: string;
   error?: string;
+  restarts?: ServiceRestartStats;   // Set once the supervisor has restarted the service
+  repository?: string;
+  serviceId?: WorkspaceService;     // Unset for custom terminals
+}
+
+export interface ServiceOutcome {
+  status: 'success' | 'failed';
+  error?: string;
+  url?: string;
 }
 
 export interface ServiceResult {
   repository: string;
   sourceType: string;
   path: string;
-  ports: {
-    vscode: number;
-    terminal: number;
-    claude: number;
-    gemini: number;
-  };
-  services: {
-    vscode: { status: 'success' | 'failed'; error?: string; url?: string; };
-    terminal: { status: 'success' | 'failed'; error?: string; url?: string; };
-    claude: { status: 'success' | 'failed'; error?: string; url?: string; };
-    gemini: { status: 'success' | 'failed'; error?: string; url?: string; };
-  };
+  ports: ServicePorts;
+  services: Record<WorkspaceService, ServiceOutcome>;
 }
 
+// Startup script and command for one service, see getServiceLaunch
+interface ServiceLaunch {
+  service: WorkspaceService;
+  port: number;
+  script?: { path: string; content: string; session: string };
+  startCommand: string;
+}
+
+// Time given to freshly started services before the health check
+const SERVICE_STARTUP_WAIT_MS = 3500;
+
 export interface WorkspaceAuthResult {
   userId: string;
   userWorkspace: UserWorkspace;
@@ -100,14 +114,11 @@ export class WorkspaceServiceManager {
 
     // Get user's workspace data from Firebase
     this.logger.debug(`Getting workspace data for user`, { userId }, 'FIREBASE');
-    const userWorkspace = await userService.getUserWorkspace(userId);
+    const userWorkspace = await userService.getUserWorkspace(userId, sandboxId);
     
-    if (!userWorkspace || userWorkspace.sandboxId !== sandboxId) {
+    if (!userWorkspace) {
       this.logger.error(`Workspace not found or access denied`, { 
-        details: { 
-          found: userWorkspace?.sandboxId || 'none', 
-          expected: sandboxId 
-        }
+        details: { expected: sandboxId }
       }, 'FIREBASE');
       throw new Error('Workspace not found or access denied');
     }
@@ -178,12 +189,18 @@ export class WorkspaceServiceManager {
     // Build ports to check from user's actual repositories
     const portsToCheck = [];
     for (const repo of repositories) {
-      portsToCheck.push(
-        { name: `VSCode (${repo.name})`, port: repo.ports.vscode },
-        { name: `Terminal (${repo.name})`, port: repo.ports.terminal },
-        { name: `Claude (${repo.name})`, port: repo.ports.claude },
-        { name: `Gemini (${repo.name})`, port: repo.ports.gemini }
-      );
+      portsToCheck.push(...WORKSPACE_SERVICES.map(service => ({
+        name: `${SERVICE_DISPLAY_NAMES[service]} (${repo.name})`,
+        port: repo.ports[service],
+        repository: repo.name,
+        serviceId: service as WorkspaceService | undefined
+      })));
+      portsToCheck.push(...(repo.customTerminals ?? []).map(terminal => ({
+        name: `${terminal.name} (${repo.name})`,
+        port: terminal.port,
+        repository: repo.name,
+        serviceId: undefined
+      })));
     }
     
     const portsList = portsToCheck.map(p => `${p.name}:${p.port}`).join(', ');
@@ -194,9 +211,10 @@ export class WorkspaceServiceManager {
     }, 'HEALTH');
     
     const serviceResults: ServiceStatus[] = [];
+    const restartStats = await this.getRestartStats(sandbox, rootDir);
     
     // Check each service port
-    for (const { name, port } of portsToCheck) {
+    for (const { name, port, repository, serviceId } of portsToCheck) {
       try {
         this.logger.debug(`Checking service`, { service: name, port }, 'HEALTH');
         
@@ -222,6 +240,8 @@ export class WorkspaceServiceManager {
           serviceResults.push({
             service: name,
             port,
+            repository,
+            serviceId,
             status: 'running',
             pid,
             url: `https://${port}-${sandboxId}.proxy.daytona.work`
@@ -231,6 +251,8 @@ export class WorkspaceServiceManager {
           serviceResults.push({
             service: name,
             port,
+            repository,
+            serviceId,
             status: 'stopped'
           });
         }
@@ -243,12 +265,22 @@ export class WorkspaceServiceManager {
         serviceResults.push({
           service: name,
           port,
+          repository,
+          serviceId,
           status: 'error',
           error: errorMsg
         });
       }
     }
     
+    // Surface crash loops the supervisor has been papering over
+    for (const result of serviceResults) {
+      const restarts = restartStats.get(result.port);
+      if (restarts) {
+        result.restarts = restarts;
+      }
+    }
+    
     const runningCount = serviceResults.filter(s => s.status === 'running').length;
     const stoppedCount = serviceResults.filter(s => s.status === 'stopped').length;
     const errorCount = serviceResults.filter(s => s.status === 'error').length;
@@ -264,6 +296,168 @@ export class WorkspaceServiceManager {
     return serviceResults;
   }
 
+  /**
+   * Kill the ttyd/code-server processes listening on the given ports (in parallel)
+   * Other processes on these ports, such as user dev servers, are left running
+   */
+  async stopServicesOnPorts(sandbox: Sandbox, ports: number[], rootDir: string): Promise<void> {
+    await Promise.all(ports.map(async port => {
+      // Supervisor first, otherwise it restarts the service we are stopping
+      await sandbox.process.executeCommand(ServiceSupervisor.generateStopCommand(port), rootDir);
+      await sandbox.process.executeCommand(ServiceSupervisor.generateKillServiceCommand(port), rootDir);
+    }));
+  }
+
+  /**
+   * Restart counts recorded by the service supervisor, keyed by port
+   */
+  async getRestartStats(sandbox: Sandbox, rootDir: string): Promise<Map<number, ServiceRestartStats>> {
+    try {
+      const result = await sandbox.process.executeCommand(ServiceSupervisor.generateStatsCommand(), rootDir);
+      return ServiceSupervisor.parseStats(result.result ?? '');
+    } catch (error) {
+      this.logger.warn(`Could not read supervisor restart counts`, { error: String(error) }, 'HEALTH');
+      return new Map();
+    }
+  }
+
+  /**
+   * Stop everything a repository runs in the sandbox: code-server, ttyd (including
+   * custom terminals), their tmux sessions and startup scripts
+   */
+  async stopRepositoryServices(sandbox: Sandbox, repository: Repository, rootDir: string): Promise<void> {
+    const ports = [
+      ...WORKSPACE_SERVICES.map(service => repository.ports[service]).filter(Boolean),
+      ...(repository.customTerminals ?? []).map(terminal => terminal.port)
+    ];
+    const sessions = [
+      { session: `main-${repository.name}`, script: `/tmp/start-zsh-${repository.name}.sh` },
+      ...AGENTS.map(agent => ({
+        session: `${agent.id}-${repository.name}`,
+        script: `/tmp/start-${agent.id}-${repository.name}.sh`
+      })),
+      ...(repository.customTerminals ?? []).map(terminal => ({
+        session: `custom-${terminal.id}-${repository.name}`,
+        script: `/tmp/start-custom-${terminal.id}-${repository.name}.sh`
+      }))
+    ];
+
+    await this.stopServicesOnPorts(sandbox, ports, rootDir);
+    await sandbox.process.executeCommand(
+      [
+        ...sessions.map(({ session }) => `tmux kill-session -t ${session} 2>/dev/null`),
+        `rm -f ${sessions.map(({ script }) => `"${script}"`).join(' ')}`,
+        'true'
+      ].join('; '),
+      rootDir
+    );
+
+    this.logger.info(`Stopped services for repository`, { repository: repository.name, ports: ports.join(', ') }, 'RESTART');
+  }
+
+  /**
+   * Startup script and supervised start command for one service of a repository
+   * ttyd services attach to a tmux session (see TmuxScriptGenerator); code-server needs no script
+   */
+  private getServiceLaunch(repo: Repository, service: WorkspaceService, repoPath: string): ServiceLaunch {
+    const port = repo.ports[service];
+    const logFile = `/tmp/${service}-${repo.name}-${port}.log`;
+
+    if (service === 'vscode') {
+      return {
+        service,
+        port,
+        startCommand: ServiceSupervisor.generateStartCommand(
+          port,
+          `code-server "${repoPath}" --bind-addr 0.0.0.0:${port} --auth none --disable-telemetry`,
+          logFile
+        )
+      };
+    }
+
+    const agent = AGENTS.find(candidate => candidate.id === service);
+    const script = agent
+      ? {
+          path: `/tmp/start-${agent.id}-${repo.name}.sh`,
+          content: TmuxScriptGenerator.generateAgentScript(repoPath, repo.name, agent),
+          session: `${agent.id}-${repo.name}`
+        }
+      : {
+          path: `/tmp/start-zsh-${repo.name}.sh`,
+          content: TmuxScriptGenerator.generateTerminalScript(repoPath, repo.name),
+          session: `main-${repo.name}`
+        };
+
+    return {
+      service,
+      port,
+      script,
+      startCommand: ServiceSupervisor.generateStartCommand(
+        port,
+        `ttyd --port ${port} --writable -t 'theme=${TTYD_THEME}' "${script.path}"`,
+        logFile
+      )
+    };
+  }
+
+  private async writeServiceScript(sandbox: Sandbox, launch: ServiceLaunch, rootDir: string): Promise<void> {
+    if (launch.script) {
+      await sandbox.process.executeCommand(
+        TmuxScriptGenerator.generateScriptCreationCommand(launch.script.content, launch.script.path),
+        rootDir
+      );
+    }
+  }
+
+  /**
+   * A service is healthy once it answers HTTP 200 on its port
+   */
+  private async checkServiceOutcome(sandbox: Sandbox, port: number, sandboxId: string, rootDir: string): Promise<ServiceOutcome> {
+    try {
+      const result = await sandbox.process.executeCommand(
+        `curl -s -o /dev/null -w "%{http_code}" http://localhost:${port}`,
+        rootDir
+      );
+      if (result.result.trim() === '200') {
+        return { status: 'success', url: `https://${port}-${sandboxId}.proxy.daytona.work` };
+      }
+      return { status: 'failed', error: `Health check failed: HTTP ${result.result}` };
+    } catch (error) {
+      return { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Restart one service of one repository, leaving every other service running
+   * Agent and terminal tmux sessions are killed too, since that is where a stuck CLI lives
+   */
+  async restartRepositoryService(
+    sandbox: Sandbox,
+    repo: Repository,
+    service: WorkspaceService,
+    sandboxId: string,
+    rootDir: string
+  ): Promise<ServiceOutcome> {
+    const launch = this.getServiceLaunch(repo, service, `${rootDir}/projects/${repo.name}`);
+    this.logger.info(`Restarting service`, { repository: repo.name, service, port: launch.port }, 'RESTART');
+
+    await this.stopServicesOnPorts(sandbox, [launch.port], rootDir);
+    if (launch.script) {
+      await sandbox.process.executeCommand(`tmux kill-session -t ${launch.script.session} 2>/dev/null; true`, rootDir);
+    }
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    await sandbox.process.executeCommand(ServiceSupervisor.generateInstallCommand(), rootDir);
+    await this.writeServiceScript(sandbox, launch, rootDir);
+    await sandbox.process.executeCommand(launch.startCommand, rootDir);
+
+    await new Promise(resolve => setTimeout(resolve, SERVICE_STARTUP_WAIT_MS));
+    const outcome = await this.checkServiceOutcome(sandbox, launch.port, sandboxId, rootDir);
+
+    this.logger.info(`Service restart finished`, { repository: repo.name, service, status: outcome.status }, 'RESTART');
+    return outcome;
+  }
+
   /**
    * Restart/fix services for all repositories in a workspace
    */
@@ -271,7 +465,8 @@ export class WorkspaceServiceManager {
     sandbox: Sandbox,
     repositories: Repository[],
     sandboxId: string,
-    rootDir: string
+    rootDir: string,
+    onProgress?: WorkspaceProgressListener
   ): Promise<ServiceResult[]> {
     return await this.logger.time('Service Restart', async () => {
       // IMPORTANT: Sort repositories deterministically by ID to ensure consistent port assignments
@@ -299,7 +494,7 @@ export class WorkspaceServiceManager {
           currentState: sandbox.state 
         }, 'RESTART');
         
-        await this.logger.time('Sandbox Start', async () => {
+        await trackPhase(this.logger, onProgress, 'Sandbox Start', async () => {
           await sandbox.start();
           this.logger.debug(`Waiting for container to be ready...`, { sandboxId }, 'RESTART');
           await new Promise(resolve => setTimeout(resolve, 10000));
@@ -309,7 +504,8 @@ export class WorkspaceServiceManager {
       // Get all ports from user's repositories (sorted)
       const allPorts: number[] = [];
       for (const repo of sortedRepositories) {
-        allPorts.push(repo.ports.vscode, repo.ports.terminal, repo.ports.claude, repo.ports.gemini);
+        allPorts.push(...WORKSPACE_SERVICES.map(service => repo.ports[service]));
+        allPorts.push(...(repo.customTerminals ?? []).map(terminal => terminal.port));
       }
       
       this.logger.debug(`Killing existing processes`, { 
@@ -319,19 +515,18 @@ export class WorkspaceServiceManager {
       }, 'RESTART');
       
       // Kill any existing processes on these ports first (in parallel)
-      await this.logger.time('Process Termination', async () => {
-        const killPromises = allPorts.map(port => Promise.all([
-          sandbox.process.executeCommand(`pkill -f "code-server.*${port}" || true`, rootDir),
-          sandbox.process.executeCommand(`pkill -f "ttyd.*${port}" || true`, rootDir)
-        ]));
-        
-        await Promise.all(killPromises);
+      await trackPhase(this.logger, onProgress, 'Process Termination', async () => {
+        await this.stopServicesOnPorts(sandbox, allPorts, rootDir);
       });
       
       this.logger.debug(`Waiting for processes to fully stop...`, { sandboxId }, 'RESTART');
       await new Promise(resolve => setTimeout(resolve, 1500));
     
     const results: ServiceResult[] = [];
+    const customTerminals = new CustomTerminalManager(sandbox, rootDir);
+    
+    // Every service below runs under the supervisor, which restarts it if it crashes
+    await sandbox.process.executeCommand(ServiceSupervisor.generateInstallCommand(), rootDir);
     
     for (const repo of sortedRepositories) {
       const repoPath = `${rootDir}/projects/${repo.name}`;
@@ -350,10 +545,7 @@ export class WorkspaceServiceManager {
       this.logger.info(`Starting services for repository`, { 
         repository: repo.name, 
         sourceType: repo.sourceType,
-        vscodePort: repo.ports.vscode,
-        terminalPort: repo.ports.terminal,
-        claudePort: repo.ports.claude,
-        geminiPort: repo.ports.gemini
+        ports: WORKSPACE_SERVICES.map(service => `${service}:${repo.ports[service]}`).join(', ')
       }, 'RESTART');
       
       const repoResult: ServiceResult = {
@@ -361,187 +553,44 @@ export class WorkspaceServiceManager {
         sourceType: repo.sourceType,
         path: repoPath,
         ports: repo.ports,
-        services: {
-          vscode: { status: 'failed', error: 'Unknown error' },
-          terminal: { status: 'failed', error: 'Unknown error' },
-          claude: { status: 'failed', error: 'Unknown error' },
-          gemini: { status: 'failed', error: 'Unknown error' }
-        }
+        services: Object.fromEntries(
+          WORKSPACE_SERVICES.map(service => [service, { status: 'failed', error: 'Unknown error' }])
+        ) as Record<WorkspaceService, ServiceOutcome>
       };
       
       // Prepare startup scripts first (parallel script creation)
-      const terminalScript = `/tmp/start-zsh-${repo.name}.sh`;
-      const claudeScript = `/tmp/start-claude-${repo.name}.sh`;
-      const geminiScript = `/tmp/start-gemini-${repo.name}.sh`;
+      const launches = WORKSPACE_SERVICES.map(service => this.getServiceLaunch(repo, service, repoPath));
       
-      const scriptPromises = [
-        // Terminal script with tmux and environment variables
-        sandbox.process.executeCommand(
-          TmuxScriptGenerator.generateScriptCreationCommand(
-            TmuxScriptGenerator.generateTerminalScript(repoPath, repo.name),
-            terminalScript
-          ),
-          rootDir
-        ),
-        
-        // Claude script with tmux and environment variables
-        sandbox.process.executeCommand(
-          TmuxScriptGenerator.generateScriptCreationCommand(
-            TmuxScriptGenerator.generateClaudeScript(repoPath, repo.name),
-            claudeScript
-          ),
-          rootDir
-        ),
-        
-        // Gemini script with tmux and environment variables
-        sandbox.process.executeCommand(
-          TmuxScriptGenerator.generateScriptCreationCommand(
-            TmuxScriptGenerator.generateGeminiScript(repoPath, repo.name),
-            geminiScript
-          ),
-          rootDir
-        )
-      ];
-      
-      await this.logger.time(`Script Creation (${repo.name})`, async () => {
-        await Promise.all(scriptPromises);
-      });
+      await trackPhase(this.logger, onProgress, 'Script Creation', async () => {
+        await Promise.all(launches.map(launch => this.writeServiceScript(sandbox, launch, rootDir)));
+      }, repo.name);
       
       // Start all services in parallel
       const startPromises = [
-        // VSCode
-        sandbox.process.executeCommand(
-          `nohup code-server "${repoPath}" --bind-addr 0.0.0.0:${repo.ports.vscode} --auth none --disable-telemetry > /tmp/vscode-${repo.name}-${repo.ports.vscode}.log 2>&1 &`,
-          rootDir
-        ),
+        ...launches.map(launch => sandbox.process.executeCommand(launch.startCommand, rootDir)),
         
-        // Terminal
-        sandbox.process.executeCommand(
-          `nohup ttyd --port ${repo.ports.terminal} --writable -t 'theme=${TTYD_THEME}' "${terminalScript}" > /tmp/terminal-${repo.name}-${repo.ports.terminal}.log 2>&1 &`,
-          rootDir
-        ),
-        
-        // Claude
-        sandbox.process.executeCommand(
-          `nohup ttyd --port ${repo.ports.claude} --writable -t 'theme=${TTYD_THEME}' "${claudeScript}" > /tmp/claude-${repo.name}-${repo.ports.claude}.log 2>&1 &`,
-          rootDir
-        ),
-        
-        // Gemini
-        sandbox.process.executeCommand(
-          `nohup ttyd --port ${repo.ports.gemini} --writable -t 'theme=${TTYD_THEME}' "${geminiScript}" > /tmp/gemini-${repo.name}-${repo.ports.gemini}.log 2>&1 &`,
-          rootDir
-        )
+        // User-defined custom terminals
+        ...(repo.customTerminals ?? []).map(terminal => customTerminals.start(repo, terminal))
       ];
       
       // Start all services simultaneously
-      await this.logger.time(`Service Startup (${repo.name})`, async () => {
+      await trackPhase(this.logger, onProgress, 'Service Startup', async () => {
         await Promise.all(startPromises);
-      });
+      }, repo.name);
       
       // Single optimized wait for all services to initialize
       this.logger.debug(`Waiting for services to initialize`, { repository: repo.name }, 'RESTART');
-      await new Promise(resolve => setTimeout(resolve, 3500));
+      await new Promise(resolve => setTimeout(resolve, SERVICE_STARTUP_WAIT_MS));
       
       // Health check all services in parallel
-      const healthPromises = [
-        // VSCode health check
-        sandbox.process.executeCommand(
-          `curl -s -o /dev/null -w "%{http_code}" http://localhost:${repo.ports.vscode}`,
-          rootDir
-        ).then(result => {
-          if (result.result.trim() === '200') {
-            repoResult.services.vscode = { 
-              status: 'success', 
-              url: `https://${repo.ports.vscode}-${sandboxId}.proxy.daytona.work`
-            };
-          } else {
-            repoResult.services.vscode = { 
-              status: 'failed', 
-              error: `Health check failed: HTTP ${result.result}`
-            };
-          }
-        }).catch(error => {
-          repoResult.services.vscode = { 
-            status: 'failed', 
-            error: error instanceof Error ? error.message : String(error)
-          };
-        }),
-        
-        // Terminal health check
-        sandbox.process.executeCommand(
-          `curl -s -o /dev/null -w "%{http_code}" http://localhost:${repo.ports.terminal}`,
-          rootDir
-        ).then(result => {
-          if (result.result.trim() === '200') {
-            repoResult.services.terminal = { 
-              status: 'success', 
-              url: `https://${repo.ports.terminal}-${sandboxId}.proxy.daytona.work`
-            };
-          } else {
-            repoResult.services.terminal = { 
-              status: 'failed', 
-              error: `Health check failed: HTTP ${result.result}`
-            };
-          }
-        }).catch(error => {
-          repoResult.services.terminal = { 
-            status: 'failed', 
-            error: error instanceof Error ? error.message : String(error)
-          };
-        }),
-        
-        // Claude health check
-        sandbox.process.executeCommand(
-          `curl -s -o /dev/null -w "%{http_code}" http://localhost:${repo.ports.claude}`,
-          rootDir
-        ).then(result => {
-          if (result.result.trim() === '200') {
-            repoResult.services.claude = { 
-              status: 'success', 
-              url: `https://${repo.ports.claude}-${sandboxId}.proxy.daytona.work`
-            };
-          } else {
-            repoResult.services.claude = { 
-              status: 'failed', 
-              error: `Health check failed: HTTP ${result.result}`
-            };
-          }
-        }).catch(error => {
-          repoResult.services.claude = { 
-            status: 'failed', 
-            error: error instanceof Error ? error.message : String(error)
-          };
-        }),
-        
-        // Gemini health check
-        sandbox.process.executeCommand(
-          `curl -s -o /dev/null -w "%{http_code}" http://localhost:${repo.ports.gemini}`,
-          rootDir
-        ).then(result => {
-          if (result.result.trim() === '200') {
-            repoResult.services.gemini = { 
-              status: 'success', 
-              url: `https://${repo.ports.gemini}-${sandboxId}.proxy.daytona.work`
-            };
-          } else {
-            repoResult.services.gemini = { 
-              status: 'failed', 
-              error: `Health check failed: HTTP ${result.result}`
-            };
-          }
-        }).catch(error => {
-          repoResult.services.gemini = { 
-            status: 'failed', 
-            error: error instanceof Error ? error.message : String(error)
-          };
-        })
-      ];
-      
-      // Wait for all health checks to complete
-      await this.logger.time(`Health Checks (${repo.name})`, async () => {
-        await Promise.all(healthPromises);
-      });
+      await trackPhase(this.logger, onProgress, 'Health Checks', async () => {
+        const outcomes = await Promise.all(
+          launches.map(launch => this.checkServiceOutcome(sandbox, launch.port, sandboxId, rootDir))
+        );
+        launches.forEach((launch, index) => {
+          repoResult.services[launch.service] = outcomes[index];
+        });
+      }, repo.name);
       
       const successCount = Object.values(repoResult.services).filter(s => s.status === 'success').length;
       const failedCount = Object.values(repoResult.services).filter(s => s.status === 'failed').length;
@@ -550,7 +599,7 @@ export class WorkspaceServiceManager {
         repository: repo.name,
         successful: successCount,
         failed: failedCount,
-        total: 3
+        total: SERVICES_PER_REPOSITORY
       }, 'RESTART');
       
       results.push(repoResult);
@@ -580,7 +629,7 @@ export class WorkspaceServiceManager {
     this.logger.debug('Getting running processes for debugging', undefined, 'DEBUG');
     
     const processResult = await sandbox.process.executeCommand(
-      'ps aux | grep -E "(code-server|ttyd|claude)" | grep -v grep',
+      `ps aux | grep -E "(code-server|ttyd|${AGENTS.map(agent => agent.id).join('|')})" | grep -v grep`,
       rootDir
     );
     
@@ -600,27 +649,33 @@ export class WorkspaceServiceManager {
    * Complete service restart operation with authentication and result formatting
    * This method is shared by both the API route and provisioning
    */
-  async restartServicesComplete(sandboxId: string): Promise<ServiceRestartResult> {
+  async restartServicesComplete(sandboxId: string, onProgress?: WorkspaceProgressListener): Promise<ServiceRestartResult> {
     try {
       this.logger.info('Starting complete service restart operation', { sandboxId });
 
       // Authenticate and validate workspace access (with sandbox starting for restart)
-      const { userWorkspace, sandbox, rootDir } = await this.authenticateWorkspaceAccess(sandboxId, true);
+      const { userWorkspace, sandbox, rootDir } = await trackPhase(
+        this.logger,
+        onProgress,
+        'Sandbox Connection',
+        () => this.authenticateWorkspaceAccess(sandboxId, true)
+      );
       
       // Ensure critical system packages are installed (for workspaces created before tmux support)
       this.logger.info('Ensuring critical system packages are present...');
-      await this.installer.ensureSystemPackages(sandbox, rootDir);
+      await trackPhase(this.logger, onProgress, 'System Packages', () => this.installer.ensureSystemPackages(sandbox, rootDir));
       
       // Ensure all CLI tools are installed (for workspaces created before CLI tools support)
       this.logger.info('Ensuring CLI tools are installed...');
-      await this.installer.ensureCLITools(sandbox, rootDir);
+      await trackPhase(this.logger, onProgress, 'CLI Tools', () => this.installer.ensureCLITools(sandbox, rootDir, getWorkspaceAgents(userWorkspace.agents)));
       
       // Restart/fix services for all repositories
       const results = await this.restartServices(
         sandbox,
         userWorkspace.repositories,
         sandboxId,
-        rootDir
+        rootDir,
+        onProgress
       );
       
       // Summary
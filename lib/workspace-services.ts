@@ -1,23 +1,16 @@
 import { Sandbox } from '@daytonaio/sdk';
 import { logger } from './logger';
-import { TTYD_THEME } from './workspace-constants';
+import { TTYD_THEME, WORKSPACE_SERVICES } from './workspace-constants';
+import { AGENTS } from './agent-registry';
 import { PortManager } from './port-manager';
 import { TmuxScriptGenerator } from './tmux-script-generator';
-import type { Repository } from '@/types/workspace';
+import { ServiceSupervisor } from './service-supervisor';
+import { trackPhase, type WorkspaceProgressListener } from './workspace-progress';
+import type { Repository, ServicePorts, ServiceUrls, ServiceTokens } from '@/types/workspace';
 
 interface RepositoryWithUrls extends Repository {
-  urls: {
-    vscode: string;
-    terminal: string;
-    claude: string;
-    gemini: string;
-  };
-  tokens?: {
-    vscode: string | null;
-    terminal: string | null;
-    claude: string | null;
-    gemini: string | null;
-  };
+  urls: ServiceUrls;
+  tokens?: ServiceTokens;
 }
 
 export class WorkspaceServices {
@@ -26,8 +19,15 @@ export class WorkspaceServices {
 
   /**
    * Setup services for multiple repositories (one instance per repo)
+   * Only the given agents get a terminal, every registered agent by default
    */
-  async setupRepositoryServices(sandbox: Sandbox, rootDir: string, repositories: Repository[]): Promise<RepositoryWithUrls[]> {
+  async setupRepositoryServices(
+    sandbox: Sandbox,
+    rootDir: string,
+    repositories: Repository[],
+    onProgress?: WorkspaceProgressListener,
+    agents: ReadonlyArray<typeof AGENTS[number]> = AGENTS
+  ): Promise<RepositoryWithUrls[]> {
     console.log('🔍 DEBUG: setupRepositoryServices input order:', repositories.map((r, i) => ({ 
       index: i, 
       name: r.name,
@@ -38,6 +38,9 @@ export class WorkspaceServices {
     
     const repositoriesWithUrls: RepositoryWithUrls[] = [];
     
+    // Services run under the supervisor, which restarts them if they crash
+    await sandbox.process.executeCommand(ServiceSupervisor.generateInstallCommand(), rootDir);
+    
     for (let i = 0; i < repositories.length; i++) {
       const repo = repositories[i];
       const ports = this.allocatePorts(i);
@@ -46,16 +49,19 @@ export class WorkspaceServices {
       console.log(`🔍 DEBUG: Repository[${i}] "${repo.name}" → Path: ${repoPath}, Ports: ${JSON.stringify(ports)}`);
       
       // Create startup scripts for this repository
-      await this.createRepositoryScripts(sandbox, rootDir, repoPath, repo.name);
-      
-      // Start services for this repository (and wait for them to start)
-      await this.startRepositoryServices(sandbox, rootDir, repoPath, repo.name, ports);
-      
-      // Wait a bit for services to initialize
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      await trackPhase(this.logger, onProgress, 'Script Creation', () => 
+        this.createRepositoryScripts(sandbox, rootDir, repoPath, repo.name, agents), repo.name);
       
-      // Get preview URLs and tokens for this repository
-      const urlsAndTokens = await this.getRepositoryUrls(sandbox, ports);
+      const urlsAndTokens = await trackPhase(this.logger, onProgress, 'Service Startup', async () => {
+        // Start services for this repository (and wait for them to start)
+        await this.startRepositoryServices(sandbox, rootDir, repoPath, repo.name, ports, agents);
+        
+        // Wait a bit for services to initialize
+        await new Promise(resolve => setTimeout(resolve, 3000));
+        
+        // Get preview URLs and tokens for this repository
+        return this.getRepositoryUrls(sandbox, ports);
+      }, repo.name);
       
       repositoriesWithUrls.push({
         ...repo,
@@ -63,14 +69,16 @@ export class WorkspaceServices {
         tokens: urlsAndTokens.tokens
       });
       
-      this.logger.success(`Services started for ${repo.name} - VSCode: ${ports.vscode}, Terminal: ${ports.terminal}, Claude: ${ports.claude}, Gemini: ${ports.gemini}`);
+      this.logger.success(`Services started for ${repo.name} - ${this.describePorts(ports)}`);
     }
     
-    // Wait for all services to fully initialize
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    
-    // Verify all services
-    await this.verifyRepositoryServices(sandbox, rootDir, repositoriesWithUrls);
+    await trackPhase(this.logger, onProgress, 'Health Checks', async () => {
+      // Wait for all services to fully initialize
+      await new Promise(resolve => setTimeout(resolve, 5000));
+      
+      // Verify all services
+      await this.verifyRepositoryServices(sandbox, rootDir, repositoriesWithUrls);
+    });
     
     console.log('🔍 DEBUG: setupRepositoryServices output order:', repositoriesWithUrls.map((r, i) => ({ 
       index: i, 
@@ -83,27 +91,31 @@ export class WorkspaceServices {
     return repositoriesWithUrls;
   }
 
-  private allocatePorts(index: number): { vscode: number; terminal: number; claude: number; gemini: number } {
+  private allocatePorts(index: number): ServicePorts {
     // Use new PortManager for consistent port allocation
     return PortManager.getPortsForSlot(index);
   }
 
-  private async createRepositoryScripts(sandbox: Sandbox, rootDir: string, repoPath: string, repoName: string): Promise<void> {
-    // Create Claude startup script for this repository with tmux
-    const claudeScript = TmuxScriptGenerator.generateClaudeScript(repoPath, repoName);
-    const claudeScriptPath = `/tmp/start-claude-${repoName}.sh`;
-    await sandbox.process.executeCommand(
-      TmuxScriptGenerator.generateScriptCreationCommand(claudeScript, claudeScriptPath),
-      rootDir
-    );
-    
-    // Create Gemini startup script for this repository with tmux
-    const geminiScript = TmuxScriptGenerator.generateGeminiScript(repoPath, repoName);
-    const geminiScriptPath = `/tmp/start-gemini-${repoName}.sh`;
-    await sandbox.process.executeCommand(
-      TmuxScriptGenerator.generateScriptCreationCommand(geminiScript, geminiScriptPath),
-      rootDir
-    );
+  private describePorts(ports: ServicePorts): string {
+    return WORKSPACE_SERVICES.map(service => `${service}: ${ports[service]}`).join(', ');
+  }
+
+  private async createRepositoryScripts(
+    sandbox: Sandbox,
+    rootDir: string,
+    repoPath: string,
+    repoName: string,
+    agents: ReadonlyArray<typeof AGENTS[number]>
+  ): Promise<void> {
+    // Create one startup script per agent for this repository with tmux
+    for (const agent of agents) {
+      const agentScript = TmuxScriptGenerator.generateAgentScript(repoPath, repoName, agent);
+      const agentScriptPath = `/tmp/start-${agent.id}-${repoName}.sh`;
+      await sandbox.process.executeCommand(
+        TmuxScriptGenerator.generateScriptCreationCommand(agentScript, agentScriptPath),
+        rootDir
+      );
+    }
     
     // Create zsh startup script for this repository with tmux
     const terminalScript = TmuxScriptGenerator.generateTerminalScript(repoPath, repoName);
@@ -119,73 +131,67 @@ export class WorkspaceServices {
     rootDir: string, 
     repoPath: string, 
     repoName: string, 
-    ports: { vscode: number; terminal: number; claude: number; gemini: number }
+    ports: ServicePorts,
+    agents: ReadonlyArray<typeof AGENTS[number]>
   ): Promise<void> {
     const servicePromises = [
       // Start VSCode for this repository
       sandbox.process.executeCommand(
-        `nohup code-server --bind-addr 0.0.0.0:${ports.vscode} --auth none --disable-telemetry ${repoPath} > /tmp/code-server-${repoName}.log 2>&1 & echo "code-server started for ${repoName}"`,
+        `${ServiceSupervisor.generateStartCommand(
+          ports.vscode,
+          `code-server --bind-addr 0.0.0.0:${ports.vscode} --auth none --disable-telemetry ${repoPath}`,
+          `/tmp/code-server-${repoName}.log`
+        )} echo "code-server started for ${repoName}"`,
         rootDir
       ),
       
       // Start terminal for this repository
       sandbox.process.executeCommand(
-        `nohup ttyd --port ${ports.terminal} --writable -t 'theme=${TTYD_THEME}' /tmp/start-zsh-${repoName}.sh > /tmp/ttyd-${repoName}.log 2>&1 & echo "terminal started for ${repoName}"`,
+        `${ServiceSupervisor.generateStartCommand(
+          ports.terminal,
+          `ttyd --port ${ports.terminal} --writable -t 'theme=${TTYD_THEME}' /tmp/start-zsh-${repoName}.sh`,
+          `/tmp/ttyd-${repoName}.log`
+        )} echo "terminal started for ${repoName}"`,
         rootDir
       ),
       
-      // Start Claude for this repository
-      sandbox.process.executeCommand(
-        `nohup ttyd --port ${ports.claude} --writable -t 'theme=${TTYD_THEME}' /tmp/start-claude-${repoName}.sh > /tmp/ttyd-claude-${repoName}.log 2>&1 & echo "claude started for ${repoName}"`,
+      // Start each agent's terminal for this repository
+      ...agents.map(agent => sandbox.process.executeCommand(
+        `${ServiceSupervisor.generateStartCommand(
+          ports[agent.id],
+          `ttyd --port ${ports[agent.id]} --writable -t 'theme=${TTYD_THEME}' /tmp/start-${agent.id}-${repoName}.sh`,
+          `/tmp/ttyd-${agent.id}-${repoName}.log`
+        )} echo "${agent.id} started for ${repoName}"`,
         rootDir
-      ),
-      
-      // Start Gemini for this repository
-      sandbox.process.executeCommand(
-        `nohup ttyd --port ${ports.gemini} --writable -t 'theme=${TTYD_THEME}' /tmp/start-gemini-${repoName}.sh > /tmp/ttyd-gemini-${repoName}.log 2>&1 & echo "gemini started for ${repoName}"`,
-        rootDir
-      )
+      ))
     ];
     
     await Promise.all(servicePromises);
-    this.logger.info(`Started services for ${repoName} on ports ${ports.vscode}, ${ports.terminal}, ${ports.claude}, ${ports.gemini}`);
+    this.logger.info(`Started services for ${repoName} on ports ${WORKSPACE_SERVICES.map(service => ports[service]).join(', ')}`);
   }
 
-  private async getRepositoryUrls(sandbox: Sandbox, ports: { vscode: number; terminal: number; claude: number; gemini: number }): Promise<{ 
-    urls: { vscode: string; terminal: string; claude: string; gemini: string };
-    tokens: { vscode: string | null; terminal: string | null; claude: string | null; gemini: string | null };
+  private async getRepositoryUrls(sandbox: Sandbox, ports: ServicePorts): Promise<{ 
+    urls: ServiceUrls;
+    tokens: ServiceTokens;
   }> {
-    const [vscodeInfo, terminalInfo, claudeInfo, geminiInfo] = await Promise.all([
-      sandbox.getPreviewLink(ports.vscode),
-      sandbox.getPreviewLink(ports.terminal),
-      sandbox.getPreviewLink(ports.claude),
-      sandbox.getPreviewLink(ports.gemini)
-    ]);
+    const previewLinks = await Promise.all(
+      WORKSPACE_SERVICES.map(service => sandbox.getPreviewLink(ports[service]))
+    );
     
     return {
-      urls: {
-        vscode: vscodeInfo.url,
-        terminal: terminalInfo.url,
-        claude: claudeInfo.url,
-        gemini: geminiInfo.url
-      },
-      tokens: {
-        vscode: vscodeInfo.token || null,
-        terminal: terminalInfo.token || null,
-        claude: claudeInfo.token || null,
-        gemini: geminiInfo.token || null
-      }
+      urls: Object.fromEntries(
+        WORKSPACE_SERVICES.map((service, i) => [service, previewLinks[i].url])
+      ) as ServiceUrls,
+      tokens: Object.fromEntries(
+        WORKSPACE_SERVICES.map((service, i) => [service, previewLinks[i].token || null])
+      ) as ServiceTokens
     };
   }
 
   private async verifyRepositoryServices(sandbox: Sandbox, rootDir: string, repositories: RepositoryWithUrls[]): Promise<void> {
-    const allPorts = repositories.flatMap(repo => {
-      const vscodePort = new URL(repo.urls.vscode).hostname.split('-')[0];
-      const terminalPort = new URL(repo.urls.terminal).hostname.split('-')[0];
-      const claudePort = new URL(repo.urls.claude).hostname.split('-')[0];
-      const geminiPort = new URL(repo.urls.gemini).hostname.split('-')[0];
-      return [vscodePort, terminalPort, claudePort, geminiPort];
-    }).join('|');
+    const allPorts = repositories.flatMap(repo => 
+      WORKSPACE_SERVICES.map(service => new URL(repo.urls[service]).hostname.split('-')[0])
+    ).join('|');
     
     await sandbox.process.executeCommand(
       `netstat -tlnp | grep -E "(${allPorts})" > /dev/null`,
@@ -0,0 +1,311 @@
+/**
+ * Workspace snapshots - projects/ plus tool state, archived to a Daytona volume
+ *
+ * The volume belongs to the user's Daytona account and outlives its sandboxes, so a
+ * snapshot can be restored after the sandbox was deleted. Volumes can only be mounted
+ * when a sandbox is created: sandboxes created before snapshots existed can't take one.
+ */
+
+import type { Sandbox } from '@daytonaio/sdk';
+import type { Repository, UserWorkspace } from '@/types/workspace';
+import { logger } from './logger';
+import { TmuxScriptGenerator } from './tmux-script-generator';
+import { PortManager } from './port-manager';
+import { CUSTOM_TERMINAL_PORT_RANGE } from './workspace-constants';
+
+export const SNAPSHOT_VOLUME_NAME = 'agentsos-snapshots';
+export const SNAPSHOT_MOUNT_PATH = '/agentsos-snapshots';
+
+// Relative to the user's home; missing paths are skipped
+export const SNAPSHOT_PATHS = [
+  'projects',
+  '.claude',
+  '.claude.json',
+  '.gemini',
+  '.local/share/code-server/extensions',
+  '.local/share/code-server/User',
+  '.config/code-server',
+  '.gitconfig',
+  '.zshrc',
+  '.bashrc',
+  '.profile'
+];
+
+// Agent logins stay with the sandbox they were made in, snapshots may be restored for a teammate
+export const SNAPSHOT_EXCLUDES = [
+  '.claude/.credentials.json',
+  '.gemini/oauth_creds.json'
+];
+
+// Snapshotting node_modules-heavy projects takes a while
+const SNAPSHOT_COMMAND_TIMEOUT_SECONDS = 30 * 60;
+
+// A snapshot still creating after this never finishes, e.g. its sandbox was stopped mid-archive
+export const SNAPSHOT_STALE_AFTER_MS = SNAPSHOT_COMMAND_TIMEOUT_SECONDS * 1000;
+
+export interface WorkspaceSnapshot {
+  id: string;
+  name: string;
+  sourceSandboxId: string;
+  status: 'creating' | 'ready' | 'failed';
+  archivePath: string;                      // Inside SNAPSHOT_MOUNT_PATH
+  statusPath?: string;                      // Written by the background archive when it ends
+  sizeBytes?: number;
+  repositories: Repository[];               // Without preview URLs and tokens, which belong to the old sandbox
+  image?: UserWorkspace['image'];
+  resourceProfile?: UserWorkspace['resourceProfile'];
+  resources?: UserWorkspace['resources'];
+  globalPackages?: Record<string, string>;  // npm -g packages (agent CLIs) and their versions
+  error?: string;
+  createdAt: string;                        // ISO timestamp
+}
+
+export type WorkspaceSnapshotErrorCode =
+  | 'SNAPSHOT_NOT_FOUND'
+  | 'SNAPSHOT_NOT_READY'
+  | 'SNAPSHOT_VOLUME_NOT_MOUNTED'
+  | 'SNAPSHOT_FAILED'
+  | 'INVALID_SNAPSHOT_NAME';
+
+export class WorkspaceSnapshotError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: WorkspaceSnapshotErrorCode
+  ) {
+    super(message);
+    this.name = 'WorkspaceSnapshotError';
+  }
+
+  static isWorkspaceSnapshotError(error: unknown): error is WorkspaceSnapshotError {
+    return error instanceof WorkspaceSnapshotError;
+  }
+}
+
+export function createSnapshotId(now: Date = new Date()): string {
+  return `snapshot-${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function validateSnapshotName(name: unknown, fallback: string): string {
+  if (name === undefined || name === null || name === '') {
+    return fallback;
+  }
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 100) {
+    throw new WorkspaceSnapshotError('Snapshot name must be 1-100 characters', 400, 'INVALID_SNAPSHOT_NAME');
+  }
+  return name.trim();
+}
+
+/**
+ * New snapshot record for a workspace, archived by WorkspaceSnapshots.capture
+ */
+export function createWorkspaceSnapshot(workspace: UserWorkspace, name: string, now: Date = new Date()): WorkspaceSnapshot {
+  const id = createSnapshotId(now);
+
+  return {
+    id,
+    name,
+    sourceSandboxId: workspace.sandboxId,
+    status: 'creating',
+    archivePath: `${SNAPSHOT_MOUNT_PATH}/${id}.tar.gz`,
+    statusPath: `${SNAPSHOT_MOUNT_PATH}/${id}.status`,
+    repositories: workspace.repositories.map(repository => {
+      const restorable = { ...repository };
+      delete restorable.serviceUrls;
+      delete restorable.tokens;
+      return restorable;
+    }),
+    image: workspace.image,
+    resourceProfile: workspace.resourceProfile,
+    resources: workspace.resources,
+    createdAt: now.toISOString()
+  };
+}
+
+/**
+ * Archive the snapshot paths that exist under rootDir
+ * Written straight to its final path: the volume is object storage and can't rename files
+ */
+export function generateArchiveCommand(rootDir: string, archivePath: string): string {
+  const paths = SNAPSHOT_PATHS.map(path => `"${path}"`).join(' ');
+  const excludes = SNAPSHOT_EXCLUDES.map(path => `--exclude="${path}"`).join(' ');
+
+  return `cd "${rootDir}" && paths=$(for p in ${paths}; do [ -e "$p" ] && echo "$p"; done; true) && tar -czf "${archivePath}" ${excludes} $paths && stat -c %s "${archivePath}"`;
+}
+
+/**
+ * Run the archive in the background, outliving the request that started it, and write
+ * "<exit code>" and its output to statusPath when done (in one write, see above)
+ */
+export function generateBackgroundArchiveCommand(rootDir: string, archivePath: string, statusPath: string): string {
+  const scriptPath = `/tmp/agentsos-${statusPath.split('/').pop()}.sh`;
+  const script = `#!/bin/bash
+output=$({ ${generateArchiveCommand(rootDir, archivePath)}; } 2>&1)
+code=$?
+{ echo "$code"; echo "$output"; } > "${statusPath}"`;
+
+  return `${TmuxScriptGenerator.generateScriptCreationCommand(script, scriptPath)} && nohup ${scriptPath} > /dev/null 2>&1 &`;
+}
+
+/**
+ * Parse the status file written by generateBackgroundArchiveCommand, null while still archiving
+ */
+export function parseArchiveStatus(output: string): { exitCode: number; result: string } | null {
+  const [code, ...result] = output.split('\n');
+  if (!/^\d+$/.test(code.trim())) {
+    return null;
+  }
+  return { exitCode: Number(code), result: result.join('\n').trim() };
+}
+
+/**
+ * Snapshots stuck in creating for longer than the archive may run are reported as failed
+ */
+export function expireStaleSnapshot(snapshot: WorkspaceSnapshot, now: Date = new Date()): WorkspaceSnapshot {
+  if (snapshot.status !== 'creating' || now.getTime() - new Date(snapshot.createdAt).getTime() < SNAPSHOT_STALE_AFTER_MS) {
+    return snapshot;
+  }
+  return { ...snapshot, status: 'failed', error: 'Snapshot did not finish in time' };
+}
+
+/**
+ * Give the restored repositories the custom terminals of the snapshot repository with the
+ * same name, on ports that are free next to the new sandbox's service ports
+ */
+export function restoreCustomTerminals(snapshot: WorkspaceSnapshot, repositories: Repository[]): Repository[] {
+  const unavailablePorts = PortManager.getAssignedPorts(repositories);
+
+  return repositories.map(repository => {
+    const terminals = snapshot.repositories.find(candidate => candidate.name === repository.name)?.customTerminals;
+    if (!terminals?.length) return repository;
+
+    return {
+      ...repository,
+      customTerminals: terminals.map(terminal => {
+        const port = PortManager.findFreePort(unavailablePorts, CUSTOM_TERMINAL_PORT_RANGE);
+        unavailablePorts.add(port);
+        return { ...terminal, port };
+      })
+    };
+  });
+}
+
+export function generateExtractCommand(rootDir: string, archivePath: string): string {
+  return `test -f "${archivePath}" && tar -xzf "${archivePath}" -C "${rootDir}"`;
+}
+
+export function generateGlobalPackagesCommand(): string {
+  return 'npm ls -g --depth=0 --json 2>/dev/null || true';
+}
+
+/**
+ * Parse `npm ls -g --json` into name → version, leaving out npm itself
+ */
+export function parseGlobalPackages(output: string): Record<string, string> {
+  try {
+    const dependencies: Record<string, { version?: string }> = JSON.parse(output).dependencies ?? {};
+    return Object.fromEntries(
+      Object.entries(dependencies)
+        .filter(([name, { version }]) => name !== 'npm' && typeof version === 'string')
+        .map(([name, { version }]) => [name, version as string])
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function generateInstallGlobalPackagesCommand(packages: Record<string, string>): string | null {
+  const specs = Object.entries(packages).map(([name, version]) => `"${name}@${version}"`);
+  return specs.length > 0 ? `npm install -g ${specs.join(' ')}` : null;
+}
+
+/**
+ * Sandbox-side snapshot operations
+ */
+export class WorkspaceSnapshots {
+  private logger = logger;
+
+  constructor(private sandbox: Sandbox, private rootDir: string) {}
+
+  private hasSnapshotVolume(): boolean {
+    return this.sandbox.volumes?.some(volume => volume.mountPath === SNAPSHOT_MOUNT_PATH) ?? false;
+  }
+
+  /**
+   * Start archiving the sandbox into the snapshot volume, in the background since it can
+   * take longer than a request may run. Returns the snapshot, still creating; see checkCapture.
+   */
+  async capture(snapshot: WorkspaceSnapshot): Promise<WorkspaceSnapshot> {
+    if (!this.hasSnapshotVolume()) {
+      throw new WorkspaceSnapshotError(
+        'This sandbox was created before snapshots were available. Create a new sandbox to take snapshots.',
+        409,
+        'SNAPSHOT_VOLUME_NOT_MOUNTED'
+      );
+    }
+
+    this.logger.info(`Creating snapshot ${snapshot.id} of ${snapshot.sourceSandboxId}`);
+    const globalPackages = parseGlobalPackages(
+      (await this.sandbox.process.executeCommand(generateGlobalPackagesCommand(), this.rootDir)).result
+    );
+
+    const statusPath = snapshot.statusPath ?? `${SNAPSHOT_MOUNT_PATH}/${snapshot.id}.status`;
+    const result = await this.sandbox.process.executeCommand(
+      generateBackgroundArchiveCommand(this.rootDir, snapshot.archivePath, statusPath),
+      this.rootDir
+    );
+    if (result.exitCode !== 0) {
+      throw new WorkspaceSnapshotError(`Failed to archive sandbox: ${result.result.trim()}`, 500, 'SNAPSHOT_FAILED');
+    }
+
+    return { ...snapshot, statusPath, globalPackages };
+  }
+
+  /**
+   * Finish a snapshot whose archive has ended, null while it is still running
+   */
+  async checkCapture(snapshot: WorkspaceSnapshot): Promise<WorkspaceSnapshot | null> {
+    if (snapshot.status !== 'creating' || !snapshot.statusPath) {
+      return null;
+    }
+
+    const output = await this.sandbox.process.executeCommand(`cat "${snapshot.statusPath}" 2>/dev/null || true`, this.rootDir);
+    const status = parseArchiveStatus(output.result);
+    if (!status) {
+      return null;
+    }
+
+    if (status.exitCode !== 0) {
+      return { ...snapshot, status: 'failed', error: `Failed to archive sandbox: ${status.result}` };
+    }
+    return {
+      ...snapshot,
+      status: 'ready',
+      sizeBytes: Number(status.result.split('\n').pop()) || undefined
+    };
+  }
+
+  /**
+   * Unpack a snapshot into the sandbox's home and reinstall its global npm packages
+   */
+  async restore(snapshot: WorkspaceSnapshot): Promise<void> {
+    const result = await this.sandbox.process.executeCommand(
+      generateExtractCommand(this.rootDir, snapshot.archivePath),
+      this.rootDir,
+      undefined,
+      SNAPSHOT_COMMAND_TIMEOUT_SECONDS
+    );
+    if (result.exitCode !== 0) {
+      throw new WorkspaceSnapshotError(`Failed to restore snapshot ${snapshot.name}`, 500, 'SNAPSHOT_FAILED');
+    }
+
+    const installCommand = generateInstallGlobalPackagesCommand(snapshot.globalPackages ?? {});
+    if (installCommand) {
+      const install = await this.sandbox.process.executeCommand(installCommand, this.rootDir);
+      if (install.exitCode !== 0) {
+        // The CLIs installed by the workspace installer still work, just not at the snapshot's versions
+        this.logger.warn(`Failed to reinstall global packages from snapshot ${snapshot.id}`);
+      }
+    }
+  }
+}
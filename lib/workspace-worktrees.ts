@@ -0,0 +1,209 @@
+/**
+ * Git worktrees - a second checkout of a repository on its own branch
+ *
+ * A worktree lives next to its repository under projects/ and is added to the workspace
+ * as a repository of its own, so it gets its own ports, tmux sessions and agents. That
+ * lets two agents work on separate branches of one repository without sharing files.
+ */
+
+import type { Sandbox } from '@daytonaio/sdk';
+import type { Repository } from '@/types/workspace';
+import { logger } from './logger';
+import { PortManager } from './port-manager';
+import { GIT_REF_PATTERN } from './repository-clone';
+import { validateRepositoryName } from './workspace-files';
+
+// git worktree add checks out every file, which takes a while on large repositories
+const WORKTREE_COMMAND_TIMEOUT_SECONDS = 5 * 60;
+
+export type WorkspaceWorktreeErrorCode =
+  | 'REPOSITORY_NOT_FOUND'
+  | 'INVALID_BRANCH'
+  | 'NOT_A_WORKTREE'
+  | 'WORKTREE_EXISTS'
+  | 'UNCOMMITTED_CHANGES'
+  | 'MERGE_CONFLICT'
+  | 'WORKTREE_FAILED';
+
+export class WorkspaceWorktreeError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: WorkspaceWorktreeErrorCode,
+    public details?: string,
+    public files?: string[]
+  ) {
+    super(message);
+    this.name = 'WorkspaceWorktreeError';
+  }
+
+  static isWorkspaceWorktreeError(error: unknown): error is WorkspaceWorktreeError {
+    return error instanceof WorkspaceWorktreeError;
+  }
+}
+
+export interface WorktreeMergeResult {
+  into: string;      // Branch of the parent repository the worktree was merged into
+  output: string;
+}
+
+export function validateWorktreeBranch(branch: unknown): string {
+  if (typeof branch !== 'string' || !GIT_REF_PATTERN.test(branch) || branch.includes('..') || branch.endsWith('/')) {
+    throw new WorkspaceWorktreeError(`Invalid branch name: ${String(branch)}`, 400, 'INVALID_BRANCH');
+  }
+  return branch;
+}
+
+/**
+ * Directory name of a worktree under projects/, e.g. api--feature-login
+ */
+export function getWorktreeName(parent: string, branch: string): string {
+  return `${parent}--${branch.replace(/[^A-Za-z0-9._-]+/g, '-')}`;
+}
+
+/**
+ * Workspace repository entry for a new worktree, on ports outside `unavailablePorts`
+ */
+export function createWorktreeRepository(
+  parent: Repository,
+  branch: string,
+  baseBranch: string,
+  repositories: Repository[],
+  unavailablePorts: Set<number>,
+  now: number = Date.now()
+): Repository {
+  const name = getWorktreeName(parent.name, branch);
+  if (repositories.some(repository => repository.name === name)) {
+    throw new WorkspaceWorktreeError(`A worktree for ${branch} already exists: ${name}`, 409, 'WORKTREE_EXISTS');
+  }
+
+  const slot = repositories.length;
+
+  return {
+    id: `repo-${now}-${slot}`,
+    url: parent.url,
+    name,
+    description: `Worktree of ${parent.name} on ${branch}`,
+    sourceType: parent.sourceType,
+    branch,
+    ports: PortManager.allocatePorts(slot, new Set(unavailablePorts)),
+    worktree: { parent: parent.name, branch, baseBranch }
+  };
+}
+
+/**
+ * Worktrees of a repository, which have to go before the repository itself can
+ */
+export function getWorktrees(repositories: Repository[], parent: string): Repository[] {
+  return repositories.filter(repository => repository.worktree?.parent === parent);
+}
+
+/**
+ * Sandbox-side worktree operations, run from the parent repository
+ */
+export class WorkspaceWorktrees {
+  private logger = logger;
+
+  constructor(private sandbox: Sandbox, private rootDir: string) {}
+
+  private getPath(repository: string): string {
+    return `${this.rootDir}/projects/${validateRepositoryName(repository)}`;
+  }
+
+  private async run(repository: string, command: string, timeout?: number) {
+    return this.sandbox.process.executeCommand(command, this.getPath(repository), undefined, timeout);
+  }
+
+  /**
+   * Branch the repository has checked out, or the short commit hash when detached
+   */
+  async getCurrentBranch(repository: string): Promise<string> {
+    const head = await this.run(repository, 'git symbolic-ref --short -q HEAD || git rev-parse --short HEAD');
+    if (head.exitCode !== 0) {
+      throw new WorkspaceWorktreeError(`Repository "${repository}" is not a git repository`, 404, 'REPOSITORY_NOT_FOUND');
+    }
+    return head.result.trim();
+  }
+
+  /**
+   * Check out `branch` in a new worktree `name`, creating the branch from `baseBranch`
+   * unless it already exists
+   */
+  async create(parent: string, name: string, branch: string, baseBranch: string): Promise<void> {
+    const exists = await this.run(parent, `git show-ref --verify --quiet "refs/heads/${branch}"`);
+    const command = exists.exitCode === 0
+      ? `git worktree add "../${validateRepositoryName(name)}" "${branch}"`
+      : `git worktree add -b "${branch}" "../${validateRepositoryName(name)}" "${baseBranch}"`;
+
+    this.logger.info(`Creating worktree ${name} of ${parent} on ${branch}`);
+    const result = await this.run(parent, command, WORKTREE_COMMAND_TIMEOUT_SECONDS);
+    if (result.exitCode !== 0) {
+      // e.g. the branch is already checked out in the parent or another worktree
+      throw new WorkspaceWorktreeError(`Failed to create worktree for ${branch}`, 409, 'WORKTREE_FAILED', result.result.trim());
+    }
+  }
+
+  /**
+   * Merge the worktree's branch into whatever the parent repository has checked out
+   * A conflicting merge is aborted so the parent is left as it was
+   */
+  async merge(worktree: Repository): Promise<WorktreeMergeResult> {
+    if (!worktree.worktree) {
+      throw new WorkspaceWorktreeError(`${worktree.name} is not a worktree`, 400, 'NOT_A_WORKTREE');
+    }
+    const { parent, branch } = worktree.worktree;
+
+    const changes = await this.run(worktree.name, 'git status --porcelain');
+    if (changes.exitCode === 0 && changes.result.trim()) {
+      throw new WorkspaceWorktreeError(
+        `${worktree.name} has uncommitted changes. Commit them before merging.`,
+        409,
+        'UNCOMMITTED_CHANGES'
+      );
+    }
+
+    const head = await this.run(parent, 'git symbolic-ref --short -q HEAD');
+    const result = await this.run(parent, `git merge --no-ff --no-edit "${branch}"`, WORKTREE_COMMAND_TIMEOUT_SECONDS);
+    if (result.exitCode !== 0) {
+      const files = [...result.result.matchAll(/^CONFLICT \([^)]*\): .* in (.+)$/gm)].map(match => match[1].trim());
+      await this.run(parent, 'git merge --abort 2>/dev/null; true');
+      throw files.length > 0
+        ? new WorkspaceWorktreeError(`Merging ${branch} into ${parent} conflicts. Resolve it in a terminal.`, 409, 'MERGE_CONFLICT', result.result.trim(), files)
+        : new WorkspaceWorktreeError(`Failed to merge ${branch} into ${parent}`, 500, 'WORKTREE_FAILED', result.result.trim());
+    }
+
+    this.logger.info(`Merged worktree ${worktree.name} into ${parent}`);
+    return { into: head.result.trim() || 'HEAD', output: result.result.trim() };
+  }
+
+  /**
+   * Remove the worktree's directory, and its branch when asked to
+   * Uncommitted changes are only thrown away with force
+   */
+  async remove(worktree: Repository, options: { force: boolean; deleteBranch: boolean }): Promise<{ branchDeleted: boolean }> {
+    if (!worktree.worktree) {
+      throw new WorkspaceWorktreeError(`${worktree.name} is not a worktree`, 400, 'NOT_A_WORKTREE');
+    }
+    const { parent, branch } = worktree.worktree;
+
+    const result = await this.run(
+      parent,
+      `git worktree remove${options.force ? ' --force' : ''} "../${validateRepositoryName(worktree.name)}"`
+    );
+    if (result.exitCode !== 0) {
+      throw /modified or untracked files/.test(result.result)
+        ? new WorkspaceWorktreeError(`${worktree.name} has uncommitted changes`, 409, 'UNCOMMITTED_CHANGES', result.result.trim())
+        : new WorkspaceWorktreeError(`Failed to remove worktree ${worktree.name}`, 500, 'WORKTREE_FAILED', result.result.trim());
+    }
+
+    if (!options.deleteBranch) {
+      return { branchDeleted: false };
+    }
+    // Unmerged branches are only deleted with force too
+    const deleted = await this.run(parent, `git branch ${options.force ? '-D' : '-d'} "${branch}"`);
+    if (deleted.exitCode !== 0) {
+      this.logger.warn(`Kept branch ${branch} of ${parent}`, { output: deleted.result.trim() });
+    }
+    return { branchDeleted: deleted.exitCode === 0 };
+  }
+}
@@ -1,4 +1,5 @@
 import type { EncryptedValue } from '@/lib/encryption';
+import type { EnvSyncTarget } from '@/lib/env-sync-targets';
 
 /**
  * Simple environment collection structure
@@ -8,6 +9,9 @@ export interface UserEnvironment {
   userId: string;
   daytonaApiKey: EncryptedValue;
   projects: Record<string, ProjectEnvironment>; // projectName -> env vars
+  global?: ProjectEnvironment;                   // Inherited by every project
+  branches?: Record<string, Record<string, ProjectEnvironment>>; // projectName -> branch -> overrides
+  syncTargets?: Record<string, EnvSyncTarget[]>;                 // projectName -> files a sync writes
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,6 +31,9 @@ export interface FirebaseUserEnvironment {
   userId: string;
   daytonaApiKey: EncryptedValue;
   projects: Record<string, ProjectEnvironment>;
+  global?: ProjectEnvironment;
+  branches?: Record<string, Record<string, ProjectEnvironment>>;
+  syncTargets?: Record<string, EnvSyncTarget[]>;
   createdAt: FirebaseFirestore.Timestamp;
   updatedAt: FirebaseFirestore.Timestamp;
 }
\ No newline at end of file
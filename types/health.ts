@@ -1,3 +1,6 @@
+import type { ServiceRestartStats } from '../lib/service-supervisor';
+import type { WorkspaceService } from '../lib/workspace-constants';
+
 export interface ServiceStatus {
   service: string;
   port: number;
@@ -5,6 +8,9 @@ export interface ServiceStatus {
   pid?: number;
   url?: string;
   error?: string;
+  restarts?: ServiceRestartStats;
+  repository?: string;
+  serviceId?: WorkspaceService;
 }
 
 export interface HealthCheckResponse {
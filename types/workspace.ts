@@ -19,24 +19,25 @@ export interface TerminalTab {
 }
 
 import { SandboxState } from '@daytonaio/sdk';
+import type { AgentId } from '@/lib/agent-registry';
+import type { WorkspaceService } from '@/lib/workspace-constants';
+import type { ResourceProfileId, WorkspaceImageId, WorkspaceResources } from '@/lib/workspace-defaults';
+import type { WorkspaceIdlePolicy } from '@/lib/workspace-idle';
+import type { RepositoryCloneSpec } from '@/lib/repository-clone';
+
+// Per-service values for a repository, keyed by WORKSPACE_SERVICES (vscode, terminal and each agent)
+export type ServicePorts = Record<WorkspaceService, number>;
+export type ServiceUrls = Record<WorkspaceService, string>;
+export type ServiceTokens = Record<WorkspaceService, string | null>;
 
 export interface RepositoryWithUrls {
   url: string;
   name: string;
   description?: string;
   tech?: string;
-  urls: {
-    vscode: string;
-    terminal: string;
-    claude: string;
-    gemini: string;
-  };
-  tokens?: {
-    vscode: string | null;
-    terminal: string | null;
-    claude: string | null;
-    gemini: string | null;
-  };
+  branch?: string;
+  urls: ServiceUrls;
+  tokens?: ServiceTokens;
 }
 
 export interface CreateWorkspaceResponse {
@@ -77,6 +78,23 @@ export interface WorkspaceViewProps {
   onViewModeChange?: (mode: ViewMode) => void;
 }
 
+// User-defined command with its own tmux session and ttyd port (e.g. `npm run dev`)
+export interface CustomTerminal {
+  id: string;        // Unique per repository, used in the tmux session name
+  name: string;
+  command: string;
+  port: number;
+  icon?: string;     // Emoji shown in the dock
+  previewPort?: number;   // Port the command serves, e.g. a dev server, when declared in agentsos.yaml
+}
+
+// Git worktree of another repository, checked out next to it under projects/
+export interface RepositoryWorktree {
+  parent: string;        // Name of the repository the worktree belongs to
+  branch: string;        // Branch checked out in the worktree
+  baseBranch: string;    // Branch it was created from, usually where it is merged back
+}
+
 // Simple multi-repository support
 export interface Repository {
   id: string;
@@ -84,31 +102,30 @@ export interface Repository {
   name: string;
   description?: string;
   sourceType: 'default' | 'github' | 'manual';
-  ports: {
-    vscode: number;    // 8080+
-    terminal: number;  // 10000+  
-    claude: number;    // 4000+
-    gemini: number;    // 5000+
-  };
+  branch?: string;       // Cloned at this branch, the default branch when unset
+  ports: ServicePorts;   // See SERVICE_PORT_RANGES
   // Service URLs from Daytona
-  serviceUrls?: {
-    vscode: string;
-    terminal: string;
-    claude: string;
-    gemini: string;
-  };
+  serviceUrls?: ServiceUrls;
   // Preview tokens for accessing private workspaces
-  tokens?: {
-    vscode: string | null;
-    terminal: string | null;
-    claude: string | null;
-    gemini: string | null;
-  };
+  tokens?: ServiceTokens;
+  // User-defined terminal apps for this repository
+  customTerminals?: CustomTerminal[];
+  worktree?: RepositoryWorktree;   // Set when this repository is a worktree of another one
 }
 
+// Repository cloned when a workspace is created, with the clone options of the provision API
+export type RepositoryToClone = Repository & Omit<RepositoryCloneSpec, 'url' | 'branch'>;
+
 export interface UserWorkspace {
   id: string;
   sandboxId: string;
+  name?: string;         // Shown in the sandbox picker, e.g. per client or experiment
+  // Chosen at creation, see WORKSPACE_RESOURCE_PROFILES and WORKSPACE_IMAGES
+  resourceProfile?: ResourceProfileId;
+  resources?: WorkspaceResources;
+  image?: WorkspaceImageId;
+  idlePolicy?: WorkspaceIdlePolicy;   // Idle auto-stop and work hours, off when unset
+  agents?: AgentId[];    // Agents installed and started, every registered agent when unset
   repositories: Repository[];
   status: 'creating' | 'running' | 'stopped' | 'error';
   createdAt: Date;